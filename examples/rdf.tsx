@@ -1,5 +1,4 @@
 import * as React from 'react';
-import * as N3 from 'n3';
 
 import * as Reactodia from '../src/workspace';
 
@@ -22,9 +21,9 @@ function RdfExample() {
         const {model, editor} = context;
         editor.setAuthoringMode(true);
 
-        const dataProvider = new Reactodia.RdfDataProvider();
+        const dataProvider = new Reactodia.RdfDataProvider({textIndex: true});
         try {
-            dataProvider.addGraph(new N3.Parser().parse(turtleData));
+            await dataProvider.addSerializedGraph(turtleData, {format: 'text/turtle', signal});
         } catch (err) {
             throw new Error('Error parsing RDF graph data', {cause: err});
         }
@@ -32,6 +32,26 @@ export function multimapDelete<K, V>(map: BasicMap<K, Set<V>>, key: K, value: V)
     }
 }
 
+/**
+ * Collects all items reachable from the start ones (including themselves)
+ * by following the edges transitively.
+ */
+export function collectClosure<T>(start: Iterable<T>, edges: ReadonlyMap<T, ReadonlySet<T>>): Set<T> {
+    const result = new Set<T>();
+    const queue = Array.from(start);
+    while (queue.length > 0) {
+        const item = queue.pop()!;
+        if (!result.has(item)) {
+            result.add(item);
+            const next = edges.get(item);
+            if (next) {
+                queue.push(...next);
+            }
+        }
+    }
+    return result;
+}
+
 /**
  * Returns `true` if two arrays has equal elements (compared via `===`)
  * and in the same order, otherwise returns `false`.
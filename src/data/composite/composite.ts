@@ -1,11 +1,16 @@
+import { AbortScope, raceAbortSignal } from '../../coreUtils/async';
+
+import type { DecoratedMethodName } from '../decorated/decoratedDataProvider';
 import * as Rdf from '../rdf/rdfModel';
 import {
     DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderChangeListener,
 } from '../provider';
 import {
-    ElementTypeModel, ElementTypeGraph, LinkTypeModel, ElementModel, LinkModel, PropertyTypeModel,
-    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
+    ElementTypeModel, ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
 } from '../model';
+import { getErrorResponse } from '../utils';
 import {
     CompositeResponse,
     mergeKnownElementTypes,
@@ -17,6 +22,8 @@ import {
     mergeLinksInfo,
     mergeConnectedLinkStats,
     mergeLookup,
+    getPartialFailure,
+    setPartialFailure,
 } from './mergeUtils';
 
 /**
@@ -29,6 +36,29 @@ export interface CompositeDataProviderOptions {
      * Base data providers to combine result data from.
      */
     providers: ReadonlyArray<DataProviderDefinition>;
+    /**
+     * Default timeout in milliseconds for a request to each combined provider.
+     *
+     * Can be overridden for a specific provider via {@link DataProviderDefinition.timeout}.
+     *
+     * By default, requests to the providers are not limited in time.
+     */
+    readonly timeout?: number;
+    /**
+     * Whether to return merged results only from the providers which
+     * successfully responded to a request ("best effort" mode)
+     * instead of failing the whole request if any of the providers fails.
+     *
+     * In this mode the request fails only if all providers failed to respond.
+     *
+     * @default false
+     */
+    readonly bestEffort?: boolean;
+    /**
+     * Handler for failures from some of the providers when a request
+     * nevertheless succeeds in the {@link bestEffort "best effort"} mode.
+     */
+    readonly onPartialFailure?: (error: CompositeRequestError) => void;
 }
 
 /**
@@ -45,19 +75,162 @@ export interface DataProviderDefinition {
      * Data provider to combine data from.
      */
     readonly provider: DataProvider;
+    /**
+     * Timeout in milliseconds for a request to the provider.
+     *
+     * When a request times out, it is aborted and considered failed.
+     *
+     * @default CompositeDataProviderOptions.timeout
+     */
+    readonly timeout?: number;
+    /**
+     * Routing rules to restrict which element, element type, link type and property type
+     * IRIs are requested from the provider.
+     *
+     * When specified, requests for specific entities or types are sent to the provider
+     * only with IRIs matching the rules and skipped entirely if no requested IRIs match:
+     *   - {@link DataProvider.elements elements()},
+     *     {@link DataProvider.elementTypes elementTypes()},
+     *     {@link DataProvider.linkTypes linkTypes()},
+     *     {@link DataProvider.propertyTypes propertyTypes()} are requested only for matching IRIs;
+     *   - {@link DataProvider.links links()} is requested only if any of
+     *     primary or secondary elements match;
+     *   - {@link DataProvider.connectedLinkStats connectedLinkStats()} is requested
+     *     only if the target element matches;
+     *   - {@link DataProvider.lookup lookup()} is requested only if the
+     *     {@link DataProviderLookupParams.refElementId reference element},
+     *     {@link DataProviderLookupParams.refElementLinkId reference link type} and
+     *     {@link DataProviderLookupParams.elementTypeId element type}
+     *     (if specified) match.
+     *
+     * By default, all requests are sent to the provider.
+     */
+    readonly routing?: DataProviderRouting;
+}
+
+/**
+ * Routing rules for a combined data provider: either a list of IRI prefixes
+ * and regular expressions (an IRI matches if it matches any of the rules)
+ * or a predicate to check if an IRI should be requested from the provider.
+ *
+ * **Example**:
+ * ```ts
+ * const definition: DataProviderDefinition = {
+ *     name: 'wikidata',
+ *     provider: wikidataProvider,
+ *     routing: ['http://www.wikidata.org/entity/', /^http:\/\/www\.wikidata\.org\/prop\//],
+ * };
+ * ```
+ *
+ * @see {@link DataProviderDefinition.routing}
+ */
+export type DataProviderRouting =
+    | ReadonlyArray<string | RegExp>
+    | ((iri: string) => boolean);
+
+/**
+ * Describes a failure of a combined provider to respond to a request.
+ *
+ * @see {@link CompositeRequestError}
+ */
+export interface CompositeProviderFailure {
+    /**
+     * Definition of the combined provider which failed.
+     */
+    readonly provider: DataProviderDefinition;
+    /**
+     * The reason why the request to the provider failed (the thrown exception).
+     */
+    readonly error: unknown;
+    /**
+     * Whether the request to the provider has been aborted due to timeout.
+     */
+    readonly timeout: boolean;
+}
+
+/**
+ * Error with a report of which combined providers failed a request
+ * to the {@link CompositeDataProvider}.
+ *
+ * @category Data
+ */
+export class CompositeRequestError extends Error {
+    /**
+     * Data provider method of the failed request.
+     */
+    readonly method: DecoratedMethodName;
+    /**
+     * Failures from each combined provider which failed the request.
+     */
+    readonly failures: ReadonlyArray<CompositeProviderFailure>;
+    /**
+     * HTTP response from the first failed provider request which has one
+     * (i.e. its error has `response` property), e.g. to decide
+     * whether to retry the request.
+     */
+    readonly response: Response | undefined;
+
+    constructor(method: DecoratedMethodName, failures: ReadonlyArray<CompositeProviderFailure>) {
+        const names = failures.map(failure => `"${failure.provider.name}"`).join(', ');
+        super(
+            `Failed to request ${method}() from data providers: ${names}`,
+            {cause: failures.length > 0 ? failures[0].error : undefined}
+        );
+        this.name = 'CompositeRequestError';
+        this.method = method;
+        this.failures = failures;
+        this.response = undefined;
+        for (const failure of failures) {
+            const response = getErrorResponse(failure.error);
+            if (response) {
+                this.response = response;
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Returns a report of which combined providers failed a request if the result
+ * was returned by {@link CompositeDataProvider} in the
+ * {@link CompositeDataProviderOptions.bestEffort "best effort" mode}
+ * with data only from the rest of the providers.
+ *
+ * @category Data
+ */
+export function getCompositePartialFailure(result: unknown): CompositeRequestError | undefined {
+    return getPartialFailure(result);
 }
 
 /**
  * Provides graph data by combining results from multiple other data providers.
  *
+ * If any of the providers fails to respond to a request, the request is failed
+ * with {@link CompositeRequestError} which describes the failed providers,
+ * unless {@link CompositeDataProviderOptions.bestEffort "best effort" mode} is enabled.
+ * In that mode, the failures for a partial result are available via
+ * {@link getCompositePartialFailure}.
+ *
  * @category Data
  */
 export class CompositeDataProvider implements DataProvider {
     readonly providers: ReadonlyArray<DataProviderDefinition>;
+    private readonly routes = new Map<DataProviderDefinition, (iri: string) => boolean>();
+    private readonly timeout: number | undefined;
+    private readonly bestEffort: boolean;
+    private readonly onPartialFailure: ((error: CompositeRequestError) => void) | undefined;
 
     constructor(options: CompositeDataProviderOptions) {
-        const {providers} = options;
+        const {providers, timeout, bestEffort = false, onPartialFailure} = options;
         this.providers = providers;
+        this.timeout = timeout;
+        this.bestEffort = bestEffort;
+        this.onPartialFailure = onPartialFailure;
+        for (const definition of providers) {
+            if (definition.routing) {
+                this.routes.set(definition, compileRouting(definition.routing));
+            }
+        }
     }
 
     get factory(): Rdf.DataFactory {
@@ -79,44 +252,162 @@ export class CompositeDataProvider implements DataProvider {
         return merged;
     }
 
+    /**
+     * Requests data from each provider (with respect to routing and timeouts)
+     * and merges the results, failing the request or returning a partial result
+     * depending on the {@link CompositeDataProviderOptions.bestEffort "best effort" mode}.
+     */
+    private async requestRoutedWithMerge<P extends { signal?: AbortSignal }, R>(
+        method: DecoratedMethodName,
+        params: P,
+        request: (provider: DataProvider, params: P) => Promise<R>,
+        merge: (results: Array<CompositeResponse<R>>) => R,
+        route?: (params: P, matches: (iri: string) => boolean) => P | undefined
+    ): Promise<R> {
+        const requests: Array<Promise<RequestOutcome<R>>> = [];
+        for (const definition of this.providers) {
+            const matches = this.routes.get(definition);
+            const routedParams = route && matches ? route(params, matches) : params;
+            if (!routedParams) {
+                continue;
+            }
+            requests.push(this.requestFromProvider(definition, routedParams, request).then(
+                (result): RequestOutcome<R> => ({type: 'success', result, definition}),
+                (error): RequestOutcome<R> => ({type: 'failure', error, definition})
+            ));
+        }
+        const outcomes = await Promise.all(requests);
+
+        params.signal?.throwIfAborted();
+
+        const results: Array<CompositeResponse<R>> = [];
+        const failures: CompositeProviderFailure[] = [];
+        for (const outcome of outcomes) {
+            if (outcome.type === 'success') {
+                results.push([outcome.result, outcome.definition]);
+            } else {
+                failures.push({
+                    provider: outcome.definition,
+                    error: outcome.error,
+                    timeout: outcome.error instanceof ProviderTimeoutError,
+                });
+            }
+        }
+
+        let partialFailure: CompositeRequestError | undefined;
+        if (failures.length > 0) {
+            const error = new CompositeRequestError(method, failures);
+            if (!this.bestEffort || results.length === 0) {
+                throw error;
+            }
+            this.onPartialFailure?.(error);
+            partialFailure = error;
+        }
+
+        const merged = merge(results);
+        if (partialFailure) {
+            setPartialFailure(merged, partialFailure);
+        }
+        return merged;
+    }
+
+    private async requestFromProvider<P extends { signal?: AbortSignal }, R>(
+        definition: DataProviderDefinition,
+        params: P,
+        request: (provider: DataProvider, params: P) => Promise<R>
+    ): Promise<R> {
+        const timeout = definition.timeout ?? this.timeout;
+        if (timeout === undefined) {
+            return request(definition.provider, params);
+        }
+        const scope = new AbortScope(params.signal);
+        let timedOut = false;
+        const timeoutId = setTimeout(() => {
+            timedOut = true;
+            scope.abort();
+        }, timeout);
+        try {
+            return await raceAbortSignal(
+                request(definition.provider, {...params, signal: scope.signal}),
+                scope.signal
+            );
+        } catch (err) {
+            if (timedOut) {
+                throw new ProviderTimeoutError(definition, timeout);
+            }
+            throw err;
+        } finally {
+            clearTimeout(timeoutId);
+            scope.abort();
+        }
+    }
+
     knownElementTypes(params: {
         signal?: AbortSignal;
     }): Promise<ElementTypeGraph> {
-        return this.requestWithMerge(p => p.knownElementTypes(params), mergeKnownElementTypes);
+        return this.requestRoutedWithMerge(
+            'knownElementTypes', params, (p, params) => p.knownElementTypes(params), mergeKnownElementTypes
+        );
     }
 
     knownLinkTypes(params: {
         signal?: AbortSignal;
-    }): Promise<LinkTypeModel[]> {
-        return this.requestWithMerge(p => p.knownLinkTypes(params), mergeKnownLinkTypes);
+    }): Promise<LinkTypeGraph> {
+        return this.requestRoutedWithMerge(
+            'knownLinkTypes', params, (p, params) => p.knownLinkTypes(params), mergeKnownLinkTypes
+        );
     }
 
     elementTypes(params: {
         classIds: ReadonlyArray<ElementTypeIri>;
         signal?: AbortSignal;
     }): Promise<Map<ElementTypeIri, ElementTypeModel>> {
-        return this.requestWithMerge(p => p.elementTypes(params), mergeElementTypes);
+        return this.requestRoutedWithMerge(
+            'elementTypes', params, (p, params) => p.elementTypes(params), mergeElementTypes,
+            (params, matches) => {
+                const classIds = params.classIds.filter(matches);
+                return classIds.length > 0 ? {...params, classIds} : undefined;
+            }
+        );
     }
 
     propertyTypes(params: {
         propertyIds: ReadonlyArray<PropertyTypeIri>;
         signal?: AbortSignal;
     }): Promise<Map<PropertyTypeIri, PropertyTypeModel>> {
-        return this.requestWithMerge(p => p.propertyTypes(params), mergePropertyTypes);
+        return this.requestRoutedWithMerge(
+            'propertyTypes', params, (p, params) => p.propertyTypes(params), mergePropertyTypes,
+            (params, matches) => {
+                const propertyIds = params.propertyIds.filter(matches);
+                return propertyIds.length > 0 ? {...params, propertyIds} : undefined;
+            }
+        );
     }
 
     linkTypes(params: {
         linkTypeIds: ReadonlyArray<LinkTypeIri>;
         signal?: AbortSignal;
     }): Promise<Map<LinkTypeIri, LinkTypeModel>> {
-        return this.requestWithMerge(p => p.linkTypes(params), mergeLinkTypes);
+        return this.requestRoutedWithMerge(
+            'linkTypes', params, (p, params) => p.linkTypes(params), mergeLinkTypes,
+            (params, matches) => {
+                const linkTypeIds = params.linkTypeIds.filter(matches);
+                return linkTypeIds.length > 0 ? {...params, linkTypeIds} : undefined;
+            }
+        );
     }
 
     elements(params: {
         elementIds: ReadonlyArray<ElementIri>;
         signal?: AbortSignal;
     }): Promise<Map<ElementIri, ElementModel>> {
-        return this.requestWithMerge(p => p.elements(params), mergeElementInfo);
+        return this.requestRoutedWithMerge(
+            'elements', params, (p, params) => p.elements(params), mergeElementInfo,
+            (params, matches) => {
+                const elementIds = params.elementIds.filter(matches);
+                return elementIds.length > 0 ? {...params, elementIds} : undefined;
+            }
+        );
     }
 
     links(params: {
@@ -125,7 +416,13 @@ export class CompositeDataProvider implements DataProvider {
         linkTypeIds?: ReadonlyArray<LinkTypeIri>;
         signal?: AbortSignal;
     }): Promise<LinkModel[]> {
-        return this.requestWithMerge(p => p.links(params), mergeLinksInfo);
+        return this.requestRoutedWithMerge(
+            'links', params, (p, params) => p.links(params), mergeLinksInfo,
+            (params, matches) => (
+                params.primary.some(matches) || params.secondary.some(matches)
+                    ? params : undefined
+            )
+        );
     }
 
     connectedLinkStats(params: {
@@ -133,10 +430,100 @@ export class CompositeDataProvider implements DataProvider {
         inexactCount?: boolean;
         signal?: AbortSignal;
     }): Promise<DataProviderLinkCount[]> {
-        return this.requestWithMerge(p => p.connectedLinkStats(params), mergeConnectedLinkStats);
+        return this.requestRoutedWithMerge(
+            'connectedLinkStats', params, (p, params) => p.connectedLinkStats(params), mergeConnectedLinkStats,
+            (params, matches) => matches(params.elementId) ? params : undefined
+        );
+    }
+
+    /**
+     * Looks up elements in each combined provider and merges the results.
+     *
+     * When paging via {@link DataProviderLookupParams.offset offset} with multiple
+     * providers, results from each provider are requested from the start up to the
+     * end of the requested page to be able to merge them consistently between pages.
+     *
+     * Merged results from multiple providers are sorted by the requested
+     * {@link DataProviderLookupParams.sortBy sort order} where relevance scores
+     * are normalized by the maximum score from each provider.
+     */
+    async lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
+        const {offset, limit} = params;
+        const sortBy = params.sortBy ?? (params.text ? 'relevance' : undefined);
+        const merge = (responses: CompositeResponse<DataProviderLookupItem[]>[]) =>
+            mergeLookup(responses, sortBy);
+        if (typeof offset !== 'number' || this.providers.length <= 1) {
+            return this.requestRoutedWithMerge(
+                'lookup', params, (p, params) => p.lookup(params), merge, routeLookup
+            );
+        }
+        const end = typeof limit === 'number' ? offset + limit : undefined;
+        const prefixParams: DataProviderLookupParams = {
+            ...params,
+            offset: 0,
+            limit: end === undefined ? limit : end,
+        };
+        const merged = await this.requestRoutedWithMerge(
+            'lookup', prefixParams, (p, params) => p.lookup(params), merge, routeLookup
+        );
+        const page = merged.slice(offset, end);
+        const partialFailure = getPartialFailure(merged);
+        if (partialFailure) {
+            setPartialFailure(page, partialFailure);
+        }
+        return page;
+    }
+
+    /**
+     * Subscribes to data changes from each combined provider
+     * which supports change notifications.
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        const unsubscribes: Array<() => void> = [];
+        for (const {provider} of this.providers) {
+            if (provider.subscribeChanges) {
+                unsubscribes.push(provider.subscribeChanges(listener));
+            }
+        }
+        return () => {
+            for (const unsubscribe of unsubscribes) {
+                unsubscribe();
+            }
+        };
     }
+}
+
+function compileRouting(routing: DataProviderRouting): (iri: string) => boolean {
+    if (typeof routing === 'function') {
+        return routing;
+    }
+    const prefixes = routing.filter((rule): rule is string => typeof rule === 'string');
+    const patterns = routing.filter((rule): rule is RegExp => rule instanceof RegExp);
+    return iri => (
+        prefixes.some(prefix => iri.startsWith(prefix)) ||
+        patterns.some(pattern => pattern.test(iri))
+    );
+}
+
+function routeLookup(
+    params: DataProviderLookupParams,
+    matches: (iri: string) => boolean
+): DataProviderLookupParams | undefined {
+    const {refElementId, refElementLinkId, elementTypeId} = params;
+    return (
+        (refElementId === undefined || matches(refElementId)) &&
+        (refElementLinkId === undefined || matches(refElementLinkId)) &&
+        (elementTypeId === undefined || matches(elementTypeId))
+    ) ? params : undefined;
+}
+
+type RequestOutcome<R> =
+    | { readonly type: 'success'; readonly result: R; readonly definition: DataProviderDefinition }
+    | { readonly type: 'failure'; readonly error: unknown; readonly definition: DataProviderDefinition };
 
-    lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
-        return this.requestWithMerge(p => p.lookup(params), mergeLookup);
+class ProviderTimeoutError extends Error {
+    constructor(definition: DataProviderDefinition, timeout: number) {
+        super(`Request to data provider "${definition.name}" timed out after ${timeout} ms`);
+        this.name = 'TimeoutError';
     }
 }
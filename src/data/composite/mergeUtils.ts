@@ -1,21 +1,43 @@
-import { HashSet } from '../../coreUtils/hashMap';
+import { HashMap, HashSet } from '../../coreUtils/hashMap';
 
 import * as Rdf from '../rdf/rdfModel';
 import {
-    ElementTypeModel, ElementTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    ElementTypeModel, ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
     PropertyTypeIri, PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri,
+    DataProvenance, ValueProvenance, LinkKey, SubtypeEdge, LinkSubtypeEdge,
     hashLink, equalLinks, hashSubtypeEdge, equalSubtypeEdges,
 } from '../model';
-import type { DataProviderLinkCount, DataProviderLookupItem } from '../provider';
-import type { DataProviderDefinition } from './composite';
+import type {
+    DataProviderLinkCount, DataProviderLookupItem, DataProviderLookupSort,
+} from '../provider';
+import { getLabelSortKey } from '../utils';
+import type { CompositeRequestError, DataProviderDefinition } from './composite';
 
 const DATA_PROVIDER_PROPERTY = 'urn:reactodia:sourceProvider';
 
 export type CompositeResponse<T> = readonly [T, DataProviderDefinition];
 
+const partialFailures = new WeakMap<object, CompositeRequestError>();
+
+/**
+ * Returns a report of failed providers if the result is marked as partial.
+ */
+export function getPartialFailure(result: unknown): CompositeRequestError | undefined {
+    return typeof result === 'object' && result ? partialFailures.get(result) : undefined;
+}
+
+/**
+ * Marks the result as partial, i.e. returned without data from failed providers.
+ */
+export function setPartialFailure(result: unknown, failure: CompositeRequestError): void {
+    if (typeof result === 'object' && result) {
+        partialFailures.set(result, failure);
+    }
+}
+
 export function mergeKnownElementTypes(composite: CompositeResponse<ElementTypeGraph>[]): ElementTypeGraph {
     const classes = new Map<ElementTypeIri, ElementTypeModel>();
-    const edges = new HashSet(hashSubtypeEdge, equalSubtypeEdges);
+    const edges = new HashSet<SubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
 
     for (const [response] of composite) {
         for (const model of response.elementTypes) {
@@ -33,15 +55,24 @@ export function mergeKnownElementTypes(composite: CompositeResponse<ElementTypeG
     };
 }
 
-export function mergeKnownLinkTypes(responses: CompositeResponse<LinkTypeModel[]>[]): LinkTypeModel[] {
+export function mergeKnownLinkTypes(responses: CompositeResponse<LinkTypeGraph>[]): LinkTypeGraph {
     const result = new Map<LinkTypeIri, LinkTypeModel>();
+    const edges = new HashSet<LinkSubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
+
     for (const [response] of responses) {
-        for (const model of response) {
+        for (const model of response.linkTypes) {
             const existing = result.get(model.id);
             result.set(model.id, existing ? mergeLinkType(existing, model) : model);
         }
+        for (const edge of response.subtypeOf) {
+            edges.add(edge);
+        }
     }
-    return Array.from(result.values());
+
+    return {
+        linkTypes: Array.from(result.values()),
+        subtypeOf: Array.from(edges.values()),
+    };
 }
 
 export function mergePropertyTypes(
@@ -55,9 +86,23 @@ function mergePropertyModel(a: PropertyTypeModel, b: PropertyTypeModel): Propert
         ...a,
         ...b,
         label: mergeLabels(a.label, b.label),
+        datatype: b.datatype ?? a.datatype,
+        range: mergeTypeIris(a.range, b.range),
+        domain: mergeTypeIris(a.domain, b.domain),
+        cardinality: b.cardinality ?? a.cardinality,
     };
 }
 
+function mergeTypeIris(
+    a: ReadonlyArray<ElementTypeIri> | undefined,
+    b: ReadonlyArray<ElementTypeIri> | undefined
+): ReadonlyArray<ElementTypeIri> | undefined {
+    if (!(a && b)) {
+        return a ?? b;
+    }
+    return Array.from(new Set([...a, ...b]));
+}
+
 export function mergeElementTypes(
     responses: CompositeResponse<Map<ElementTypeIri, ElementTypeModel>>[]
 ): Map<ElementTypeIri, ElementTypeModel> {
@@ -104,6 +149,7 @@ export function mergeElementInfo(
             const model: ElementModel = {
                 ...baseModel,
                 properties: addSourceProperty(baseModel.properties, provider),
+                provenance: baseModel.provenance ?? createElementProvenance(baseModel, provider),
             };
             const existing = result.get(key);
             result.set(key, existing ? mergeElementModels(existing, model) : model);
@@ -134,9 +180,97 @@ function mergeElementModels(a: ElementModel, b: ElementModel): ElementModel {
         types: Array.from(typeSet).sort(),
         image: a.image || b.image,
         properties: mergeProperties(a.properties, b.properties),
+        provenance: mergeProvenance(a.provenance, b.provenance),
+    };
+}
+
+function createElementProvenance(model: ElementModel, source: DataProviderDefinition): DataProvenance {
+    const sources = [source.name];
+    return {
+        sources,
+        label: model.label.map(value => ({value, sources})),
+        properties: createPropertyProvenance(model.properties, sources),
+    };
+}
+
+function createLinkProvenance(model: LinkModel, source: DataProviderDefinition): DataProvenance {
+    const sources = [source.name];
+    return {
+        sources,
+        properties: createPropertyProvenance(model.properties, sources),
     };
 }
 
+function createPropertyProvenance(
+    properties: { readonly [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> },
+    sources: ReadonlyArray<string>
+): { [id: string]: ReadonlyArray<ValueProvenance> } {
+    const result: { [id: string]: ReadonlyArray<ValueProvenance> } = {};
+    for (const key in properties) {
+        if (Object.prototype.hasOwnProperty.call(properties, key)) {
+            result[key] = properties[key].map(value => ({value, sources}));
+        }
+    }
+    return result;
+}
+
+function mergeProvenance(
+    a: DataProvenance | undefined,
+    b: DataProvenance | undefined
+): DataProvenance | undefined {
+    if (!(a && b)) {
+        return a ?? b;
+    }
+    const properties: { [id: string]: ReadonlyArray<ValueProvenance> } = {...a.properties};
+    if (b.properties) {
+        for (const key in b.properties) {
+            if (Object.prototype.hasOwnProperty.call(b.properties, key)) {
+                properties[key] = Object.prototype.hasOwnProperty.call(properties, key)
+                    ? mergeValueProvenance(properties[key], b.properties[key])
+                    : b.properties[key];
+            }
+        }
+    }
+    return {
+        sources: mergeSources(a.sources, b.sources),
+        label: a.label && b.label ? mergeValueProvenance(a.label, b.label) : (a.label ?? b.label),
+        properties,
+    };
+}
+
+function mergeValueProvenance<T extends Rdf.NamedNode | Rdf.Literal>(
+    a: ReadonlyArray<ValueProvenance<T>>,
+    b: ReadonlyArray<ValueProvenance<T>>
+): ReadonlyArray<ValueProvenance<T>> {
+    const result: Array<ValueProvenance<T>> = [...a];
+    const indices = new HashMap<Rdf.Term, number>(Rdf.hashTerm, Rdf.equalTerms);
+    for (let i = 0; i < result.length; i++) {
+        indices.set(result[i].value, i);
+    }
+    for (const item of b) {
+        const index = indices.get(item.value);
+        if (index === undefined) {
+            indices.set(item.value, result.length);
+            result.push(item);
+        } else {
+            const existing = result[index];
+            result[index] = {
+                value: existing.value,
+                sources: mergeSources(existing.sources, item.sources),
+            };
+        }
+    }
+    return result;
+}
+
+function mergeSources(a: ReadonlyArray<string>, b: ReadonlyArray<string>): ReadonlyArray<string> {
+    const sources = new Set(a);
+    for (const source of b) {
+        sources.add(source);
+    }
+    return sources.size === a.length ? a : Array.from(sources);
+}
+
 function mergeProperties(
     a: { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> },
     b: { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> }
@@ -170,13 +304,25 @@ function mergeProperties(
 }
 
 export function mergeLinksInfo(responses: CompositeResponse<LinkModel[]>[]): LinkModel[] {
-    const resultSet = new HashSet(hashLink, equalLinks);
+    const indices = new HashMap<LinkKey, number>(hashLink, equalLinks);
     const result: LinkModel[] = [];
-    for (const [response] of responses) {
-        for (const link of response) {
-            if (!resultSet.has(link)) {
-                resultSet.add(link);
+    for (const [response, provider] of responses) {
+        for (const baseLink of response) {
+            const link: LinkModel = {
+                ...baseLink,
+                provenance: baseLink.provenance ?? createLinkProvenance(baseLink, provider),
+            };
+            const index = indices.get(link);
+            if (index === undefined) {
+                indices.set(link, result.length);
                 result.push(link);
+            } else {
+                const existing = result[index];
+                result[index] = {
+                    ...existing,
+                    properties: mergeProperties(existing.properties, link.properties),
+                    provenance: mergeProvenance(existing.provenance, link.provenance),
+                };
             }
         }
     }
@@ -210,18 +356,40 @@ interface MutableLookupItem {
     element: ElementModel;
     inLinks: Set<LinkTypeIri>;
     outLinks: Set<LinkTypeIri>;
+    score?: number;
+    degree?: number;
 }
 
+/**
+ * Merges lookup results from multiple providers and sorts them
+ * in the requested order.
+ *
+ * Relevance scores are normalized by the maximum score from each provider
+ * to make them comparable between providers.
+ */
 export function mergeLookup(
-    responses: CompositeResponse<DataProviderLookupItem[]>[]
+    responses: CompositeResponse<DataProviderLookupItem[]>[],
+    sortBy: DataProviderLookupSort | undefined
 ): DataProviderLookupItem[] {
+    const normalizeScores = responses.length > 1;
     const linkedElements = new Map<ElementIri, MutableLookupItem>();
     for (const [response, provider] of responses) {
-        for (const {element: baseElement, inLinks, outLinks} of response) {
+        let maxScore = 0;
+        if (normalizeScores) {
+            for (const {score} of response) {
+                if (score !== undefined && score > maxScore) {
+                    maxScore = score;
+                }
+            }
+        }
+        for (const {element: baseElement, inLinks, outLinks, score: baseScore, degree} of response) {
             const element: ElementModel = {
                 ...baseElement,
                 properties: addSourceProperty(baseElement.properties, provider),
+                provenance: baseElement.provenance ?? createElementProvenance(baseElement, provider),
             };
+            const score = baseScore !== undefined && maxScore > 0
+                ? baseScore / maxScore : baseScore;
             const existing = linkedElements.get(element.id);
             if (existing) {
                 existing.element = mergeElementModels(existing.element, element);
@@ -231,16 +399,57 @@ export function mergeLookup(
                 for (const outLink of outLinks) {
                     existing.outLinks.add(outLink);
                 }
+                existing.score = mergeMaxValues(existing.score, score);
+                existing.degree = mergeMaxValues(existing.degree, degree);
             } else {
                 linkedElements.set(baseElement.id, {
                     element,
                     inLinks: new Set(inLinks),
                     outLinks: new Set(outLinks),
+                    score,
+                    degree,
                 });
             }
         }
     }
-    return Array.from(linkedElements.values());
+    const items: DataProviderLookupItem[] = Array.from(linkedElements.values());
+    if (responses.length > 1) {
+        sortLookupItems(items, sortBy);
+    }
+    return items;
+}
+
+function mergeMaxValues(a: number | undefined, b: number | undefined): number | undefined {
+    return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+function sortLookupItems(
+    items: DataProviderLookupItem[],
+    sortBy: DataProviderLookupSort | undefined
+): void {
+    switch (sortBy) {
+        case 'relevance': {
+            // Items without a score go last
+            items.sort((a, b) =>
+                a.score === undefined ? (b.score === undefined ? 0 : 1) :
+                b.score === undefined ? -1 :
+                b.score - a.score
+            );
+            break;
+        }
+        case 'label': {
+            const sortKeys = new Map<ElementIri, string>();
+            for (const {element} of items) {
+                sortKeys.set(element.id, getLabelSortKey(element.label, element.id));
+            }
+            items.sort((a, b) => sortKeys.get(a.element.id)!.localeCompare(sortKeys.get(b.element.id)!));
+            break;
+        }
+        case 'degree': {
+            items.sort((a, b) => (b.degree ?? 0) - (a.degree ?? 0));
+            break;
+        }
+    }
 }
 
 function mergeLabels(
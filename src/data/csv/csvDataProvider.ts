@@ -0,0 +1,394 @@
+import {
+    PropertyGraphDataProvider, PropertyGraphDataProviderOptions,
+} from '../propertyGraph/propertyGraphDataProvider';
+import type {
+    PropertyGraphNode, PropertyGraphEdge, PropertyGraphValue,
+} from '../propertyGraph/propertyGraphFormat';
+
+import { CsvParseError, CsvRow, CsvTable, parseCsv } from './csvParser';
+
+/**
+ * Options for {@link CsvDataProvider}.
+ *
+ * @see {@link CsvDataProvider}
+ */
+export interface CsvDataProviderOptions extends Omit<PropertyGraphDataProviderOptions, 'labelProperties'> {
+    /**
+     * Column mapping for the nodes (elements) table.
+     */
+    readonly nodes: CsvNodeMapping;
+    /**
+     * Column mapping for the edges (links) table.
+     *
+     * **Default**: `{sourceColumn: "source", targetColumn: "target", typeColumn: "type"}`
+     */
+    readonly edges?: CsvEdgeMapping;
+    /**
+     * Field delimiter character for both tables.
+     *
+     * @default ","
+     */
+    readonly delimiter?: string;
+    /**
+     * Separator to split a cell into multiple values for type and property columns.
+     *
+     * By default, each cell is a single value.
+     */
+    readonly multiValueSeparator?: string;
+}
+
+/**
+ * Column datatype for the property values from a CSV table.
+ *
+ * @see {@link CsvColumnMapping.columnTypes}
+ */
+export type CsvColumnType = 'string' | 'number' | 'boolean';
+
+/**
+ * Common column mapping options for CSV tables.
+ */
+export interface CsvColumnMapping {
+    /**
+     * Columns to convert into element or link properties.
+     *
+     * By default, all columns except mapped ones (identifiers, types, endpoints)
+     * are converted into properties.
+     */
+    readonly propertyColumns?: ReadonlyArray<string>;
+    /**
+     * Whether to infer datatypes for property values:
+     * numbers become `xsd:integer`, `xsd:decimal` or `xsd:double` literals
+     * depending on their lexical form (which is kept as is) and
+     * `true` / `false` become `xsd:boolean` literals.
+     *
+     * @default true
+     */
+    readonly inferDatatypes?: boolean;
+    /**
+     * Explicit datatypes for the property columns which take
+     * precedence over the inferred ones.
+     */
+    readonly columnTypes?: { readonly [column: string]: CsvColumnType };
+}
+
+/**
+ * Column mapping for the nodes (elements) CSV table.
+ *
+ * @see {@link CsvDataProviderOptions.nodes}
+ */
+export interface CsvNodeMapping extends CsvColumnMapping {
+    /**
+     * Column with node identifiers.
+     */
+    readonly idColumn: string;
+    /**
+     * Column with node labels.
+     */
+    readonly labelColumn?: string;
+    /**
+     * Column with node types (element types).
+     */
+    readonly typeColumn?: string;
+    /**
+     * Node type to use when the type column is not set or empty.
+     */
+    readonly defaultType?: string;
+}
+
+/**
+ * Column mapping for the edges (links) CSV table.
+ *
+ * @see {@link CsvDataProviderOptions.edges}
+ */
+export interface CsvEdgeMapping extends CsvColumnMapping {
+    /**
+     * Column with edge identifiers.
+     *
+     * By default, edges are identified by their type and endpoints.
+     */
+    readonly idColumn?: string;
+    /**
+     * Column with source node identifiers.
+     */
+    readonly sourceColumn: string;
+    /**
+     * Column with target node identifiers.
+     */
+    readonly targetColumn: string;
+    /**
+     * Column with edge types (link types).
+     */
+    readonly typeColumn?: string;
+    /**
+     * Edge type to use when the type column is not set or empty.
+     */
+    readonly defaultType?: string;
+}
+
+const DEFAULT_EDGE_MAPPING: CsvEdgeMapping = {
+    sourceColumn: 'source',
+    targetColumn: 'target',
+    typeColumn: 'type',
+};
+
+/**
+ * Matches numbers to infer datatype for, excluding ones with leading zeros
+ * (e.g. `007`) which are usually codes rather than numbers.
+ */
+const INFERRED_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+/**
+ * Matches numbers in `xsd:integer`, `xsd:decimal` or `xsd:double` lexical form
+ * for the columns with explicit `number` type.
+ */
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+const XSD_INTEGER = 'http://www.w3.org/2001/XMLSchema#integer';
+const XSD_DECIMAL = 'http://www.w3.org/2001/XMLSchema#decimal';
+const XSD_DOUBLE = 'http://www.w3.org/2001/XMLSchema#double';
+
+/**
+ * Provides graph data from nodes and edges tables in CSV format
+ * with a configurable column mapping.
+ *
+ * Table rows are converted into property graph nodes and edges, which are
+ * provided in the same way as with {@link PropertyGraphDataProvider}.
+ *
+ * **Example**:
+ * ```ts
+ * const provider = new CsvDataProvider({
+ *     baseIri: 'http://example.com/',
+ *     keepAbsoluteIris: true,
+ *     nodes: {idColumn: 'id', labelColumn: 'name', typeColumn: 'kind'},
+ *     edges: {sourceColumn: 'from', targetColumn: 'to', typeColumn: 'relation'},
+ * });
+ * provider.addCsv({nodes: nodesCsvText, edges: edgesCsvText});
+ * ```
+ *
+ * @category Data
+ */
+export class CsvDataProvider extends PropertyGraphDataProvider {
+    private readonly nodeMapping: CsvNodeMapping;
+    private readonly edgeMapping: CsvEdgeMapping;
+    private readonly delimiter: string | undefined;
+    private readonly multiValueSeparator: string | undefined;
+
+    constructor(options: CsvDataProviderOptions) {
+        super({
+            ...options,
+            labelProperties: options.nodes.labelColumn ? [options.nodes.labelColumn] : [],
+        });
+        this.nodeMapping = options.nodes;
+        this.edgeMapping = options.edges ?? DEFAULT_EDGE_MAPPING;
+        this.delimiter = options.delimiter;
+        this.multiValueSeparator = options.multiValueSeparator;
+    }
+
+    /**
+     * Parses nodes and edges CSV tables and adds the data to the provider graph.
+     *
+     * @throws {CsvParseError} when the text is malformed or required columns are missing
+     */
+    addCsv(tables: {
+        /**
+         * Nodes table in CSV format with a header row.
+         */
+        nodes?: string;
+        /**
+         * Edges table in CSV format with a header row.
+         */
+        edges?: string;
+    }): void {
+        const nodes = tables.nodes === undefined ? [] : this.convertNodes(
+            parseCsv(tables.nodes, {delimiter: this.delimiter})
+        );
+        const edges = tables.edges === undefined ? [] : this.convertEdges(
+            parseCsv(tables.edges, {delimiter: this.delimiter})
+        );
+        this.addGraph({nodes, edges});
+    }
+
+    private convertNodes(table: CsvTable): PropertyGraphNode[] {
+        const {idColumn, labelColumn, typeColumn, defaultType} = this.nodeMapping;
+        const idIndex = requireColumn(table, idColumn);
+        const typeIndex = typeColumn === undefined ? undefined : requireColumn(table, typeColumn);
+        const propertyColumns = this.selectPropertyColumns(
+            table, this.nodeMapping, [idColumn, typeColumn]
+        );
+        if (labelColumn !== undefined) {
+            // Labels are taken from the corresponding property values
+            propertyColumns.set(labelColumn, requireColumn(table, labelColumn));
+        }
+
+        const nodes: PropertyGraphNode[] = [];
+        for (const row of table.rows) {
+            const id = getCell(row, idIndex);
+            if (!id) {
+                throw new CsvParseError(`Missing node identifier in "${idColumn}" column`, row.line);
+            }
+            const types = typeIndex === undefined ? [] : this.splitValues(getCell(row, typeIndex));
+            if (types.length === 0 && defaultType !== undefined) {
+                types.push(defaultType);
+            }
+            nodes.push({
+                id,
+                labels: types,
+                properties: this.convertRowProperties(row, propertyColumns, this.nodeMapping),
+            });
+        }
+        return nodes;
+    }
+
+    private convertEdges(table: CsvTable): PropertyGraphEdge[] {
+        const {idColumn, sourceColumn, targetColumn, typeColumn, defaultType} = this.edgeMapping;
+        const idIndex = idColumn === undefined ? undefined : requireColumn(table, idColumn);
+        const sourceIndex = requireColumn(table, sourceColumn);
+        const targetIndex = requireColumn(table, targetColumn);
+        const typeIndex = typeColumn === undefined ? undefined : requireColumn(table, typeColumn);
+        const propertyColumns = this.selectPropertyColumns(
+            table, this.edgeMapping, [idColumn, sourceColumn, targetColumn, typeColumn]
+        );
+
+        const edges: PropertyGraphEdge[] = [];
+        for (const row of table.rows) {
+            const source = getCell(row, sourceIndex);
+            const target = getCell(row, targetIndex);
+            if (!(source && target)) {
+                throw new CsvParseError(
+                    `Missing edge endpoint in "${sourceColumn}" or "${targetColumn}" column`,
+                    row.line
+                );
+            }
+            const type = (typeIndex === undefined ? '' : getCell(row, typeIndex)) || defaultType;
+            if (!type) {
+                throw new CsvParseError('Missing edge type', row.line);
+            }
+            const id = idIndex === undefined ? '' : getCell(row, idIndex);
+            edges.push({
+                id: id || undefined,
+                type,
+                source,
+                target,
+                properties: this.convertRowProperties(row, propertyColumns, this.edgeMapping),
+            });
+        }
+        return edges;
+    }
+
+    private selectPropertyColumns(
+        table: CsvTable,
+        mapping: CsvColumnMapping,
+        mappedColumns: ReadonlyArray<string | undefined>
+    ): Map<string, number> {
+        const columns = new Map<string, number>();
+        if (mapping.propertyColumns) {
+            for (const column of mapping.propertyColumns) {
+                columns.set(column, requireColumn(table, column));
+            }
+        } else {
+            const excluded = new Set(mappedColumns);
+            table.columns.forEach((column, index) => {
+                if (column && !excluded.has(column)) {
+                    columns.set(column, index);
+                }
+            });
+        }
+        return columns;
+    }
+
+    private convertRowProperties(
+        row: CsvRow,
+        columns: ReadonlyMap<string, number>,
+        mapping: CsvColumnMapping
+    ): { [key: string]: PropertyGraphValue[] } {
+        const {inferDatatypes = true, columnTypes = {}} = mapping;
+        const properties: { [key: string]: PropertyGraphValue[] } = {};
+        for (const [column, index] of columns) {
+            const values: PropertyGraphValue[] = [];
+            for (const text of this.splitValues(getCell(row, index))) {
+                const columnType = Object.prototype.hasOwnProperty.call(columnTypes, column)
+                    ? columnTypes[column] : undefined;
+                values.push(convertValue(text, columnType, inferDatatypes, row.line));
+            }
+            if (values.length > 0) {
+                properties[column] = values;
+            }
+        }
+        return properties;
+    }
+
+    private splitValues(cell: string): string[] {
+        const parts = this.multiValueSeparator === undefined
+            ? [cell]
+            : cell.split(this.multiValueSeparator);
+        return parts.map(part => part.trim()).filter(part => part.length > 0);
+    }
+}
+
+function requireColumn(table: CsvTable, column: string): number {
+    const index = table.columns.indexOf(column);
+    if (index < 0) {
+        throw new CsvParseError(`Missing column "${column}" in CSV header`, 1);
+    }
+    return index;
+}
+
+function getCell(row: CsvRow, index: number): string {
+    return index < row.values.length ? row.values[index].trim() : '';
+}
+
+function convertValue(
+    text: string,
+    columnType: CsvColumnType | undefined,
+    inferDatatypes: boolean,
+    line: number
+): PropertyGraphValue {
+    switch (columnType) {
+        case 'string':
+            return text;
+        case 'number': {
+            if (!NUMBER_PATTERN.test(text)) {
+                throw new CsvParseError(`Expected number value but found "${text}"`, line);
+            }
+            return makeNumberValue(text);
+        }
+        case 'boolean': {
+            const value = parseBoolean(text);
+            if (value === undefined) {
+                throw new CsvParseError(`Expected boolean value but found "${text}"`, line);
+            }
+            return value;
+        }
+    }
+    if (inferDatatypes) {
+        if (INFERRED_NUMBER_PATTERN.test(text)) {
+            return makeNumberValue(text);
+        }
+        const value = parseBoolean(text);
+        if (value !== undefined) {
+            return value;
+        }
+    }
+    return text;
+}
+
+/**
+ * Makes a number value keeping its lexical form (e.g. `1.50` or a large integer
+ * which cannot be represented exactly as JS number) with a datatype inferred from it.
+ */
+function makeNumberValue(text: string): PropertyGraphValue {
+    const datatype = /[eE]/.test(text) ? XSD_DOUBLE
+        : text.includes('.') ? XSD_DECIMAL
+        : XSD_INTEGER;
+    return {value: text, datatype};
+}
+
+function parseBoolean(text: string): boolean | undefined {
+    switch (text.toLowerCase()) {
+        case 'true':
+            return true;
+        case 'false':
+            return false;
+        default:
+            return undefined;
+    }
+}
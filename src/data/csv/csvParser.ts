@@ -0,0 +1,140 @@
+/**
+ * Options for {@link parseCsv}.
+ */
+export interface CsvParseOptions {
+    /**
+     * Field delimiter character.
+     *
+     * @default ","
+     */
+    readonly delimiter?: string;
+}
+
+/**
+ * Error which is thrown when CSV text is malformed or does not match
+ * the column mapping.
+ *
+ * @category Data
+ */
+export class CsvParseError extends Error {
+    /**
+     * Line number (1-based) in the source text where the error occurred.
+     */
+    readonly line: number;
+
+    constructor(message: string, line: number) {
+        super(`${message} (at line ${line})`);
+        this.name = 'CsvParseError';
+        this.line = line;
+    }
+}
+
+/**
+ * Parsed CSV table.
+ */
+export interface CsvTable {
+    /**
+     * Column names from the header row.
+     */
+    readonly columns: ReadonlyArray<string>;
+    /**
+     * Data rows with a line number where each row starts.
+     */
+    readonly rows: ReadonlyArray<CsvRow>;
+}
+
+/**
+ * Parsed CSV data row.
+ */
+export interface CsvRow {
+    readonly line: number;
+    readonly values: ReadonlyArray<string>;
+}
+
+/**
+ * Parses CSV text as described in [RFC 4180](https://www.rfc-editor.org/rfc/rfc4180)
+ * where the first row is a header with column names.
+ *
+ * Quoted fields may contain delimiters, line breaks and escaped (doubled) quotes.
+ * Empty lines are skipped.
+ *
+ * @throws {CsvParseError} when the text is malformed
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvTable {
+    const {delimiter = ','} = options;
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+        throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+    }
+
+    const records: CsvRow[] = [];
+    let values: string[] = [];
+    let field = '';
+    let line = 1;
+    let recordLine = 1;
+    let quoted = false;
+    let hasContent = false;
+
+    const endField = () => {
+        values.push(field);
+        field = '';
+    };
+    const endRecord = () => {
+        endField();
+        if (hasContent || values.length > 1 || values[0] !== '') {
+            records.push({line: recordLine, values});
+        }
+        values = [];
+        hasContent = false;
+    };
+
+    // Skip byte order mark if present
+    let i = text.charCodeAt(0) === 0xFEFF ? 1 : 0;
+    for (; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                if (ch === '\n') {
+                    line++;
+                }
+                field += ch;
+            }
+        } else if (ch === '"') {
+            if (field.length > 0) {
+                throw new CsvParseError('Unexpected quote inside unquoted field', line);
+            }
+            quoted = true;
+            hasContent = true;
+        } else if (ch === delimiter) {
+            endField();
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += ch;
+        }
+    }
+    if (quoted) {
+        throw new CsvParseError('Unterminated quoted field', recordLine);
+    }
+    endRecord();
+
+    if (records.length === 0) {
+        return {columns: [], rows: []};
+    }
+    const [header, ...rows] = records;
+    return {
+        columns: header.values.map(column => column.trim()),
+        rows,
+    };
+}
@@ -3,9 +3,10 @@ import { delay } from '../../coreUtils/async';
 import type * as Rdf from '../rdf/rdfModel';
 import {
     DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderChangeListener,
 } from '../provider';
 import {
-    ElementTypeModel, ElementTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    ElementTypeModel, ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
     ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, PropertyTypeModel,
 } from '../model';
 
@@ -89,7 +90,7 @@ export class DecoratedDataProvider implements DataProvider {
 
     knownLinkTypes(params: {
         signal?: AbortSignal;
-    }): Promise<LinkTypeModel[]> {
+    }): Promise<LinkTypeGraph> {
         return this.decorate('knownLinkTypes', [params]);
     }
 
@@ -141,6 +142,17 @@ export class DecoratedDataProvider implements DataProvider {
     lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
         return this.decorate('lookup', [params]);
     }
+
+    /**
+     * Subscribes to data changes from the base provider
+     * if it supports change notifications.
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        if (this.baseProvider.subscribeChanges) {
+            return this.baseProvider.subscribeChanges(listener);
+        }
+        return () => {/* nothing to unsubscribe from */};
+    }
 }
 
 /**
@@ -1,5 +1,5 @@
 import {
-    ElementTypeGraph, LinkTypeModel, ElementTypeIri, ElementTypeModel, PropertyTypeIri, PropertyTypeModel,
+    ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementTypeIri, ElementTypeModel, PropertyTypeIri, PropertyTypeModel,
     LinkTypeIri, ElementIri, ElementModel, LinkModel,
 } from '../model';
 import {
@@ -28,8 +28,11 @@ export class EmptyDataProvider implements DataProvider {
 
     knownLinkTypes(params: {
         signal?: AbortSignal | undefined;
-    }): Promise<LinkTypeModel[]> {
-        return Promise.resolve([]);
+    }): Promise<LinkTypeGraph> {
+        return Promise.resolve({
+            linkTypes: [],
+            subtypeOf: [],
+        });
     }
 
     elementTypes(params: {
@@ -0,0 +1,686 @@
+import { getPartialFailure, setPartialFailure } from '../composite/mergeUtils';
+import type * as Rdf from '../rdf/rdfModel';
+import {
+    DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderChangeEvent, DataProviderChangeListener,
+} from '../provider';
+import {
+    ElementTypeModel, ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, PropertyTypeModel,
+} from '../model';
+
+import type { DecoratedMethodName } from './decoratedDataProvider';
+
+/**
+ * Options for {@link MemoryCachedProvider}.
+ *
+ * @see {@link MemoryCachedProvider}
+ */
+export interface MemoryCachedProviderOptions {
+    /**
+     * Base data provider to cache request results for.
+     */
+    readonly baseProvider: DataProvider;
+    /**
+     * Maximum number of cached entries for each data provider method,
+     * either as a single value for all methods or as a value per method name.
+     *
+     * Each requested entity, element type, link type or property type is
+     * counted as a separate entry; for other methods each distinct request
+     * is counted as a separate entry.
+     *
+     * When the limit is exceeded, least recently used entries are evicted.
+     *
+     * @default 1000
+     */
+    readonly cacheSize?: number | { readonly [method in DecoratedMethodName]?: number };
+    /**
+     * Whether to cache missing results from the following {@link DataProvider} methods:
+     *  - {@link DataProvider.elements elements()}
+     *  - {@link DataProvider.elementTypes elementTypes()}
+     *  - {@link DataProvider.linkTypes linkTypes()}
+     *  - {@link DataProvider.propertyTypes propertyTypes()}
+     *
+     * @default true
+     */
+    readonly cacheMissing?: boolean;
+    /**
+     * Whether to cache results from {@link DataProvider.lookup} with
+     * {@link DataProviderLookupParams.text text} requests.
+     *
+     * @default false
+     */
+    readonly cacheTextLookups?: boolean;
+}
+
+/**
+ * Specifies which cached graph data should be invalidated.
+ *
+ * @see {@link MemoryCachedProvider.invalidate}
+ */
+export interface MemoryCacheInvalidation {
+    /**
+     * Invalidate data for the elements, including links, link statistics
+     * and lookup results which involve any of them.
+     */
+    readonly elementIds?: Iterable<ElementIri>;
+    /**
+     * Invalidate data for the element types, including known element types
+     * and lookup results by any of them.
+     */
+    readonly elementTypeIds?: Iterable<ElementTypeIri>;
+    /**
+     * Invalidate data for the link types, including known link types,
+     * links and link statistics which involve any of them.
+     */
+    readonly linkTypeIds?: Iterable<LinkTypeIri>;
+    /**
+     * Invalidate data for the property types.
+     */
+    readonly propertyTypeIds?: Iterable<PropertyTypeIri>;
+}
+
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Caches graph data returned from another data provider in memory
+ * with a bounded least-recently-used (LRU) cache for each method.
+ *
+ * Concurrent requests for the same data are de-duplicated, e.g. multiple
+ * {@link DataProvider.elements elements()} calls with overlapping element sets
+ * request each element from the base provider only once. A shared request
+ * to the base provider is cancelled only when every caller waiting for it
+ * has cancelled its request.
+ *
+ * Cached data can be explicitly invalidated with {@link invalidate} and
+ * is automatically invalidated on {@link DataProvider.subscribeChanges change notifications}
+ * from the base provider while there is at least one change subscriber.
+ *
+ * Partial results from `CompositeDataProvider` in the "best effort" mode
+ * (see `getCompositePartialFailure()`) are returned as is but not cached.
+ *
+ * @category Data
+ */
+export class MemoryCachedProvider implements DataProvider {
+    private readonly baseProvider: DataProvider;
+    private readonly cacheMissing: boolean;
+    private readonly cacheTextLookups: boolean;
+
+    private readonly knownElementTypesCache: RequestCache<null, ElementTypeGraph>;
+    private readonly knownLinkTypesCache: RequestCache<null, LinkTypeGraph>;
+    private readonly elementTypeCache: KeyedCache<ElementTypeIri, ElementTypeModel>;
+    private readonly propertyTypeCache: KeyedCache<PropertyTypeIri, PropertyTypeModel>;
+    private readonly linkTypeCache: KeyedCache<LinkTypeIri, LinkTypeModel>;
+    private readonly elementCache: KeyedCache<ElementIri, ElementModel>;
+    private readonly linksCache: RequestCache<LinksParams, LinkModel[]>;
+    private readonly linkStatsCache: RequestCache<LinkStatsParams, DataProviderLinkCount[]>;
+    private readonly lookupCache: RequestCache<DataProviderLookupParams, DataProviderLookupItem[]>;
+
+    constructor(options: MemoryCachedProviderOptions) {
+        const {baseProvider, cacheSize = DEFAULT_CACHE_SIZE} = options;
+        this.baseProvider = baseProvider;
+        this.cacheMissing = options.cacheMissing ?? true;
+        this.cacheTextLookups = options.cacheTextLookups ?? false;
+
+        const getCacheSize = (method: DecoratedMethodName): number =>
+            typeof cacheSize === 'number' ? cacheSize : (cacheSize[method] ?? DEFAULT_CACHE_SIZE);
+        this.knownElementTypesCache = new RequestCache(getCacheSize('knownElementTypes'));
+        this.knownLinkTypesCache = new RequestCache(getCacheSize('knownLinkTypes'));
+        this.elementTypeCache = new KeyedCache(getCacheSize('elementTypes'));
+        this.propertyTypeCache = new KeyedCache(getCacheSize('propertyTypes'));
+        this.linkTypeCache = new KeyedCache(getCacheSize('linkTypes'));
+        this.elementCache = new KeyedCache(getCacheSize('elements'));
+        this.linksCache = new RequestCache(getCacheSize('links'));
+        this.linkStatsCache = new RequestCache(getCacheSize('connectedLinkStats'));
+        this.lookupCache = new RequestCache(getCacheSize('lookup'));
+    }
+
+    get factory(): Rdf.DataFactory {
+        return this.baseProvider.factory;
+    }
+
+    /**
+     * Invalidates cached data for the specified graph content.
+     *
+     * Requests which are in progress at the moment of invalidation
+     * are completed as usual but their results are not stored in the cache.
+     */
+    invalidate(params: MemoryCacheInvalidation): void {
+        const elementIds = new Set(params.elementIds);
+        const elementTypeIds = new Set(params.elementTypeIds);
+        const linkTypeIds = new Set(params.linkTypeIds);
+        const propertyTypeIds = new Set(params.propertyTypeIds);
+
+        if (elementIds.size > 0) {
+            this.elementCache.invalidate(elementIds);
+            this.linksCache.invalidate(({primary, secondary}) => (
+                primary.some(iri => elementIds.has(iri)) ||
+                secondary.some(iri => elementIds.has(iri))
+            ));
+            this.linkStatsCache.invalidate(({elementId}) => elementIds.has(elementId));
+            this.lookupCache.invalidate((params, result) => (
+                Boolean(params.refElementId && elementIds.has(params.refElementId)) ||
+                Boolean(result && result.some(item => elementIds.has(item.element.id)))
+            ));
+        }
+        if (elementTypeIds.size > 0) {
+            this.elementTypeCache.invalidate(elementTypeIds);
+            this.knownElementTypesCache.invalidate(() => true);
+            this.lookupCache.invalidate(params => (
+                Boolean(params.elementTypeId && elementTypeIds.has(params.elementTypeId))
+            ));
+        }
+        if (linkTypeIds.size > 0) {
+            this.linkTypeCache.invalidate(linkTypeIds);
+            this.knownLinkTypesCache.invalidate(() => true);
+            this.linksCache.invalidate((params, result) => (
+                !params.linkTypeIds ||
+                params.linkTypeIds.some(iri => linkTypeIds.has(iri)) ||
+                Boolean(result && result.some(link => linkTypeIds.has(link.linkTypeId)))
+            ));
+            this.linkStatsCache.invalidate((params, result) => (
+                !result || result.some(stats => linkTypeIds.has(stats.id))
+            ));
+            this.lookupCache.invalidate(params => (
+                Boolean(params.refElementLinkId && linkTypeIds.has(params.refElementLinkId))
+            ));
+        }
+        if (propertyTypeIds.size > 0) {
+            this.propertyTypeCache.invalidate(propertyTypeIds);
+        }
+    }
+
+    /**
+     * Invalidates all cached data.
+     */
+    clearCache(): void {
+        this.knownElementTypesCache.clear();
+        this.knownLinkTypesCache.clear();
+        this.elementTypeCache.clear();
+        this.propertyTypeCache.clear();
+        this.linkTypeCache.clear();
+        this.elementCache.clear();
+        this.linksCache.clear();
+        this.linkStatsCache.clear();
+        this.lookupCache.clear();
+    }
+
+    knownElementTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<ElementTypeGraph> {
+        return this.knownElementTypesCache.request(
+            null, '', params.signal,
+            signal => this.baseProvider.knownElementTypes({signal})
+        );
+    }
+
+    knownLinkTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<LinkTypeGraph> {
+        return this.knownLinkTypesCache.request(
+            null, '', params.signal,
+            signal => this.baseProvider.knownLinkTypes({signal})
+        );
+    }
+
+    elementTypes(params: {
+        classIds: ReadonlyArray<ElementTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementTypeIri, ElementTypeModel>> {
+        return this.elementTypeCache.request(
+            params.classIds, params.signal, this.cacheMissing,
+            (classIds, signal) => this.baseProvider.elementTypes({classIds, signal})
+        );
+    }
+
+    propertyTypes(params: {
+        propertyIds: ReadonlyArray<PropertyTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<PropertyTypeIri, PropertyTypeModel>> {
+        return this.propertyTypeCache.request(
+            params.propertyIds, params.signal, this.cacheMissing,
+            (propertyIds, signal) => this.baseProvider.propertyTypes({propertyIds, signal})
+        );
+    }
+
+    linkTypes(params: {
+        linkTypeIds: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<LinkTypeIri, LinkTypeModel>> {
+        return this.linkTypeCache.request(
+            params.linkTypeIds, params.signal, this.cacheMissing,
+            (linkTypeIds, signal) => this.baseProvider.linkTypes({linkTypeIds, signal})
+        );
+    }
+
+    elements(params: {
+        elementIds: ReadonlyArray<ElementIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementIri, ElementModel>> {
+        return this.elementCache.request(
+            params.elementIds, params.signal, this.cacheMissing,
+            (elementIds, signal) => this.baseProvider.elements({elementIds, signal})
+        );
+    }
+
+    links(params: {
+        primary: ReadonlyArray<ElementIri>;
+        secondary: ReadonlyArray<ElementIri>;
+        linkTypeIds?: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<LinkModel[]> {
+        const {primary, secondary, linkTypeIds, signal} = params;
+        const key = JSON.stringify([
+            [...primary].sort(),
+            [...secondary].sort(),
+            linkTypeIds ? [...linkTypeIds].sort() : null,
+        ]);
+        return this.linksCache.request(
+            {primary, secondary, linkTypeIds}, key, signal,
+            signal => this.baseProvider.links({primary, secondary, linkTypeIds, signal})
+        );
+    }
+
+    connectedLinkStats(params: {
+        elementId: ElementIri;
+        inexactCount?: boolean;
+        signal?: AbortSignal;
+    }): Promise<DataProviderLinkCount[]> {
+        const {elementId, inexactCount = false, signal} = params;
+        const key = JSON.stringify([elementId, inexactCount]);
+        return this.linkStatsCache.request(
+            {elementId, inexactCount}, key, signal,
+            signal => this.baseProvider.connectedLinkStats({elementId, inexactCount, signal})
+        );
+    }
+
+    lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
+        if (!this.cacheTextLookups && params.text !== undefined) {
+            return this.baseProvider.lookup(params);
+        }
+        const {signal, ...lookupParams} = params;
+        const key = JSON.stringify([
+            lookupParams.elementTypeId ?? null,
+            lookupParams.text ?? null,
+            lookupParams.refElementId ?? null,
+            lookupParams.refElementLinkId ?? null,
+            lookupParams.linkDirection ?? null,
+            lookupParams.limit === undefined ? 'default' : lookupParams.limit,
+            lookupParams.offset ?? null,
+            lookupParams.sortBy ?? null,
+        ]);
+        return this.lookupCache.request(
+            lookupParams, key, signal,
+            signal => this.baseProvider.lookup({...lookupParams, signal})
+        );
+    }
+
+    /**
+     * Subscribes to data changes from the base provider
+     * if it supports change notifications.
+     *
+     * Cached data is invalidated for each change before the listener is called.
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        if (this.baseProvider.subscribeChanges) {
+            return this.baseProvider.subscribeChanges(e => {
+                this.invalidateOnChange(e);
+                listener(e);
+            });
+        }
+        return () => {/* nothing to unsubscribe from */};
+    }
+
+    private invalidateOnChange(e: DataProviderChangeEvent): void {
+        if (e.invalidateAll) {
+            this.clearCache();
+            return;
+        }
+        const elementIds = new Set(e.elementIds);
+        const linkTypeIds = new Set(e.linkTypeIds);
+        if (e.links) {
+            for (const link of e.links) {
+                elementIds.add(link.sourceId);
+                elementIds.add(link.targetId);
+                linkTypeIds.add(link.linkTypeId);
+            }
+        }
+        this.invalidate({
+            elementIds,
+            elementTypeIds: e.elementTypeIds,
+            linkTypeIds,
+            propertyTypeIds: e.propertyTypeIds,
+        });
+    }
+}
+
+interface LinksParams {
+    readonly primary: ReadonlyArray<ElementIri>;
+    readonly secondary: ReadonlyArray<ElementIri>;
+    readonly linkTypeIds: ReadonlyArray<LinkTypeIri> | undefined;
+}
+
+interface LinkStatsParams {
+    readonly elementId: ElementIri;
+    readonly inexactCount: boolean;
+}
+
+/**
+ * Map with bounded size which evicts least recently used entries first.
+ */
+class LruMap<K, V> {
+    private readonly map = new Map<K, V>();
+
+    constructor(private readonly maxSize: number) {}
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    has(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    get(key: K): V | undefined {
+        if (!this.map.has(key)) {
+            return undefined;
+        }
+        // Re-insert to move the entry to the most recently used position
+        const value = this.map.get(key)!;
+        this.map.delete(key);
+        this.map.set(key, value);
+        return value;
+    }
+
+    set(key: K, value: V): void {
+        this.map.delete(key);
+        this.map.set(key, value);
+        while (this.map.size > this.maxSize) {
+            const oldest = this.map.keys().next();
+            if (oldest.done) {
+                break;
+            }
+            this.map.delete(oldest.value);
+        }
+    }
+
+    delete(key: K): void {
+        this.map.delete(key);
+    }
+
+    clear(): void {
+        this.map.clear();
+    }
+
+    entries(): IterableIterator<[K, V]> {
+        return this.map.entries();
+    }
+}
+
+/**
+ * Request to the base provider shared between multiple callers.
+ *
+ * The request is cancelled only when every caller cancels waiting for it;
+ * callers without a cancellation signal keep the request alive.
+ */
+class SharedRequest<T> {
+    private readonly controller = new AbortController();
+    private waiterCount = 0;
+    readonly result: Promise<T>;
+
+    constructor(load: (signal: AbortSignal) => Promise<T>) {
+        this.result = load(this.controller.signal);
+    }
+
+    /**
+     * Whether the request has been cancelled because all callers stopped waiting for it.
+     */
+    get abandoned(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    wait(signal: AbortSignal | undefined): Promise<T> {
+        this.waiterCount++;
+        if (!signal) {
+            return this.result;
+        }
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                signal.removeEventListener('abort', onAbort);
+                this.release();
+                try {
+                    signal.throwIfAborted();
+                } catch (err) {
+                    reject(err);
+                }
+            };
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener('abort', onAbort);
+            this.result.then(
+                result => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(result);
+                },
+                err => {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(err);
+                }
+            );
+        });
+    }
+
+    private release(): void {
+        this.waiterCount--;
+        if (this.waiterCount === 0) {
+            this.controller.abort();
+        }
+    }
+}
+
+/**
+ * Cache for requests with the result as a whole value per distinct request.
+ */
+class RequestCache<P, R> {
+    private readonly cache: LruMap<string, CachedResult<P, R>>;
+    private readonly pending = new Map<string, PendingRequest<P, R>>();
+
+    constructor(maxSize: number) {
+        this.cache = new LruMap(maxSize);
+    }
+
+    request(
+        params: P,
+        key: string,
+        signal: AbortSignal | undefined,
+        load: (signal: AbortSignal) => Promise<R>
+    ): Promise<R> {
+        const cached = this.cache.get(key);
+        if (cached) {
+            return Promise.resolve(cached.result);
+        }
+        let pending = this.pending.get(key);
+        if (!pending || pending.shared.abandoned) {
+            const shared = new SharedRequest(load);
+            const request: PendingRequest<P, R> = {params, shared, invalidated: false};
+            pending = request;
+            this.pending.set(key, request);
+            shared.result.then(
+                result => {
+                    if (this.pending.get(key) === request) {
+                        this.pending.delete(key);
+                    }
+                    if (!(request.invalidated || getPartialFailure(result))) {
+                        this.cache.set(key, {params, result});
+                    }
+                },
+                () => {
+                    if (this.pending.get(key) === request) {
+                        this.pending.delete(key);
+                    }
+                }
+            );
+        }
+        return pending.shared.wait(signal);
+    }
+
+    invalidate(predicate: (params: P, result: R | undefined) => boolean): void {
+        for (const [key, {params, result}] of Array.from(this.cache.entries())) {
+            if (predicate(params, result)) {
+                this.cache.delete(key);
+            }
+        }
+        for (const [key, request] of Array.from(this.pending)) {
+            if (predicate(request.params, undefined)) {
+                request.invalidated = true;
+                this.pending.delete(key);
+            }
+        }
+    }
+
+    clear(): void {
+        this.cache.clear();
+        for (const request of this.pending.values()) {
+            request.invalidated = true;
+        }
+        this.pending.clear();
+    }
+}
+
+interface CachedResult<P, R> {
+    readonly params: P;
+    readonly result: R;
+}
+
+interface PendingRequest<P, R> {
+    readonly params: P;
+    readonly shared: SharedRequest<R>;
+    invalidated: boolean;
+}
+
+/**
+ * Cache for requests with the result as a map from each requested key
+ * to the corresponding value.
+ */
+class KeyedCache<K extends string, V> {
+    /**
+     * Cached values by key, or `null` for cached missing values.
+     */
+    private readonly cache: LruMap<K, V | null>;
+    private readonly pending = new Map<K, PendingBatch<K, V>>();
+
+    constructor(maxSize: number) {
+        this.cache = new LruMap(maxSize);
+    }
+
+    async request(
+        keys: ReadonlyArray<K>,
+        signal: AbortSignal | undefined,
+        cacheMissing: boolean,
+        load: (keys: ReadonlyArray<K>, signal: AbortSignal) => Promise<Map<K, V>>
+    ): Promise<Map<K, V>> {
+        const result = new Map<K, V>();
+        const waitFor = new Set<PendingBatch<K, V>>();
+        const missingKeys: K[] = [];
+        for (const key of new Set(keys)) {
+            const cached = this.cache.get(key);
+            if (cached !== undefined) {
+                if (cached !== null) {
+                    result.set(key, cached);
+                }
+                continue;
+            }
+            const pending = this.pending.get(key);
+            if (pending && !pending.shared.abandoned) {
+                waitFor.add(pending);
+            } else {
+                missingKeys.push(key);
+            }
+        }
+
+        if (missingKeys.length > 0) {
+            const batch: PendingBatch<K, V> = {
+                keys: missingKeys,
+                shared: new SharedRequest(batchSignal => load(missingKeys, batchSignal)),
+                invalidated: new Set(),
+            };
+            for (const key of missingKeys) {
+                this.pending.set(key, batch);
+            }
+            const cleanup = () => {
+                for (const key of batch.keys) {
+                    if (this.pending.get(key) === batch) {
+                        this.pending.delete(key);
+                    }
+                }
+            };
+            batch.shared.result.then(
+                loaded => {
+                    cleanup();
+                    if (getPartialFailure(loaded)) {
+                        return;
+                    }
+                    for (const key of batch.keys) {
+                        if (batch.invalidated.has(key)) {
+                            continue;
+                        }
+                        const value = loaded.get(key);
+                        if (value !== undefined) {
+                            this.cache.set(key, value);
+                        } else if (cacheMissing) {
+                            this.cache.set(key, null);
+                        }
+                    }
+                },
+                cleanup
+            );
+            waitFor.add(batch);
+        }
+
+        const requestedKeys = new Set(keys);
+        const batchResults = await Promise.all(
+            Array.from(waitFor, batch => batch.shared.wait(signal))
+        );
+        for (const loaded of batchResults) {
+            for (const [key, value] of loaded) {
+                if (requestedKeys.has(key)) {
+                    result.set(key, value);
+                }
+            }
+            const partialFailure = getPartialFailure(loaded);
+            if (partialFailure) {
+                setPartialFailure(result, partialFailure);
+            }
+        }
+        return result;
+    }
+
+    invalidate(keys: ReadonlySet<K>): void {
+        for (const key of keys) {
+            this.cache.delete(key);
+            const pending = this.pending.get(key);
+            if (pending) {
+                pending.invalidated.add(key);
+                this.pending.delete(key);
+            }
+        }
+    }
+
+    clear(): void {
+        this.cache.clear();
+        for (const batch of this.pending.values()) {
+            for (const key of batch.keys) {
+                batch.invalidated.add(key);
+            }
+        }
+        this.pending.clear();
+    }
+}
+
+interface PendingBatch<K, V> {
+    readonly keys: ReadonlyArray<K>;
+    readonly shared: SharedRequest<Map<K, V>>;
+    readonly invalidated: Set<K>;
+}
@@ -0,0 +1,295 @@
+import { delay } from '../../coreUtils/async';
+
+import { getErrorResponse } from '../utils';
+
+import type { DataProviderDecorator, DecoratedMethodName } from './decoratedDataProvider';
+
+/**
+ * Options for {@link retryProviderDecorator}.
+ *
+ * @see {@link retryProviderDecorator}
+ */
+export interface RetryProviderDecoratorOptions {
+    /**
+     * Maximum number of concurrent requests to the base provider.
+     *
+     * Requests over the limit are queued and executed in order as soon as
+     * any active request completes.
+     *
+     * @default Infinity
+     */
+    readonly maxConcurrency?: number;
+    /**
+     * Token bucket rate limit for requests to the base provider:
+     * at most `requests` are allowed in a burst and the allowance
+     * is restored at the rate of `requests` per `interval` milliseconds.
+     *
+     * Each retry attempt is counted as a separate request.
+     *
+     * By default, the request rate is not limited.
+     */
+    readonly rateLimit?: {
+        readonly requests: number;
+        readonly interval: number;
+    };
+    /**
+     * Maximum number of retries for a failed request
+     * (not counting the initial attempt).
+     *
+     * @default 3
+     */
+    readonly maxRetries?: number;
+    /**
+     * Delay in milliseconds before the first retry.
+     *
+     * @default 500
+     */
+    readonly initialBackoff?: number;
+    /**
+     * Maximum delay in milliseconds between retries computed with backoff.
+     *
+     * The limit does not apply to the delay requested by the server
+     * via `Retry-After` response header.
+     *
+     * @default 30000
+     */
+    readonly maxBackoff?: number;
+    /**
+     * Multiplier to increase the delay for each subsequent retry.
+     *
+     * @default 2
+     */
+    readonly backoffMultiplier?: number;
+    /**
+     * Whether to randomize the delay between retries to avoid
+     * retrying many requests at the same time.
+     *
+     * @default true
+     */
+    readonly jitter?: boolean;
+    /**
+     * Determines whether the request should be retried on the specified error.
+     *
+     * By default, only requests which failed with HTTP status
+     * 408, 429, 502, 503 or 504 are retried, which is determined
+     * from the `response` property of the error, if available
+     * (as in errors thrown by `SparqlDataProvider`).
+     */
+    readonly shouldRetry?: (error: unknown, method: DecoratedMethodName) => boolean;
+}
+
+const RETRYABLE_HTTP_STATUSES: ReadonlySet<number> = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * Data provider decorator which limits concurrency and request rate
+ * to the base provider and retries failed requests with exponential backoff.
+ *
+ * When a failed request has a response with `Retry-After` header,
+ * all requests through the decorator are paused for the specified time.
+ *
+ * Waiting for a queued request or a retry is cancelled when the
+ * request `signal` is aborted.
+ *
+ * **Example**:
+ * ```ts
+ * const provider = new DecoratedDataProvider({
+ *     baseProvider: sparqlProvider,
+ *     decorator: retryProviderDecorator({
+ *         maxConcurrency: 4,
+ *         rateLimit: {requests: 10, interval: 1000},
+ *     }),
+ * });
+ * ```
+ *
+ * @category Data
+ * @see {@link DecoratedDataProvider}
+ */
+export function retryProviderDecorator(
+    options: RetryProviderDecoratorOptions = {}
+): DataProviderDecorator {
+    const {
+        maxRetries = 3,
+        initialBackoff = 500,
+        maxBackoff = 30000,
+        backoffMultiplier = 2,
+        jitter = true,
+        shouldRetry = isRetryableError,
+    } = options;
+    const scheduler = new RequestScheduler(
+        options.maxConcurrency ?? Infinity,
+        options.rateLimit ? new TokenBucket(options.rateLimit.requests, options.rateLimit.interval) : undefined
+    );
+    return async <P extends { signal?: AbortSignal }, R>(
+        method: DecoratedMethodName,
+        params: P,
+        body: (params: P) => Promise<R>
+    ): Promise<R> => {
+        const {signal} = params;
+        for (let attempt = 0; ; attempt++) {
+            let retryDelay: number;
+            await scheduler.acquire(signal);
+            try {
+                return await body(params);
+            } catch (err) {
+                if (signal?.aborted || attempt >= maxRetries || !shouldRetry(err, method)) {
+                    throw err;
+                }
+                const backoff = Math.min(
+                    initialBackoff * Math.pow(backoffMultiplier, attempt),
+                    maxBackoff
+                );
+                retryDelay = jitter ? backoff * (0.5 + Math.random() * 0.5) : backoff;
+                const retryAfter = getRetryAfterDelay(err);
+                if (retryAfter !== undefined) {
+                    scheduler.pause(retryAfter);
+                    retryDelay = Math.max(retryDelay, retryAfter);
+                }
+            } finally {
+                scheduler.release();
+            }
+            await delay(retryDelay, {signal});
+        }
+    };
+}
+
+function isRetryableError(error: unknown): boolean {
+    const status = getErrorResponse(error)?.status;
+    return status !== undefined && RETRYABLE_HTTP_STATUSES.has(status);
+}
+
+/**
+ * Returns delay in milliseconds from `Retry-After` response header,
+ * which is either a number of seconds or an HTTP date.
+ */
+function getRetryAfterDelay(error: unknown): number | undefined {
+    const value = getErrorResponse(error)?.headers?.get('Retry-After');
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+interface QueuedRequest {
+    readonly resolve: () => void;
+}
+
+class RequestScheduler {
+    private active = 0;
+    private readonly queue: QueuedRequest[] = [];
+    private pausedUntil = 0;
+
+    constructor(
+        private readonly maxConcurrency: number,
+        private readonly bucket: TokenBucket | undefined
+    ) {}
+
+    async acquire(signal: AbortSignal | undefined): Promise<void> {
+        if (this.active >= this.maxConcurrency) {
+            // Active request slot is handed over from the released request
+            await this.waitInQueue(signal);
+        } else {
+            this.active++;
+        }
+        try {
+            while (true) {
+                signal?.throwIfAborted();
+                const now = Date.now();
+                if (this.pausedUntil > now) {
+                    await delay(this.pausedUntil - now, {signal});
+                    continue;
+                }
+                const waitTime = this.bucket ? this.bucket.take(now) : 0;
+                if (waitTime === 0) {
+                    break;
+                }
+                await delay(waitTime, {signal});
+            }
+        } catch (err) {
+            this.release();
+            throw err;
+        }
+    }
+
+    release(): void {
+        const next = this.queue.shift();
+        if (next) {
+            next.resolve();
+        } else {
+            this.active--;
+        }
+    }
+
+    pause(timeout: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + timeout);
+    }
+
+    private waitInQueue(signal: AbortSignal | undefined): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let onAbort: (() => void) | undefined;
+            const request: QueuedRequest = {
+                resolve: () => {
+                    if (signal && onAbort) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                    resolve();
+                },
+            };
+            this.queue.push(request);
+            if (signal) {
+                onAbort = () => {
+                    signal.removeEventListener('abort', onAbort!);
+                    const index = this.queue.indexOf(request);
+                    if (index >= 0) {
+                        this.queue.splice(index, 1);
+                    }
+                    try {
+                        signal.throwIfAborted();
+                    } catch (err) {
+                        reject(err);
+                    }
+                };
+                if (signal.aborted) {
+                    onAbort();
+                } else {
+                    signal.addEventListener('abort', onAbort);
+                }
+            }
+        });
+    }
+}
+
+class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+    /**
+     * Number of tokens restored per millisecond.
+     */
+    private readonly rate: number;
+
+    constructor(
+        private readonly capacity: number,
+        interval: number
+    ) {
+        this.tokens = capacity;
+        this.rate = capacity / interval;
+    }
+
+    /**
+     * Takes a token from the bucket if available,
+     * otherwise returns time in milliseconds to wait for the next token.
+     */
+    take(now: number): number {
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.rate);
+        this.lastRefill = now;
+        if (this.tokens >= 1) {
+            this.tokens -= 1;
+            return 0;
+        }
+        return Math.max(Math.ceil((1 - this.tokens) / this.rate), 1);
+    }
+}
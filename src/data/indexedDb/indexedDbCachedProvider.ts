@@ -1,13 +1,18 @@
 import { AsyncLock } from '../../coreUtils/async';
-import { multimapAdd } from '../../coreUtils/collections';
+import { multimapAdd, multimapArrayAdd } from '../../coreUtils/collections';
+import { Events, EventSource } from '../../coreUtils/events';
+import type { SerializedDiagram } from '../../editor/serializedDiagram';
 import type * as Rdf from '../rdf/rdfModel';
 import {
-    ElementTypeGraph, LinkTypeModel, ElementTypeIri, ElementTypeModel, PropertyTypeIri,
-    PropertyTypeModel, LinkTypeIri, ElementIri, ElementModel, LinkModel,
+    ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementTypeIri, ElementTypeModel,
+    PropertyTypeIri, PropertyTypeModel, LinkTypeIri, ElementIri, ElementModel, LinkModel,
 } from '../model';
 import {
     DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderLookupSort, DataProviderChangeEvent, DataProviderChangeListener,
 } from '../provider';
+import { getErrorResponse } from '../utils';
+import type { DecoratedMethodName } from '../decorated/decoratedDataProvider';
 
 import { AdjacencyRange, AdjacencyBlock, subtractAdjacencyBlocks, hashAdjacencyRange } from './adjacencyBlocks';
 import { Sha256 } from './sha256';
@@ -52,6 +57,61 @@ export interface IndexedDbCachedProviderOptions {
      * @default false
      */
     readonly cacheTextLookups?: boolean;
+    /**
+     * Time in milliseconds after which cached data is considered expired
+     * and requested again from the base provider, either as a single value
+     * for all data or as a value for each data provider method.
+     *
+     * Cached links are expired all at once based on the time when
+     * the first link was cached.
+     *
+     * By default, cached data never expires.
+     */
+    readonly timeToLive?: number | { readonly [method in DecoratedMethodName]?: number };
+    /**
+     * Maximum approximate size in bytes of the cached data.
+     *
+     * When the cached data size exceeds the limit, least recently used
+     * records are evicted from the cache. Cached links are evicted all at once.
+     *
+     * The size is estimated as a length of JSON-serialized cached records.
+     *
+     * By default, the cache size is not limited.
+     */
+    readonly maxSize?: number;
+    /**
+     * Whether to fall back to cached data when the base provider is unreachable
+     * ("offline" mode).
+     *
+     * When a request to the base provider fails due to a connectivity failure,
+     * the provider switches to the offline mode where requests resolve to
+     * cached data (including expired one) or to partial or empty results,
+     * which are flagged as {@link IndexedDbCachedProvider.isStale stale}.
+     *
+     * While offline, the provider periodically retries requests to the base provider
+     * (see {@link reconnectInterval}); when the base provider is back, the data which
+     * was returned as stale is revalidated in the background and reported via
+     * {@link IndexedDbCachedProvider.subscribeChanges change notifications}.
+     *
+     * @default false
+     */
+    readonly offlineFallback?: boolean;
+    /**
+     * Determines whether an error from the base provider is caused by
+     * a connectivity failure to switch to the offline mode.
+     *
+     * By default, `TypeError` thrown by `fetch()` on network failures
+     * (e.g. "Failed to fetch") and errors with HTTP 502, 503 or 504 status from the `response` property
+     * (as in errors thrown by `SparqlDataProvider`) are considered connectivity failures.
+     */
+    readonly isConnectivityError?: (error: unknown) => boolean;
+    /**
+     * Time in milliseconds to wait before retrying requests to the base provider
+     * in the offline mode.
+     *
+     * @default 30000
+     */
+    readonly reconnectInterval?: number;
     /**
      * Signal to close [IndexedDB database](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API)
      * and dispose the provider.
@@ -71,13 +131,97 @@ const enum ObjectStore {
     linkRanges = 'linkRanges',
     connectedLinkStats = 'connectedLinkStats',
     lookup = 'lookup',
+    cacheEntries = 'cacheEntries',
 }
 
+/**
+ * Object stores with cached data tracked by cache entries
+ * (the same names as the corresponding data provider methods).
+ */
+type CachedStore =
+    | ObjectStore.knownElementTypes
+    | ObjectStore.knownLinkTypes
+    | ObjectStore.elementTypes
+    | ObjectStore.linkTypes
+    | ObjectStore.propertyTypes
+    | ObjectStore.elements
+    | ObjectStore.links
+    | ObjectStore.connectedLinkStats
+    | ObjectStore.lookup;
+
+const CACHED_STORES: ReadonlyArray<CachedStore> = [
+    ObjectStore.knownElementTypes,
+    ObjectStore.knownLinkTypes,
+    ObjectStore.elementTypes,
+    ObjectStore.linkTypes,
+    ObjectStore.propertyTypes,
+    ObjectStore.elements,
+    ObjectStore.links,
+    ObjectStore.connectedLinkStats,
+    ObjectStore.lookup,
+];
+
 const enum ObjectStoreIndex {
     linkBySourceTarget = 'bySourceTarget',
     linkBlockByRangeKey = 'byRangeKey',
+    cacheEntryByAccessedAt = 'byAccessedAt',
+}
+
+/**
+ * Metadata for a cached record to track its expiration and usage.
+ *
+ * Cached links are tracked as a single entry with {@link LINKS_ENTRY_KEY} key.
+ */
+interface CacheEntryRecord {
+    readonly store: CachedStore;
+    readonly key: IDBValidKey;
+    readonly size: number;
+    readonly cachedAt: number;
+    readonly accessedAt: number;
+}
+type CacheEntryKey = [store: CachedStore, key: IDBValidKey];
+
+interface PendingAccessTime {
+    readonly entryKey: CacheEntryKey;
+    readonly accessedAt: number;
 }
 
+/**
+ * Object stores with cached data keyed by IRI.
+ */
+type KeyedStore =
+    | ObjectStore.elementTypes
+    | ObjectStore.linkTypes
+    | ObjectStore.propertyTypes
+    | ObjectStore.elements;
+
+/**
+ * Object stores with data to export and import.
+ */
+const EXPORTED_STORES: ReadonlyArray<ObjectStore> = [
+    ...CACHED_STORES,
+    ObjectStore.linkBlocks,
+    ObjectStore.linkRanges,
+    ObjectStore.cacheEntries,
+];
+
+const CACHE_EXPORT_TYPE = 'IndexedDbCacheExport';
+interface CacheExportFile {
+    readonly '@type': typeof CACHE_EXPORT_TYPE;
+    readonly version: number;
+    readonly exportedAt: number;
+    readonly stores: {
+        readonly [store: string]: ReadonlyArray<readonly [IDBValidKey, unknown]> | undefined;
+    };
+}
+
+const LINKS_ENTRY_KEY = 'links';
+
+/**
+ * Delay in milliseconds to batch updates of cache entry access times.
+ */
+const ACCESS_TIME_UPDATE_DELAY = 1000;
+
 const MISSING_RECORD_KEY = '__missing';
 interface MissingRecord<K extends string> {
     readonly id: K;
@@ -93,7 +237,7 @@ interface KnownElementTypesRecord {
 const KNOWN_LINK_TYPES_KEY = 'knownLinkTypes';
 interface KnownLinkTypesRecord {
     readonly id: typeof KNOWN_LINK_TYPES_KEY;
-    readonly value: LinkTypeModel[];
+    readonly value: LinkTypeGraph;
 }
 
 type LinkRecordKey = [ElementIri, ElementIri];
@@ -120,7 +264,10 @@ interface ConnectedLinkStatsRecord {
 }
 
 type LookupLinkDirectionKey = 'in' | 'out' | '';
-type LookupKey = [ElementTypeIri, ElementIri, LinkTypeIri, LookupLinkDirectionKey, string, string];
+type LookupSortKey = DataProviderLookupSort | '';
+type LookupKey = [
+    ElementTypeIri, ElementIri, LinkTypeIri, LookupLinkDirectionKey, string, string, number, LookupSortKey,
+];
 const LOOKUP_KEY_PROPERTIES: Array<keyof LookupRecord> = [
     'elementType',
     'element',
@@ -128,6 +275,8 @@ const LOOKUP_KEY_PROPERTIES: Array<keyof LookupRecord> = [
     'direction',
     'text',
     'limit',
+    'offset',
+    'sortBy',
 ];
 interface LookupRecord {
     readonly elementType: ElementTypeIri;
@@ -136,17 +285,186 @@ interface LookupRecord {
     readonly direction: LookupLinkDirectionKey;
     readonly text: string;
     readonly limit: string;
+    readonly offset: number;
+    readonly sortBy: LookupSortKey;
     readonly result: DataProviderLookupItem[];
 }
 
+/**
+ * Event data for {@link IndexedDbCachedProvider} events.
+ */
+export interface IndexedDbCachedProviderEvents {
+    /**
+     * Triggered on {@link IndexedDbCachedProvider.connectivity} property change.
+     */
+    changeConnectivity: IndexedDbConnectivityEvent;
+}
+
+/**
+ * Connectivity status to the base provider for {@link IndexedDbCachedProvider}:
+ *   - `online` - requests to the base provider succeed (or the status is unknown yet);
+ *   - `offline` - the base provider is unreachable, cached data is used instead.
+ */
+export type IndexedDbConnectivity = 'online' | 'offline';
+
+/**
+ * Event data for connectivity status change event.
+ *
+ * @see {@link IndexedDbCachedProviderEvents.changeConnectivity}
+ */
+export interface IndexedDbConnectivityEvent {
+    /**
+     * Event source (cached provider).
+     */
+    readonly source: IndexedDbCachedProvider;
+    /**
+     * Previous connectivity status.
+     */
+    readonly previous: IndexedDbConnectivity;
+    /**
+     * Connectivity failure which caused to switch to the offline mode.
+     */
+    readonly error?: unknown;
+}
+
+/**
+ * Specifies which cached graph data should be invalidated.
+ *
+ * @see {@link IndexedDbCachedProvider.invalidate}
+ */
+export interface IndexedDbCacheInvalidation {
+    /**
+     * Invalidate data for the elements, including link statistics and
+     * lookup results which involve any of them.
+     *
+     * All cached links are invalidated as well.
+     */
+    readonly elementIds?: Iterable<ElementIri>;
+    /**
+     * Invalidate data for the element types, including known element types
+     * and lookup results by any of them.
+     */
+    readonly elementTypeIds?: Iterable<ElementTypeIri>;
+    /**
+     * Invalidate data for the link types, including known link types,
+     * link statistics and lookup results which involve any of them.
+     */
+    readonly linkTypeIds?: Iterable<LinkTypeIri>;
+    /**
+     * Invalidate data for the property types.
+     */
+    readonly propertyTypeIds?: Iterable<PropertyTypeIri>;
+}
+
+/**
+ * Statistics for the data cached by {@link IndexedDbCachedProvider}.
+ *
+ * @see {@link IndexedDbCachedProvider.getCacheStats}
+ */
+export interface IndexedDbCacheStats extends IndexedDbCacheStoreStats {
+    /**
+     * Ratio of cache hits to all cache requests (from 0 to 1),
+     * or `0` if there were no requests.
+     */
+    readonly hitRatio: number;
+    /**
+     * Cache statistics for each data provider method.
+     */
+    readonly methods: { readonly [method in DecoratedMethodName]: IndexedDbCacheStoreStats };
+}
+
+/**
+ * Statistics for the data cached for a data provider method
+ * by {@link IndexedDbCachedProvider}.
+ *
+ * @see {@link IndexedDbCacheStats}
+ */
+export interface IndexedDbCacheStoreStats {
+    /**
+     * Number of cached records.
+     */
+    readonly entries: number;
+    /**
+     * Approximate size in bytes of cached records.
+     */
+    readonly bytes: number;
+    /**
+     * Number of requests for cached data which were served from the cache
+     * since the provider was created.
+     *
+     * Each requested entity or type is counted separately.
+     */
+    readonly hits: number;
+    /**
+     * Number of requests for data which was missing in the cache or
+     * was expired since the provider was created.
+     *
+     * Each requested entity or type is counted separately.
+     */
+    readonly misses: number;
+}
+
+/**
+ * Number of items loaded into the cache by {@link IndexedDbCachedProvider.prefetchDiagram}.
+ */
+export interface IndexedDbPrefetchResult {
+    /**
+     * Number of prefetched elements.
+     */
+    readonly elements: number;
+    /**
+     * Number of prefetched element types.
+     */
+    readonly elementTypes: number;
+    /**
+     * Number of prefetched link types.
+     */
+    readonly linkTypes: number;
+    /**
+     * Number of prefetched property types.
+     */
+    readonly propertyTypes: number;
+    /**
+     * Number of prefetched links between the elements.
+     */
+    readonly links: number;
+}
+
 /**
  * Caches graph data returned from another data provider using
  * [IndexedDB](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API) storage.
  *
+ * Cached data can be limited in time with {@link IndexedDbCachedProviderOptions.timeToLive}
+ * and in size with {@link IndexedDbCachedProviderOptions.maxSize}.
+ *
+ * Cached data can be used when the base provider is unreachable with
+ * {@link IndexedDbCachedProviderOptions.offlineFallback offline fallback} mode.
+ *
+ * The cache can be populated in advance with data for a diagram via
+ * {@link IndexedDbCachedProvider.prefetchDiagram prefetchDiagram()} and transferred
+ * to another machine via {@link IndexedDbCachedProvider.exportCache exportCache()} and
+ * {@link IndexedDbCachedProvider.importCache importCache()}.
+ *
+ * **Example**:
+ * ```ts
+ * // Prefetch diagram data and save the cache into a file
+ * await cachedProvider.prefetchDiagram(diagram);
+ * const file = await cachedProvider.exportCache();
+ *
+ * // Load the cache from the file on another machine
+ * await otherCachedProvider.importCache(file);
+ * ```
+ *
  * @category Data
  */
 export class IndexedDbCachedProvider implements DataProvider {
-    static readonly DB_VERSION = 3;
+    static readonly DB_VERSION = 8;
+
+    private readonly source = new EventSource<IndexedDbCachedProviderEvents>();
+    /**
+     * Events for the cached provider.
+     */
+    readonly events: Events<IndexedDbCachedProviderEvents> = this.source;
 
     private readonly hasher = new Sha256();
 
@@ -155,31 +473,406 @@ export class IndexedDbCachedProvider implements DataProvider {
     private readonly cacheMissing: boolean;
     private readonly cacheLinks: boolean;
     private readonly cacheTextLookups: boolean;
+    private readonly timeToLive = new Map<CachedStore, number>();
+    private readonly maxSize: number | undefined;
+    private readonly offlineFallback: boolean;
+    private readonly isConnectivityError: (error: unknown) => boolean;
+    private readonly reconnectInterval: number;
     private readonly linkLock = new AsyncLock();
     private readonly closeSignal: AbortSignal;
 
     private openedDb: Promise<IDBDatabase> | undefined;
     private deleteRequest: Promise<void> | undefined;
 
+    private readonly requestStats = new Map<CachedStore, { hits: number; misses: number }>();
+    private totalSize: number | undefined;
+    private evicting: Promise<void> | undefined;
+    private pendingAccessTimes = new Map<string, PendingAccessTime>();
+    private accessTimeUpdate: ReturnType<typeof setTimeout> | undefined;
+
+    private _connectivity: IndexedDbConnectivity = 'online';
+    private lastConnectivityFailure = 0;
+    private readonly staleResults = new WeakSet<object>();
+    private readonly staleKeys = new Map<KeyedStore, Set<string>>();
+    private hasStaleUnkeyedResults = false;
+
+    private readonly changeListeners = new Set<DataProviderChangeListener>();
+    private unsubscribeFromBase: (() => void) | undefined;
+
     constructor(options: IndexedDbCachedProviderOptions) {
         this.baseProvider = options.baseProvider;
         this.dbName = options.dbName;
         this.cacheMissing = options.cacheMissing ?? true;
         this.cacheLinks = options.cacheLinks ?? true;
         this.cacheTextLookups = options.cacheTextLookups ?? false;
+        this.maxSize = options.maxSize;
+        this.offlineFallback = options.offlineFallback ?? false;
+        this.isConnectivityError = options.isConnectivityError ?? isDefaultConnectivityError;
+        this.reconnectInterval = options.reconnectInterval ?? 30000;
         this.closeSignal = options.closeSignal;
         this.closeSignal.addEventListener('abort', this.onClose);
+
+        const {timeToLive} = options;
+        if (timeToLive !== undefined) {
+            for (const store of CACHED_STORES) {
+                const storeTimeToLive = typeof timeToLive === 'number'
+                    ? timeToLive : timeToLive[store as DecoratedMethodName];
+                if (storeTimeToLive !== undefined) {
+                    this.timeToLive.set(store, storeTimeToLive);
+                }
+            }
+        }
     }
 
     get factory(): Rdf.DataFactory {
         return this.baseProvider.factory;
     }
 
+    /**
+     * Current connectivity status to the base provider.
+     *
+     * Always `online` unless {@link IndexedDbCachedProviderOptions.offlineFallback}
+     * is enabled.
+     */
+    get connectivity(): IndexedDbConnectivity {
+        return this._connectivity;
+    }
+
+    /**
+     * Returns `true` if the result returned from the provider is based on
+     * expired or incomplete cached data due to the base provider being unreachable.
+     *
+     * @see {@link IndexedDbCachedProviderOptions.offlineFallback}
+     */
+    isStale(result: object): boolean {
+        return this.staleResults.has(result);
+    }
+
+    /**
+     * Subscribes to data changes from the base provider (if it supports
+     * change notifications) and to revalidated data after returning
+     * from the offline mode.
+     *
+     * Cached data is invalidated on each change from the base provider
+     * before the listener is called.
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        this.changeListeners.add(listener);
+        if (this.changeListeners.size === 1 && this.baseProvider.subscribeChanges) {
+            this.unsubscribeFromBase = this.baseProvider.subscribeChanges(this.onBaseChange);
+        }
+        return () => {
+            this.changeListeners.delete(listener);
+            if (this.changeListeners.size === 0 && this.unsubscribeFromBase) {
+                this.unsubscribeFromBase();
+                this.unsubscribeFromBase = undefined;
+            }
+        };
+    }
+
+    private onBaseChange = (e: DataProviderChangeEvent) => {
+        const elementIds = new Set(e.elementIds);
+        for (const link of e.links ?? []) {
+            // Cached links can only be invalidated together with their endpoints
+            elementIds.add(link.sourceId);
+            elementIds.add(link.targetId);
+        }
+        const invalidated = e.invalidateAll
+            ? this.clearCache()
+            : this.invalidate({
+                elementIds,
+                elementTypeIds: e.elementTypeIds,
+                linkTypeIds: e.linkTypeIds,
+                propertyTypeIds: e.propertyTypeIds,
+            });
+        invalidated.then(
+            () => this.notifyChange(e),
+            err => {
+                console.error('IndexedDbCachedProvider: failed to invalidate cached data', err);
+                this.notifyChange(e);
+            }
+        );
+    };
+
+    private notifyChange(e: DataProviderChangeEvent): void {
+        for (const listener of this.changeListeners) {
+            listener(e);
+        }
+    }
+
+    /**
+     * Removes all cached data.
+     */
     clearCache(): Promise<void> {
+        this.totalSize = undefined;
         this.deleteRequest = this.deleteDatabase();
         return this.deleteRequest;
     }
 
+    /**
+     * Removes cached data for the specified graph content.
+     */
+    async invalidate(params: IndexedDbCacheInvalidation): Promise<void> {
+        const elementIds = new Set(params.elementIds);
+        const elementTypeIds = new Set(params.elementTypeIds);
+        const linkTypeIds = new Set(params.linkTypeIds);
+        const propertyTypeIds = new Set(params.propertyTypeIds);
+
+        const db = await this.openDb();
+        if (elementIds.size > 0) {
+            await this.deleteRecords(db, ObjectStore.elements, Array.from(elementIds));
+            const statsKeys: ConnectedLinkStatsKey[] = [];
+            for (const elementId of elementIds) {
+                statsKeys.push([elementId, 0], [elementId, 1]);
+            }
+            await this.deleteRecords(db, ObjectStore.connectedLinkStats, statsKeys);
+            await this.deleteRecordsWhere(db, ObjectStore.lookup, (record: LookupRecord) => (
+                elementIds.has(record.element) ||
+                record.result.some(item => elementIds.has(item.element.id))
+            ));
+            const lock = await this.linkLock.acquire();
+            try {
+                await this.deleteAllLinks(db);
+            } finally {
+                await lock.release();
+            }
+        }
+        if (elementTypeIds.size > 0) {
+            await this.deleteRecords(db, ObjectStore.elementTypes, Array.from(elementTypeIds));
+            await this.deleteRecords(db, ObjectStore.knownElementTypes, [KNOWN_ELEMENT_TYPES_KEY]);
+            await this.deleteRecordsWhere(db, ObjectStore.lookup, (record: LookupRecord) => (
+                elementTypeIds.has(record.elementType)
+            ));
+        }
+        if (linkTypeIds.size > 0) {
+            await this.deleteRecords(db, ObjectStore.linkTypes, Array.from(linkTypeIds));
+            await this.deleteRecords(db, ObjectStore.knownLinkTypes, [KNOWN_LINK_TYPES_KEY]);
+            await this.deleteRecordsWhere(
+                db,
+                ObjectStore.connectedLinkStats,
+                (record: ConnectedLinkStatsRecord) => record.stats.some(stats => linkTypeIds.has(stats.id))
+            );
+            await this.deleteRecordsWhere(db, ObjectStore.lookup, (record: LookupRecord) => (
+                linkTypeIds.has(record.link)
+            ));
+        }
+        if (propertyTypeIds.size > 0) {
+            await this.deleteRecords(db, ObjectStore.propertyTypes, Array.from(propertyTypeIds));
+        }
+    }
+
+    /**
+     * Computes statistics for the cached data: number of cached records,
+     * approximate data size and cache hit/miss counts.
+     */
+    async getCacheStats(): Promise<IndexedDbCacheStats> {
+        const db = await this.openDb();
+        const storedStats = await this.readStoredStats(db);
+
+        let totalEntries = 0;
+        let totalBytes = 0;
+        let totalHits = 0;
+        let totalMisses = 0;
+        const methods = {} as { [method in DecoratedMethodName]: IndexedDbCacheStoreStats };
+        for (const store of CACHED_STORES) {
+            const {entries = 0, bytes = 0} = storedStats.get(store) ?? {};
+            const {hits = 0, misses = 0} = this.requestStats.get(store) ?? {};
+            methods[store as DecoratedMethodName] = {entries, bytes, hits, misses};
+            totalEntries += entries;
+            totalBytes += bytes;
+            totalHits += hits;
+            totalMisses += misses;
+        }
+        this.totalSize = totalBytes;
+
+        return {
+            entries: totalEntries,
+            bytes: totalBytes,
+            hits: totalHits,
+            misses: totalMisses,
+            hitRatio: totalHits + totalMisses > 0 ? totalHits / (totalHits + totalMisses) : 0,
+            methods,
+        };
+    }
+
+    /**
+     * Loads data for all elements, their types, property types and links between
+     * them from the serialized diagram into the cache.
+     *
+     * This is useful to make the diagram available without requests to the
+     * base provider, e.g. in the {@link IndexedDbCachedProviderOptions.offlineFallback offline}
+     * mode or on another machine after {@link exportCache export}.
+     */
+    async prefetchDiagram(
+        diagram: SerializedDiagram,
+        options: { signal?: AbortSignal } = {}
+    ): Promise<IndexedDbPrefetchResult> {
+        const {signal} = options;
+        const {layoutData, linkTypeOptions} = diagram;
+
+        const elementIdSet = new Set<ElementIri>();
+        for (const layoutElement of layoutData.elements) {
+            switch (layoutElement['@type']) {
+                case 'Element': {
+                    if (layoutElement.iri) {
+                        elementIdSet.add(layoutElement.iri);
+                    }
+                    break;
+                }
+                case 'ElementGroup': {
+                    for (const item of layoutElement.items) {
+                        elementIdSet.add(item.iri);
+                    }
+                    break;
+                }
+            }
+        }
+        const linkTypeIds = new Set<LinkTypeIri>();
+        for (const layoutLink of layoutData.links) {
+            linkTypeIds.add(layoutLink.property);
+        }
+        for (const setting of linkTypeOptions ?? []) {
+            linkTypeIds.add(setting.property);
+        }
+
+        const elementIds = Array.from(elementIdSet);
+        const [elements, links] = await Promise.all([
+            this.elements({elementIds, signal}),
+            this.links({primary: elementIds, secondary: elementIds, signal}),
+        ]);
+
+        const elementTypeIds = new Set<ElementTypeIri>();
+        const propertyTypeIds = new Set<PropertyTypeIri>();
+        for (const element of elements.values()) {
+            for (const type of element.types) {
+                elementTypeIds.add(type);
+            }
+            for (const propertyId in element.properties) {
+                propertyTypeIds.add(propertyId as PropertyTypeIri);
+            }
+        }
+        for (const link of links) {
+            linkTypeIds.add(link.linkTypeId);
+            for (const propertyId in link.properties) {
+                propertyTypeIds.add(propertyId as PropertyTypeIri);
+            }
+        }
+
+        const [elementTypes, linkTypes, propertyTypes] = await Promise.all([
+            this.elementTypes({classIds: Array.from(elementTypeIds), signal}),
+            this.linkTypes({linkTypeIds: Array.from(linkTypeIds), signal}),
+            this.propertyTypes({propertyIds: Array.from(propertyTypeIds), signal}),
+        ]);
+
+        return {
+            elements: elements.size,
+            elementTypes: elementTypes.size,
+            linkTypes: linkTypes.size,
+            propertyTypes: propertyTypes.size,
+            links: links.length,
+        };
+    }
+
+    /**
+     * Exports all cached data into a portable JSON file which can be
+     * loaded into the cache on another machine with {@link importCache}.
+     */
+    async exportCache(): Promise<Blob> {
+        const db = await this.openDb();
+        const stores: { [store: string]: Array<readonly [IDBValidKey, unknown]> } = {};
+        const lock = await this.linkLock.acquire();
+        try {
+            const tx = db.transaction(EXPORTED_STORES, 'readonly');
+            try {
+                for (const store of EXPORTED_STORES) {
+                    const records: Array<readonly [IDBValidKey, unknown]> = [];
+                    await indexedDbScan(tx.objectStore(store), null, cursor => {
+                        // Link ranges are stored as sets which are not JSON-serializable
+                        const value = store === ObjectStore.linkRanges
+                            ? Array.from(cursor.value as AdjacencyRange<ElementIri>)
+                            : cursor.value;
+                        records.push([cursor.primaryKey, value]);
+                        cursor.continue();
+                    });
+                    stores[store] = records;
+                }
+                tx.commit();
+            } catch (err) {
+                indexedDbSilentAbort(tx);
+                throw new Error('Failed to read cached data for export', {cause: err});
+            }
+        } finally {
+            await lock.release();
+        }
+        const file: CacheExportFile = {
+            '@type': CACHE_EXPORT_TYPE,
+            version: IndexedDbCachedProvider.DB_VERSION,
+            exportedAt: Date.now(),
+            stores,
+        };
+        return new Blob([JSON.stringify(file)], {type: 'application/json'});
+    }
+
+    /**
+     * Replaces all cached data with the data from a file
+     * created by {@link exportCache}.
+     *
+     * Imported data keeps its original cache time for
+     * {@link IndexedDbCachedProviderOptions.timeToLive expiration}.
+     *
+     * Change listeners are notified with `invalidateAll` after the import.
+     */
+    async importCache(file: Blob): Promise<void> {
+        let data: CacheExportFile;
+        try {
+            data = JSON.parse(await file.text());
+        } catch (err) {
+            throw new Error('Failed to parse cache export file', {cause: err});
+        }
+        if (!(data && data['@type'] === CACHE_EXPORT_TYPE && typeof data.stores === 'object')) {
+            throw new Error('Invalid cache export file');
+        }
+        if (data.version !== IndexedDbCachedProvider.DB_VERSION) {
+            throw new Error(`Unsupported cache export file version: ${data.version}`);
+        }
+
+        const db = await this.openDb();
+        const now = Date.now();
+        const lock = await this.linkLock.acquire();
+        try {
+            const tx = db.transaction(EXPORTED_STORES, 'readwrite');
+            try {
+                for (const store of EXPORTED_STORES) {
+                    const objectStore = tx.objectStore(store);
+                    await indexedDbRequestAsPromise(objectStore.clear());
+                    const records = data.stores[store] ?? [];
+                    if (store === ObjectStore.linkRanges) {
+                        await indexedDbPutMany(objectStore, records, ([key, value]) => [
+                            key,
+                            new Set(value as ElementIri[]) satisfies AdjacencyRange<ElementIri>,
+                        ]);
+                    } else if (store === ObjectStore.cacheEntries) {
+                        await indexedDbPutMany(objectStore, records.map(([, value]): CacheEntryRecord => ({
+                            ...(value as CacheEntryRecord),
+                            accessedAt: now,
+                        })));
+                    } else {
+                        await indexedDbPutMany(objectStore, records.map(([, value]) => value));
+                    }
+                }
+                tx.commit();
+            } catch (err) {
+                indexedDbSilentAbort(tx);
+                throw new Error('Failed to import cached data', {cause: err});
+            }
+            this.totalSize = undefined;
+        } finally {
+            await lock.release();
+        }
+        await this.evictIfNeeded(db);
+        this.notifyChange({invalidateAll: true});
+    }
+
     private async deleteDatabase(): Promise<void> {
         await this.closeDatabase();
         await indexedDbRequestAsPromise(indexedDB.deleteDatabase(this.dbName));
@@ -255,6 +948,12 @@ export class IndexedDbCachedProvider implements DataProvider {
                             keyPath: LOOKUP_KEY_PROPERTIES,
                         });
                     }
+                    if (!db.objectStoreNames.contains(ObjectStore.cacheEntries)) {
+                        const keyPath: Array<keyof CacheEntryRecord> = ['store', 'key'];
+                        const store = db.createObjectStore(ObjectStore.cacheEntries, {keyPath});
+                        const byAccessedAtKeyPath: keyof CacheEntryRecord = 'accessedAt';
+                        store.createIndex(ObjectStoreIndex.cacheEntryByAccessedAt, byAccessedAtKeyPath);
+                    }
                 };
                 request.onblocked = e => {
                     reject(new Error(
@@ -279,6 +978,9 @@ export class IndexedDbCachedProvider implements DataProvider {
     };
 
     private async closeDatabase(): Promise<void> {
+        clearTimeout(this.accessTimeUpdate);
+        this.accessTimeUpdate = undefined;
+        this.pendingAccessTimes.clear();
         if (this.openedDb) {
             const db = await this.openedDb;
             db.close();
@@ -288,32 +990,34 @@ export class IndexedDbCachedProvider implements DataProvider {
 
     async knownElementTypes(params: { signal?: AbortSignal | undefined; }): Promise<ElementTypeGraph> {
         const db = await this.openDb();
-        const result = await fetchSingleWithDbCache(
+        const {record, stale} = await this.fetchSingle(
             db,
             ObjectStore.knownElementTypes,
             KNOWN_ELEMENT_TYPES_KEY,
             async (key): Promise<KnownElementTypesRecord> => ({
                 id: key,
                 value: await this.baseProvider.knownElementTypes(params),
-            })
+            }),
+            key => ({id: key, value: {elementTypes: [], subtypeOf: []}})
         );
-        rehydrateLabels(result.value.elementTypes.values(), this.factory);
-        return result.value;
+        rehydrateLabels(record.value.elementTypes.values(), this.factory);
+        return this.markStale(record.value, stale);
     }
 
-    async knownLinkTypes(params: { signal?: AbortSignal | undefined; }): Promise<LinkTypeModel[]> {
+    async knownLinkTypes(params: { signal?: AbortSignal | undefined; }): Promise<LinkTypeGraph> {
         const db = await this.openDb();
-        const result = await fetchSingleWithDbCache(
+        const {record, stale} = await this.fetchSingle(
             db,
             ObjectStore.knownLinkTypes,
             KNOWN_LINK_TYPES_KEY,
             async (key): Promise<KnownLinkTypesRecord> => ({
                 id: key,
                 value: await this.baseProvider.knownLinkTypes(params),
-            })
+            }),
+            key => ({id: key, value: {linkTypes: [], subtypeOf: []}})
         );
-        rehydrateLabels(result.value.values(), this.factory);
-        return result.value;
+        rehydrateLabels(record.value.linkTypes.values(), this.factory);
+        return this.markStale(record.value, stale);
     }
 
     async elementTypes(params: {
@@ -322,11 +1026,10 @@ export class IndexedDbCachedProvider implements DataProvider {
     }): Promise<Map<ElementTypeIri, ElementTypeModel>> {
         const {classIds, signal} = params;
         const db = await this.openDb();
-        const result = await fetchManyWithDbCache(
+        const result = await this.fetchMany(
             db,
             ObjectStore.elementTypes,
             classIds,
-            this.cacheMissing,
             async ids => await this.baseProvider.elementTypes({classIds: ids, signal}),
         );
         rehydrateLabels(result.values(), this.factory);
@@ -339,11 +1042,10 @@ export class IndexedDbCachedProvider implements DataProvider {
     }): Promise<Map<PropertyTypeIri, PropertyTypeModel>> {
         const {propertyIds, signal} = params;
         const db = await this.openDb();
-        const result = await fetchManyWithDbCache(
+        const result = await this.fetchMany(
             db,
             ObjectStore.propertyTypes,
             propertyIds,
-            this.cacheMissing,
             async ids => await this.baseProvider.propertyTypes({propertyIds: ids, signal}),
         );
         rehydrateLabels(result.values(), this.factory);
@@ -356,11 +1058,10 @@ export class IndexedDbCachedProvider implements DataProvider {
     }): Promise<Map<LinkTypeIri, LinkTypeModel>> {
         const {linkTypeIds, signal} = params;
         const db = await this.openDb();
-        const result = await fetchManyWithDbCache(
+        const result = await this.fetchMany(
             db,
             ObjectStore.linkTypes,
             linkTypeIds,
-            this.cacheMissing,
             async ids => await this.baseProvider.linkTypes({linkTypeIds: ids, signal}),
         );
         rehydrateLabels(result.values(), this.factory);
@@ -373,11 +1074,10 @@ export class IndexedDbCachedProvider implements DataProvider {
     }): Promise<Map<ElementIri, ElementModel>> {
         const {elementIds, signal} = params;
         const db = await this.openDb();
-        const result = await fetchManyWithDbCache(
+        const result = await this.fetchMany(
             db,
             ObjectStore.elements,
             elementIds,
-            this.cacheMissing,
             async ids => await this.baseProvider.elements({elementIds: ids, signal}),
         );
         rehydrateLabels(result.values(), this.factory);
@@ -408,17 +1108,30 @@ export class IndexedDbCachedProvider implements DataProvider {
             targets: new Set(orderedSecondary),
         };
 
+        let stale = false;
         const lock = await this.linkLock.acquire();
         try {
+            await this.expireLinks(db);
             const ranges = await this.readLinkRanges(db, request);
             const blocks = await this.selectMissingLinkBlocks(request, ranges);
+            let addedSize = 0;
             if (blocks.length > 0) {
-                await this.fetchAndCacheLinks(db, blocks, params.signal);
-                await this.updateLinkRanges(db, ranges, request);
+                const fetchedSize = await this.fetchOrFallback(
+                    () => this.fetchAndCacheLinks(db, blocks, params.signal)
+                );
+                if (fetchedSize === undefined) {
+                    stale = true;
+                } else {
+                    addedSize = fetchedSize;
+                    await this.updateLinkRanges(db, ranges, request);
+                }
             }
+            this.recordRequestStats(ObjectStore.links, blocks.length > 0 ? 0 : 1, blocks.length > 0 ? 1 : 0);
+            await this.touchLinks(db, addedSize);
         } finally {
             await lock.release();
         }
+        await this.evictIfNeeded(db);
 
         const links: LinkModel[] = [];
         const onlyTypeIds = params.linkTypeIds ? new Set(params.linkTypeIds) : undefined;
@@ -442,7 +1155,10 @@ export class IndexedDbCachedProvider implements DataProvider {
         );
 
         rehydrateProperties(links, this.factory);
-        return links;
+        if (stale) {
+            this.hasStaleUnkeyedResults = true;
+        }
+        return this.markStale(links, stale);
     }
 
     private async readLinkRanges(
@@ -517,11 +1233,16 @@ export class IndexedDbCachedProvider implements DataProvider {
         return subtractAdjacencyBlocks(request, blocks);
     }
 
+    /**
+     * Fetches missing links from the base provider and stores them into the cache.
+     *
+     * @returns approximate size of the stored links
+     */
     private async fetchAndCacheLinks(
         db: IDBDatabase,
         blocks: ReadonlyArray<LinkBlock>,
         signal: AbortSignal | undefined
-    ): Promise<void> {
+    ): Promise<number> {
         const serializedLinks: LinkModel[] = [];
         await Promise.all(blocks.map(async block => {
             const links = await this.baseProvider.links({
@@ -541,6 +1262,11 @@ export class IndexedDbCachedProvider implements DataProvider {
             const linkStore = tx.objectStore(ObjectStore.links);
             await indexedDbPutMany(linkStore, serializedLinks);
             tx.commit();
+            let addedSize = 0;
+            for (const link of serializedLinks) {
+                addedSize += estimateRecordSize(link);
+            }
+            return addedSize;
         } catch (err) {
             indexedDbSilentAbort(tx);
             throw new Error(
@@ -730,7 +1456,7 @@ export class IndexedDbCachedProvider implements DataProvider {
             params.elementId,
             params.inexactCount ? 1 : 0,
         ];
-        const result = await fetchSingleWithDbCache(
+        const {record, stale} = await this.fetchSingle(
             db,
             ObjectStore.connectedLinkStats,
             key,
@@ -742,9 +1468,10 @@ export class IndexedDbCachedProvider implements DataProvider {
                     inexactCount: Boolean(inexactCount),
                     signal
                 }),
-            })
+            }),
+            ([elementId, inexactCount]) => ({elementId, inexactCount, stats: []})
         );
-        return result.stats;
+        return this.markStale(record.stats, stale);
     }
 
     async lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
@@ -761,10 +1488,12 @@ export class IndexedDbCachedProvider implements DataProvider {
                 params.limit === undefined ? '' :
                 params.limit === null ? 'null' :
                 String(params.limit)
-            )
+            ),
+            params.offset ?? 0,
+            params.sortBy ?? '',
         ];
         const db = await this.openDb();
-        const record = await fetchSingleWithDbCache(
+        const {record, stale} = await this.fetchSingle(
             db,
             ObjectStore.lookup,
             key,
@@ -775,6 +1504,8 @@ export class IndexedDbCachedProvider implements DataProvider {
                 direction,
                 text,
                 limit,
+                offset,
+                sortBy,
             ]): Promise<LookupRecord> => ({
                 elementType,
                 element,
@@ -782,96 +1513,635 @@ export class IndexedDbCachedProvider implements DataProvider {
                 direction,
                 text,
                 limit,
+                offset,
+                sortBy,
                 result: await this.baseProvider.lookup(params),
+            }),
+            ([elementType, element, link, direction, text, limit, offset, sortBy]) => ({
+                elementType,
+                element,
+                link,
+                direction,
+                text,
+                limit,
+                offset,
+                sortBy,
+                result: [],
             })
         );
         const elements = record.result.map(el => el.element);
         rehydrateLabels(elements, this.factory);
         rehydrateProperties(elements, this.factory);
-        return record.result;
+        return this.markStale(record.result, stale);
     }
-}
 
-async function fetchSingleWithDbCache<K extends IDBValidKey, V>(
-    db: IDBDatabase,
-    storeName: string,
-    key: K,
-    fetchBase: (key: K) => Promise<V>
-): Promise<V> {
-    {
-        const readTx = db.transaction(storeName, 'readonly');
-        const readStore = readTx.objectStore(storeName);
-        const cached: V | undefined = await indexedDbRequestAsPromise(
-            readStore.get(key)
-        );
-        readTx.commit();
-        if (cached) {
-            return cached;
+    /**
+     * Fetches a single cached record or requests it from the base provider.
+     *
+     * In the offline mode, returns an expired cached record if available,
+     * otherwise an empty record from `fallback`; both are flagged as stale.
+     */
+    private async fetchSingle<K extends IDBValidKey, V>(
+        db: IDBDatabase,
+        store: CachedStore,
+        key: K,
+        fetchBase: (key: K) => Promise<V>,
+        fallback: (key: K) => V
+    ): Promise<{ record: V; stale: boolean }> {
+        let expired: V | undefined;
+        {
+            const now = Date.now();
+            const readTx = db.transaction([store, ObjectStore.cacheEntries], 'readonly');
+            const readStore = readTx.objectStore(store);
+            const entryStore = readTx.objectStore(ObjectStore.cacheEntries);
+            const cached: V | undefined = await indexedDbRequestAsPromise(
+                readStore.get(key)
+            );
+            const entryKey: CacheEntryKey = [store, key];
+            const entry: CacheEntryRecord | undefined = await indexedDbRequestAsPromise(
+                entryStore.get(entryKey)
+            );
+            if (cached && !this.isExpired(entry, now)) {
+                readTx.commit();
+                if (entry) {
+                    this.recordAccess(db, [entryKey], now);
+                }
+                this.recordRequestStats(store, 1, 0);
+                return {record: cached, stale: false};
+            }
+            expired = cached;
+            readTx.commit();
         }
+
+        this.recordRequestStats(store, 0, 1);
+        const fetchedBase = await this.fetchOrFallback(() => fetchBase(key));
+        if (fetchedBase === undefined) {
+            this.hasStaleUnkeyedResults = true;
+            return {record: expired ?? fallback(key), stale: true};
+        }
+        const fetched = serializeForDb(fetchedBase);
+        await this.storeRecords(db, store, [[key, fetched]]);
+        return {record: fetched, stale: false};
     }
 
-    const fetched = serializeForDb(await fetchBase(key));
-    const writeTx = db.transaction(storeName, 'readwrite');
-    const writeStore = writeTx.objectStore(storeName);
-    await indexedDbRequestAsPromise(writeStore.put(fetched));
-    writeTx.commit();
-    return fetched;
-}
+    /**
+     * Fetches cached records by keys and requests missing ones from the base provider.
+     *
+     * In the offline mode, returns cached records (including expired ones)
+     * flagged as stale and remembers missing keys for a revalidation.
+     */
+    private async fetchMany<K extends string, V extends { readonly id: K }>(
+        db: IDBDatabase,
+        store: KeyedStore,
+        keys: ReadonlyArray<K>,
+        fetchBase: (keys: ReadonlyArray<K>) => Promise<Map<K, V>>
+    ): Promise<Map<K, V>> {
+        const result = new Map<K, V>();
+        const expired = new Map<K, V>();
+        const missingKeys: K[] = [];
+        const uniqueKeys = Array.from(new Set(keys));
+
+        if (uniqueKeys.length > 0) {
+            const now = Date.now();
+            const readTx = db.transaction([store, ObjectStore.cacheEntries], 'readonly');
+            const readStore = readTx.objectStore(store);
+            const entryStore = readTx.objectStore(ObjectStore.cacheEntries);
+
+            const entries = new Map<K, CacheEntryRecord>();
+            await indexedDbGetMany(
+                entryStore,
+                uniqueKeys.map((key): CacheEntryKey => [store, key]),
+                (value, [, key]) => {
+                    const entry = value as CacheEntryRecord | undefined;
+                    if (entry) {
+                        entries.set(key as K, entry);
+                    }
+                }
+            );
 
-async function fetchManyWithDbCache<K extends string, V extends { readonly id: K }>(
-    db: IDBDatabase,
-    storeName: string,
-    keys: ReadonlyArray<K>,
-    cacheMissing: boolean,
-    fetchBase: (keys: ReadonlyArray<K>) => Promise<Map<K, V>>
-): Promise<Map<K, V>> {
-    const result = new Map<K, V>();
-    const missingKeys: K[] = [];
-
-    if (keys.length > 0) {
-        const readTx = db.transaction(storeName, 'readonly');
-        const readStore = readTx.objectStore(storeName);
-        await indexedDbGetMany(
-            readStore,
-            keys,
-            (value, classId) => {
-                const model = value as V | undefined;
-                if (model) {
-                    if (isMissingRecord(model)) {
-                        if (!cacheMissing) {
-                            missingKeys.push(classId);
+            const accessedEntries: CacheEntryKey[] = [];
+            await indexedDbGetMany(
+                readStore,
+                uniqueKeys,
+                (value, classId) => {
+                    const model = value as V | undefined;
+                    const entry = entries.get(classId);
+                    if (model && !this.isExpired(entry, now)) {
+                        if (entry) {
+                            accessedEntries.push([store, classId]);
+                        }
+                        if (isMissingRecord(model)) {
+                            if (!this.cacheMissing) {
+                                missingKeys.push(classId);
+                            }
+                        } else {
+                            result.set(classId, model);
                         }
                     } else {
-                        result.set(classId, model);
+                        if (model && !isMissingRecord(model)) {
+                            expired.set(classId, model);
+                        }
+                        missingKeys.push(classId);
+                    }
+                }
+            );
+            readTx.commit();
+            this.recordAccess(db, accessedEntries, now);
+        }
+
+        this.recordRequestStats(store, uniqueKeys.length - missingKeys.length, missingKeys.length);
+
+        if (missingKeys.length > 0) {
+            const fetched = await this.fetchOrFallback(() => fetchBase(missingKeys));
+            if (!fetched) {
+                let staleKeys = this.staleKeys.get(store);
+                if (!staleKeys) {
+                    staleKeys = new Set();
+                    this.staleKeys.set(store, staleKeys);
+                }
+                for (const key of missingKeys) {
+                    staleKeys.add(key);
+                    const value = expired.get(key);
+                    if (value) {
+                        result.set(key, value);
                     }
+                }
+                return this.markStale(result, true);
+            }
+            const stored: Array<readonly [K, V | MissingRecord<K>]> = [];
+            for (const key of missingKeys) {
+                if (fetched.has(key)) {
+                    const value = fetched.get(key)!;
+                    const serialized = serializeForDb(value);
+                    result.set(key, serialized);
+                    stored.push([key, serialized]);
                 } else {
-                    missingKeys.push(classId);
+                    stored.push([key, {id: key, [MISSING_RECORD_KEY]: true}]);
                 }
             }
+            await this.storeRecords(db, store, stored);
+        }
+
+        return result;
+    }
+
+    /**
+     * Schedules a batched update of access time for cache entries if
+     * {@link IndexedDbCachedProviderOptions.maxSize cache size} is limited
+     * to evict least recently used entries.
+     */
+    private recordAccess(db: IDBDatabase, entryKeys: ReadonlyArray<CacheEntryKey>, now: number): void {
+        if (this.maxSize === undefined || entryKeys.length === 0) {
+            return;
+        }
+        for (const entryKey of entryKeys) {
+            this.pendingAccessTimes.set(serializeCacheEntryKey(entryKey), {entryKey, accessedAt: now});
+        }
+        if (this.accessTimeUpdate === undefined) {
+            this.accessTimeUpdate = setTimeout(() => {
+                this.updateAccessTimes(db).catch(err => {
+                    console.error('IndexedDbCachedProvider: failed to update cache access times', err);
+                });
+            }, ACCESS_TIME_UPDATE_DELAY);
+        }
+    }
+
+    private async updateAccessTimes(db: IDBDatabase): Promise<void> {
+        clearTimeout(this.accessTimeUpdate);
+        this.accessTimeUpdate = undefined;
+        const accessTimes = this.pendingAccessTimes;
+        if (accessTimes.size === 0) {
+            return;
+        }
+        this.pendingAccessTimes = new Map();
+
+        const tx = db.transaction(ObjectStore.cacheEntries, 'readwrite');
+        try {
+            const entryStore = tx.objectStore(ObjectStore.cacheEntries);
+            const updated: CacheEntryRecord[] = [];
+            const entryKeys = Array.from(accessTimes.values(), access => access.entryKey);
+            await indexedDbGetMany(entryStore, entryKeys, (value, entryKey) => {
+                const entry = value as CacheEntryRecord | undefined;
+                const {accessedAt} = accessTimes.get(serializeCacheEntryKey(entryKey))!;
+                if (entry && entry.accessedAt < accessedAt) {
+                    updated.push({...entry, accessedAt});
+                }
+            });
+            await indexedDbPutMany(entryStore, updated);
+            tx.commit();
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to update cache access times', {cause: err});
+        }
+    }
+
+    private isExpired(entry: CacheEntryRecord | undefined, now: number): boolean {
+        if (!entry) {
+            return false;
+        }
+        const timeToLive = this.timeToLive.get(entry.store);
+        return timeToLive !== undefined && entry.cachedAt + timeToLive <= now;
+    }
+
+    /**
+     * Requests data from the base provider with a fallback to the offline mode
+     * on a connectivity failure if {@link offlineFallback} is enabled.
+     *
+     * @returns fetched data or `undefined` if the base provider is unreachable
+     */
+    private async fetchOrFallback<T>(fetchBase: () => Promise<T>): Promise<T | undefined> {
+        if (!this.offlineFallback) {
+            return fetchBase();
+        }
+        if (
+            this._connectivity === 'offline' &&
+            Date.now() - this.lastConnectivityFailure < this.reconnectInterval
+        ) {
+            return undefined;
+        }
+        let result: T;
+        try {
+            result = await fetchBase();
+        } catch (err) {
+            if (this.isConnectivityError(err)) {
+                this.lastConnectivityFailure = Date.now();
+                this.setConnectivity('offline', err);
+                return undefined;
+            }
+            throw err;
+        }
+        this.setConnectivity('online');
+        return result;
+    }
+
+    private setConnectivity(value: IndexedDbConnectivity, error?: unknown): void {
+        const previous = this._connectivity;
+        if (previous === value) {
+            return;
+        }
+        this._connectivity = value;
+        this.source.trigger('changeConnectivity', {source: this, previous, error});
+        if (value === 'online') {
+            this.revalidateStale().catch(err => {
+                console.error('IndexedDbCachedProvider: failed to revalidate stale data', err);
+            });
+        }
+    }
+
+    private markStale<T extends object>(result: T, stale: boolean): T {
+        if (stale) {
+            this.staleResults.add(result);
+        }
+        return result;
+    }
+
+    /**
+     * Requests data which was returned as stale in the offline mode
+     * from the base provider and notifies change listeners about it.
+     */
+    private async revalidateStale(): Promise<void> {
+        const takeStaleKeys = <K extends string>(store: KeyedStore): K[] => {
+            const keys = this.staleKeys.get(store);
+            this.staleKeys.delete(store);
+            return keys ? Array.from(keys) as K[] : [];
+        };
+        const elementIds = takeStaleKeys<ElementIri>(ObjectStore.elements);
+        const elementTypeIds = takeStaleKeys<ElementTypeIri>(ObjectStore.elementTypes);
+        const linkTypeIds = takeStaleKeys<LinkTypeIri>(ObjectStore.linkTypes);
+        const propertyTypeIds = takeStaleKeys<PropertyTypeIri>(ObjectStore.propertyTypes);
+        const invalidateAll = this.hasStaleUnkeyedResults;
+        this.hasStaleUnkeyedResults = false;
+
+        await Promise.all([
+            elementIds.length > 0 ? this.elements({elementIds}) : undefined,
+            elementTypeIds.length > 0 ? this.elementTypes({classIds: elementTypeIds}) : undefined,
+            linkTypeIds.length > 0 ? this.linkTypes({linkTypeIds}) : undefined,
+            propertyTypeIds.length > 0 ? this.propertyTypes({propertyIds: propertyTypeIds}) : undefined,
+        ]);
+
+        if (
+            invalidateAll ||
+            elementIds.length > 0 ||
+            elementTypeIds.length > 0 ||
+            linkTypeIds.length > 0 ||
+            propertyTypeIds.length > 0
+        ) {
+            this.notifyChange({
+                elementIds: new Set(elementIds),
+                elementTypeIds: new Set(elementTypeIds),
+                linkTypeIds: new Set(linkTypeIds),
+                propertyTypeIds: new Set(propertyTypeIds),
+                invalidateAll,
+            });
+        }
+    }
+
+    private recordRequestStats(store: CachedStore, hits: number, misses: number): void {
+        let stats = this.requestStats.get(store);
+        if (!stats) {
+            stats = {hits: 0, misses: 0};
+            this.requestStats.set(store, stats);
+        }
+        stats.hits += hits;
+        stats.misses += misses;
+    }
+
+    private async storeRecords(
+        db: IDBDatabase,
+        store: CachedStore,
+        records: ReadonlyArray<readonly [IDBValidKey, unknown]>
+    ): Promise<void> {
+        const now = Date.now();
+        const tx = db.transaction([store, ObjectStore.cacheEntries], 'readwrite');
+        try {
+            const dataStore = tx.objectStore(store);
+            const entryStore = tx.objectStore(ObjectStore.cacheEntries);
+
+            let sizeDelta = 0;
+            await indexedDbGetMany(
+                entryStore,
+                records.map(([key]): CacheEntryKey => [store, key]),
+                value => {
+                    const entry = value as CacheEntryRecord | undefined;
+                    if (entry) {
+                        sizeDelta -= entry.size;
+                    }
+                }
+            );
+
+            const entries = records.map(([key, value]): CacheEntryRecord => {
+                const size = estimateRecordSize(value);
+                sizeDelta += size;
+                return {store, key, size, cachedAt: now, accessedAt: now};
+            });
+            await indexedDbPutMany(dataStore, records.map(([, value]) => value));
+            await indexedDbPutMany(entryStore, entries);
+            tx.commit();
+            this.adjustTotalSize(sizeDelta);
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to store cached records', {cause: err});
+        }
+        await this.evictIfNeeded(db);
+    }
+
+    private async deleteRecords(
+        db: IDBDatabase,
+        store: CachedStore,
+        keys: ReadonlyArray<IDBValidKey>
+    ): Promise<void> {
+        if (keys.length === 0) {
+            return;
+        }
+        const tx = db.transaction([store, ObjectStore.cacheEntries], 'readwrite');
+        try {
+            const dataStore = tx.objectStore(store);
+            const entryStore = tx.objectStore(ObjectStore.cacheEntries);
+            const entryKeys = keys.map((key): CacheEntryKey => [store, key]);
+
+            let sizeDelta = 0;
+            await indexedDbGetMany(entryStore, entryKeys, value => {
+                const entry = value as CacheEntryRecord | undefined;
+                if (entry) {
+                    sizeDelta -= entry.size;
+                }
+            });
+            await indexedDbDeleteMany(dataStore, keys);
+            await indexedDbDeleteMany(entryStore, entryKeys);
+            tx.commit();
+            this.adjustTotalSize(sizeDelta);
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to delete cached records', {cause: err});
+        }
+    }
+
+    private async deleteRecordsWhere<V>(
+        db: IDBDatabase,
+        store: CachedStore,
+        predicate: (value: V) => boolean
+    ): Promise<void> {
+        const keys: IDBValidKey[] = [];
+        const tx = db.transaction(store, 'readonly');
+        try {
+            await indexedDbScan(tx.objectStore(store), null, cursor => {
+                if (predicate(cursor.value as V)) {
+                    keys.push(cursor.primaryKey);
+                }
+                cursor.continue();
+            });
+            tx.commit();
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to find cached records to delete', {cause: err});
+        }
+        await this.deleteRecords(db, store, keys);
+    }
+
+    /**
+     * Removes all cached links.
+     *
+     * Should be called only with acquired {@link linkLock}.
+     */
+    private async deleteAllLinks(db: IDBDatabase): Promise<void> {
+        const tx = db.transaction(
+            [ObjectStore.links, ObjectStore.linkBlocks, ObjectStore.linkRanges, ObjectStore.cacheEntries],
+            'readwrite'
         );
-        readTx.commit();
+        try {
+            const entryStore = tx.objectStore(ObjectStore.cacheEntries);
+            const entryKey: CacheEntryKey = [ObjectStore.links, LINKS_ENTRY_KEY];
+            const entry: CacheEntryRecord | undefined = await indexedDbRequestAsPromise(
+                entryStore.get(entryKey)
+            );
+            await indexedDbRequestAsPromise(tx.objectStore(ObjectStore.links).clear());
+            await indexedDbRequestAsPromise(tx.objectStore(ObjectStore.linkBlocks).clear());
+            await indexedDbRequestAsPromise(tx.objectStore(ObjectStore.linkRanges).clear());
+            await indexedDbRequestAsPromise(entryStore.delete(entryKey));
+            tx.commit();
+            this.adjustTotalSize(-(entry?.size ?? 0));
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to delete cached links', {cause: err});
+        }
     }
 
-    if (missingKeys.length > 0) {
-        const fetched = await fetchBase(missingKeys);
-        const stored: Array<V | MissingRecord<K>> = [];
-        for (const key of missingKeys) {
-            if (fetched.has(key)) {
-                const value = fetched.get(key)!;
-                const serialized = serializeForDb(value);
-                result.set(key, serialized);
-                stored.push(serialized);
+    /**
+     * Removes all cached links if they are expired.
+     *
+     * Should be called only with acquired {@link linkLock}.
+     */
+    private async expireLinks(db: IDBDatabase): Promise<void> {
+        if (!this.timeToLive.has(ObjectStore.links)) {
+            return;
+        }
+        const tx = db.transaction(ObjectStore.cacheEntries, 'readonly');
+        const entryKey: CacheEntryKey = [ObjectStore.links, LINKS_ENTRY_KEY];
+        const entry: CacheEntryRecord | undefined = await indexedDbRequestAsPromise(
+            tx.objectStore(ObjectStore.cacheEntries).get(entryKey)
+        );
+        tx.commit();
+        if (this.isExpired(entry, Date.now())) {
+            await this.deleteAllLinks(db);
+        }
+    }
+
+    /**
+     * Updates cache entry for the cached links on access or
+     * when new links are stored.
+     *
+     * Should be called only with acquired {@link linkLock}.
+     */
+    private async touchLinks(db: IDBDatabase, addedSize: number): Promise<void> {
+        const now = Date.now();
+        const tx = db.transaction(ObjectStore.cacheEntries, 'readwrite');
+        try {
+            const entryStore = tx.objectStore(ObjectStore.cacheEntries);
+            const entryKey: CacheEntryKey = [ObjectStore.links, LINKS_ENTRY_KEY];
+            const entry: CacheEntryRecord | undefined = await indexedDbRequestAsPromise(
+                entryStore.get(entryKey)
+            );
+            const updated: CacheEntryRecord = entry
+                ? {...entry, size: entry.size + addedSize, accessedAt: now}
+                : {
+                    store: ObjectStore.links,
+                    key: LINKS_ENTRY_KEY,
+                    size: addedSize,
+                    cachedAt: now,
+                    accessedAt: now,
+                };
+            await indexedDbRequestAsPromise(entryStore.put(updated));
+            tx.commit();
+            this.adjustTotalSize(addedSize);
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to update cached links entry', {cause: err});
+        }
+    }
+
+    private adjustTotalSize(delta: number): void {
+        if (this.totalSize !== undefined) {
+            this.totalSize += delta;
+        }
+    }
+
+    private async readStoredStats(
+        db: IDBDatabase
+    ): Promise<Map<CachedStore, { entries: number; bytes: number }>> {
+        const stats = new Map<CachedStore, { entries: number; bytes: number }>();
+        const tx = db.transaction([ObjectStore.cacheEntries, ObjectStore.links], 'readonly');
+        try {
+            await indexedDbScan(tx.objectStore(ObjectStore.cacheEntries), null, cursor => {
+                const entry = cursor.value as CacheEntryRecord;
+                let storeStats = stats.get(entry.store);
+                if (!storeStats) {
+                    storeStats = {entries: 0, bytes: 0};
+                    stats.set(entry.store, storeStats);
+                }
+                storeStats.entries++;
+                storeStats.bytes += entry.size;
+                cursor.continue();
+            });
+            // Cached links are tracked as a single entry
+            const linkCount = await indexedDbRequestAsPromise(
+                tx.objectStore(ObjectStore.links).count()
+            );
+            const linkStats = stats.get(ObjectStore.links);
+            if (linkStats) {
+                linkStats.entries = linkCount;
+            }
+            tx.commit();
+        } catch (err) {
+            indexedDbSilentAbort(tx);
+            throw new Error('Failed to read cache statistics', {cause: err});
+        }
+        return stats;
+    }
+
+    private evictIfNeeded(db: IDBDatabase): Promise<void> {
+        if (this.maxSize === undefined) {
+            return Promise.resolve();
+        }
+        if (!this.evicting) {
+            this.evicting = this.evictLeastRecentlyUsed(db, this.maxSize).finally(() => {
+                this.evicting = undefined;
+            });
+        }
+        return this.evicting;
+    }
+
+    private async evictLeastRecentlyUsed(db: IDBDatabase, maxSize: number): Promise<void> {
+        if (this.totalSize === undefined) {
+            let totalSize = 0;
+            for (const {bytes} of (await this.readStoredStats(db)).values()) {
+                totalSize += bytes;
+            }
+            this.totalSize = totalSize;
+        }
+        if (this.totalSize <= maxSize) {
+            return;
+        }
+
+        await this.updateAccessTimes(db);
+        let entries: CacheEntryRecord[];
+        {
+            const tx = db.transaction(ObjectStore.cacheEntries, 'readonly');
+            const byAccessedAt = tx.objectStore(ObjectStore.cacheEntries)
+                .index(ObjectStoreIndex.cacheEntryByAccessedAt);
+            entries = await indexedDbRequestAsPromise(byAccessedAt.getAll());
+            tx.commit();
+        }
+
+        let remainingSize = this.totalSize;
+        const evicted = new Map<CachedStore, IDBValidKey[]>();
+        let evictLinks = false;
+        for (const entry of entries) {
+            if (remainingSize <= maxSize) {
+                break;
+            }
+            remainingSize -= entry.size;
+            if (entry.store === ObjectStore.links) {
+                evictLinks = true;
             } else {
-                stored.push({id: key, [MISSING_RECORD_KEY]: true});
+                multimapArrayAdd(evicted, entry.store, entry.key);
+            }
+        }
+
+        for (const [store, keys] of evicted) {
+            await this.deleteRecords(db, store, keys);
+        }
+        if (evictLinks) {
+            const lock = await this.linkLock.acquire();
+            try {
+                await this.deleteAllLinks(db);
+            } finally {
+                await lock.release();
             }
         }
-        const writeTx = db.transaction(storeName, 'readwrite');
-        const writeStore = writeTx.objectStore(storeName);
-        await indexedDbPutMany(writeStore, stored);
-        writeTx.commit();
     }
+}
+
+const CONNECTIVITY_HTTP_STATUSES: ReadonlySet<number> = new Set([502, 503, 504]);
+/**
+ * Messages of `TypeError` thrown by `fetch()` on network failures in
+ * Chromium, Firefox, Safari and Node.js correspondingly.
+ */
+const FETCH_NETWORK_ERROR_MESSAGE =
+    /^(Failed to fetch|NetworkError when attempting to fetch resource|Load failed|fetch failed)/;
+
+function isDefaultConnectivityError(error: unknown): boolean {
+    if (error instanceof TypeError) {
+        return FETCH_NETWORK_ERROR_MESSAGE.test(error.message);
+    }
+    const response = getErrorResponse(error);
+    return Boolean(response && CONNECTIVITY_HTTP_STATUSES.has(response.status));
+}
 
-    return result;
+/**
+ * Serializes cache entry key to compare keys by value instead of by reference.
+ */
+function serializeCacheEntryKey(entryKey: CacheEntryKey): string {
+    return JSON.stringify(entryKey);
 }
 
 function indexedDbRequestAsPromise<T>(request: IDBRequest<T>): Promise<T> {
@@ -1042,7 +2312,7 @@ function indexedDbScanOrderedArea2D<K extends string>(
 
 function indexedDbScan(
     store: IDBObjectStore | IDBIndex,
-    query: IDBKeyRange,
+    query: IDBKeyRange | null,
     scanner: (cursor: IDBCursorWithValue) => void
 ): Promise<void> {
     return new Promise<void>((resolve, reject) => {
@@ -1073,6 +2343,10 @@ function serializeForDb<T>(value: T): T {
     return JSON.parse(JSON.stringify(value));
 }
 
+function estimateRecordSize(value: unknown): number {
+    return JSON.stringify(value).length;
+}
+
 function isMissingRecord<K extends string>(value: { readonly id: K }): value is MissingRecord<K> {
     return (
         typeof value === 'object' && value &&
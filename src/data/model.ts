@@ -44,6 +44,25 @@ export interface ElementTypeGraph {
  */
 export type SubtypeEdge = readonly [derived: ElementTypeIri, base: ElementTypeIri];
 
+/**
+ * Describes a graph of link types (nodes) and "subtype of" relations
+ * between them (edges), e.g. from `rdfs:subPropertyOf`.
+ *
+ * @category Data
+ */
+export interface LinkTypeGraph {
+    readonly linkTypes: ReadonlyArray<LinkTypeModel>;
+    readonly subtypeOf: ReadonlyArray<LinkSubtypeEdge>;
+}
+
+/**
+ * "Subtype of" relation between derived link type and its base type.
+ *
+ * @category Data
+ * @see {@link LinkTypeGraph}
+ */
+export type LinkSubtypeEdge = readonly [derived: LinkTypeIri, base: LinkTypeIri];
+
 /**
  * Element (graph node) data.
  *
@@ -55,6 +74,10 @@ export interface ElementModel {
     readonly label: ReadonlyArray<Rdf.Literal>;
     readonly image?: string;
     readonly properties: { readonly [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> };
+    /**
+     * Describes which data sources supplied the element data, if known.
+     */
+    readonly provenance?: DataProvenance;
 }
 
 /**
@@ -78,6 +101,42 @@ export interface LinkModel {
     readonly sourceId: ElementIri;
     readonly targetId: ElementIri;
     readonly properties: { readonly [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> };
+    /**
+     * Describes which data sources supplied the link data, if known.
+     */
+    readonly provenance?: DataProvenance;
+}
+
+/**
+ * Describes which data sources (e.g. named providers combined with
+ * {@link CompositeDataProvider}) supplied an element or a link data.
+ *
+ * @category Data
+ * @see {@link getValueSources}
+ */
+export interface DataProvenance {
+    /**
+     * Names of the data sources which supplied the element or the link itself.
+     */
+    readonly sources: ReadonlyArray<string>;
+    /**
+     * Data sources for each element label.
+     */
+    readonly label?: ReadonlyArray<ValueProvenance<Rdf.Literal>>;
+    /**
+     * Data sources for each property value by property IRI.
+     */
+    readonly properties?: { readonly [id: string]: ReadonlyArray<ValueProvenance> };
+}
+
+/**
+ * Names of data sources which supplied a specific label or property value.
+ *
+ * @see {@link DataProvenance}
+ */
+export interface ValueProvenance<T extends Rdf.NamedNode | Rdf.Literal = Rdf.NamedNode | Rdf.Literal> {
+    readonly value: T;
+    readonly sources: ReadonlyArray<string>;
 }
 
 /**
@@ -110,6 +169,74 @@ export interface LinkTypeModel {
 export interface PropertyTypeModel {
     readonly id: PropertyTypeIri;
     readonly label: ReadonlyArray<Rdf.Literal>;
+    /**
+     * Datatype IRI for literal property values,
+     * e.g. `xsd:integer`, `xsd:date` or `rdf:langString`.
+     *
+     * If not specified, the property may have values of any datatype
+     * or only IRI values (in which case {@link range} is usually set).
+     */
+    readonly datatype?: string;
+    /**
+     * Element types (classes) for IRI property values.
+     */
+    readonly range?: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Element types (classes) of elements which have the property.
+     */
+    readonly domain?: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Allowed number of property values for an element.
+     */
+    readonly cardinality?: PropertyTypeCardinality;
+}
+
+/**
+ * Allowed number of property values for an element.
+ *
+ * @category Data
+ * @see {@link PropertyTypeModel.cardinality}
+ */
+export interface PropertyTypeCardinality {
+    /**
+     * Minimum number of values.
+     *
+     * @default 0
+     */
+    readonly minCount?: number;
+    /**
+     * Maximum number of values.
+     *
+     * If not specified, the number of values is unbounded.
+     */
+    readonly maxCount?: number;
+}
+
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema#';
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const RDFS_LITERAL = 'http://www.w3.org/2000/01/rdf-schema#Literal';
+const RDF_DATATYPES: ReadonlySet<string> = new Set([
+    RDF_NAMESPACE + 'langString',
+    RDF_NAMESPACE + 'dirLangString',
+    RDF_NAMESPACE + 'HTML',
+    RDF_NAMESPACE + 'XMLLiteral',
+    RDF_NAMESPACE + 'JSON',
+    RDF_NAMESPACE + 'PlainLiteral',
+    RDFS_LITERAL,
+]);
+
+/**
+ * Returns `true` if IRI is a well-known literal datatype
+ * (from XSD or RDF vocabulary, or `rdfs:Literal`); otherwise `false`.
+ *
+ * This is useful to distinguish between literal and IRI property ranges,
+ * e.g. from `rdfs:range` values.
+ *
+ * @category Data
+ * @see {@link PropertyTypeModel.datatype}
+ */
+export function isWellKnownDatatype(iri: string): boolean {
+    return iri.startsWith(XSD_NAMESPACE) || RDF_DATATYPES.has(iri);
 }
 
 /**
@@ -130,11 +257,34 @@ export function isEncodedBlank(iri: string): boolean {
 }
 
 /**
- * Computes a hash code for {@link SubtypeEdge} value.
+ * Returns names of the data sources which supplied a property value
+ * if the value provenance is known.
+ *
+ * @category Data
+ * @see {@link DataProvenance}
+ */
+export function getValueSources(
+    provenance: DataProvenance | undefined,
+    propertyId: string,
+    value: Rdf.NamedNode | Rdf.Literal
+): ReadonlyArray<string> | undefined {
+    if (!(provenance?.properties && Object.prototype.hasOwnProperty.call(provenance.properties, propertyId))) {
+        return undefined;
+    }
+    for (const item of provenance.properties[propertyId]) {
+        if (Rdf.equalTerms(item.value, value)) {
+            return item.sources;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Computes a hash code for {@link SubtypeEdge} or {@link LinkSubtypeEdge} value.
  *
  * @category Data
  */
-export function hashSubtypeEdge(edge: SubtypeEdge): number {
+export function hashSubtypeEdge(edge: SubtypeEdge | LinkSubtypeEdge): number {
     const [from, to] = edge;
     let hash = Rdf.hashString(from);
     hash = Rdf.chainHash(hash, Rdf.hashString(to));
@@ -142,11 +292,14 @@ export function hashSubtypeEdge(edge: SubtypeEdge): number {
 }
 
 /**
- * Computes whether {@link SubtypeEdge} values are the same.
+ * Computes whether {@link SubtypeEdge} or {@link LinkSubtypeEdge} values are the same.
  *
  * @category Data
  */
-export function equalSubtypeEdges(a: SubtypeEdge, b: SubtypeEdge): boolean {
+export function equalSubtypeEdges(
+    a: SubtypeEdge | LinkSubtypeEdge,
+    b: SubtypeEdge | LinkSubtypeEdge
+): boolean {
     const [aFrom, aTo] = a;
     const [bFrom, bTo] = b;
     return aFrom === bFrom && aTo === bTo;
@@ -0,0 +1,252 @@
+import type {
+    MetadataProvider, MetadataCanConnect, MetadataCanModifyEntity, MetadataCanModifyRelation,
+    MetadataEntityTypeShape,
+} from '../metadataProvider';
+import type {
+    ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri, PropertyTypeIri,
+} from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import {
+    getEntityModifiability, getRelationModifiability, makeNewEntity, makeNewRelation, mintEntityIri,
+} from '../schemaUtils';
+
+import type { OwlPropertyAxioms, OwlRestriction, OwlSchema } from './owlSchema';
+
+/**
+ * Options for {@link OwlMetadataProvider}.
+ *
+ * @see {@link OwlMetadataProvider}
+ */
+export interface OwlMetadataProviderOptions {
+    /**
+     * OWL / RDFS schema axioms to derive authoring metadata from.
+     */
+    readonly schema: OwlSchema;
+    /**
+     * RDF term factory to create labels for new entities.
+     *
+     * @default Rdf.DefaultDataFactory
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Mints an IRI for a new entity of the specified type.
+     *
+     * By default, the IRI is the type IRI with a random suffix, e.g.
+     * `http://example.com/Person_5d0b6e7a...`.
+     */
+    readonly mintIri?: (type: ElementTypeIri) => ElementIri;
+}
+
+/**
+ * Provides authoring metadata from [OWL](https://www.w3.org/TR/owl2-overview/)
+ * and RDFS schema axioms:
+ *   - links are suggested via object properties with matching `rdfs:domain`
+ *     and `rdfs:range` (unspecified domain or range matches any type), and
+ *     via `owl:Restriction` on the entity classes with `owl:someValuesFrom`,
+ *     `owl:allValuesFrom` or `owl:onClass` value classes;
+ *   - entity properties are datatype and annotation properties with matching
+ *     `rdfs:domain` or restricted on the entity classes;
+ *   - only known classes can be created and edited.
+ *
+ * Class hierarchy from `rdfs:subClassOf` is taken into account when matching
+ * entity types with domains, ranges and restrictions.
+ *
+ * **Example**:
+ * ```ts
+ * const dataProvider = new RdfDataProvider();
+ * dataProvider.addGraph(ontologyGraph);
+ * const metadataProvider = new OwlMetadataProvider({
+ *     schema: OwlSchema.fromDataProvider(dataProvider),
+ * });
+ * ```
+ *
+ * @category Data
+ */
+export class OwlMetadataProvider implements MetadataProvider {
+    private readonly schema: OwlSchema;
+    private readonly factory: Rdf.DataFactory;
+    private readonly mintIri: (type: ElementTypeIri) => ElementIri;
+
+    constructor(options: OwlMetadataProviderOptions) {
+        this.schema = options.schema;
+        this.factory = options.factory ?? Rdf.DefaultDataFactory;
+        this.mintIri = options.mintIri ?? mintEntityIri;
+    }
+
+    async createEntity(
+        type: ElementTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<ElementModel> {
+        return makeNewEntity(this.mintIri(type), type, this.factory);
+    }
+
+    async createRelation(
+        source: ElementModel,
+        target: ElementModel,
+        linkType: LinkTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<LinkModel> {
+        return makeNewRelation(source, target, linkType);
+    }
+
+    async canConnect(
+        source: ElementModel,
+        target: ElementModel | undefined,
+        linkType: LinkTypeIri | undefined,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanConnect[]> {
+        const {schema} = this;
+        const connections: MetadataCanConnect[] = [];
+        const addConnection = (
+            targetClasses: ReadonlyArray<ElementTypeIri>,
+            link: string,
+            direction: 'in' | 'out'
+        ) => {
+            if (linkType && link !== linkType) {
+                return;
+            }
+            const targetTypes = this.getAllowedTargetTypes(targetClasses, target);
+            if (target && !target.types.some(type => targetTypes.has(type))) {
+                return;
+            }
+            if (targetTypes.size > 0) {
+                connections.push({
+                    targetTypes,
+                    inLinks: direction === 'in' ? [link as LinkTypeIri] : [],
+                    outLinks: direction === 'out' ? [link as LinkTypeIri] : [],
+                });
+            }
+        };
+
+        // Links from domain and range axioms
+        for (const property of schema.properties) {
+            if (!isLinkProperty(property) || property.domains.length + property.ranges.length === 0) {
+                continue;
+            }
+            if (matchesClasses(schema, source, property.domains)) {
+                addConnection(property.ranges, property.id, 'out');
+            }
+            if (matchesClasses(schema, source, property.ranges)) {
+                addConnection(property.domains, property.id, 'in');
+            }
+        }
+
+        // Links from restrictions on the source entity classes
+        for (const restriction of schema.getRestrictions(source.types)) {
+            if (isLinkRestriction(schema, restriction)) {
+                const property = schema.getProperty(restriction.property);
+                const valueClasses = restriction.valueClasses.length > 0 ? restriction.valueClasses
+                    : restriction.inverse ? (property?.domains ?? []) : (property?.ranges ?? []);
+                addConnection(valueClasses, restriction.property, restriction.inverse ? 'in' : 'out');
+            }
+        }
+
+        // Links from restrictions on other classes with the source entity as a value
+        for (const restriction of schema.restrictions) {
+            if (schema.isInstanceOfAny(source.types, restriction.valueClasses)) {
+                addConnection(
+                    [restriction.onClass],
+                    restriction.property,
+                    restriction.inverse ? 'out' : 'in'
+                );
+            }
+        }
+
+        return connections;
+    }
+
+    async canModifyEntity(
+        entity: ElementModel,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanModifyEntity> {
+        const classes = this.schema.getClasses();
+        const editable = entity.types.some(type => classes.has(type));
+        return getEntityModifiability(editable);
+    }
+
+    async canModifyRelation(
+        link: LinkModel,
+        source: ElementModel,
+        target: ElementModel,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanModifyRelation> {
+        const connections = await this.canConnect(source, target, link.linkTypeId, options);
+        return getRelationModifiability(connections);
+    }
+
+    async getEntityTypeShape(
+        type: ElementTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataEntityTypeShape> {
+        const {schema} = this;
+        const properties = new Set<PropertyTypeIri>();
+        for (const property of schema.properties) {
+            if (
+                !isLinkProperty(property) &&
+                schema.isInstanceOfAny([type], property.domains)
+            ) {
+                properties.add(property.id as PropertyTypeIri);
+            }
+        }
+        for (const restriction of schema.getRestrictions([type])) {
+            if (!restriction.inverse && !isLinkRestriction(schema, restriction)) {
+                properties.add(restriction.property as PropertyTypeIri);
+            }
+        }
+        return {properties: Array.from(properties)};
+    }
+
+    async filterConstructibleTypes(
+        types: ReadonlySet<ElementTypeIri>,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<ReadonlySet<ElementTypeIri>> {
+        const classes = this.schema.getClasses();
+        const constructible = new Set<ElementTypeIri>();
+        for (const type of types) {
+            if (classes.has(type)) {
+                constructible.add(type);
+            }
+        }
+        return constructible;
+    }
+
+    private getAllowedTargetTypes(
+        classes: ReadonlyArray<ElementTypeIri>,
+        target: ElementModel | undefined
+    ): ReadonlySet<ElementTypeIri> {
+        if (classes.length > 0) {
+            return this.schema.getSubClasses(classes);
+        }
+        // Any entity is allowed as a value, so restrict only to known entity types
+        return target ? new Set(target.types) : this.schema.getClasses();
+    }
+}
+
+/**
+ * Returns `true` if the property values are entities i.e. it describes a link.
+ */
+function isLinkProperty(property: OwlPropertyAxioms): boolean {
+    return property.kind === 'object';
+}
+
+function isLinkRestriction(schema: OwlSchema, restriction: OwlRestriction): boolean {
+    if (restriction.inverse || restriction.valueClasses.length > 0) {
+        return true;
+    } else if (restriction.datatypes.length > 0) {
+        return false;
+    }
+    const property = schema.getProperty(restriction.property);
+    return Boolean(property && isLinkProperty(property));
+}
+
+/**
+ * Returns `true` if the entity is an instance of any class or
+ * the classes are unspecified.
+ */
+function matchesClasses(
+    schema: OwlSchema,
+    entity: ElementModel,
+    classes: ReadonlyArray<ElementTypeIri>
+): boolean {
+    return classes.length === 0 || schema.isInstanceOfAny(entity.types, classes);
+}
@@ -0,0 +1,492 @@
+import { collectClosure, multimapAdd, multimapArrayAdd } from '../../coreUtils/collections';
+import { HashSet } from '../../coreUtils/hashMap';
+
+import { ElementTypeIri, isWellKnownDatatype } from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import { IndexQuadBy, MemoryDataset, indexedDataset } from '../rdf/memoryDataset';
+import type { RdfDataProvider } from '../rdf/rdfDataProvider';
+import { ClassHierarchy } from '../schemaUtils';
+
+const OWL_NAMESPACE = 'http://www.w3.org/2002/07/owl#';
+const OWL_CLASS = OWL_NAMESPACE + 'Class';
+const OWL_OBJECT_PROPERTY = OWL_NAMESPACE + 'ObjectProperty';
+const OWL_DATATYPE_PROPERTY = OWL_NAMESPACE + 'DatatypeProperty';
+const OWL_ANNOTATION_PROPERTY = OWL_NAMESPACE + 'AnnotationProperty';
+const OWL_RESTRICTION = OWL_NAMESPACE + 'Restriction';
+const OWL_ON_PROPERTY = OWL_NAMESPACE + 'onProperty';
+const OWL_SOME_VALUES_FROM = OWL_NAMESPACE + 'someValuesFrom';
+const OWL_ALL_VALUES_FROM = OWL_NAMESPACE + 'allValuesFrom';
+const OWL_ON_CLASS = OWL_NAMESPACE + 'onClass';
+const OWL_ON_DATA_RANGE = OWL_NAMESPACE + 'onDataRange';
+const OWL_INVERSE_OF = OWL_NAMESPACE + 'inverseOf';
+const OWL_UNION_OF = OWL_NAMESPACE + 'unionOf';
+const OWL_INTERSECTION_OF = OWL_NAMESPACE + 'intersectionOf';
+const OWL_EQUIVALENT_CLASS = OWL_NAMESPACE + 'equivalentClass';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDF_PROPERTY = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#Property';
+const RDF_FIRST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first';
+const RDF_REST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest';
+const RDF_NIL = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil';
+const RDFS_CLASS = 'http://www.w3.org/2000/01/rdf-schema#Class';
+const RDFS_DATATYPE = 'http://www.w3.org/2000/01/rdf-schema#Datatype';
+const RDFS_DOMAIN = 'http://www.w3.org/2000/01/rdf-schema#domain';
+const RDFS_RANGE = 'http://www.w3.org/2000/01/rdf-schema#range';
+const RDFS_SUB_CLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const RDFS_SUB_PROPERTY_OF = 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf';
+
+/**
+ * Declared kind of an OWL or RDF property.
+ */
+export type OwlPropertyKind = 'object' | 'datatype' | 'annotation';
+
+/**
+ * Effective domain and range axioms for a property.
+ *
+ * Domains and ranges are inherited from super-properties (`rdfs:subPropertyOf`)
+ * and inverse properties (`owl:inverseOf`) if the property has none of its own.
+ *
+ * @category Data
+ * @see {@link OwlSchema}
+ */
+export interface OwlPropertyAxioms {
+    readonly id: string;
+    /**
+     * Declared property kind or the one inferred from the range.
+     */
+    readonly kind: OwlPropertyKind | undefined;
+    /**
+     * Classes from `rdfs:domain` (including `owl:unionOf` members).
+     */
+    readonly domains: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Classes from `rdfs:range` (including `owl:unionOf` members).
+     */
+    readonly ranges: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Datatypes from `rdfs:range` (including `owl:unionOf` members).
+     */
+    readonly datatypes: ReadonlyArray<string>;
+}
+
+/**
+ * OWL property restriction (`owl:Restriction`) which a class is
+ * a sub-class (or an equivalent class) of.
+ *
+ * @category Data
+ * @see {@link OwlSchema}
+ */
+export interface OwlRestriction {
+    /**
+     * Restricted class.
+     */
+    readonly onClass: ElementTypeIri;
+    /**
+     * Restricted property from `owl:onProperty`.
+     */
+    readonly property: string;
+    /**
+     * Whether the restriction is on an inverse property (`owl:onProperty [ owl:inverseOf ... ]`).
+     */
+    readonly inverse: boolean;
+    /**
+     * Value classes from `owl:someValuesFrom`, `owl:allValuesFrom` or `owl:onClass`.
+     */
+    readonly valueClasses: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Value datatypes from `owl:someValuesFrom`, `owl:allValuesFrom` or `owl:onDataRange`.
+     */
+    readonly datatypes: ReadonlyArray<string>;
+}
+
+/**
+ * Parsed set of [OWL](https://www.w3.org/TR/owl2-overview/) and RDFS schema axioms
+ * relevant to graph authoring: class hierarchy, property domains and ranges and
+ * property restrictions.
+ *
+ * Multiple domains or ranges of a property are treated as alternatives
+ * (same as with `owl:unionOf`) instead of an intersection.
+ *
+ * @category Data
+ */
+export class OwlSchema {
+    /**
+     * All properties with domains and ranges or declared kind.
+     */
+    readonly properties: ReadonlyArray<OwlPropertyAxioms>;
+    /**
+     * All property restrictions.
+     */
+    readonly restrictions: ReadonlyArray<OwlRestriction>;
+
+    private readonly propertyById = new Map<string, OwlPropertyAxioms>();
+    private readonly restrictionsByClass = new Map<ElementTypeIri, OwlRestriction[]>();
+    private readonly classes: ReadonlySet<ElementTypeIri>;
+    private readonly hierarchy: ClassHierarchy;
+
+    private constructor(parsed: ParsedSchema) {
+        this.properties = parsed.properties;
+        this.restrictions = parsed.restrictions;
+        this.classes = parsed.classes;
+        this.hierarchy = new ClassHierarchy(parsed.subClassOf);
+        for (const property of this.properties) {
+            this.propertyById.set(property.id, property);
+        }
+        for (const restriction of this.restrictions) {
+            multimapArrayAdd(this.restrictionsByClass, restriction.onClass, restriction);
+        }
+    }
+
+    /**
+     * Parses schema axioms from the quads in any graph.
+     */
+    static fromQuads(quads: Iterable<Rdf.Quad>): OwlSchema {
+        const dataset = indexedDataset(IndexQuadBy.S | IndexQuadBy.P | IndexQuadBy.SP);
+        dataset.addAll(quads);
+        return new OwlSchema(new SchemaParser(dataset).parse());
+    }
+
+    /**
+     * Parses schema axioms from the dataset of a {@link RdfDataProvider}.
+     *
+     * The axioms are parsed once, so it is necessary to parse them again
+     * if the schema in the dataset has changed.
+     */
+    static fromDataProvider(
+        provider: RdfDataProvider,
+        options: {
+            /**
+             * Graphs (named or the default one) to read the schema from.
+             *
+             * By default, the schema is read from all graphs.
+             */
+            readonly graphs?: ReadonlyArray<Rdf.Quad['graph']>;
+        } = {}
+    ): OwlSchema {
+        return OwlSchema.fromQuads(provider.getQuads(options.graphs));
+    }
+
+    /**
+     * Gets domain and range axioms for the property if known.
+     */
+    getProperty(iri: string): OwlPropertyAxioms | undefined {
+        return this.propertyById.get(iri);
+    }
+
+    /**
+     * Returns all known classes: declared ones (`owl:Class` or `rdfs:Class`)
+     * and the ones used in the class hierarchy, domains, ranges or restrictions.
+     */
+    getClasses(): ReadonlySet<ElementTypeIri> {
+        return this.classes;
+    }
+
+    /**
+     * Returns restrictions which apply to an entity with the specified types,
+     * including restrictions on super-classes of the types.
+     */
+    getRestrictions(types: ReadonlyArray<ElementTypeIri>): OwlRestriction[] {
+        const result: OwlRestriction[] = [];
+        for (const type of this.getSuperClasses(types)) {
+            const restrictions = this.restrictionsByClass.get(type);
+            if (restrictions) {
+                result.push(...restrictions);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) super-classes.
+     */
+    getSuperClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return this.hierarchy.getSuperClasses(types);
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) sub-classes.
+     */
+    getSubClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return this.hierarchy.getSubClasses(types);
+    }
+
+    /**
+     * Returns `true` if an entity with the specified types is an instance of any
+     * of the classes (via `rdf:type/rdfs:subClassOf*`).
+     */
+    isInstanceOfAny(
+        types: ReadonlyArray<ElementTypeIri>,
+        classes: ReadonlyArray<ElementTypeIri>
+    ): boolean {
+        return this.hierarchy.isInstanceOfAny(types, classes);
+    }
+}
+
+interface ParsedSchema {
+    readonly properties: ReadonlyArray<OwlPropertyAxioms>;
+    readonly restrictions: ReadonlyArray<OwlRestriction>;
+    readonly classes: ReadonlySet<ElementTypeIri>;
+    readonly subClassOf: ReadonlyArray<readonly [ElementTypeIri, ElementTypeIri]>;
+}
+
+interface ValueTypes {
+    readonly classes: ElementTypeIri[];
+    readonly datatypes: string[];
+}
+
+class SchemaParser {
+    private readonly factory = Rdf.DefaultDataFactory;
+    private readonly classes = new Set<ElementTypeIri>();
+    private readonly subClassOf: Array<readonly [ElementTypeIri, ElementTypeIri]> = [];
+    private readonly restrictions: OwlRestriction[] = [];
+
+    constructor(private readonly dataset: MemoryDataset) {}
+
+    parse(): ParsedSchema {
+        for (const type of [OWL_CLASS, RDFS_CLASS]) {
+            for (const q of this.subjectsOfType(type)) {
+                if (q.termType === 'NamedNode') {
+                    this.classes.add(q.value as ElementTypeIri);
+                }
+            }
+        }
+
+        for (const predicate of [RDFS_SUB_CLASS_OF, OWL_EQUIVALENT_CLASS]) {
+            for (const q of this.dataset.iterateMatches(null, this.factory.namedNode(predicate), null)) {
+                if (q.subject.termType === 'NamedNode') {
+                    this.addSuperClassExpression(q.subject.value as ElementTypeIri, q.object);
+                }
+            }
+        }
+
+        const properties = this.parseProperties();
+        for (const property of properties) {
+            for (const type of [...property.domains, ...property.ranges]) {
+                this.classes.add(type);
+            }
+        }
+
+        return {
+            properties,
+            restrictions: this.restrictions,
+            classes: this.classes,
+            subClassOf: this.subClassOf,
+        };
+    }
+
+    private addSuperClassExpression(subClass: ElementTypeIri, expression: Rdf.Term): void {
+        this.classes.add(subClass);
+        if (expression.termType === 'NamedNode') {
+            this.classes.add(expression.value as ElementTypeIri);
+            this.subClassOf.push([subClass, expression.value as ElementTypeIri]);
+        } else if (expression.termType === 'BlankNode') {
+            if (this.hasType(expression, OWL_RESTRICTION)) {
+                this.addRestriction(subClass, expression);
+            }
+            const intersection = this.object(expression, OWL_INTERSECTION_OF);
+            if (intersection) {
+                for (const member of this.readList(intersection)) {
+                    this.addSuperClassExpression(subClass, member);
+                }
+            }
+        }
+    }
+
+    private addRestriction(onClass: ElementTypeIri, restriction: Rdf.BlankNode): void {
+        let onProperty = this.object(restriction, OWL_ON_PROPERTY);
+        let inverse = false;
+        if (onProperty?.termType === 'BlankNode') {
+            onProperty = this.object(onProperty, OWL_INVERSE_OF);
+            inverse = true;
+        }
+        if (onProperty?.termType !== 'NamedNode') {
+            return;
+        }
+
+        const valueTypes: ValueTypes = {classes: [], datatypes: []};
+        for (const predicate of [OWL_SOME_VALUES_FROM, OWL_ALL_VALUES_FROM, OWL_ON_CLASS, OWL_ON_DATA_RANGE]) {
+            const value = this.object(restriction, predicate);
+            if (value) {
+                this.collectValueTypes(value, valueTypes);
+            }
+        }
+        for (const valueClass of valueTypes.classes) {
+            this.classes.add(valueClass);
+        }
+
+        this.restrictions.push({
+            onClass,
+            property: onProperty.value,
+            inverse,
+            valueClasses: valueTypes.classes,
+            datatypes: valueTypes.datatypes,
+        });
+    }
+
+    private parseProperties(): OwlPropertyAxioms[] {
+        const declaredKinds = new Map<string, OwlPropertyKind | undefined>();
+        const kindTypes: ReadonlyArray<readonly [string, OwlPropertyKind | undefined]> = [
+            [OWL_OBJECT_PROPERTY, 'object'],
+            [OWL_DATATYPE_PROPERTY, 'datatype'],
+            [OWL_ANNOTATION_PROPERTY, 'annotation'],
+            [RDF_PROPERTY, undefined],
+        ];
+        for (const [type, kind] of kindTypes) {
+            for (const subject of this.subjectsOfType(type)) {
+                if (subject.termType === 'NamedNode' && declaredKinds.get(subject.value) === undefined) {
+                    declaredKinds.set(subject.value, kind);
+                }
+            }
+        }
+
+        const domains = new Map<string, ValueTypes>();
+        const ranges = new Map<string, ValueTypes>();
+        const collectAxioms = (predicate: string, target: Map<string, ValueTypes>) => {
+            for (const q of this.dataset.iterateMatches(null, this.factory.namedNode(predicate), null)) {
+                if (q.subject.termType === 'NamedNode') {
+                    let valueTypes = target.get(q.subject.value);
+                    if (!valueTypes) {
+                        valueTypes = {classes: [], datatypes: []};
+                        target.set(q.subject.value, valueTypes);
+                    }
+                    this.collectValueTypes(q.object, valueTypes);
+                }
+            }
+        };
+        collectAxioms(RDFS_DOMAIN, domains);
+        collectAxioms(RDFS_RANGE, ranges);
+
+        const superProperties = new Map<string, Set<string>>();
+        for (const q of this.dataset.iterateMatches(null, this.factory.namedNode(RDFS_SUB_PROPERTY_OF), null)) {
+            if (q.subject.termType === 'NamedNode' && q.object.termType === 'NamedNode') {
+                multimapAdd(superProperties, q.subject.value, q.object.value);
+            }
+        }
+        const inverses = new Map<string, Set<string>>();
+        for (const q of this.dataset.iterateMatches(null, this.factory.namedNode(OWL_INVERSE_OF), null)) {
+            if (q.subject.termType === 'NamedNode' && q.object.termType === 'NamedNode') {
+                multimapAdd(inverses, q.subject.value, q.object.value);
+                multimapAdd(inverses, q.object.value, q.subject.value);
+            }
+        }
+
+        const getInherited = (property: string, own: ReadonlyMap<string, ValueTypes>): ValueTypes => {
+            const direct = own.get(property);
+            if (direct && (direct.classes.length > 0 || direct.datatypes.length > 0)) {
+                return direct;
+            }
+            const inherited: ValueTypes = {classes: [], datatypes: []};
+            for (const superProperty of collectClosure([property], superProperties)) {
+                const axioms = own.get(superProperty);
+                if (axioms) {
+                    inherited.classes.push(...axioms.classes);
+                    inherited.datatypes.push(...axioms.datatypes);
+                }
+            }
+            return inherited;
+        };
+
+        const allProperties = new Set<string>([
+            ...declaredKinds.keys(),
+            ...domains.keys(),
+            ...ranges.keys(),
+            ...superProperties.keys(),
+            ...inverses.keys(),
+        ]);
+        const properties: OwlPropertyAxioms[] = [];
+        for (const property of allProperties) {
+            let propertyDomains = getInherited(property, domains).classes;
+            let propertyRanges = getInherited(property, ranges);
+            for (const inverse of inverses.get(property) ?? []) {
+                if (propertyDomains.length === 0) {
+                    propertyDomains = getInherited(inverse, ranges).classes;
+                }
+                if (propertyRanges.classes.length === 0 && propertyRanges.datatypes.length === 0) {
+                    propertyRanges = {classes: getInherited(inverse, domains).classes, datatypes: []};
+                }
+            }
+
+            let kind = declaredKinds.get(property);
+            if (kind === undefined) {
+                if (inverses.has(property) || propertyRanges.classes.length > 0) {
+                    kind = 'object';
+                } else if (propertyRanges.datatypes.length > 0) {
+                    kind = 'datatype';
+                }
+            }
+
+            properties.push({
+                id: property,
+                kind,
+                domains: unique(propertyDomains),
+                ranges: unique(propertyRanges.classes),
+                datatypes: unique(propertyRanges.datatypes),
+            });
+        }
+        return properties;
+    }
+
+    private collectValueTypes(value: Rdf.Term, valueTypes: ValueTypes): void {
+        if (value.termType === 'NamedNode') {
+            if (this.isDatatype(value)) {
+                valueTypes.datatypes.push(value.value);
+            } else {
+                valueTypes.classes.push(value.value as ElementTypeIri);
+            }
+        } else if (value.termType === 'BlankNode') {
+            const union = this.object(value, OWL_UNION_OF);
+            if (union) {
+                for (const member of this.readList(union)) {
+                    this.collectValueTypes(member, valueTypes);
+                }
+            }
+        }
+    }
+
+    private isDatatype(term: Rdf.NamedNode): boolean {
+        return isWellKnownDatatype(term.value) || this.hasType(term, RDFS_DATATYPE);
+    }
+
+    private *subjectsOfType(type: string): Iterable<Rdf.Quad['subject']> {
+        const {factory} = this;
+        for (const q of this.dataset.iterateMatches(null, factory.namedNode(RDF_TYPE), factory.namedNode(type))) {
+            yield q.subject;
+        }
+    }
+
+    private hasType(term: Rdf.NamedNode | Rdf.BlankNode, type: string): boolean {
+        const {factory} = this;
+        return this.dataset.hasMatches(term, factory.namedNode(RDF_TYPE), factory.namedNode(type));
+    }
+
+    private object(subject: Rdf.Term, predicate: string): Rdf.Quad['object'] | undefined {
+        for (const q of this.dataset.iterateMatches(subject, this.factory.namedNode(predicate), null)) {
+            return q.object;
+        }
+        return undefined;
+    }
+
+    private readList(head: Rdf.Term): Rdf.Quad['object'][] {
+        const items: Rdf.Quad['object'][] = [];
+        const visited = new HashSet<Rdf.Term>(Rdf.hashTerm, Rdf.equalTerms);
+        let current: Rdf.Term | undefined = head;
+        while (
+            current &&
+            (current.termType === 'BlankNode' || current.termType === 'NamedNode') &&
+            current.value !== RDF_NIL &&
+            !visited.has(current)
+        ) {
+            visited.add(current);
+            const first = this.object(current, RDF_FIRST);
+            if (first) {
+                items.push(first);
+            }
+            current = this.object(current, RDF_REST);
+        }
+        return items;
+    }
+}
+
+function unique<T>(items: ReadonlyArray<T>): T[] {
+    return Array.from(new Set(items));
+}
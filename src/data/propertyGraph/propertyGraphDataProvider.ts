@@ -0,0 +1,654 @@
+import { multimapAdd, multimapDelete } from '../../coreUtils/collections';
+
+import {
+    ElementTypeGraph, ElementTypeModel, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, LinkKey,
+} from '../model';
+import {
+    DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderChangeEvent, DataProviderChangeListener,
+} from '../provider';
+import * as Rdf from '../rdf/rdfModel';
+import { TextIndex } from '../textIndex';
+import { getLabelSortKey } from '../utils';
+
+import {
+    PropertyGraphData, PropertyGraphNode, PropertyGraphEdge, PropertyGraphProperties,
+    PropertyGraphValue, parsePropertyGraph,
+} from './propertyGraphFormat';
+
+/**
+ * Options for {@link PropertyGraphDataProvider}.
+ *
+ * @see {@link PropertyGraphDataProvider}
+ */
+export interface PropertyGraphDataProviderOptions {
+    /**
+     * RDF/JS-compatible term factory to create RDF terms.
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Base IRI to generate IRIs for nodes, labels, edge types and property keys:
+     *   - `{baseIri}node/{id}` for nodes (elements);
+     *   - `{baseIri}label/{label}` for node labels (element types);
+     *   - `{baseIri}type/{type}` for edge types (link types);
+     *   - `{baseIri}property/{key}` for property keys (property types).
+     *
+     * Each identifier part is encoded with `encodeURIComponent()`.
+     *
+     * @default "urn:reactodia:pg:"
+     */
+    readonly baseIri?: string;
+    /**
+     * Whether to use node identifiers, labels, edge types and property keys
+     * which are already absolute IRIs (e.g. `http://example.com/a`) as is
+     * instead of generating IRIs for them with {@link baseIri}.
+     *
+     * This is useful to combine the data with other data providers
+     * via {@link CompositeDataProvider}.
+     *
+     * @default false
+     */
+    readonly keepAbsoluteIris?: boolean;
+    /**
+     * Node property keys to use as element labels in the order of priority.
+     *
+     * @default ["name", "title", "label"]
+     */
+    readonly labelProperties?: ReadonlyArray<string>;
+    /**
+     * Node property key to use as an element image URL.
+     *
+     * By default, no image is set for elements.
+     */
+    readonly imageProperty?: string;
+}
+
+const XSD_BOOLEAN = 'http://www.w3.org/2001/XMLSchema#boolean';
+const XSD_DOUBLE = 'http://www.w3.org/2001/XMLSchema#double';
+const XSD_INTEGER = 'http://www.w3.org/2001/XMLSchema#integer';
+
+const ABSOLUTE_IRI_PATTERN = /^[a-z][a-z0-9+.-]*:[^\s]+$/i;
+
+interface NodeRecord {
+    readonly node: PropertyGraphNode;
+    readonly model: ElementModel;
+}
+
+interface EdgeRecord {
+    readonly edge: PropertyGraphEdge;
+    readonly model: LinkModel;
+}
+
+interface LookupResultItem {
+    readonly elementId: ElementIri;
+    outLinks?: Set<LinkTypeIri>;
+    inLinks?: Set<LinkTypeIri>;
+    score?: number;
+    degree?: number;
+}
+
+/**
+ * Provides graph data from in-memory property graph with nodes
+ * (with labels and key/value properties) and typed edges.
+ *
+ * Node labels are mapped to element types, edge types to link types and
+ * property keys to property types; edge properties are provided as
+ * {@link LinkModel.properties link properties}.
+ *
+ * Lookup by text uses a full-text index over element labels, and lookup
+ * by element type or connected element uses in-memory indexes.
+ *
+ * **Example**:
+ * ```ts
+ * const provider = new PropertyGraphDataProvider();
+ * const response = await fetch('graph.json');
+ * provider.addSerializedGraph(await response.text());
+ * ```
+ *
+ * @category Data
+ * @see {@link PropertyGraphData}
+ */
+export class PropertyGraphDataProvider implements DataProvider {
+    readonly factory: Rdf.DataFactory;
+
+    private readonly baseIri: string;
+    private readonly keepAbsoluteIris: boolean;
+    private readonly labelProperties: ReadonlyArray<string>;
+    private readonly imageProperty: string | undefined;
+
+    private readonly nodes = new Map<ElementIri, NodeRecord>();
+    private readonly edges = new Map<string, EdgeRecord>();
+    private readonly nodesByType = new Map<ElementTypeIri, Set<ElementIri>>();
+    private readonly outEdges = new Map<ElementIri, Set<EdgeRecord>>();
+    private readonly inEdges = new Map<ElementIri, Set<EdgeRecord>>();
+    private readonly linkTypeCounts = new Map<LinkTypeIri, number>();
+    private readonly typeLabels = new Map<ElementTypeIri | LinkTypeIri | PropertyTypeIri, string>();
+    private readonly textIndex = new TextIndex<ElementIri>();
+
+    private readonly changeListeners = new Set<DataProviderChangeListener>();
+
+    private readonly EMPTY_LINKS: ReadonlySet<LinkTypeIri> = new Set();
+
+    constructor(options: PropertyGraphDataProviderOptions = {}) {
+        this.factory = options.factory ?? Rdf.DefaultDataFactory;
+        this.baseIri = options.baseIri ?? 'urn:reactodia:pg:';
+        this.keepAbsoluteIris = options.keepAbsoluteIris ?? false;
+        this.labelProperties = options.labelProperties ?? ['name', 'title', 'label'];
+        this.imageProperty = options.imageProperty;
+    }
+
+    /**
+     * Returns element IRI for the property graph node.
+     */
+    nodeIri(nodeId: string): ElementIri {
+        return this.makeIri('node/', nodeId) as ElementIri;
+    }
+
+    /**
+     * Returns element type IRI for the property graph node label.
+     */
+    labelIri(label: string): ElementTypeIri {
+        return this.makeIri('label/', label) as ElementTypeIri;
+    }
+
+    /**
+     * Returns link type IRI for the property graph edge type.
+     */
+    edgeTypeIri(type: string): LinkTypeIri {
+        return this.makeIri('type/', type) as LinkTypeIri;
+    }
+
+    /**
+     * Returns property type IRI for the property graph property key.
+     */
+    propertyIri(key: string): PropertyTypeIri {
+        return this.makeIri('property/', key) as PropertyTypeIri;
+    }
+
+    private makeIri(kind: string, id: string): string {
+        if (this.keepAbsoluteIris && ABSOLUTE_IRI_PATTERN.test(id)) {
+            return id;
+        }
+        return `${this.baseIri}${kind}${encodeURIComponent(id)}`;
+    }
+
+    /**
+     * Adds nodes and edges to the provider graph.
+     *
+     * A node with the same identifier as an existing one replaces it;
+     * edges with the same identifier, or the same type and endpoints if the
+     * identifier is not set, are replaced as well.
+     */
+    addGraph(graph: PropertyGraphData): void {
+        const elementIds = new Set<ElementIri>();
+        const links: LinkKey[] = [];
+        const elementTypeIds = new Set<ElementTypeIri>();
+        const linkTypeIds = new Set<LinkTypeIri>();
+        const propertyTypeIds = new Set<PropertyTypeIri>();
+
+        for (const node of graph.nodes) {
+            const [record, replaced] = this.addNode(node);
+            elementIds.add(record.model.id);
+            for (const typeId of record.model.types) {
+                elementTypeIds.add(typeId);
+            }
+            if (replaced) {
+                for (const typeId of replaced.model.types) {
+                    elementTypeIds.add(typeId);
+                }
+            }
+            this.collectPropertyTypes(node.properties, propertyTypeIds);
+        }
+        for (const edge of graph.edges) {
+            const [record, replaced] = this.addEdge(edge);
+            links.push(record.model);
+            linkTypeIds.add(record.model.linkTypeId);
+            if (replaced) {
+                links.push(replaced.model);
+                linkTypeIds.add(replaced.model.linkTypeId);
+            }
+            this.collectPropertyTypes(edge.properties, propertyTypeIds);
+        }
+
+        if (elementIds.size > 0 || links.length > 0) {
+            this.notifyChanges({elementIds, links, elementTypeIds, linkTypeIds, propertyTypeIds});
+        }
+    }
+
+    /**
+     * Parses property graph data from a JSON text and adds it to the provider graph.
+     *
+     * @throws {PropertyGraphFormatError} when the data has unexpected structure
+     * @see {@link parsePropertyGraph}
+     */
+    addSerializedGraph(text: string): void {
+        this.addGraph(parsePropertyGraph(JSON.parse(text)));
+    }
+
+    /**
+     * Subscribes to be notified when graph data is added to the provider.
+     *
+     * @see {@link DataProvider.subscribeChanges}
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
+
+    private notifyChanges(e: DataProviderChangeEvent): void {
+        for (const listener of this.changeListeners) {
+            listener(e);
+        }
+    }
+
+    /**
+     * Adds a node to the graph, replacing an existing one with the same identifier.
+     *
+     * @returns added node record and the replaced one if any
+     */
+    private addNode(node: PropertyGraphNode): [NodeRecord, NodeRecord | undefined] {
+        const elementId = this.nodeIri(node.id);
+        const existing = this.nodes.get(elementId);
+        if (existing) {
+            for (const typeId of existing.model.types) {
+                multimapDelete(this.nodesByType, typeId, elementId);
+            }
+            for (const label of existing.model.label) {
+                this.textIndex.delete(elementId, label.value);
+            }
+        }
+
+        const labelKey = this.labelProperties.find(key => node.properties[key]?.length);
+        const imageValues = this.imageProperty ? node.properties[this.imageProperty] : undefined;
+        const model: ElementModel = {
+            id: elementId,
+            types: node.labels.map(label => this.labelIri(label)),
+            label: labelKey
+                ? node.properties[labelKey].map(value => this.factory.literal(getLexicalForm(value)))
+                : [],
+            image: imageValues && imageValues.length > 0 ? getLexicalForm(imageValues[0]) : undefined,
+            properties: this.convertProperties(node.properties),
+        };
+        const record: NodeRecord = {node, model};
+        this.nodes.set(elementId, record);
+
+        node.labels.forEach((label, index) => {
+            const typeId = model.types[index];
+            this.typeLabels.set(typeId, label);
+            multimapAdd(this.nodesByType, typeId, elementId);
+        });
+        for (const label of model.label) {
+            this.textIndex.add(elementId, label.value);
+        }
+        return [record, existing];
+    }
+
+    /**
+     * Adds an edge to the graph, replacing an existing one with the same identifier
+     * (or the same type and endpoints if the identifier is not set).
+     *
+     * @returns added edge record and the replaced one if any
+     */
+    private addEdge(edge: PropertyGraphEdge): [EdgeRecord, EdgeRecord | undefined] {
+        const model: LinkModel = {
+            sourceId: this.nodeIri(edge.source),
+            targetId: this.nodeIri(edge.target),
+            linkTypeId: this.edgeTypeIri(edge.type),
+            properties: this.convertProperties(edge.properties),
+        };
+        const edgeKey = edge.id === undefined
+            ? JSON.stringify([model.sourceId, model.targetId, model.linkTypeId])
+            : JSON.stringify(edge.id);
+
+        const existing = this.edges.get(edgeKey);
+        if (existing) {
+            multimapDelete(this.outEdges, existing.model.sourceId, existing);
+            multimapDelete(this.inEdges, existing.model.targetId, existing);
+            const {linkTypeId} = existing.model;
+            const count = (this.linkTypeCounts.get(linkTypeId) ?? 1) - 1;
+            if (count > 0) {
+                this.linkTypeCounts.set(linkTypeId, count);
+            } else {
+                this.linkTypeCounts.delete(linkTypeId);
+            }
+        }
+
+        const record: EdgeRecord = {edge, model};
+        this.edges.set(edgeKey, record);
+        multimapAdd(this.outEdges, model.sourceId, record);
+        multimapAdd(this.inEdges, model.targetId, record);
+        this.typeLabels.set(model.linkTypeId, edge.type);
+        this.linkTypeCounts.set(model.linkTypeId, (this.linkTypeCounts.get(model.linkTypeId) ?? 0) + 1);
+        return [record, existing];
+    }
+
+    private convertProperties(
+        properties: PropertyGraphProperties
+    ): { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> } {
+        const result: { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> } = {};
+        for (const key of Object.keys(properties)) {
+            const propertyId = this.propertyIri(key);
+            this.typeLabels.set(propertyId, key);
+            result[propertyId] = properties[key].map(value => this.convertValue(value));
+        }
+        return result;
+    }
+
+    private convertValue(value: PropertyGraphValue): Rdf.Literal {
+        switch (typeof value) {
+            case 'boolean':
+                return this.factory.literal(String(value), this.factory.namedNode(XSD_BOOLEAN));
+            case 'number':
+                return this.factory.literal(
+                    String(value),
+                    this.factory.namedNode(Number.isInteger(value) ? XSD_INTEGER : XSD_DOUBLE)
+                );
+            case 'object':
+                return this.factory.literal(value.value, this.factory.namedNode(value.datatype));
+            default:
+                return this.factory.literal(value);
+        }
+    }
+
+    private collectPropertyTypes(properties: PropertyGraphProperties, target: Set<PropertyTypeIri>): void {
+        for (const key of Object.keys(properties)) {
+            target.add(this.propertyIri(key));
+        }
+    }
+
+    knownElementTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<ElementTypeGraph> {
+        const elementTypes: ElementTypeModel[] = [];
+        for (const typeId of this.nodesByType.keys()) {
+            const model = this.getElementType(typeId);
+            if (model) {
+                elementTypes.push(model);
+            }
+        }
+        return Promise.resolve({elementTypes, subtypeOf: []});
+    }
+
+    knownLinkTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<LinkTypeGraph> {
+        const linkTypes: LinkTypeModel[] = [];
+        for (const linkTypeId of this.linkTypeCounts.keys()) {
+            const model = this.getLinkType(linkTypeId);
+            if (model) {
+                linkTypes.push(model);
+            }
+        }
+        return Promise.resolve({linkTypes, subtypeOf: []});
+    }
+
+    elementTypes(params: {
+        classIds: ReadonlyArray<ElementTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementTypeIri, ElementTypeModel>> {
+        const result = new Map<ElementTypeIri, ElementTypeModel>();
+        for (const typeId of params.classIds) {
+            const model = this.getElementType(typeId);
+            if (model) {
+                result.set(typeId, model);
+            }
+        }
+        return Promise.resolve(result);
+    }
+
+    propertyTypes(params: {
+        propertyIds: ReadonlyArray<PropertyTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<PropertyTypeIri, PropertyTypeModel>> {
+        const result = new Map<PropertyTypeIri, PropertyTypeModel>();
+        for (const propertyId of params.propertyIds) {
+            const key = this.typeLabels.get(propertyId);
+            if (key !== undefined) {
+                result.set(propertyId, {id: propertyId, label: [this.factory.literal(key)]});
+            }
+        }
+        return Promise.resolve(result);
+    }
+
+    linkTypes(params: {
+        linkTypeIds: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<LinkTypeIri, LinkTypeModel>> {
+        const result = new Map<LinkTypeIri, LinkTypeModel>();
+        for (const linkTypeId of params.linkTypeIds) {
+            const model = this.getLinkType(linkTypeId);
+            if (model) {
+                result.set(linkTypeId, model);
+            }
+        }
+        return Promise.resolve(result);
+    }
+
+    elements(params: {
+        elementIds: ReadonlyArray<ElementIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementIri, ElementModel>> {
+        const result = new Map<ElementIri, ElementModel>();
+        for (const elementId of params.elementIds) {
+            const record = this.nodes.get(elementId);
+            if (record) {
+                result.set(elementId, record.model);
+            }
+        }
+        return Promise.resolve(result);
+    }
+
+    links(params: {
+        primary: ReadonlyArray<ElementIri>;
+        secondary: ReadonlyArray<ElementIri>;
+        linkTypeIds?: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<LinkModel[]> {
+        const {primary, secondary, linkTypeIds} = params;
+        const secondarySet = new Set(secondary);
+        const linkTypeSet = linkTypeIds ? new Set(linkTypeIds) : undefined;
+
+        const found = new Set<EdgeRecord>();
+        const matchEdges = (edges: ReadonlySet<EdgeRecord> | undefined, otherEnd: 'sourceId' | 'targetId') => {
+            if (!edges) {
+                return;
+            }
+            for (const record of edges) {
+                if (
+                    secondarySet.has(record.model[otherEnd]) &&
+                    (!linkTypeSet || linkTypeSet.has(record.model.linkTypeId))
+                ) {
+                    found.add(record);
+                }
+            }
+        };
+        for (const elementId of primary) {
+            matchEdges(this.outEdges.get(elementId), 'targetId');
+            matchEdges(this.inEdges.get(elementId), 'sourceId');
+        }
+
+        const links: LinkModel[] = [];
+        for (const record of found) {
+            links.push(record.model);
+        }
+        return Promise.resolve(links);
+    }
+
+    connectedLinkStats(params: {
+        elementId: ElementIri;
+        inexactCount?: boolean;
+        signal?: AbortSignal;
+    }): Promise<DataProviderLinkCount[]> {
+        const {elementId} = params;
+
+        const outTargets = new Map<LinkTypeIri, Set<ElementIri>>();
+        for (const {model} of this.outEdges.get(elementId) ?? []) {
+            multimapAdd(outTargets, model.linkTypeId, model.targetId);
+        }
+        const inSources = new Map<LinkTypeIri, Set<ElementIri>>();
+        for (const {model} of this.inEdges.get(elementId) ?? []) {
+            multimapAdd(inSources, model.linkTypeId, model.sourceId);
+        }
+
+        const counts: DataProviderLinkCount[] = [];
+        for (const [linkTypeId, targets] of outTargets) {
+            counts.push({
+                id: linkTypeId,
+                inCount: inSources.get(linkTypeId)?.size ?? 0,
+                outCount: targets.size,
+            });
+        }
+        for (const [linkTypeId, sources] of inSources) {
+            if (!outTargets.has(linkTypeId)) {
+                counts.push({id: linkTypeId, inCount: sources.size, outCount: 0});
+            }
+        }
+        return Promise.resolve(counts);
+    }
+
+    lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
+        let items: Map<ElementIri, LookupResultItem> | undefined;
+
+        if (params.refElementId) {
+            items = new Map();
+            const {refElementId, refElementLinkId, linkDirection} = params;
+            if (!linkDirection || linkDirection === 'out') {
+                for (const {model} of this.outEdges.get(refElementId) ?? []) {
+                    if (!refElementLinkId || model.linkTypeId === refElementLinkId) {
+                        const item = getOrAddItem(items, model.targetId);
+                        if (!item.outLinks) {
+                            item.outLinks = new Set();
+                        }
+                        item.outLinks.add(model.linkTypeId);
+                    }
+                }
+            }
+            if (!linkDirection || linkDirection === 'in') {
+                for (const {model} of this.inEdges.get(refElementId) ?? []) {
+                    if (!refElementLinkId || model.linkTypeId === refElementLinkId) {
+                        const item = getOrAddItem(items, model.sourceId);
+                        if (!item.inLinks) {
+                            item.inLinks = new Set();
+                        }
+                        item.inLinks.add(model.linkTypeId);
+                    }
+                }
+            }
+        }
+
+        if (params.elementTypeId) {
+            const typeNodes = this.nodesByType.get(params.elementTypeId);
+            if (items) {
+                for (const elementId of Array.from(items.keys())) {
+                    if (!typeNodes?.has(elementId)) {
+                        items.delete(elementId);
+                    }
+                }
+            } else {
+                items = new Map();
+                for (const elementId of typeNodes ?? []) {
+                    items.set(elementId, {elementId});
+                }
+            }
+        }
+
+        if (params.text) {
+            const matches = this.textIndex.search(params.text);
+            if (items) {
+                const filtered = new Map<ElementIri, LookupResultItem>();
+                for (const {key, score} of matches) {
+                    const item = items.get(key);
+                    if (item) {
+                        item.score = score;
+                        filtered.set(key, item);
+                    }
+                }
+                items = filtered;
+            } else {
+                items = new Map();
+                for (const {key, score} of matches) {
+                    items.set(key, {elementId: key, score});
+                }
+            }
+        }
+
+        const foundItems: LookupResultItem[] = items ? Array.from(items.values()) : [];
+        const sortBy = params.sortBy ?? (params.text ? 'relevance' : undefined);
+        if (sortBy === 'relevance') {
+            foundItems.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+        } else if (sortBy === 'label') {
+            const sortKeys = new Map<ElementIri, string>();
+            for (const {elementId} of foundItems) {
+                const label = this.nodes.get(elementId)?.model.label ?? [];
+                sortKeys.set(elementId, getLabelSortKey(label, elementId));
+            }
+            foundItems.sort((a, b) => sortKeys.get(a.elementId)!.localeCompare(sortKeys.get(b.elementId)!));
+        } else if (sortBy === 'degree') {
+            for (const item of foundItems) {
+                item.degree = (this.outEdges.get(item.elementId)?.size ?? 0) +
+                    (this.inEdges.get(item.elementId)?.size ?? 0);
+            }
+            foundItems.sort((a, b) => b.degree! - a.degree!);
+        }
+
+        const result: DataProviderLookupItem[] = [];
+        const limit = typeof params.limit === 'number' ? params.limit : Number.POSITIVE_INFINITY;
+        let skipCount = typeof params.offset === 'number' ? params.offset : 0;
+        for (const item of foundItems) {
+            if (result.length >= limit) {
+                break;
+            }
+            const record = this.nodes.get(item.elementId);
+            if (!record) {
+                continue;
+            }
+            if (skipCount > 0) {
+                skipCount--;
+                continue;
+            }
+            result.push({
+                element: record.model,
+                inLinks: item.inLinks ?? this.EMPTY_LINKS,
+                outLinks: item.outLinks ?? this.EMPTY_LINKS,
+                score: item.score,
+                degree: item.degree,
+            });
+        }
+        return Promise.resolve(result);
+    }
+
+    private getElementType(typeId: ElementTypeIri): ElementTypeModel | undefined {
+        const typeNodes = this.nodesByType.get(typeId);
+        if (!typeNodes) {
+            return undefined;
+        }
+        const label = this.typeLabels.get(typeId) ?? typeId;
+        return {id: typeId, label: [this.factory.literal(label)], count: typeNodes.size};
+    }
+
+    private getLinkType(linkTypeId: LinkTypeIri): LinkTypeModel | undefined {
+        const count = this.linkTypeCounts.get(linkTypeId);
+        if (count === undefined) {
+            return undefined;
+        }
+        const label = this.typeLabels.get(linkTypeId) ?? linkTypeId;
+        return {id: linkTypeId, label: [this.factory.literal(label)], count};
+    }
+}
+
+function getLexicalForm(value: PropertyGraphValue): string {
+    return typeof value === 'object' ? value.value : String(value);
+}
+
+function getOrAddItem(
+    items: Map<ElementIri, LookupResultItem>,
+    elementId: ElementIri
+): LookupResultItem {
+    let item = items.get(elementId);
+    if (!item) {
+        item = {elementId};
+        items.set(elementId, item);
+    }
+    return item;
+}
@@ -0,0 +1,239 @@
+/**
+ * Property graph data with nodes and typed edges.
+ *
+ * This is the canonical JSON format for {@link PropertyGraphDataProvider}:
+ * ```json
+ * {
+ *   "nodes": [
+ *     {"id": "1", "labels": ["Person"], "properties": {"name": "Alice", "age": 42}},
+ *     {"id": "2", "labels": ["Person"], "properties": {"name": "Bob"}}
+ *   ],
+ *   "edges": [
+ *     {"id": "e1", "type": "KNOWS", "source": "1", "target": "2", "properties": {"since": 2010}}
+ *   ]
+ * }
+ * ```
+ *
+ * @category Data
+ * @see {@link parsePropertyGraph}
+ */
+export interface PropertyGraphData {
+    readonly nodes: ReadonlyArray<PropertyGraphNode>;
+    readonly edges: ReadonlyArray<PropertyGraphEdge>;
+}
+
+/**
+ * Property graph node with a set of labels and key/value properties.
+ *
+ * @see {@link PropertyGraphData}
+ */
+export interface PropertyGraphNode {
+    readonly id: string;
+    readonly labels: ReadonlyArray<string>;
+    readonly properties: PropertyGraphProperties;
+}
+
+/**
+ * Property graph edge with a type and key/value properties.
+ *
+ * @see {@link PropertyGraphData}
+ */
+export interface PropertyGraphEdge {
+    /**
+     * Edge identifier, if available.
+     */
+    readonly id?: string;
+    readonly type: string;
+    readonly source: string;
+    readonly target: string;
+    readonly properties: PropertyGraphProperties;
+}
+
+/**
+ * Key/value properties of a property graph node or edge.
+ *
+ * Each property may have multiple values.
+ */
+export interface PropertyGraphProperties {
+    readonly [key: string]: ReadonlyArray<PropertyGraphValue>;
+}
+
+/**
+ * Primitive property graph value or a literal with an explicit datatype.
+ */
+export type PropertyGraphValue = string | number | boolean | PropertyGraphTypedValue;
+
+/**
+ * Property graph value as a literal in its lexical form with an explicit datatype,
+ * e.g. `{value: "1.50", datatype: "http://www.w3.org/2001/XMLSchema#decimal"}`.
+ *
+ * Typed values are not parsed from JSON data by {@link parsePropertyGraph}.
+ */
+export interface PropertyGraphTypedValue {
+    /**
+     * Lexical form of the value.
+     */
+    readonly value: string;
+    /**
+     * Datatype IRI of the value.
+     */
+    readonly datatype: string;
+}
+
+/**
+ * Error which is thrown when property graph JSON data has unexpected structure.
+ *
+ * @category Data
+ * @see {@link parsePropertyGraph}
+ */
+export class PropertyGraphFormatError extends Error {
+    /**
+     * Path to the invalid part of the JSON data, e.g. `edges[2].source`.
+     */
+    readonly path: string;
+
+    constructor(message: string, path: string) {
+        super(`${message} (at ${path})`);
+        this.name = 'PropertyGraphFormatError';
+        this.path = path;
+    }
+}
+
+/**
+ * Converts parsed JSON with property graph data into {@link PropertyGraphData}.
+ *
+ * In addition to the canonical format, the following variants are supported:
+ *   - node list as `vertices` instead of `nodes`;
+ *   - single node label as `label` string instead of `labels` array;
+ *   - edge type as `label` instead of `type`;
+ *   - edge endpoints as `outV` / `inV` or `from` / `to`
+ *     instead of `source` / `target`;
+ *   - [GraphSON](https://tinkerpop.apache.org/docs/current/dev/io/#graphson)-like
+ *     typed values (`{"@type": "g:Int64", "@value": 1}`), vertex properties
+ *     (`{"name": [{"id": 0, "value": "marko"}]}`) and `g:Vertex` / `g:Edge` wrappers;
+ *   - data wrapped into a top-level `graph` object.
+ *
+ * Non-primitive property values (objects) are converted to JSON strings.
+ *
+ * @category Data
+ * @throws {PropertyGraphFormatError} when the data has unexpected structure
+ */
+export function parsePropertyGraph(json: unknown): PropertyGraphData {
+    let root = unwrapTyped(json);
+    if (isObject(root) && isObject(root.graph)) {
+        root = unwrapTyped(root.graph);
+    }
+    if (!isObject(root)) {
+        throw new PropertyGraphFormatError('Expected property graph object', '$');
+    }
+
+    const nodesKey = Array.isArray(root.nodes) ? 'nodes' : 'vertices';
+    const rawNodes = root[nodesKey] ?? [];
+    const rawEdges = root.edges ?? [];
+    if (!Array.isArray(rawNodes)) {
+        throw new PropertyGraphFormatError('Expected an array of nodes', nodesKey);
+    }
+    if (!Array.isArray(rawEdges)) {
+        throw new PropertyGraphFormatError('Expected an array of edges', 'edges');
+    }
+
+    const nodes = rawNodes.map((item, index) => parseNode(item, `${nodesKey}[${index}]`));
+    const edges = rawEdges.map((item, index) => parseEdge(item, `edges[${index}]`));
+    return {nodes, edges};
+}
+
+function parseNode(json: unknown, path: string): PropertyGraphNode {
+    const item = unwrapTyped(json);
+    if (!isObject(item)) {
+        throw new PropertyGraphFormatError('Expected node object', path);
+    }
+    const id = parseId(item.id, `${path}.id`);
+    const rawLabels = unwrapTyped(item.labels ?? item.label ?? []);
+    const labels: string[] = [];
+    for (const label of Array.isArray(rawLabels) ? rawLabels : [rawLabels]) {
+        const value = unwrapTyped(label);
+        if (typeof value !== 'string') {
+            throw new PropertyGraphFormatError('Expected node label string', `${path}.labels`);
+        }
+        labels.push(value);
+    }
+    const properties = parseProperties(item.properties, `${path}.properties`);
+    return {id, labels, properties};
+}
+
+function parseEdge(json: unknown, path: string): PropertyGraphEdge {
+    const item = unwrapTyped(json);
+    if (!isObject(item)) {
+        throw new PropertyGraphFormatError('Expected edge object', path);
+    }
+    const type = unwrapTyped(item.type ?? item.label);
+    if (typeof type !== 'string') {
+        throw new PropertyGraphFormatError('Expected edge type string', `${path}.type`);
+    }
+    const source = parseId(item.source ?? item.outV ?? item.from, `${path}.source`);
+    const target = parseId(item.target ?? item.inV ?? item.to, `${path}.target`);
+    const id = item.id === undefined ? undefined : parseId(item.id, `${path}.id`);
+    const properties = parseProperties(item.properties, `${path}.properties`);
+    return {id, type, source, target, properties};
+}
+
+function parseId(json: unknown, path: string): string {
+    const value = unwrapTyped(json);
+    if (typeof value === 'string') {
+        return value;
+    } else if (typeof value === 'number') {
+        return String(value);
+    }
+    throw new PropertyGraphFormatError('Expected string or number identifier', path);
+}
+
+function parseProperties(json: unknown, path: string): PropertyGraphProperties {
+    const raw = unwrapTyped(json);
+    if (raw === undefined || raw === null) {
+        return {};
+    } else if (!isObject(raw)) {
+        throw new PropertyGraphFormatError('Expected properties object', path);
+    }
+    const properties: { [key: string]: PropertyGraphValue[] } = {};
+    for (const key of Object.keys(raw)) {
+        const values: PropertyGraphValue[] = [];
+        const rawValue = unwrapTyped(raw[key]);
+        for (const item of Array.isArray(rawValue) ? rawValue : [rawValue]) {
+            let value = unwrapTyped(item);
+            if (isObject(value) && 'value' in value) {
+                // GraphSON vertex property: {"id": ..., "value": ...}
+                value = unwrapTyped(value.value);
+            }
+            if (value === undefined || value === null) {
+                continue;
+            } else if (
+                typeof value === 'string' ||
+                typeof value === 'number' ||
+                typeof value === 'boolean'
+            ) {
+                values.push(value);
+            } else {
+                values.push(JSON.stringify(value));
+            }
+        }
+        if (values.length > 0) {
+            properties[key] = values;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Unwraps GraphSON typed value (`{"@type": "g:Int32", "@value": 1}`).
+ */
+function unwrapTyped(json: unknown): unknown {
+    let value = json;
+    while (isObject(value) && typeof value['@type'] === 'string' && '@value' in value) {
+        value = value['@value'];
+    }
+    return value;
+}
+
+function isObject(value: unknown): value is { readonly [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
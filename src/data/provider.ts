@@ -1,7 +1,7 @@
 import type { DataFactory } from './rdf/rdfModel';
 import {
-    ElementTypeGraph, ElementTypeModel, LinkTypeModel, ElementModel, LinkModel, PropertyTypeModel,
-    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
+    ElementTypeGraph, ElementTypeModel, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel, PropertyTypeModel,
+    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, LinkKey,
 } from './model';
 
 /**
@@ -27,14 +27,14 @@ export interface DataProvider {
     }): Promise<ElementTypeGraph>;
 
     /**
-     * Gets the data and statistics for all known link types.
+     * Gets the structure, data and statistics for all known link types.
      */
     knownLinkTypes(params: {
         /**
          * Cancellation signal.
          */
         signal?: AbortSignal;
-    }): Promise<LinkTypeModel[]>;
+    }): Promise<LinkTypeGraph>;
 
     /**
      * Gets the data for the specified element types.
@@ -147,6 +147,57 @@ export interface DataProvider {
      * Filters can be combined to produce an intersection of the results.
      */
     lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]>;
+    /**
+     * Subscribes to be notified when the provider data changes,
+     * e.g. when the underlying data store is modified.
+     *
+     * This method is optional and should only be implemented by providers
+     * which are able to track changes to its data.
+     *
+     * @returns a callback to unsubscribe the listener
+     */
+    subscribeChanges?(listener: DataProviderChangeListener): () => void;
+}
+
+/**
+ * Callback to receive change notifications from a data provider.
+ *
+ * @see {@link DataProvider.subscribeChanges}
+ */
+export type DataProviderChangeListener = (e: DataProviderChangeEvent) => void;
+
+/**
+ * Describes which graph data has changed in a data provider.
+ *
+ * @category Data
+ * @see {@link DataProvider.subscribeChanges}
+ */
+export interface DataProviderChangeEvent {
+    /**
+     * Elements with changed data (types, labels, properties, etc).
+     */
+    readonly elementIds?: ReadonlySet<ElementIri>;
+    /**
+     * Links which were added, removed or changed their data.
+     */
+    readonly links?: ReadonlyArray<LinkKey>;
+    /**
+     * Element types with changed data (including instance count).
+     */
+    readonly elementTypeIds?: ReadonlySet<ElementTypeIri>;
+    /**
+     * Link types with changed data (including link count).
+     */
+    readonly linkTypeIds?: ReadonlySet<LinkTypeIri>;
+    /**
+     * Property types with changed data.
+     */
+    readonly propertyTypeIds?: ReadonlySet<PropertyTypeIri>;
+    /**
+     * If `true`, any data from the provider might have been changed
+     * and should be requested again.
+     */
+    readonly invalidateAll?: boolean;
 }
 
 /**
@@ -212,6 +263,17 @@ export interface DataProviderLookupParams {
      */
     linkDirection?: 'in' | 'out';
 
+    /**
+     * Sort order for the result elements.
+     *
+     * If not specified, results are sorted by `relevance` when `text` is set,
+     * otherwise the order depends on the provider implementation.
+     *
+     * Providers which do not support the requested sort order may
+     * return results in the default order instead.
+     */
+    sortBy?: DataProviderLookupSort;
+
     /**
      * Limit number of elements returned.
      *
@@ -221,12 +283,39 @@ export interface DataProviderLookupParams {
      */
     limit?: number | null;
 
+    /**
+     * Number of first elements to skip in the result,
+     * e.g. to request the next page of results.
+     *
+     * When specified (including `0` for the first page), providers should return
+     * results in a stable order to make requests with different offsets
+     * return consecutive pages of the same result.
+     *
+     * Built-in search widgets fall back to requesting the first page with
+     * a larger `limit` if a provider ignores the offset.
+     *
+     * @default 0
+     */
+    offset?: number;
+
     /**
      * Abort signal to cancel the async operation.
      */
     signal?: AbortSignal;
 }
 
+/**
+ * Sort order for {@link DataProvider.lookup} results:
+ *   - `relevance`: by descending relevance {@link DataProviderLookupItem.score score}
+ *     for the text lookup;
+ *   - `label`: by element label in ascending order;
+ *   - `degree`: by descending number of links connected to the element.
+ *
+ * @category Data
+ * @see {@link DataProviderLookupParams.sortBy}
+ */
+export type DataProviderLookupSort = 'relevance' | 'label' | 'degree';
+
 /**
  * Describes an element with information on which link types and directions
  * are used to connect it to other elements.
@@ -255,4 +344,17 @@ export interface DataProviderLookupItem {
      * is specified in {@link DataProvider.lookup}.
      */
     readonly outLinks: ReadonlySet<LinkTypeIri>;
+    /**
+     * Relevance score of the element for the text lookup
+     * (higher score means more relevant result), if available.
+     *
+     * Scores are only comparable between results from the same provider.
+     */
+    readonly score?: number;
+    /**
+     * Number of links connected to the element, if available.
+     *
+     * Usually only provided when the results are sorted by `degree`.
+     */
+    readonly degree?: number;
 }
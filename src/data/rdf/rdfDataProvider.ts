@@ -1,16 +1,24 @@
 import { HashMap, HashSet } from '../../coreUtils/hashMap';
 
 import {
-    ElementTypeGraph, ElementTypeModel, LinkTypeModel, ElementModel, LinkModel, PropertyTypeModel,
-    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, SubtypeEdge,
-    hashSubtypeEdge, equalSubtypeEdges,
+    ElementTypeGraph, ElementTypeModel, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, LinkKey,
+    SubtypeEdge, LinkSubtypeEdge,
+    hashSubtypeEdge, equalSubtypeEdges, isWellKnownDatatype,
 } from '../model';
 import {
     DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+    DataProviderChangeEvent, DataProviderChangeListener,
 } from '../provider';
+import { TextIndex } from '../textIndex';
+import { getLabelSortKey } from '../utils';
 
 import { MemoryDataset, IndexQuadBy, indexedDataset } from './memoryDataset';
+import { SOURCE_GRAPH_PROPERTY, encodeTerm, decodeTerm } from './rdfEncoding';
 import * as Rdf from './rdfModel';
+import { RdfTextFormat, parseRdfText } from './rdfParser';
+import type { RdfPatch } from './rdfPatch';
+import { RdfsEntailment } from './rdfsEntailment';
 
 /**
  * Options for {@link RdfDataProvider}.
@@ -64,20 +72,97 @@ export interface RdfDataProviderOptions {
      * ```
      */
     readonly linkTypeBaseTypes?: ReadonlyArray<string>;
+    /**
+     * @default "http://www.w3.org/2000/01/rdf-schema#subPropertyOf"
+     */
+    readonly linkSubtypePredicate?: string | null;
+    /**
+     * Whether to maintain an inverted full-text index over literal values
+     * to use for {@link DataProvider.lookup text lookup} instead of
+     * scanning all labels in the dataset.
+     *
+     * When enabled, the index is updated incrementally each time a graph is
+     * added to the provider and lookup results for a text query are ordered by
+     * relevance score.
+     *
+     * Indexed literals are associated with the graphs they came from
+     * so only literals from {@link activeGraphs active graphs} are matched.
+     *
+     * @default false
+     */
+    readonly textIndex?: boolean | RdfTextIndexOptions;
+    /**
+     * Entailment regime to infer additional triples from the asserted ones:
+     *   - `none`: use only asserted triples;
+     *   - `rdfs`: infer instance types from `rdfs:subClassOf` hierarchy and
+     *     `rdfs:domain` / `rdfs:range` of properties, and infer triples with
+     *     super-properties via `rdfs:subPropertyOf`.
+     *
+     * Entailed triples are computed incrementally each time a graph is added
+     * to the provider, e.g. a lookup for instances of a class would return
+     * instances of its sub-classes as well.
+     *
+     * @default "none"
+     */
+    readonly entailment?: 'none' | 'rdfs';
+    /**
+     * Graphs (named or the default one) to restrict the provider data to.
+     *
+     * If not specified, the data from all graphs in the dataset is used as a union.
+     *
+     * Active graphs can be changed later via {@link RdfDataProvider.setActiveGraphs}.
+     */
+    readonly activeGraphs?: ReadonlyArray<Rdf.Quad['graph']>;
+    /**
+     * Element and link property to list named graphs the data came from.
+     *
+     * The property is only set if the data came from at least one named graph
+     * (i.e. not only from the default graph).
+     *
+     * Pass `true` to use `urn:reactodia:sourceGraph` as the property.
+     *
+     * @default false
+     */
+    readonly sourceGraphProperty?: boolean | string;
 }
 
-const BLANK_PREFIX = 'urn:reactodia:blank:rdf:';
+/**
+ * Options for full-text index in {@link RdfDataProvider}.
+ *
+ * @see {@link RdfDataProviderOptions.textIndex}
+ */
+export interface RdfTextIndexOptions {
+    /**
+     * Predicates to index literal values for.
+     *
+     * **Default** is a single {@link RdfDataProviderOptions.labelPredicate labelPredicate}
+     * if it is set.
+     */
+    readonly indexedPredicates?: ReadonlyArray<string>;
+    /**
+     * Whether to match text lookup tokens as prefixes of indexed words,
+     * e.g. `"sci"` would match "Science".
+     *
+     * @default true
+     */
+    readonly prefixMatch?: boolean;
+}
 
 const OWL_CLASS = 'http://www.w3.org/2002/07/owl#Class';
 const OWL_DATATYPE_PROPERTY = 'http://www.w3.org/2002/07/owl#DatatypeProperty';
+const OWL_FUNCTIONAL_PROPERTY = 'http://www.w3.org/2002/07/owl#FunctionalProperty';
 const OWL_OBJECT_PROPERTY = 'http://www.w3.org/2002/07/owl#ObjectProperty';
 
 const RDF_PROPERTY = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#Property';
 const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
 
 const RDFS_CLASS = 'http://www.w3.org/2000/01/rdf-schema#Class';
+const RDFS_DATATYPE = 'http://www.w3.org/2000/01/rdf-schema#Datatype';
+const RDFS_DOMAIN = 'http://www.w3.org/2000/01/rdf-schema#domain';
 const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const RDFS_RANGE = 'http://www.w3.org/2000/01/rdf-schema#range';
 const RDFS_SUB_CLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const RDFS_SUB_PROPERTY_OF = 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf';
 
 const SCHEMA_THUMBNAIL_URL = 'https://schema.org/thumbnailUrl';
 
@@ -91,7 +176,12 @@ export class RdfDataProvider implements DataProvider {
     readonly factory: Rdf.DataFactory;
 
     private readonly dataset: MemoryDataset;
+    private readonly inferred: MemoryDataset | undefined;
+    private entailment: RdfsEntailment | undefined;
+    private readonly view: GraphScopedView;
+    private readonly graphCounts = new HashMap<Rdf.Quad['graph'], number>(Rdf.hashTerm, Rdf.equalTerms);
     private readonly acceptBlankNodes: boolean;
+    private readonly sourceGraphProperty: PropertyTypeIri | null;
 
     private readonly typePredicate: Rdf.NamedNode;
     private readonly labelPredicate: Rdf.NamedNode | null;
@@ -99,18 +189,39 @@ export class RdfDataProvider implements DataProvider {
     private readonly elementTypeBaseTypes: ReadonlyArray<Rdf.NamedNode>;
     private readonly elementSubtypePredicate: Rdf.NamedNode | null;
     private readonly linkTypeBaseTypes: ReadonlyArray<Rdf.NamedNode>;
+    private readonly linkSubtypePredicate: Rdf.NamedNode | null;
+
+    private readonly textIndex: TextIndex<ElementIri> | undefined;
+    private readonly textIndexPredicates: ReadonlySet<string>;
+
+    private readonly changeListeners = new Set<DataProviderChangeListener>();
+    private pendingChanges: ChangeCollector | undefined;
 
     private readonly EMPTY_LINKS: ReadonlySet<LinkTypeIri> = new Set();
 
     constructor(options: RdfDataProviderOptions = {}) {
         this.factory = options.factory ?? Rdf.DefaultDataFactory;
-        this.dataset = indexedDataset(
+        const indexBy = (
             IndexQuadBy.S |
             IndexQuadBy.SP |
             IndexQuadBy.O |
             IndexQuadBy.OP
         );
+        if (options.entailment === 'rdfs') {
+            // Predicate index is used to re-compute entailments on schema changes
+            this.dataset = indexedDataset(indexBy | IndexQuadBy.P);
+            this.inferred = indexedDataset(indexBy | IndexQuadBy.P);
+        } else {
+            this.dataset = indexedDataset(indexBy);
+        }
+        this.view = new GraphScopedView(
+            this.inferred ? [this.dataset, this.inferred] : [this.dataset],
+            options.activeGraphs
+        );
         this.acceptBlankNodes = options.acceptBlankNodes ?? true;
+        this.sourceGraphProperty = typeof options.sourceGraphProperty === 'string'
+            ? options.sourceGraphProperty as PropertyTypeIri
+            : options.sourceGraphProperty ? SOURCE_GRAPH_PROPERTY as PropertyTypeIri : null;
         this.typePredicate = this.factory.namedNode(options.typePredicate ?? RDF_TYPE);
         this.labelPredicate = options.labelPredicate === null
             ? null : this.factory.namedNode(options.labelPredicate ?? RDFS_LABEL);
@@ -122,22 +233,282 @@ export class RdfDataProvider implements DataProvider {
             ? null : this.factory.namedNode(options.elementSubtypePredicate ?? RDFS_SUB_CLASS_OF);
         this.linkTypeBaseTypes = (options.linkTypeBaseTypes ?? [OWL_OBJECT_PROPERTY, RDF_PROPERTY])
             .map(iri => this.factory.namedNode(iri));
+        this.linkSubtypePredicate = options.linkSubtypePredicate === null
+            ? null : this.factory.namedNode(options.linkSubtypePredicate ?? RDFS_SUB_PROPERTY_OF);
+        if (options.textIndex) {
+            const indexOptions: RdfTextIndexOptions = options.textIndex === true ? {} : options.textIndex;
+            this.textIndex = new TextIndex({prefixMatch: indexOptions.prefixMatch});
+            this.textIndexPredicates = new Set(
+                indexOptions.indexedPredicates ??
+                (this.labelPredicate ? [this.labelPredicate.value] : [])
+            );
+        } else {
+            this.textIndexPredicates = new Set();
+        }
+        if (this.inferred) {
+            this.entailment = this.createEntailment(this.inferred);
+        }
+    }
+
+    private createEntailment(inferred: MemoryDataset): RdfsEntailment {
+        return new RdfsEntailment({
+            factory: this.factory,
+            asserted: this.dataset,
+            inferred,
+            typePredicate: this.typePredicate,
+            subClassPredicate: this.elementSubtypePredicate
+                ?? this.factory.namedNode(RDFS_SUB_CLASS_OF),
+            onInferred: q => {
+                this.indexText(q);
+                this.pendingChanges?.addQuad(q);
+            },
+        });
     }
 
     addGraph(quads: Iterable<Rdf.Quad>): void {
-        if (this.acceptBlankNodes) {
-            this.dataset.addAll(quads);
-        } else {
+        this.startChanges();
+        try {
             for (const q of quads) {
-                if (!(
-                    q.subject.termType === 'BlankNode' ||
-                    q.object.termType === 'BlankNode' ||
-                    q.graph.termType === 'BlankNode'
-                )) {
-                    this.dataset.add(q);
+                this.addQuad(q);
+            }
+        } finally {
+            this.flushChanges();
+        }
+    }
+
+    /**
+     * Parses RDF graph data from a text in one of the supported formats
+     * (Turtle, N-Triples, N-Quads or TriG) and adds the parsed quads to the
+     * provider dataset as they are read.
+     *
+     * The result promise rejects with {@link RdfParseError} on malformed input,
+     * in which case quads parsed before the error are kept in the dataset.
+     */
+    addSerializedGraph(text: string, options: {
+        /**
+         * RDF serialization format of the text.
+         *
+         * @default "text/turtle"
+         */
+        format?: RdfTextFormat;
+        /**
+         * Base IRI to resolve relative IRIs against.
+         */
+        baseIri?: string;
+        /**
+         * Cancellation signal.
+         */
+        signal?: AbortSignal;
+    } = {}): Promise<void> {
+        const {format, baseIri, signal} = options;
+        this.startChanges();
+        return parseRdfText(
+            text,
+            {format, baseIri, factory: this.factory, signal},
+            quad => this.addQuad(quad)
+        ).finally(() => this.flushChanges());
+    }
+
+    /**
+     * Applies a set of changes to the provider dataset: first removes
+     * quads to delete, then adds quads to add.
+     *
+     * When RDFS entailment is enabled, entailed triples are re-computed
+     * from scratch if any quad has been removed.
+     *
+     * @see {@link parseRdfPatch}
+     * @see {@link authoringStateToRdfPatch}
+     */
+    applyPatch(patch: RdfPatch): void {
+        this.startChanges();
+        try {
+            let hasDeleted = false;
+            for (const q of patch.deletions) {
+                if (this.deleteQuad(q)) {
+                    hasDeleted = true;
                 }
             }
+            if (hasDeleted) {
+                this.recomputeEntailment();
+            }
+            for (const q of patch.additions) {
+                this.addQuad(q);
+            }
+        } finally {
+            this.flushChanges();
+        }
+    }
+
+    /**
+     * Subscribes to be notified when graph data is added to (or removed from) the provider
+     * or active graphs are changed.
+     *
+     * @see {@link DataProvider.subscribeChanges}
+     */
+    subscribeChanges(listener: DataProviderChangeListener): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
+
+    private startChanges(): void {
+        if (!this.pendingChanges && this.changeListeners.size > 0) {
+            this.pendingChanges = new ChangeCollector(this.typePredicate, this.labelPredicate);
+        }
+    }
+
+    private flushChanges(): void {
+        const changes = this.pendingChanges;
+        this.pendingChanges = undefined;
+        if (changes && !changes.isEmpty()) {
+            this.notifyChanges(changes.toEvent());
+        }
+    }
+
+    private notifyChanges(e: DataProviderChangeEvent): void {
+        for (const listener of Array.from(this.changeListeners)) {
+            listener(e);
+        }
+    }
+
+    private addQuad(q: Rdf.Quad): void {
+        if (!this.acceptBlankNodes && (
+            q.subject.termType === 'BlankNode' ||
+            q.object.termType === 'BlankNode' ||
+            q.graph.termType === 'BlankNode'
+        )) {
+            return;
+        }
+        if (this.dataset.has(q)) {
+            return;
+        }
+        const wasInferred = Boolean(this.inferred && this.inferred.has(q));
+        if (wasInferred) {
+            this.inferred!.delete(q);
+        }
+        this.dataset.add(q);
+        this.graphCounts.set(q.graph, (this.graphCounts.get(q.graph) ?? 0) + 1);
+        if (q.graph.termType !== 'DefaultGraph') {
+            this.view.hasNamedGraphs = true;
+        }
+        if (!wasInferred) {
+            this.indexText(q);
+            this.pendingChanges?.addQuad(q);
+        }
+        this.entailment?.addAsserted(q);
+    }
+
+    private deleteQuad(q: Rdf.Quad): boolean {
+        if (!this.dataset.has(q)) {
+            return false;
+        }
+        this.dataset.delete(q);
+        const graphCount = this.graphCounts.get(q.graph) ?? 0;
+        if (graphCount > 1) {
+            this.graphCounts.set(q.graph, graphCount - 1);
+        } else {
+            this.graphCounts.delete(q.graph);
+        }
+        this.unindexText(q);
+        this.pendingChanges?.addQuad(q);
+        return true;
+    }
+
+    private recomputeEntailment(): void {
+        const {inferred} = this;
+        if (!(inferred && this.entailment)) {
+            return;
+        }
+        for (const q of inferred.iterateMatches(null, null, null)) {
+            this.unindexText(q);
+            this.pendingChanges?.addQuad(q);
+        }
+        inferred.clear();
+        this.entailment = this.createEntailment(inferred);
+        for (const q of this.dataset.iterateMatches(null, null, null)) {
+            this.entailment.addAsserted(q);
+        }
+    }
+
+    private indexText(q: Rdf.Quad): void {
+        if (
+            this.textIndex &&
+            isResourceTerm(q.subject) &&
+            q.object.termType === 'Literal' &&
+            this.textIndexPredicates.has(q.predicate.value)
+        ) {
+            this.textIndex.add(
+                this.encodeTerm(q.subject) as ElementIri,
+                q.object.value,
+                q.object.language || undefined,
+                Rdf.termToString(q.graph)
+            );
+        }
+    }
+
+    private unindexText(q: Rdf.Quad): void {
+        if (
+            this.textIndex &&
+            isResourceTerm(q.subject) &&
+            q.object.termType === 'Literal' &&
+            this.textIndexPredicates.has(q.predicate.value)
+        ) {
+            this.textIndex.delete(
+                this.encodeTerm(q.subject) as ElementIri,
+                q.object.value,
+                q.object.language || undefined,
+                Rdf.termToString(q.graph)
+            );
+        }
+    }
+
+    /**
+     * Returns all graphs (named or the default one) which have
+     * at least one quad in the provider dataset.
+     */
+    getGraphs(): Array<Rdf.Quad['graph']> {
+        return Array.from(this.graphCounts.keys());
+    }
+
+    /**
+     * Returns quads from the provider dataset, optionally only from
+     * the specified graphs (named or the default one).
+     *
+     * The result does not depend on {@link activeGraphs}.
+     */
+    getQuads(graphs?: ReadonlyArray<Rdf.Quad['graph']>): Rdf.Quad[] {
+        if (!graphs) {
+            return Array.from(this.dataset);
+        }
+        const quads: Rdf.Quad[] = [];
+        for (const graph of graphs) {
+            for (const q of this.dataset.iterateMatches(null, null, null, graph)) {
+                quads.push(q);
+            }
         }
+        return quads;
+    }
+
+    /**
+     * Graphs the provider data is currently restricted to
+     * or `undefined` if the data from all graphs is used as a union.
+     *
+     * @see {@link setActiveGraphs}
+     */
+    get activeGraphs(): ReadonlyArray<Rdf.Quad['graph']> | undefined {
+        return this.view.activeGraphs;
+    }
+
+    /**
+     * Changes graphs (named or the default one) to restrict the provider data to.
+     *
+     * Pass `undefined` to use the data from all graphs as a union.
+     *
+     * Subscribers to {@link subscribeChanges data changes} are notified
+     * that all provider data should be requested again.
+     */
+    setActiveGraphs(graphs: ReadonlyArray<Rdf.Quad['graph']> | undefined): void {
+        this.view.setActiveGraphs(graphs);
+        this.notifyChanges({invalidateAll: true});
     }
 
     encodeTerm(term: Rdf.NamedNode | Rdf.BlankNode): string {
@@ -155,7 +526,7 @@ export class RdfDataProvider implements DataProvider {
     }): Promise<ElementTypeGraph> {
         const typeCounts = this.computeTypeCounts();
         for (const baseType of this.elementTypeBaseTypes) {
-            for (const t of this.dataset.iterateMatches(null, this.typePredicate, baseType)) {
+            for (const t of this.view.iterateMatches(null, this.typePredicate, baseType)) {
                 if (isResourceTerm(t.subject)) {
                     const elementTypeId = this.encodeTerm(t.subject) as ElementTypeIri;
                     if (!typeCounts.has(elementTypeId)) {
@@ -164,9 +535,9 @@ export class RdfDataProvider implements DataProvider {
                 }
             }
         }
-        const foundEdges = new HashSet(hashSubtypeEdge, equalSubtypeEdges);
+        const foundEdges = new HashSet<SubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
         if (this.elementSubtypePredicate) {
-            for (const t of this.dataset.iterateMatches(null, this.elementSubtypePredicate, null)) {
+            for (const t of this.view.iterateMatches(null, this.elementSubtypePredicate, null)) {
                 if (isResourceTerm(t.subject) && isResourceTerm(t.object)) {
                     const derivedTypeId = this.encodeTerm(t.subject) as ElementTypeIri;
                     if (!typeCounts.has(derivedTypeId)) {
@@ -188,7 +559,7 @@ export class RdfDataProvider implements DataProvider {
         for (const [typeId, count] of typeCounts) {
             const typeIri = this.decodeTerm(typeId);
             const label = this.labelPredicate
-                ? findLiterals(this.dataset, typeIri, this.labelPredicate)
+                ? findLiterals(this.view, typeIri, this.labelPredicate)
                 : [];
             if (typeIri.termType === 'BlankNode' && label.length === 0) {
                 excluded.add(typeId);
@@ -209,10 +580,10 @@ export class RdfDataProvider implements DataProvider {
 
     knownLinkTypes(params: {
         signal?: AbortSignal;
-    }): Promise<LinkTypeModel[]> {
+    }): Promise<LinkTypeGraph> {
         const linkCounts = this.computeLinkCounts();
         for (const baseType of this.linkTypeBaseTypes) {
-            for (const t of this.dataset.iterateMatches(null, this.typePredicate, baseType)) {
+            for (const t of this.view.iterateMatches(null, this.typePredicate, baseType)) {
                 if (isResourceTerm(t.subject)) {
                     const linkTypeId = this.encodeTerm(t.subject) as LinkTypeIri;
                     if (!linkCounts.has(linkTypeId)) {
@@ -221,18 +592,45 @@ export class RdfDataProvider implements DataProvider {
                 }
             }
         }
+        const foundEdges = new HashSet<LinkSubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
+        if (this.linkSubtypePredicate) {
+            for (const t of this.view.iterateMatches(null, this.linkSubtypePredicate, null)) {
+                if (isResourceTerm(t.subject) && isResourceTerm(t.object)) {
+                    const derivedTypeId = this.encodeTerm(t.subject) as LinkTypeIri;
+                    if (!linkCounts.has(derivedTypeId)) {
+                        linkCounts.set(derivedTypeId, 0);
+                    }
+                    const baseTypeId = this.encodeTerm(t.object) as LinkTypeIri;
+                    if (!linkCounts.has(baseTypeId)) {
+                        linkCounts.set(baseTypeId, 0);
+                    }
+                    foundEdges.add([derivedTypeId, baseTypeId]);
+                }
+            }
+        }
         const models = new Map<LinkTypeIri, LinkTypeModel>();
         for (const [linkTypeId, count] of linkCounts) {
             const linkTypeIri = this.decodeTerm(linkTypeId);
             const label = this.labelPredicate
-                ? findLiterals(this.dataset, linkTypeIri, this.labelPredicate)
+                ? findLiterals(this.view, linkTypeIri, this.labelPredicate)
                 : [];
             if (linkTypeIri.termType === 'BlankNode' && label.length === 0) {
                 continue;
             }
             models.set(linkTypeId, {id: linkTypeId, label, count});
         }
-        return Promise.resolve(Array.from(models.values()));
+        const subtypeOf: LinkSubtypeEdge[] = [];
+        for (const edge of foundEdges.values()) {
+            const [from, to] = edge;
+            if (models.has(from) && models.has(to)) {
+                subtypeOf.push(edge);
+            }
+        }
+        const linkTypeGraph: LinkTypeGraph = {
+            linkTypes: Array.from(models.values()),
+            subtypeOf,
+        };
+        return Promise.resolve(linkTypeGraph);
     }
 
     elementTypes(params: {
@@ -244,13 +642,13 @@ export class RdfDataProvider implements DataProvider {
         for (const classId of classIds) {
             const classIri = this.decodeTerm(classId);
             let instanceCount = 0;
-            for (const t of this.dataset.iterateMatches(null, this.typePredicate, classIri)) {
+            for (const t of this.view.iterateMatches(null, this.typePredicate, classIri)) {
                 instanceCount++;
             }
             const model: ElementTypeModel = {
                 id: classId,
                 label: this.labelPredicate
-                    ? findLiterals(this.dataset, classIri, this.labelPredicate)
+                    ? findLiterals(this.view, classIri, this.labelPredicate)
                     : [],
                 count: instanceCount,
             };
@@ -267,17 +665,49 @@ export class RdfDataProvider implements DataProvider {
         const models = new Map<PropertyTypeIri, PropertyTypeModel>();
         for (const propertyId of propertyIds) {
             const propertyIri = this.decodeTerm(propertyId);
-            const model: PropertyTypeModel = {
-                id: propertyId,
-                label: this.labelPredicate
-                    ? findLiterals(this.dataset, propertyIri, this.labelPredicate)
-                    : [],
-            };
-            models.set(propertyId, model);
+            models.set(propertyId, this.getPropertyType(propertyId, propertyIri));
         }
         return Promise.resolve(models);
     }
 
+    private getPropertyType(
+        propertyId: PropertyTypeIri,
+        propertyIri: Rdf.NamedNode | Rdf.BlankNode
+    ): PropertyTypeModel {
+        const {factory} = this;
+        let datatype: string | undefined;
+        const range: ElementTypeIri[] = [];
+        for (const t of this.view.iterateMatches(propertyIri, factory.namedNode(RDFS_RANGE), null)) {
+            if (t.object.termType !== 'NamedNode') {
+                continue;
+            }
+            if (
+                isWellKnownDatatype(t.object.value) ||
+                this.view.hasMatches(t.object, this.typePredicate, factory.namedNode(RDFS_DATATYPE))
+            ) {
+                if (datatype === undefined) {
+                    datatype = t.object.value;
+                }
+            } else {
+                range.push(this.encodeTerm(t.object) as ElementTypeIri);
+            }
+        }
+        const domain = findTypes(this.view, propertyIri, factory.namedNode(RDFS_DOMAIN));
+        const functional = this.view.hasMatches(
+            propertyIri, this.typePredicate, factory.namedNode(OWL_FUNCTIONAL_PROPERTY)
+        );
+        return {
+            id: propertyId,
+            label: this.labelPredicate
+                ? findLiterals(this.view, propertyIri, this.labelPredicate)
+                : [],
+            datatype,
+            range: range.length > 0 ? range : undefined,
+            domain: domain.length > 0 ? domain : undefined,
+            cardinality: functional ? {maxCount: 1} : undefined,
+        };
+    }
+
     linkTypes(params: {
         linkTypeIds: ReadonlyArray<LinkTypeIri>;
         signal?: AbortSignal;
@@ -290,7 +720,7 @@ export class RdfDataProvider implements DataProvider {
             const model: LinkTypeModel = {
                 id: linkTypeId,
                 label: this.labelPredicate
-                    ? findLiterals(this.dataset, linkTypeIri, this.labelPredicate)
+                    ? findLiterals(this.view, linkTypeIri, this.labelPredicate)
                     : [],
                 count: linkCounts.get(linkTypeId) ?? 0,
             };
@@ -307,18 +737,21 @@ export class RdfDataProvider implements DataProvider {
         const result = new Map<ElementIri, ElementModel>();
         for (const elementId of elementIds) {
             const elementIri = this.decodeTerm(elementId);
-            if (this.dataset.hasMatches(elementIri, null, null)) {
+            if (this.view.hasMatches(elementIri, null, null)) {
                 const imageTerm = this.imagePredicate
-                    ? findFirstIriOrLiteral(this.dataset, elementIri, this.imagePredicate)
+                    ? findFirstIriOrLiteral(this.view, elementIri, this.imagePredicate)
                     : undefined;
                 const model: ElementModel = {
                     id: elementId,
-                    types: findTypes(this.dataset, elementIri, this.typePredicate),
+                    types: findTypes(this.view, elementIri, this.typePredicate),
                     label: this.labelPredicate
-                        ? findLiterals(this.dataset, elementIri, this.labelPredicate)
+                        ? findLiterals(this.view, elementIri, this.labelPredicate)
                         : [],
                     image: imageTerm ? imageTerm.value : undefined,
-                    properties: findProperties(this.dataset, elementIri),
+                    properties: this.addSourceGraphs(
+                        findProperties(this.view, elementIri),
+                        this.view.findSourceGraphs(elementIri, null, null)
+                    ),
                 };
                 result.set(elementId, model);
             }
@@ -347,7 +780,7 @@ export class RdfDataProvider implements DataProvider {
         const linkTypeSet = linkTypeIds ? new Set<string>(linkTypeIds) : undefined;
         const links: LinkModel[] = [];
         // TODO avoid full scan
-        for (const t of this.dataset) {
+        for (const t of this.view.iterateMatches(null, null, null)) {
             if (
                 isResourceTerm(t.subject) &&
                 t.predicate.termType === 'NamedNode' &&
@@ -358,7 +791,11 @@ export class RdfDataProvider implements DataProvider {
                 ) &&
                 (!linkTypeSet || !linkTypeSet.has(t.predicate.value))
             ) {
-                const properties = findProperties(this.dataset, t);
+                const triple = this.factory.quad(t.subject, t.predicate, t.object);
+                const properties = this.addSourceGraphs(
+                    findProperties(this.view, triple),
+                    this.view.findSourceGraphs(t.subject, t.predicate, t.object)
+                );
                 links.push({
                     sourceId: this.encodeTerm(t.subject) as ElementIri,
                     targetId: this.encodeTerm(t.object) as ElementIri,
@@ -379,7 +816,7 @@ export class RdfDataProvider implements DataProvider {
         const elementIri = this.decodeTerm(elementId);
         
         const outCounts = new Map<LinkTypeIri, number>();
-        for (const t of this.dataset.iterateMatches(elementIri, null, null)) {
+        for (const t of this.view.iterateMatches(elementIri, null, null)) {
             if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.object)) {
                 const linkTypeIri = this.encodeTerm(t.predicate) as LinkTypeIri;
                 outCounts.set(linkTypeIri, (outCounts.get(linkTypeIri) ?? 0) + 1);
@@ -387,7 +824,7 @@ export class RdfDataProvider implements DataProvider {
         }
 
         const inCounts = new Map<LinkTypeIri, number>();
-        for (const t of this.dataset.iterateMatches(null, null, elementIri)) {
+        for (const t of this.view.iterateMatches(null, null, elementIri)) {
             if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.subject)) {
                 const linkTypeIri = this.encodeTerm(t.predicate) as LinkTypeIri;
                 inCounts.set(linkTypeIri, (inCounts.get(linkTypeIri) ?? 0) + 1);
@@ -420,19 +857,34 @@ export class RdfDataProvider implements DataProvider {
             readonly term: Rdf.NamedNode | Rdf.BlankNode;
             outLinks?: Set<LinkTypeIri>;
             inLinks?: Set<LinkTypeIri>;
+            score?: number;
+            degree?: number;
         }
 
         const items = new HashMap<Rdf.NamedNode | Rdf.BlankNode, ResultItem>(
             Rdf.hashTerm, Rdf.equalTerms
         );
         let requiredTextFilter = params.text ? new RegExp(escapeRegexp(params.text), 'i') : undefined;
+        let textScores: Map<ElementIri, number> | undefined;
+        if (params.text && this.textIndex) {
+            // Match only literals from active graphs
+            const {activeGraphs} = this.view;
+            const matches = this.textIndex.search(params.text, {
+                scopes: activeGraphs ? new Set(activeGraphs.map(Rdf.termToString)) : undefined,
+            });
+            textScores = new Map();
+            for (const {key, score} of matches) {
+                textScores.set(key, score);
+            }
+            requiredTextFilter = undefined;
+        }
 
         if (params.refElementId) {
             const refElementIri = this.decodeTerm(params.refElementId);
             const refLinkIri = params.refElementLinkId
                 ? this.decodeTerm(params.refElementLinkId) : null;
             if (!params.linkDirection || params.linkDirection === 'out') {
-                for (const t of this.dataset.iterateMatches(refElementIri, refLinkIri, null)) {
+                for (const t of this.view.iterateMatches(refElementIri, refLinkIri, null)) {
                     if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.object)) {
                         const term = t.object;
                         let item = items.get(term);
@@ -449,7 +901,7 @@ export class RdfDataProvider implements DataProvider {
                 }
             }
             if (!params.linkDirection || params.linkDirection === 'in') {
-                for (const t of this.dataset.iterateMatches(null, refLinkIri, refElementIri)) {
+                for (const t of this.view.iterateMatches(null, refLinkIri, refElementIri)) {
                     if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.subject)) {
                         const term = t.subject;
                         let item = items.get(term);
@@ -469,20 +921,27 @@ export class RdfDataProvider implements DataProvider {
             if (params.elementTypeId) {
                 const typeTerm = this.decodeTerm(params.elementTypeId);
                 for (const item of Array.from(items.values())) {
-                    if (!this.dataset.hasMatches(item.term, this.typePredicate, typeTerm)) {
+                    if (!this.view.hasMatches(item.term, this.typePredicate, typeTerm)) {
                         items.delete(item.term);
                     }
                 }
             }
         } else if (params.elementTypeId) {
             const typeTerm = this.decodeTerm(params.elementTypeId);
-            for (const t of this.dataset.iterateMatches(null, this.typePredicate, typeTerm)) {
+            for (const t of this.view.iterateMatches(null, this.typePredicate, typeTerm)) {
                 if (isResourceTerm(t.subject) && !items.has(t.subject)) {
                     items.set(t.subject, {term: t.subject});
                 }
             }
+        } else if (textScores) {
+            for (const elementId of textScores.keys()) {
+                const term = this.decodeTerm(elementId);
+                if (this.view.hasMatches(term, null, null)) {
+                    items.set(term, {term});
+                }
+            }
         } else if (requiredTextFilter && this.labelPredicate) {
-            for (const t of this.dataset.iterateMatches(null, this.labelPredicate, null)) {
+            for (const t of this.view.iterateMatches(null, this.labelPredicate, null)) {
                 if (
                     isResourceTerm(t.subject) &&
                     t.object.termType === 'Literal' &&
@@ -495,15 +954,49 @@ export class RdfDataProvider implements DataProvider {
             requiredTextFilter = undefined;
         }
 
+        let foundItems: ResultItem[] = Array.from(items.values());
+        if (textScores) {
+            const scores = textScores;
+            const scoredItems: ResultItem[] = [];
+            for (const item of foundItems) {
+                const score = scores.get(this.encodeTerm(item.term) as ElementIri);
+                if (score !== undefined) {
+                    scoredItems.push({...item, score});
+                }
+            }
+            foundItems = scoredItems;
+        }
+
+        const sortBy = params.sortBy ?? (params.text ? 'relevance' : undefined);
+        if (sortBy === 'relevance' && textScores) {
+            foundItems.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+        } else if (sortBy === 'label') {
+            const sortKeys = new HashMap<Rdf.NamedNode | Rdf.BlankNode, string>(
+                Rdf.hashTerm, Rdf.equalTerms
+            );
+            for (const item of foundItems) {
+                const labels = this.labelPredicate
+                    ? findLiterals(this.view, item.term, this.labelPredicate) : [];
+                sortKeys.set(item.term, getLabelSortKey(labels, this.encodeTerm(item.term)));
+            }
+            foundItems.sort((a, b) => sortKeys.get(a.term)!.localeCompare(sortKeys.get(b.term)!));
+        } else if (sortBy === 'degree') {
+            for (const item of foundItems) {
+                item.degree = this.computeDegree(item.term);
+            }
+            foundItems.sort((a, b) => b.degree! - a.degree!);
+        }
+
         const linkedElements: DataProviderLookupItem[] = [];
         const limit = typeof params.limit === 'number' ? params.limit : Number.POSITIVE_INFINITY;
-        for (const item of items.values()) {
+        let skipCount = typeof params.offset === 'number' ? params.offset : 0;
+        for (const item of foundItems) {
             if (linkedElements.length >= limit) {
                 break;
             }
             let labels: Rdf.Literal[];
             if (this.labelPredicate) {
-                labels = findLiterals(this.dataset, item.term, this.labelPredicate);
+                labels = findLiterals(this.view, item.term, this.labelPredicate);
                 if (requiredTextFilter) {
                     let foundMatch = false;
                     for (const label of labels) {
@@ -519,12 +1012,16 @@ export class RdfDataProvider implements DataProvider {
             } else {
                 labels = [];
             }
+            if (skipCount > 0) {
+                skipCount--;
+                continue;
+            }
             const imageTerm = this.imagePredicate
-                ? findFirstIriOrLiteral(this.dataset, item.term, this.imagePredicate)
+                ? findFirstIriOrLiteral(this.view, item.term, this.imagePredicate)
                 : undefined;
             const model: ElementModel = {
                 id: this.encodeTerm(item.term) as ElementIri,
-                types: findTypes(this.dataset, item.term, this.typePredicate),
+                types: findTypes(this.view, item.term, this.typePredicate),
                 label: labels,
                 image: imageTerm ? imageTerm.value : undefined,
                 properties: {},
@@ -533,15 +1030,42 @@ export class RdfDataProvider implements DataProvider {
                 element: model,
                 inLinks: item.inLinks ?? this.EMPTY_LINKS,
                 outLinks: item.outLinks ?? this.EMPTY_LINKS,
+                score: item.score,
+                degree: item.degree,
             });
         }
 
         return Promise.resolve(linkedElements);
     }
 
+    private computeDegree(term: Rdf.NamedNode | Rdf.BlankNode): number {
+        let degree = 0;
+        for (const t of this.view.iterateMatches(term, null, null)) {
+            if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.object)) {
+                degree++;
+            }
+        }
+        for (const t of this.view.iterateMatches(null, null, term)) {
+            if (t.predicate.termType === 'NamedNode' && isResourceTerm(t.subject)) {
+                degree++;
+            }
+        }
+        return degree;
+    }
+
+    private addSourceGraphs(
+        properties: { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> },
+        graphs: ReadonlyArray<Rdf.NamedNode>
+    ): { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> } {
+        if (this.sourceGraphProperty && graphs.length > 0) {
+            properties[this.sourceGraphProperty] = graphs;
+        }
+        return properties;
+    }
+
     private computeTypeCounts(): Map<ElementTypeIri, number> {
         const instanceCounts = new Map<ElementTypeIri, number>();
-        for (const t of this.dataset.iterateMatches(null, this.typePredicate, null)) {
+        for (const t of this.view.iterateMatches(null, this.typePredicate, null)) {
             if (isResourceTerm(t.object)) {
                 const elementTypeId = this.encodeTerm(t.object) as ElementTypeIri;
                 instanceCounts.set(elementTypeId, (instanceCounts.get(elementTypeId) ?? 0) + 1);
@@ -555,7 +1079,7 @@ export class RdfDataProvider implements DataProvider {
     ): Map<LinkTypeIri, number> {
         const linkTypeSet = onlyLinkTypes ? new Set(onlyLinkTypes) : undefined;
         const linkStats = new Map<LinkTypeIri, number>();
-        for (const t of this.dataset) {
+        for (const t of this.view.iterateMatches(null, null, null)) {
             if (t.predicate.termType === 'NamedNode') {
                 const linkTypeId = this.encodeTerm(t.predicate) as LinkTypeIri;
                 if (!linkTypeSet || linkTypeSet.has(linkTypeId)) {
@@ -567,6 +1091,213 @@ export class RdfDataProvider implements DataProvider {
     }
 }
 
+/**
+ * Accumulates changed entities from added quads to notify about them at once.
+ */
+class ChangeCollector {
+    private readonly elementIds = new Set<ElementIri>();
+    private readonly links: LinkKey[] = [];
+    private readonly elementTypeIds = new Set<ElementTypeIri>();
+    private readonly linkTypeIds = new Set<LinkTypeIri>();
+    private readonly propertyTypeIds = new Set<PropertyTypeIri>();
+
+    constructor(
+        private readonly typePredicate: Rdf.NamedNode,
+        private readonly labelPredicate: Rdf.NamedNode | null
+    ) {}
+
+    isEmpty(): boolean {
+        return this.elementIds.size === 0 && this.links.length === 0;
+    }
+
+    addQuad(q: Rdf.Quad): void {
+        if (q.subject.termType === 'Quad') {
+            // Relation property change
+            const {subject, predicate, object} = q.subject;
+            if (isResourceTerm(subject) && predicate.termType === 'NamedNode' && isResourceTerm(object)) {
+                this.links.push({
+                    sourceId: encodeTerm(subject) as ElementIri,
+                    targetId: encodeTerm(object) as ElementIri,
+                    linkTypeId: encodeTerm(predicate) as LinkTypeIri,
+                });
+            }
+            return;
+        } else if (!isResourceTerm(q.subject)) {
+            return;
+        }
+        const subjectId = encodeTerm(q.subject);
+        this.elementIds.add(subjectId as ElementIri);
+        if (q.predicate.termType === 'NamedNode' && isResourceTerm(q.object)) {
+            const linkTypeId = encodeTerm(q.predicate) as LinkTypeIri;
+            this.links.push({
+                sourceId: subjectId as ElementIri,
+                targetId: encodeTerm(q.object) as ElementIri,
+                linkTypeId,
+            });
+            this.linkTypeIds.add(linkTypeId);
+            if (q.predicate.equals(this.typePredicate)) {
+                this.elementTypeIds.add(encodeTerm(q.object) as ElementTypeIri);
+            }
+        } else if (this.labelPredicate && q.predicate.equals(this.labelPredicate)) {
+            this.elementTypeIds.add(subjectId as ElementTypeIri);
+            this.linkTypeIds.add(subjectId as LinkTypeIri);
+            this.propertyTypeIds.add(subjectId as PropertyTypeIri);
+        }
+    }
+
+    toEvent(): DataProviderChangeEvent {
+        return {
+            elementIds: this.elementIds,
+            links: this.links,
+            elementTypeIds: this.elementTypeIds,
+            linkTypeIds: this.linkTypeIds,
+            propertyTypeIds: this.propertyTypeIds,
+        };
+    }
+}
+
+/**
+ * Read-only access to the provider dataset triples.
+ */
+interface DatasetView {
+    hasMatches(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): boolean;
+    iterateMatches(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): Iterable<Rdf.Quad>;
+}
+
+/**
+ * Dataset view which combines asserted and inferred quads, restricts them
+ * to a set of active graphs and merges the same triples from different graphs into one.
+ */
+class GraphScopedView implements DatasetView {
+    /**
+     * Whether the underlying dataset has (or had) quads in any named graph.
+     */
+    hasNamedGraphs = false;
+
+    private _activeGraphs: ReadonlyArray<Rdf.Quad['graph']> | undefined;
+    private graphSet: HashSet<Rdf.Quad['graph']> | undefined;
+
+    constructor(
+        private readonly datasets: ReadonlyArray<MemoryDataset>,
+        activeGraphs: ReadonlyArray<Rdf.Quad['graph']> | undefined
+    ) {
+        this.setActiveGraphs(activeGraphs);
+    }
+
+    get activeGraphs(): ReadonlyArray<Rdf.Quad['graph']> | undefined {
+        return this._activeGraphs;
+    }
+
+    setActiveGraphs(graphs: ReadonlyArray<Rdf.Quad['graph']> | undefined): void {
+        if (graphs) {
+            const graphSet = new HashSet<Rdf.Quad['graph']>(Rdf.hashTerm, Rdf.equalTerms);
+            for (const graph of graphs) {
+                graphSet.add(graph);
+            }
+            this._activeGraphs = Array.from(graphSet.values());
+            this.graphSet = graphSet;
+        } else {
+            this._activeGraphs = undefined;
+            this.graphSet = undefined;
+        }
+    }
+
+    hasMatches(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): boolean {
+        for (const q of this.iterateQuads(subject, predicate, object)) {
+            return true;
+        }
+        return false;
+    }
+
+    iterateMatches(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): Iterable<Rdf.Quad> {
+        const quads = this.iterateQuads(subject, predicate, object);
+        if (!this.hasNamedGraphs || (this.graphSet && this.graphSet.size <= 1)) {
+            return quads;
+        }
+        return distinctTriples(quads);
+    }
+
+    /**
+     * Iterates over matching quads from active graphs without merging
+     * the same triples from different graphs.
+     */
+    *iterateQuads(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): Iterable<Rdf.Quad> {
+        const {graphSet} = this;
+        for (const dataset of this.datasets) {
+            for (const q of dataset.iterateMatches(subject, predicate, object)) {
+                if (!graphSet || graphSet.has(q.graph)) {
+                    yield q;
+                }
+            }
+        }
+    }
+
+    /**
+     * Collects named graphs from active graphs which have any matching quad.
+     */
+    findSourceGraphs(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): Rdf.NamedNode[] {
+        if (!this.hasNamedGraphs) {
+            return [];
+        }
+        const graphs = new HashSet<Rdf.NamedNode>(Rdf.hashTerm, Rdf.equalTerms);
+        for (const q of this.iterateQuads(subject, predicate, object)) {
+            if (q.graph.termType === 'NamedNode') {
+                graphs.add(q.graph);
+            }
+        }
+        return Array.from(graphs.values());
+    }
+}
+
+function* distinctTriples(quads: Iterable<Rdf.Quad>): Iterable<Rdf.Quad> {
+    const seen = new HashSet<Rdf.Quad>(hashTriple, equalTriples);
+    for (const q of quads) {
+        if (!seen.has(q)) {
+            seen.add(q);
+            yield q;
+        }
+    }
+}
+
+function hashTriple(q: Rdf.Quad): number {
+    let hash = Rdf.hashTerm(q.subject);
+    hash = Rdf.chainHash(hash, Rdf.hashTerm(q.predicate));
+    hash = Rdf.chainHash(hash, Rdf.hashTerm(q.object));
+    return Rdf.dropHighestNonSignBit(hash);
+}
+
+function equalTriples(a: Rdf.Quad, b: Rdf.Quad): boolean {
+    return (
+        Rdf.equalTerms(a.subject, b.subject) &&
+        Rdf.equalTerms(a.predicate, b.predicate) &&
+        Rdf.equalTerms(a.object, b.object)
+    );
+}
+
 function isResourceTerm(term: Rdf.Term): term is Rdf.NamedNode | Rdf.BlankNode {
     switch (term.termType) {
         case 'NamedNode':
@@ -578,7 +1309,7 @@ function isResourceTerm(term: Rdf.Term): term is Rdf.NamedNode | Rdf.BlankNode {
 }
 
 function findFirstIriOrLiteral(
-    dataset: MemoryDataset,
+    dataset: DatasetView,
     subject: Rdf.NamedNode | Rdf.BlankNode | Rdf.Quad,
     predicate: Rdf.NamedNode
 ): Rdf.NamedNode | Rdf.Literal | undefined {
@@ -594,7 +1325,7 @@ function findFirstIriOrLiteral(
 }
 
 function findTypes(
-    dataset: MemoryDataset,
+    dataset: DatasetView,
     subject: Rdf.NamedNode | Rdf.BlankNode | Rdf.Quad,
     predicate: Rdf.NamedNode
 ): ElementTypeIri[] {
@@ -609,7 +1340,7 @@ function findTypes(
 }
 
 function findLiterals(
-    dataset: MemoryDataset,
+    dataset: DatasetView,
     subject: Rdf.NamedNode | Rdf.BlankNode | Rdf.Quad,
     predicate: Rdf.NamedNode
 ): Rdf.Literal[] {
@@ -623,7 +1354,7 @@ function findLiterals(
 }
 
 function findProperties(
-    dataset: MemoryDataset,
+    dataset: DatasetView,
     subject: Rdf.NamedNode | Rdf.BlankNode | Rdf.Quad
 ): { [id: string]: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> } {
     const properties: { [id: string]: Array<Rdf.NamedNode | Rdf.Literal> } = {};
@@ -643,30 +1374,6 @@ function findProperties(
     return properties;
 }
 
-function encodeTerm(term: Rdf.NamedNode | Rdf.BlankNode): string {
-    switch (term.termType) {
-        case 'NamedNode':
-            return term.value;
-        case 'BlankNode':
-            return BLANK_PREFIX + term.value;
-        default:
-            throw new Error(
-                `Unexpected term type to encode: ${(term as Rdf.Term).termType}`
-            );
-    }
-}
-
-function decodeTerm(
-    iri: ElementIri | ElementTypeIri | LinkTypeIri | PropertyTypeIri,
-    factory: Rdf.DataFactory
-): Rdf.NamedNode | Rdf.BlankNode {
-    if (iri.startsWith(BLANK_PREFIX)) {
-        return factory.blankNode(iri.substring(BLANK_PREFIX.length));
-    } else {
-        return factory.namedNode(iri);
-    }
-}
-
 function escapeRegexp(token: string): string {
     return token.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
 }
@@ -0,0 +1,43 @@
+import type { ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri } from '../model';
+
+import * as Rdf from './rdfModel';
+
+const BLANK_PREFIX = 'urn:reactodia:blank:rdf:';
+
+/**
+ * Default element and link property to list named graphs the data came from.
+ */
+export const SOURCE_GRAPH_PROPERTY = 'urn:reactodia:sourceGraph';
+
+/**
+ * Encodes RDF IRI or blank node into an entity IRI,
+ * which is able to represent blank nodes as well.
+ */
+export function encodeTerm(term: Rdf.NamedNode | Rdf.BlankNode): string {
+    switch (term.termType) {
+        case 'NamedNode':
+            return term.value;
+        case 'BlankNode':
+            return BLANK_PREFIX + term.value;
+        default:
+            throw new Error(
+                `Unexpected term type to encode: ${(term as Rdf.Term).termType}`
+            );
+    }
+}
+
+/**
+ * Decodes entity IRI into RDF IRI or blank node.
+ *
+ * @see {@link encodeTerm}
+ */
+export function decodeTerm(
+    iri: ElementIri | ElementTypeIri | LinkTypeIri | PropertyTypeIri,
+    factory: Rdf.DataFactory
+): Rdf.NamedNode | Rdf.BlankNode {
+    if (iri.startsWith(BLANK_PREFIX)) {
+        return factory.blankNode(iri.substring(BLANK_PREFIX.length));
+    } else {
+        return factory.namedNode(iri);
+    }
+}
@@ -0,0 +1,157 @@
+import * as N3 from 'n3';
+
+import * as Rdf from './rdfModel';
+
+/**
+ * Supported RDF text serialization formats (as media types).
+ *
+ * @see {@link parseRdfText}
+ */
+export type RdfTextFormat =
+    | 'text/turtle'
+    | 'application/n-triples'
+    | 'application/n-quads'
+    | 'application/trig';
+
+/**
+ * Options for {@link parseRdfText}.
+ *
+ * @see {@link parseRdfText}
+ */
+export interface RdfParseOptions {
+    /**
+     * RDF serialization format of the source text.
+     *
+     * @default "text/turtle"
+     */
+    readonly format?: RdfTextFormat;
+    /**
+     * Base IRI to resolve relative IRIs against.
+     *
+     * Ignored for line-based formats (N-Triples and N-Quads) which
+     * do not allow relative IRIs.
+     */
+    readonly baseIri?: string;
+    /**
+     * RDF/JS-compatible term factory to create parsed RDF terms.
+     *
+     * @default Rdf.DefaultDataFactory
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Cancellation signal.
+     */
+    readonly signal?: AbortSignal;
+}
+
+/**
+ * Error which is thrown when RDF text is malformed and cannot be parsed.
+ *
+ * @category Data
+ * @see {@link parseRdfText}
+ */
+export class RdfParseError extends Error {
+    /**
+     * Line number (1-based) in the source text where the error occurred.
+     */
+    readonly line: number;
+    /**
+     * Column number (1-based) in the source text where the error occurred.
+     */
+    readonly column: number;
+
+    constructor(message: string, line: number, column: number, options?: { cause?: unknown }) {
+        super(`${message} (at line ${line}, column ${column})`, options);
+        this.name = 'RdfParseError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/**
+ * Parses RDF text in one of the supported formats and emits each
+ * parsed quad via `onQuad` callback as soon as it becomes available.
+ *
+ * The result promise resolves when the whole text is parsed or rejects
+ * with {@link RdfParseError} if the text is malformed.
+ *
+ * @category Data
+ */
+export function parseRdfText(
+    text: string,
+    options: RdfParseOptions,
+    onQuad: (quad: Rdf.Quad) => void
+): Promise<void> {
+    const {format = 'text/turtle', baseIri, factory = Rdf.DefaultDataFactory, signal} = options;
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const parser = new N3.Parser({format, baseIRI: baseIri, factory});
+        let finished = false;
+        const finish = (err?: unknown) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            signal?.removeEventListener('abort', onAbort);
+            if (err) {
+                reject(err);
+            } else {
+                resolve();
+            }
+        };
+        const onAbort = () => finish(signal!.reason);
+        signal?.addEventListener('abort', onAbort);
+        parser.parse(text, (error, quad) => {
+            if (finished) {
+                return;
+            }
+            if (error) {
+                finish(toParseError(error));
+            } else if (quad) {
+                try {
+                    onQuad(quad);
+                } catch (err) {
+                    finish(err);
+                }
+            } else {
+                finish();
+            }
+        });
+    });
+}
+
+interface N3ErrorContext {
+    readonly token?: N3TokenPosition;
+    readonly line?: number;
+    readonly previousToken?: N3TokenPosition;
+}
+
+interface N3TokenPosition {
+    readonly line?: number;
+    readonly start?: number;
+    readonly end?: number;
+}
+
+/**
+ * Converts an error from N3.js parser into {@link RdfParseError} with error position.
+ */
+export function toParseError(error: Error): RdfParseError {
+    const context = (error as { context?: N3ErrorContext }).context;
+    let line = context?.line ?? 1;
+    let column = 1;
+    if (context?.token && typeof context.token.start === 'number') {
+        line = context.token.line ?? line;
+        column = context.token.start + 1;
+    } else if (
+        context?.previousToken &&
+        context.previousToken.line === line &&
+        typeof context.previousToken.end === 'number'
+    ) {
+        column = context.previousToken.end + 1;
+    }
+    const message = error.message.replace(/ on line \d+\.$/, '');
+    return new RdfParseError(message, line, column, {cause: error});
+}
@@ -0,0 +1,441 @@
+import * as N3 from 'n3';
+
+import { HashSet } from '../../coreUtils/hashMap';
+
+import type { AuthoringState, AuthoringEvent } from '../../editor/authoringState';
+
+import type { ElementIri, ElementModel, LinkModel, PropertyTypeIri } from '../model';
+
+import { SOURCE_GRAPH_PROPERTY, decodeTerm } from './rdfEncoding';
+import * as Rdf from './rdfModel';
+import { RdfParseError, toParseError } from './rdfParser';
+
+/**
+ * A set of changes to an RDF dataset: quads to delete and quads to add.
+ *
+ * Deletions are applied before additions when the patch is applied to a dataset.
+ *
+ * @category Data
+ * @see {@link authoringStateToRdfPatch}
+ * @see {@link RdfDataProvider.applyPatch}
+ */
+export interface RdfPatch {
+    /**
+     * Quads to delete from the dataset.
+     */
+    readonly deletions: ReadonlyArray<Rdf.Quad>;
+    /**
+     * Quads to add to the dataset.
+     */
+    readonly additions: ReadonlyArray<Rdf.Quad>;
+}
+
+/**
+ * Options for {@link authoringStateToRdfPatch}.
+ *
+ * Default values match the defaults for {@link RdfDataProvider} to be able
+ * to replay the changes on the same data via {@link RdfDataProvider.applyPatch}.
+ *
+ * @see {@link authoringStateToRdfPatch}
+ */
+export interface AuthoringPatchOptions {
+    /**
+     * RDF/JS-compatible term factory to create RDF quads.
+     *
+     * @default Rdf.DefaultDataFactory
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Predicate to write entity types with.
+     *
+     * @default "http://www.w3.org/1999/02/22-rdf-syntax-ns#type"
+     */
+    readonly typePredicate?: string;
+    /**
+     * Predicate to write entity labels with.
+     *
+     * Pass `null` to avoid writing labels.
+     *
+     * @default "http://www.w3.org/2000/01/rdf-schema#label"
+     */
+    readonly labelPredicate?: string | null;
+    /**
+     * Predicate to write entity image with.
+     *
+     * Pass `null` to avoid writing images.
+     *
+     * @default "https://schema.org/thumbnailUrl"
+     */
+    readonly imagePredicate?: string | null;
+    /**
+     * Graph to put all changed quads into.
+     *
+     * @default Rdf.DefaultDataFactory.defaultGraph()
+     */
+    readonly graph?: Rdf.Quad['graph'];
+    /**
+     * Entity and relation properties to skip when writing changes,
+     * e.g. properties computed by a data provider.
+     *
+     * @default ["urn:reactodia:sourceGraph"]
+     */
+    readonly ignoredProperties?: ReadonlyArray<string>;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const SCHEMA_THUMBNAIL_URL = 'https://schema.org/thumbnailUrl';
+
+/**
+ * Computes a set of RDF quads to delete and to add to apply changes from
+ * the graph authoring state:
+ *   - entity types, labels, image and property values are written as triples
+ *     with the entity as a subject;
+ *   - relations are written as triples and relation properties are written
+ *     with the quoted relation triple (RDF-star) as a subject;
+ *   - entity IRI change (`newIri`) is written as deleting the triples for
+ *     the original IRI and adding them for the new one, including the
+ *     relations from the authoring state connected to the entity.
+ *
+ * Only the data known to the authoring state is included in the patch,
+ * e.g. unchanged relations connected to an entity with changed IRI
+ * are not included.
+ *
+ * @category Data
+ */
+export function authoringStateToRdfPatch(
+    state: AuthoringState,
+    options: AuthoringPatchOptions = {}
+): RdfPatch {
+    const writer = new AuthoringPatchWriter(options);
+
+    const renamed = new Map<ElementIri, ElementIri>();
+    for (const event of state.elements.values()) {
+        if (event.type === 'entityChange' && event.newIri && event.newIri !== event.before.id) {
+            renamed.set(event.before.id, event.newIri);
+        }
+    }
+
+    for (const event of state.elements.values()) {
+        writer.addEvent(event, renamed);
+    }
+    for (const event of state.links.values()) {
+        writer.addEvent(event, renamed);
+    }
+
+    return {
+        deletions: Array.from(writer.deletions),
+        additions: Array.from(writer.additions),
+    };
+}
+
+class AuthoringPatchWriter {
+    private readonly factory: Rdf.DataFactory;
+    private readonly typePredicate: Rdf.NamedNode;
+    private readonly labelPredicate: Rdf.NamedNode | null;
+    private readonly imagePredicate: Rdf.NamedNode | null;
+    private readonly graph: Rdf.Quad['graph'];
+    private readonly ignoredProperties: ReadonlySet<string>;
+
+    readonly deletions = new HashSet<Rdf.Quad>(Rdf.hashQuad, Rdf.equalQuads);
+    readonly additions = new HashSet<Rdf.Quad>(Rdf.hashQuad, Rdf.equalQuads);
+
+    constructor(options: AuthoringPatchOptions) {
+        this.factory = options.factory ?? Rdf.DefaultDataFactory;
+        this.typePredicate = this.factory.namedNode(options.typePredicate ?? RDF_TYPE);
+        this.labelPredicate = options.labelPredicate === null
+            ? null : this.factory.namedNode(options.labelPredicate ?? RDFS_LABEL);
+        this.imagePredicate = options.imagePredicate === null
+            ? null : this.factory.namedNode(options.imagePredicate ?? SCHEMA_THUMBNAIL_URL);
+        this.graph = options.graph ?? this.factory.defaultGraph();
+        this.ignoredProperties = new Set(options.ignoredProperties ?? [SOURCE_GRAPH_PROPERTY]);
+    }
+
+    addEvent(event: AuthoringEvent, renamed: ReadonlyMap<ElementIri, ElementIri>): void {
+        const rename = (iri: ElementIri) => renamed.get(iri) ?? iri;
+        switch (event.type) {
+            case 'entityAdd': {
+                this.addDiff([], this.entityQuads(event.data.id, event.data));
+                break;
+            }
+            case 'entityChange': {
+                this.addDiff(
+                    this.entityQuads(event.before.id, event.before),
+                    this.entityQuads(event.newIri ?? event.data.id, event.data)
+                );
+                break;
+            }
+            case 'entityDelete': {
+                this.addDiff(this.entityQuads(event.data.id, event.data), []);
+                break;
+            }
+            case 'relationAdd': {
+                this.addDiff([], this.relationQuads(event.data, rename));
+                break;
+            }
+            case 'relationChange': {
+                this.addDiff(
+                    this.relationQuads(event.before, iri => iri),
+                    this.relationQuads(event.data, rename)
+                );
+                break;
+            }
+            case 'relationDelete': {
+                this.addDiff(this.relationQuads(event.data, iri => iri), []);
+                break;
+            }
+        }
+    }
+
+    private addDiff(before: ReadonlyArray<Rdf.Quad>, after: ReadonlyArray<Rdf.Quad>): void {
+        const beforeSet = new HashSet<Rdf.Quad>(Rdf.hashQuad, Rdf.equalQuads);
+        for (const q of before) {
+            beforeSet.add(q);
+        }
+        const afterSet = new HashSet<Rdf.Quad>(Rdf.hashQuad, Rdf.equalQuads);
+        for (const q of after) {
+            afterSet.add(q);
+        }
+        for (const q of beforeSet) {
+            if (afterSet.has(q)) {
+                continue;
+            }
+            if (!this.additions.delete(q)) {
+                this.deletions.add(q);
+            }
+        }
+        for (const q of afterSet) {
+            if (beforeSet.has(q)) {
+                continue;
+            }
+            if (!this.deletions.delete(q)) {
+                this.additions.add(q);
+            }
+        }
+    }
+
+    private entityQuads(target: ElementIri, data: ElementModel): Rdf.Quad[] {
+        const {factory, graph} = this;
+        const subject = decodeTerm(target, factory);
+        const quads: Rdf.Quad[] = [];
+        for (const type of data.types) {
+            quads.push(factory.quad(subject, this.typePredicate, decodeTerm(type, factory), graph));
+        }
+        if (this.labelPredicate) {
+            for (const label of data.label) {
+                quads.push(factory.quad(subject, this.labelPredicate, label, graph));
+            }
+        }
+        if (this.imagePredicate && data.image) {
+            quads.push(factory.quad(subject, this.imagePredicate, factory.namedNode(data.image), graph));
+        }
+        this.propertyQuads(subject, data.properties, quads);
+        return quads;
+    }
+
+    private relationQuads(data: LinkModel, rename: (iri: ElementIri) => ElementIri): Rdf.Quad[] {
+        const {factory, graph} = this;
+        const source = decodeTerm(rename(data.sourceId), factory);
+        const predicate = decodeTerm(data.linkTypeId, factory);
+        const target = decodeTerm(rename(data.targetId), factory);
+        if (predicate.termType !== 'NamedNode') {
+            throw new Error(`Cannot write relation with blank node type: ${data.linkTypeId}`);
+        }
+        const quads: Rdf.Quad[] = [factory.quad(source, predicate, target, graph)];
+        this.propertyQuads(factory.quad(source, predicate, target), data.properties, quads);
+        return quads;
+    }
+
+    private propertyQuads(
+        subject: Rdf.Quad['subject'],
+        properties: ElementModel['properties'],
+        quads: Rdf.Quad[]
+    ): void {
+        const {factory, graph} = this;
+        for (const propertyId of Object.keys(properties) as PropertyTypeIri[]) {
+            if (this.ignoredProperties.has(propertyId)) {
+                continue;
+            }
+            const predicate = decodeTerm(propertyId, factory);
+            if (predicate.termType !== 'NamedNode') {
+                throw new Error(`Cannot write property with blank node IRI: ${propertyId}`);
+            }
+            for (const value of properties[propertyId]) {
+                quads.push(factory.quad(subject, predicate, value, graph));
+            }
+        }
+    }
+}
+
+/**
+ * Serializes RDF patch into [RDF Patch](https://afs.github.io/rdf-delta/rdf-patch.html)
+ * text format as a single transaction with deletions written before additions.
+ *
+ * @category Data
+ */
+export function serializeRdfPatch(patch: RdfPatch): string {
+    const writer = new N3.Writer({format: 'application/n-quads'});
+    let text = 'TX .\n';
+    for (const q of patch.deletions) {
+        text += 'D ' + writer.quadToString(q.subject, q.predicate, q.object, q.graph);
+    }
+    for (const q of patch.additions) {
+        text += 'A ' + writer.quadToString(q.subject, q.predicate, q.object, q.graph);
+    }
+    text += 'TC .\n';
+    return text;
+}
+
+/**
+ * Serializes RDF patch as a pair of RDF documents: one with quads to delete
+ * and another one with quads to add.
+ *
+ * Each document is written in Turtle format if it has triples only in the default
+ * graph, otherwise it is written in TriG format.
+ *
+ * @category Data
+ */
+export function serializeRdfPatchAsTurtle(
+    patch: RdfPatch,
+    options: {
+        /**
+         * Prefixes to shorten IRIs with in both documents.
+         */
+        prefixes?: { readonly [prefix: string]: string };
+    } = {}
+): { deletions: string; additions: string } {
+    const {prefixes} = options;
+    return {
+        deletions: writeRdfText(patch.deletions, prefixes),
+        additions: writeRdfText(patch.additions, prefixes),
+    };
+}
+
+function writeRdfText(
+    quads: ReadonlyArray<Rdf.Quad>,
+    prefixes: { readonly [prefix: string]: string } | undefined
+): string {
+    const hasNamedGraphs = quads.some(q => q.graph.termType !== 'DefaultGraph');
+    const writer = new N3.Writer({
+        format: hasNamedGraphs ? 'application/trig' : 'text/turtle',
+        prefixes: prefixes ? {...prefixes} : undefined,
+    });
+    writer.addQuads([...quads]);
+    let result = '';
+    // N3.Writer without an output stream calls the callback synchronously
+    writer.end((error, text) => {
+        if (error) {
+            throw error;
+        }
+        result = text;
+    });
+    return result;
+}
+
+/**
+ * Parses [RDF Patch](https://afs.github.io/rdf-delta/rdf-patch.html) text
+ * into a set of quads to delete and to add.
+ *
+ * Each add (`A`) or delete (`D`) row should contain exactly one quad
+ * (or triple for the default graph), prefixes can be defined with `PA` rows.
+ * Headers (`H`) are ignored and rows within aborted transactions (`TX` ... `TA`)
+ * are skipped.
+ *
+ * Blank node labels are preserved as is in the parsed quads.
+ *
+ * Throws {@link RdfParseError} if the text is malformed.
+ *
+ * @category Data
+ */
+export function parseRdfPatch(
+    text: string,
+    options: {
+        /**
+         * RDF/JS-compatible term factory to create parsed RDF terms.
+         *
+         * @default Rdf.DefaultDataFactory
+         */
+        factory?: Rdf.DataFactory;
+    } = {}
+): RdfPatch {
+    const {factory = Rdf.DefaultDataFactory} = options;
+
+    interface PatchRow {
+        readonly line: number;
+        readonly code: 'A' | 'D';
+        aborted: boolean;
+    }
+    const rows: PatchRow[] = [];
+    let transactionStart = 0;
+
+    // Convert patch into a TriG-like document with the same row positions
+    const lines = text.split(/\r?\n/);
+    const converted = lines.map((line, index): string => {
+        const match = /^(\s*)([A-Z]+)(\s|$)/.exec(line);
+        if (!match) {
+            if (/^\s*(#.*)?$/.test(line)) {
+                return line;
+            }
+            throw new RdfParseError('Expected RDF Patch row code', index + 1, 1);
+        }
+        const [, indent, code] = match;
+        switch (code) {
+            case 'A':
+            case 'D': {
+                rows.push({line: index + 1, code, aborted: false});
+                return indent + ' '.repeat(code.length) + line.substring(indent.length + code.length);
+            }
+            case 'PA': {
+                return indent + '@prefix' + line.substring(indent.length + code.length);
+            }
+            case 'TX': {
+                transactionStart = rows.length;
+                return '';
+            }
+            case 'TA': {
+                for (let i = transactionStart; i < rows.length; i++) {
+                    rows[i].aborted = true;
+                }
+                return '';
+            }
+            case 'TC':
+            case 'H':
+            case 'PD': {
+                return '';
+            }
+            default: {
+                throw new RdfParseError(
+                    `Unknown RDF Patch row code "${code}"`,
+                    index + 1,
+                    indent.length + 1
+                );
+            }
+        }
+    });
+
+    // Format is not specified to allow prefixes, named graphs and quoted triples
+    const parser = new N3.Parser({factory, blankNodePrefix: ''});
+    let quads: Rdf.Quad[];
+    try {
+        quads = parser.parse(converted.join('\n'));
+    } catch (err) {
+        throw err instanceof Error ? toParseError(err) : err;
+    }
+    if (quads.length !== rows.length) {
+        const row = rows[Math.min(quads.length, rows.length - 1)];
+        throw new RdfParseError(
+            'Expected exactly one quad for each RDF Patch row',
+            row ? row.line : 1,
+            1
+        );
+    }
+
+    const deletions: Rdf.Quad[] = [];
+    const additions: Rdf.Quad[] = [];
+    rows.forEach((row, index) => {
+        if (!row.aborted) {
+            (row.code === 'A' ? additions : deletions).push(quads[index]);
+        }
+    });
+    return {deletions, additions};
+}
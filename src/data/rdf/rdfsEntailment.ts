@@ -0,0 +1,235 @@
+import { HashMap, HashSet } from '../../coreUtils/hashMap';
+
+import { MemoryDataset } from './memoryDataset';
+import * as Rdf from './rdfModel';
+
+const RDFS_DOMAIN = 'http://www.w3.org/2000/01/rdf-schema#domain';
+const RDFS_RANGE = 'http://www.w3.org/2000/01/rdf-schema#range';
+const RDFS_SUB_PROPERTY_OF = 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf';
+
+type SchemaTerm = Rdf.NamedNode | Rdf.BlankNode;
+
+/**
+ * Incrementally maintains a set of triples entailed by a subset of RDFS rules
+ * from the asserted triples:
+ *   - `rdfs2` and `rdfs3`: type of a subject (object) from property domain (range);
+ *   - `rdfs7`: triple with a super-property from a triple with its sub-property;
+ *   - `rdfs9`: instance type from a super-class of its asserted type;
+ *   - `rdfs5` and `rdfs11`: transitivity of sub-property and sub-class relations.
+ *
+ * Transitive sub-class and sub-property relations are only used to compute
+ * other entailments and are not materialized as triples, so that the class
+ * hierarchy is not cluttered with redundant edges.
+ *
+ * Schema triples are collected from all graphs, and each entailed triple
+ * is put into the same graph as its instance-level premise.
+ */
+export class RdfsEntailment {
+    private readonly factory: Rdf.DataFactory;
+    private readonly asserted: MemoryDataset;
+    private readonly inferred: MemoryDataset;
+    private readonly onInferred: (quad: Rdf.Quad) => void;
+
+    private readonly typePredicate: Rdf.NamedNode;
+    private readonly subClassPredicate: Rdf.NamedNode;
+    private readonly subPropertyPredicate: Rdf.NamedNode;
+    private readonly domainPredicate: Rdf.NamedNode;
+    private readonly rangePredicate: Rdf.NamedNode;
+
+    private readonly superClasses = new SchemaEdges();
+    private readonly superProperties = new SchemaEdges();
+    private readonly domains = new SchemaEdges();
+    private readonly ranges = new SchemaEdges();
+
+    constructor(options: {
+        factory: Rdf.DataFactory;
+        asserted: MemoryDataset;
+        inferred: MemoryDataset;
+        typePredicate: Rdf.NamedNode;
+        subClassPredicate: Rdf.NamedNode;
+        onInferred: (quad: Rdf.Quad) => void;
+    }) {
+        const {factory} = options;
+        this.factory = factory;
+        this.asserted = options.asserted;
+        this.inferred = options.inferred;
+        this.onInferred = options.onInferred;
+        this.typePredicate = options.typePredicate;
+        this.subClassPredicate = options.subClassPredicate;
+        this.subPropertyPredicate = factory.namedNode(RDFS_SUB_PROPERTY_OF);
+        this.domainPredicate = factory.namedNode(RDFS_DOMAIN);
+        this.rangePredicate = factory.namedNode(RDFS_RANGE);
+    }
+
+    /**
+     * Computes entailments for a triple which has been just added
+     * to the asserted dataset.
+     */
+    addAsserted(q: Rdf.Quad): void {
+        if (isSchemaTerm(q.subject) && isSchemaTerm(q.object)) {
+            if (q.predicate.equals(this.subClassPredicate)) {
+                if (this.superClasses.add(q.subject, q.object)) {
+                    for (const subClass of this.superClasses.closure(q.subject, true)) {
+                        this.rederive(null, this.typePredicate, subClass);
+                    }
+                }
+            } else if (q.predicate.equals(this.subPropertyPredicate)) {
+                if (this.superProperties.add(q.subject, q.object)) {
+                    for (const subProperty of this.superProperties.closure(q.subject, true)) {
+                        this.rederive(null, subProperty, null);
+                    }
+                }
+            } else if (q.predicate.equals(this.domainPredicate)) {
+                if (this.domains.add(q.subject, q.object)) {
+                    for (const subProperty of this.superProperties.closure(q.subject, true)) {
+                        this.rederive(null, subProperty, null);
+                    }
+                }
+            } else if (q.predicate.equals(this.rangePredicate)) {
+                if (this.ranges.add(q.subject, q.object)) {
+                    for (const subProperty of this.superProperties.closure(q.subject, true)) {
+                        this.rederive(null, subProperty, null);
+                    }
+                }
+            }
+        }
+        this.derive(q);
+    }
+
+    private rederive(
+        subject: Rdf.Term | null,
+        predicate: Rdf.Term | null,
+        object: Rdf.Term | null
+    ): void {
+        const premises = [
+            ...this.asserted.iterateMatches(subject, predicate, object),
+            ...this.inferred.iterateMatches(subject, predicate, object),
+        ];
+        for (const premise of premises) {
+            this.derive(premise);
+        }
+    }
+
+    private derive(q: Rdf.Quad): void {
+        const {subject, predicate, object, graph} = q;
+        if (predicate.termType !== 'NamedNode') {
+            return;
+        }
+        if (predicate.equals(this.typePredicate) && isSchemaTerm(object)) {
+            this.inferTypes(subject, object, graph);
+        }
+        for (const property of this.superProperties.closure(predicate, false)) {
+            if (property.termType === 'NamedNode' && !Rdf.equalTerms(property, predicate)) {
+                this.infer(this.factory.quad(subject, property, object, graph));
+            }
+            for (const domain of this.domains.direct(property)) {
+                this.infer(this.factory.quad(subject, this.typePredicate, domain, graph));
+                this.inferTypes(subject, domain, graph);
+            }
+            if (isSchemaTerm(object)) {
+                for (const range of this.ranges.direct(property)) {
+                    this.infer(this.factory.quad(object, this.typePredicate, range, graph));
+                    this.inferTypes(object, range, graph);
+                }
+            }
+        }
+    }
+
+    private inferTypes(
+        instance: Rdf.Quad['subject'],
+        type: SchemaTerm,
+        graph: Rdf.Quad['graph']
+    ): void {
+        for (const superClass of this.superClasses.closure(type, false)) {
+            if (!Rdf.equalTerms(superClass, type)) {
+                this.infer(this.factory.quad(instance, this.typePredicate, superClass, graph));
+            }
+        }
+    }
+
+    private infer(q: Rdf.Quad): void {
+        if (this.asserted.has(q) || this.inferred.has(q)) {
+            return;
+        }
+        this.inferred.add(q);
+        this.onInferred(q);
+    }
+}
+
+/**
+ * Directed graph of schema relations (e.g. sub-class of) with
+ * cached transitive closure computation.
+ */
+class SchemaEdges {
+    private readonly forward = new HashMap<SchemaTerm, HashSet<SchemaTerm>>(Rdf.hashTerm, Rdf.equalTerms);
+    private readonly backward = new HashMap<SchemaTerm, HashSet<SchemaTerm>>(Rdf.hashTerm, Rdf.equalTerms);
+    private readonly closures = new HashMap<SchemaTerm, ReadonlyArray<SchemaTerm>>(
+        Rdf.hashTerm, Rdf.equalTerms
+    );
+    private readonly EMPTY: ReadonlyArray<SchemaTerm> = [];
+
+    add(from: SchemaTerm, to: SchemaTerm): boolean {
+        let targets = this.forward.get(from);
+        if (!targets) {
+            targets = new HashSet<SchemaTerm>(Rdf.hashTerm, Rdf.equalTerms);
+            this.forward.set(from, targets);
+        }
+        if (targets.has(to)) {
+            return false;
+        }
+        targets.add(to);
+        let sources = this.backward.get(to);
+        if (!sources) {
+            sources = new HashSet<SchemaTerm>(Rdf.hashTerm, Rdf.equalTerms);
+            this.backward.set(to, sources);
+        }
+        sources.add(from);
+        this.closures.clear();
+        return true;
+    }
+
+    direct(from: SchemaTerm): Iterable<SchemaTerm> {
+        return this.forward.get(from)?.values() ?? this.EMPTY;
+    }
+
+    /**
+     * Returns the term itself followed by all terms reachable from it
+     * by forward (or backward if `reverse` is `true`) edges.
+     */
+    closure(term: SchemaTerm, reverse: boolean): ReadonlyArray<SchemaTerm> {
+        if (reverse) {
+            return collectReachable(term, this.backward);
+        }
+        let result = this.closures.get(term);
+        if (!result) {
+            result = collectReachable(term, this.forward);
+            this.closures.set(term, result);
+        }
+        return result;
+    }
+}
+
+function collectReachable(
+    start: SchemaTerm,
+    edges: HashMap<SchemaTerm, HashSet<SchemaTerm>>
+): SchemaTerm[] {
+    const visited = new HashSet<SchemaTerm>(Rdf.hashTerm, Rdf.equalTerms);
+    visited.add(start);
+    const result: SchemaTerm[] = [start];
+    for (let i = 0; i < result.length; i++) {
+        const next = edges.get(result[i]);
+        if (next) {
+            for (const term of next.values()) {
+                if (!visited.has(term)) {
+                    visited.add(term);
+                    result.push(term);
+                }
+            }
+        }
+    }
+    return result;
+}
+
+function isSchemaTerm(term: Rdf.Term): term is SchemaTerm {
+    return term.termType === 'NamedNode' || term.termType === 'BlankNode';
+}
@@ -0,0 +1,120 @@
+import { collectClosure, multimapAdd } from '../coreUtils/collections';
+
+import type {
+    MetadataCanConnect, MetadataCanModifyEntity, MetadataCanModifyRelation,
+} from './metadataProvider';
+import type { ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri } from './model';
+import * as Rdf from './rdf/rdfModel';
+import { generate128BitID } from './utils';
+
+/**
+ * Class hierarchy from `rdfs:subClassOf` relations with transitive lookup
+ * of super-classes and sub-classes.
+ */
+export class ClassHierarchy {
+    private readonly superClasses = new Map<ElementTypeIri, Set<ElementTypeIri>>();
+    private readonly subClasses = new Map<ElementTypeIri, Set<ElementTypeIri>>();
+
+    constructor(subClassOf: Iterable<readonly [ElementTypeIri, ElementTypeIri]>) {
+        for (const [derived, base] of subClassOf) {
+            multimapAdd(this.superClasses, derived, base);
+            multimapAdd(this.subClasses, base, derived);
+        }
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) super-classes.
+     */
+    getSuperClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return collectClosure(types, this.superClasses);
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) sub-classes.
+     */
+    getSubClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return collectClosure(types, this.subClasses);
+    }
+
+    /**
+     * Returns `true` if an entity with the specified types is an instance of any
+     * of the classes (via `rdf:type/rdfs:subClassOf*`).
+     */
+    isInstanceOfAny(
+        types: ReadonlyArray<ElementTypeIri>,
+        classes: ReadonlyArray<ElementTypeIri>
+    ): boolean {
+        if (classes.length === 0) {
+            return false;
+        }
+        const allTypes = this.getSuperClasses(types);
+        return classes.some(type => allTypes.has(type));
+    }
+}
+
+/**
+ * Mints an IRI for a new entity as the type IRI with a random suffix, e.g.
+ * `http://example.com/Person_5d0b6e7a...`.
+ */
+export function mintEntityIri(type: ElementTypeIri): ElementIri {
+    return `${type}_${generate128BitID()}` as ElementIri;
+}
+
+/**
+ * Makes a new entity of the specified type labelled after the type, e.g. `New Person`.
+ */
+export function makeNewEntity(
+    id: ElementIri,
+    type: ElementTypeIri,
+    factory: Rdf.DataFactory,
+    properties: ElementModel['properties'] = {}
+): ElementModel {
+    const typeLabel = Rdf.getLocalName(type) ?? 'Entity';
+    return {
+        id,
+        types: [type],
+        label: [factory.literal(`New ${typeLabel}`)],
+        properties,
+    };
+}
+
+/**
+ * Makes a new relation without properties.
+ */
+export function makeNewRelation(
+    source: ElementModel,
+    target: ElementModel,
+    linkType: LinkTypeIri
+): LinkModel {
+    return {
+        sourceId: source.id,
+        targetId: target.id,
+        linkTypeId: linkType,
+        properties: {},
+    };
+}
+
+/**
+ * Allows to change or delete an entity only if it is editable.
+ */
+export function getEntityModifiability(editable: boolean): MetadataCanModifyEntity {
+    return {
+        canChangeIri: editable,
+        canEdit: editable,
+        canDelete: editable,
+    };
+}
+
+/**
+ * Allows to change or delete a relation only if it is allowed as an outgoing link
+ * from the source to the target via the connections.
+ */
+export function getRelationModifiability(
+    connections: ReadonlyArray<MetadataCanConnect>
+): MetadataCanModifyRelation {
+    const allowed = connections.some(connection => connection.outLinks.length > 0);
+    return {
+        canChangeType: allowed,
+        canDelete: allowed,
+    };
+}
@@ -0,0 +1,232 @@
+import type {
+    MetadataProvider, MetadataCanConnect, MetadataCanModifyEntity, MetadataCanModifyRelation,
+    MetadataEntityTypeShape,
+} from '../metadataProvider';
+import type {
+    ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri, PropertyTypeIri,
+} from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import {
+    getEntityModifiability, getRelationModifiability, makeNewEntity, makeNewRelation, mintEntityIri,
+} from '../schemaUtils';
+
+import { ShaclPropertyShape, ShaclShapes, getShaclPredicatePath, isShaclLinkShape } from './shaclShapes';
+
+/**
+ * Options for {@link ShaclMetadataProvider}.
+ *
+ * @see {@link ShaclMetadataProvider}
+ */
+export interface ShaclMetadataProviderOptions {
+    /**
+     * SHACL shapes to derive authoring metadata from.
+     */
+    readonly shapes: ShaclShapes;
+    /**
+     * RDF term factory to create labels and default values for new entities.
+     *
+     * @default Rdf.DefaultDataFactory
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Mints an IRI for a new entity of the specified type.
+     *
+     * By default, the IRI is the type IRI with a random suffix, e.g.
+     * `http://example.com/Person_5d0b6e7a...`.
+     */
+    readonly mintIri?: (type: ElementTypeIri) => ElementIri;
+}
+
+/**
+ * Provides authoring metadata from [SHACL](https://www.w3.org/TR/shacl/) shapes:
+ *   - only types targeted by some node shape can be created and edited;
+ *   - links are allowed only via property shapes with `sh:class`, `sh:node`
+ *     or IRI `sh:nodeKind` constraints, with the target types restricted
+ *     by the value classes if specified;
+ *   - entity properties are the ones from other (literal-valued) property shapes;
+ *   - new entities are pre-filled with values from `sh:defaultValue`.
+ *
+ * Property shapes with paths other than a predicate or an inverse predicate are ignored.
+ *
+ * **Example**:
+ * ```ts
+ * const dataProvider = new RdfDataProvider();
+ * dataProvider.addGraph(shapesGraph);
+ * const metadataProvider = new ShaclMetadataProvider({
+ *     shapes: ShaclShapes.fromDataProvider(dataProvider),
+ * });
+ * ```
+ *
+ * @category Data
+ */
+export class ShaclMetadataProvider implements MetadataProvider {
+    private readonly shapes: ShaclShapes;
+    private readonly factory: Rdf.DataFactory;
+    private readonly mintIri: (type: ElementTypeIri) => ElementIri;
+
+    constructor(options: ShaclMetadataProviderOptions) {
+        this.shapes = options.shapes;
+        this.factory = options.factory ?? Rdf.DefaultDataFactory;
+        this.mintIri = options.mintIri ?? mintEntityIri;
+    }
+
+    async createEntity(
+        type: ElementTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<ElementModel> {
+        const properties: { [id: string]: Array<Rdf.NamedNode | Rdf.Literal> } = {};
+        for (const shape of this.shapes.getShapesForTypes([type])) {
+            for (const property of shape.properties) {
+                const path = getShaclPredicatePath(property.path);
+                if (path && !path.inverse && property.defaultValue && isPropertyShape(property)) {
+                    if (!Object.prototype.hasOwnProperty.call(properties, path.predicate)) {
+                        properties[path.predicate] = [];
+                    }
+                    properties[path.predicate].push(property.defaultValue);
+                }
+            }
+        }
+        return makeNewEntity(this.mintIri(type), type, this.factory, properties);
+    }
+
+    async createRelation(
+        source: ElementModel,
+        target: ElementModel,
+        linkType: LinkTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<LinkModel> {
+        return makeNewRelation(source, target, linkType);
+    }
+
+    async canConnect(
+        source: ElementModel,
+        target: ElementModel | undefined,
+        linkType: LinkTypeIri | undefined,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanConnect[]> {
+        const {shapes} = this;
+        const connections: MetadataCanConnect[] = [];
+        const addConnection = (
+            targetTypes: ReadonlySet<ElementTypeIri>,
+            link: LinkTypeIri,
+            direction: 'in' | 'out'
+        ) => {
+            if (linkType && link !== linkType) {
+                return;
+            }
+            if (target && !target.types.some(type => targetTypes.has(type))) {
+                return;
+            }
+            if (targetTypes.size > 0) {
+                connections.push({
+                    targetTypes,
+                    inLinks: direction === 'in' ? [link] : [],
+                    outLinks: direction === 'out' ? [link] : [],
+                });
+            }
+        };
+
+        // Links constrained by the shapes of the source entity
+        for (const shape of shapes.getShapesForTypes(source.types)) {
+            for (const property of shape.properties) {
+                const path = getShaclPredicatePath(property.path);
+                if (path && isShaclLinkShape(property)) {
+                    addConnection(
+                        this.getAllowedTargetTypes(property, target),
+                        path.predicate as LinkTypeIri,
+                        path.inverse ? 'in' : 'out'
+                    );
+                }
+            }
+        }
+
+        // Links constrained by the shapes of other entities pointing to the source
+        for (const shape of shapes.nodeShapes) {
+            if (shape.targetClasses.length === 0) {
+                continue;
+            }
+            for (const property of shape.properties) {
+                const path = getShaclPredicatePath(property.path);
+                if (
+                    path &&
+                    isShaclLinkShape(property) &&
+                    shapes.isInstanceOfAny(source.types, property.classes)
+                ) {
+                    addConnection(
+                        shapes.getSubClasses(shape.targetClasses),
+                        path.predicate as LinkTypeIri,
+                        path.inverse ? 'out' : 'in'
+                    );
+                }
+            }
+        }
+
+        return connections;
+    }
+
+    async canModifyEntity(
+        entity: ElementModel,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanModifyEntity> {
+        const editable = this.shapes.getShapesForTypes(entity.types).length > 0;
+        return getEntityModifiability(editable);
+    }
+
+    async canModifyRelation(
+        link: LinkModel,
+        source: ElementModel,
+        target: ElementModel,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataCanModifyRelation> {
+        const connections = await this.canConnect(source, target, link.linkTypeId, options);
+        return getRelationModifiability(connections);
+    }
+
+    async getEntityTypeShape(
+        type: ElementTypeIri,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<MetadataEntityTypeShape> {
+        const properties = new Set<PropertyTypeIri>();
+        for (const shape of this.shapes.getShapesForTypes([type])) {
+            for (const property of shape.properties) {
+                const path = getShaclPredicatePath(property.path);
+                if (path && !path.inverse && isPropertyShape(property)) {
+                    properties.add(path.predicate as PropertyTypeIri);
+                }
+            }
+        }
+        return {properties: Array.from(properties)};
+    }
+
+    async filterConstructibleTypes(
+        types: ReadonlySet<ElementTypeIri>,
+        options: { readonly signal?: AbortSignal }
+    ): Promise<ReadonlySet<ElementTypeIri>> {
+        const constructible = new Set<ElementTypeIri>();
+        for (const type of types) {
+            if (this.shapes.getShapesForTypes([type]).length > 0) {
+                constructible.add(type);
+            }
+        }
+        return constructible;
+    }
+
+    private getAllowedTargetTypes(
+        property: ShaclPropertyShape,
+        target: ElementModel | undefined
+    ): ReadonlySet<ElementTypeIri> {
+        if (property.classes.length > 0) {
+            return this.shapes.getSubClasses(property.classes);
+        }
+        // Any IRI is allowed as a value, so restrict only to known entity types
+        return target ? new Set(target.types) : this.shapes.getTargetClasses();
+    }
+}
+
+/**
+ * Returns `true` if the property shape describes an entity property
+ * with literal (or unconstrained) values.
+ */
+function isPropertyShape(property: ShaclPropertyShape): boolean {
+    return !isShaclLinkShape(property);
+}
@@ -0,0 +1,617 @@
+import { multimapArrayAdd } from '../../coreUtils/collections';
+import { HashMap, HashSet } from '../../coreUtils/hashMap';
+
+import type { ElementTypeIri } from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import { IndexQuadBy, MemoryDataset, indexedDataset } from '../rdf/memoryDataset';
+import type { RdfDataProvider } from '../rdf/rdfDataProvider';
+import { ClassHierarchy } from '../schemaUtils';
+
+const SH_NAMESPACE = 'http://www.w3.org/ns/shacl#';
+const SH_NODE_SHAPE = SH_NAMESPACE + 'NodeShape';
+const SH_TARGET_CLASS = SH_NAMESPACE + 'targetClass';
+const SH_PROPERTY = SH_NAMESPACE + 'property';
+const SH_PATH = SH_NAMESPACE + 'path';
+const SH_INVERSE_PATH = SH_NAMESPACE + 'inversePath';
+const SH_ALTERNATIVE_PATH = SH_NAMESPACE + 'alternativePath';
+const SH_ZERO_OR_MORE_PATH = SH_NAMESPACE + 'zeroOrMorePath';
+const SH_ONE_OR_MORE_PATH = SH_NAMESPACE + 'oneOrMorePath';
+const SH_ZERO_OR_ONE_PATH = SH_NAMESPACE + 'zeroOrOnePath';
+const SH_CLASS = SH_NAMESPACE + 'class';
+const SH_NODE = SH_NAMESPACE + 'node';
+const SH_OR = SH_NAMESPACE + 'or';
+const SH_IN = SH_NAMESPACE + 'in';
+const SH_DATATYPE = SH_NAMESPACE + 'datatype';
+const SH_NODE_KIND = SH_NAMESPACE + 'nodeKind';
+const SH_MIN_COUNT = SH_NAMESPACE + 'minCount';
+const SH_MAX_COUNT = SH_NAMESPACE + 'maxCount';
+const SH_PATTERN = SH_NAMESPACE + 'pattern';
+const SH_FLAGS = SH_NAMESPACE + 'flags';
+const SH_DEFAULT_VALUE = SH_NAMESPACE + 'defaultValue';
+const SH_CLOSED = SH_NAMESPACE + 'closed';
+const SH_IGNORED_PROPERTIES = SH_NAMESPACE + 'ignoredProperties';
+const SH_DEACTIVATED = SH_NAMESPACE + 'deactivated';
+const SH_SEVERITY = SH_NAMESPACE + 'severity';
+const SH_MESSAGE = SH_NAMESPACE + 'message';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDF_FIRST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first';
+const RDF_REST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest';
+const RDF_NIL = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil';
+const RDFS_CLASS = 'http://www.w3.org/2000/01/rdf-schema#Class';
+const RDFS_SUB_CLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const OWL_CLASS = 'http://www.w3.org/2002/07/owl#Class';
+
+/**
+ * [SHACL node kind](https://www.w3.org/TR/shacl/#NodeKindConstraintComponent)
+ * (local name of the `sh:nodeKind` value).
+ */
+export type ShaclNodeKind =
+    | 'IRI'
+    | 'BlankNode'
+    | 'Literal'
+    | 'BlankNodeOrIRI'
+    | 'BlankNodeOrLiteral'
+    | 'IRIOrLiteral';
+
+const NODE_KINDS: ReadonlySet<string> = new Set<ShaclNodeKind>([
+    'IRI', 'BlankNode', 'Literal', 'BlankNodeOrIRI', 'BlankNodeOrLiteral', 'IRIOrLiteral',
+]);
+
+/**
+ * [SHACL severity](https://www.w3.org/TR/shacl/#severity)
+ * (local name of the `sh:severity` value).
+ */
+export type ShaclSeverity = 'Violation' | 'Warning' | 'Info';
+
+/**
+ * [SHACL property path](https://www.w3.org/TR/shacl/#property-paths).
+ */
+export type ShaclPath =
+    | { readonly type: 'predicate'; readonly predicate: string }
+    | { readonly type: 'inverse'; readonly path: ShaclPath }
+    | { readonly type: 'sequence'; readonly paths: ReadonlyArray<ShaclPath> }
+    | { readonly type: 'alternative'; readonly paths: ReadonlyArray<ShaclPath> }
+    | { readonly type: 'zeroOrMore' | 'oneOrMore' | 'zeroOrOne'; readonly path: ShaclPath };
+
+/**
+ * SHACL node shape with its targets and property shapes.
+ *
+ * @category Data
+ * @see {@link ShaclShapes}
+ */
+export interface ShaclNodeShape {
+    readonly id: Rdf.NamedNode | Rdf.BlankNode;
+    /**
+     * Classes which instances are targeted by the shape
+     * (from `sh:targetClass` or implicit class targets).
+     */
+    readonly targetClasses: ReadonlyArray<ElementTypeIri>;
+    readonly properties: ReadonlyArray<ShaclPropertyShape>;
+    /**
+     * Whether the shape is closed (`sh:closed`), i.e. only allows
+     * properties from its property shapes and `ignoredProperties`.
+     */
+    readonly closed: boolean;
+    readonly ignoredProperties: ReadonlyArray<string>;
+}
+
+/**
+ * SHACL property shape with its path and constraints.
+ *
+ * @category Data
+ * @see {@link ShaclShapes}
+ */
+export interface ShaclPropertyShape {
+    readonly id: Rdf.NamedNode | Rdf.BlankNode;
+    readonly path: ShaclPath;
+    /**
+     * Allowed value classes from `sh:class` (including alternatives via `sh:or`)
+     * and target classes of `sh:node` shapes.
+     */
+    readonly classes: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Classes from `sh:class` which each value must be an instance of.
+     */
+    readonly classConstraints: ReadonlyArray<ElementTypeIri>;
+    /**
+     * Node shapes from `sh:node` which each value must conform to.
+     *
+     * @see {@link ShaclShapes.getNodeShape}
+     */
+    readonly nodeConstraints: ReadonlyArray<Rdf.NamedNode | Rdf.BlankNode>;
+    readonly datatype: string | undefined;
+    readonly nodeKind: ShaclNodeKind | undefined;
+    readonly minCount: number | undefined;
+    readonly maxCount: number | undefined;
+    /**
+     * Regular expression from `sh:pattern` with optional `sh:flags`.
+     */
+    readonly pattern: { readonly source: string; readonly flags: string } | undefined;
+    /**
+     * Allowed values from `sh:in`.
+     */
+    readonly in: ReadonlyArray<Rdf.NamedNode | Rdf.Literal> | undefined;
+    readonly defaultValue: Rdf.NamedNode | Rdf.Literal | undefined;
+    /**
+     * @default "Violation"
+     */
+    readonly severity: ShaclSeverity;
+    readonly message: Rdf.Literal | undefined;
+}
+
+/**
+ * Parsed set of [SHACL](https://www.w3.org/TR/shacl/) node and property shapes
+ * together with `rdfs:subClassOf` relations from the shapes graph.
+ *
+ * @category Data
+ */
+export class ShaclShapes {
+    /**
+     * All active (not deactivated) node shapes which are explicitly
+     * declared (`sh:NodeShape`) or have class targets.
+     */
+    readonly nodeShapes: ReadonlyArray<ShaclNodeShape>;
+
+    private readonly allShapes: ReadonlyMap<ShapeTerm, ShaclNodeShape>;
+    private readonly shapesByClass = new Map<ElementTypeIri, ShaclNodeShape[]>();
+    private readonly hierarchy: ClassHierarchy;
+
+    private constructor(parsed: ParsedShapes) {
+        this.nodeShapes = parsed.nodeShapes;
+        this.allShapes = parsed.allShapes;
+        this.hierarchy = new ClassHierarchy(parsed.subClassOf);
+        for (const shape of this.nodeShapes) {
+            for (const targetClass of shape.targetClasses) {
+                multimapArrayAdd(this.shapesByClass, targetClass, shape);
+            }
+        }
+    }
+
+    /**
+     * Parses SHACL shapes from the quads in any graph.
+     */
+    static fromQuads(quads: Iterable<Rdf.Quad>): ShaclShapes {
+        const dataset = indexedDataset(IndexQuadBy.S | IndexQuadBy.P | IndexQuadBy.SP);
+        dataset.addAll(quads);
+        return new ShaclShapes(new ShapesParser(dataset).parse());
+    }
+
+    /**
+     * Parses SHACL shapes from the dataset of a {@link RdfDataProvider}.
+     *
+     * The shapes are parsed once, so it is necessary to parse them again
+     * if the shapes in the dataset have changed.
+     */
+    static fromDataProvider(
+        provider: RdfDataProvider,
+        options: {
+            /**
+             * Graphs (named or the default one) to read the shapes from.
+             *
+             * By default, the shapes are read from all graphs.
+             */
+            readonly graphs?: ReadonlyArray<Rdf.Quad['graph']>;
+        } = {}
+    ): ShaclShapes {
+        return ShaclShapes.fromQuads(provider.getQuads(options.graphs));
+    }
+
+    /**
+     * Gets an active node shape by its identifier, including
+     * the ones only referenced via `sh:node`.
+     */
+    getNodeShape(id: Rdf.NamedNode | Rdf.BlankNode): ShaclNodeShape | undefined {
+        return this.allShapes.get(id);
+    }
+
+    /**
+     * Returns all classes which are directly targeted by some node shape.
+     */
+    getTargetClasses(): Set<ElementTypeIri> {
+        return new Set(this.shapesByClass.keys());
+    }
+
+    /**
+     * Returns node shapes which apply to an entity with the specified types,
+     * including shapes targeting super-classes of the types.
+     */
+    getShapesForTypes(types: ReadonlyArray<ElementTypeIri>): ShaclNodeShape[] {
+        const result = new Set<ShaclNodeShape>();
+        for (const type of this.getSuperClasses(types)) {
+            const shapes = this.shapesByClass.get(type);
+            if (shapes) {
+                for (const shape of shapes) {
+                    result.add(shape);
+                }
+            }
+        }
+        return Array.from(result);
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) super-classes.
+     */
+    getSuperClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return this.hierarchy.getSuperClasses(types);
+    }
+
+    /**
+     * Returns specified types together with all their (transitive) sub-classes.
+     */
+    getSubClasses(types: Iterable<ElementTypeIri>): Set<ElementTypeIri> {
+        return this.hierarchy.getSubClasses(types);
+    }
+
+    /**
+     * Returns `true` if an entity with the specified types is an instance of any
+     * of the classes in the SHACL sense (via `rdf:type/rdfs:subClassOf*`).
+     */
+    isInstanceOfAny(
+        types: ReadonlyArray<ElementTypeIri>,
+        classes: ReadonlyArray<ElementTypeIri>
+    ): boolean {
+        return this.hierarchy.isInstanceOfAny(types, classes);
+    }
+}
+
+/**
+ * Returns the predicate and direction if the path is a single predicate
+ * or an inverse of a single predicate, otherwise returns `undefined`.
+ */
+export function getShaclPredicatePath(
+    path: ShaclPath
+): { readonly predicate: string; readonly inverse: boolean } | undefined {
+    if (path.type === 'predicate') {
+        return {predicate: path.predicate, inverse: false};
+    } else if (path.type === 'inverse' && path.path.type === 'predicate') {
+        return {predicate: path.path.predicate, inverse: true};
+    }
+    return undefined;
+}
+
+/**
+ * Returns `true` if the property shape constrains values to entities
+ * i.e. describes a link.
+ */
+export function isShaclLinkShape(property: ShaclPropertyShape): boolean {
+    return (
+        property.classes.length > 0 ||
+        property.nodeKind === 'IRI' ||
+        property.nodeKind === 'BlankNodeOrIRI'
+    );
+}
+
+/**
+ * Formats the path in SPARQL property path syntax, e.g. `^<urn:a>/<urn:b>*`.
+ */
+export function formatShaclPath(path: ShaclPath): string {
+    switch (path.type) {
+        case 'predicate':
+            return `<${path.predicate}>`;
+        case 'inverse':
+            return `^${formatNestedPath(path.path)}`;
+        case 'sequence':
+            return path.paths.map(formatNestedPath).join('/');
+        case 'alternative':
+            return path.paths.map(formatNestedPath).join('|');
+        case 'zeroOrMore':
+            return `${formatNestedPath(path.path)}*`;
+        case 'oneOrMore':
+            return `${formatNestedPath(path.path)}+`;
+        case 'zeroOrOne':
+            return `${formatNestedPath(path.path)}?`;
+    }
+}
+
+function formatNestedPath(path: ShaclPath): string {
+    return path.type === 'predicate' ? formatShaclPath(path) : `(${formatShaclPath(path)})`;
+}
+
+type ShapeTerm = Rdf.NamedNode | Rdf.BlankNode;
+
+interface ParsedShapes {
+    readonly nodeShapes: ReadonlyArray<ShaclNodeShape>;
+    readonly allShapes: ReadonlyMap<ShapeTerm, ShaclNodeShape>;
+    readonly subClassOf: ReadonlyArray<readonly [ElementTypeIri, ElementTypeIri]>;
+}
+
+class ShapesParser {
+    private readonly factory = Rdf.DefaultDataFactory;
+    private readonly allShapes = new HashMap<ShapeTerm, ShaclNodeShape>(
+        Rdf.hashTerm, Rdf.equalTerms
+    );
+    private readonly referencedShapes: ShapeTerm[] = [];
+
+    constructor(private readonly dataset: MemoryDataset) {}
+
+    parse(): ParsedShapes {
+        const {factory, dataset} = this;
+        const candidates = new HashSet<ShapeTerm>(Rdf.hashTerm, Rdf.equalTerms);
+        const addCandidate = (term: Rdf.Term) => {
+            if (isShapeTerm(term)) {
+                candidates.add(term);
+            }
+        };
+        for (const q of dataset.iterateMatches(null, factory.namedNode(RDF_TYPE), factory.namedNode(SH_NODE_SHAPE))) {
+            addCandidate(q.subject);
+        }
+        for (const q of dataset.iterateMatches(null, factory.namedNode(SH_TARGET_CLASS), null)) {
+            addCandidate(q.subject);
+        }
+
+        const nodeShapes: ShaclNodeShape[] = [];
+        const visited = new HashSet<ShapeTerm>(Rdf.hashTerm, Rdf.equalTerms);
+        for (const shapeTerm of candidates) {
+            visited.add(shapeTerm);
+            const shape = this.parseNodeShape(shapeTerm);
+            if (shape) {
+                nodeShapes.push(shape);
+            }
+        }
+        // Parse shapes which are only referenced via sh:node
+        while (this.referencedShapes.length > 0) {
+            const shapeTerm = this.referencedShapes.pop()!;
+            if (!visited.has(shapeTerm)) {
+                visited.add(shapeTerm);
+                this.parseNodeShape(shapeTerm);
+            }
+        }
+
+        const subClassOf: Array<readonly [ElementTypeIri, ElementTypeIri]> = [];
+        for (const q of dataset.iterateMatches(null, factory.namedNode(RDFS_SUB_CLASS_OF), null)) {
+            if (q.subject.termType === 'NamedNode' && q.object.termType === 'NamedNode') {
+                subClassOf.push([q.subject.value as ElementTypeIri, q.object.value as ElementTypeIri]);
+            }
+        }
+
+        return {nodeShapes, allShapes: this.allShapes, subClassOf};
+    }
+
+    private parseNodeShape(shapeTerm: ShapeTerm): ShaclNodeShape | null {
+        if (this.isDeactivated(shapeTerm)) {
+            return null;
+        }
+
+        const properties: ShaclPropertyShape[] = [];
+        for (const propertyTerm of this.objects(shapeTerm, SH_PROPERTY)) {
+            if (isShapeTerm(propertyTerm)) {
+                const property = this.parsePropertyShape(propertyTerm);
+                if (property) {
+                    properties.push(property);
+                }
+            }
+        }
+
+        const ignoredProperties: string[] = [];
+        const ignoredList = this.object(shapeTerm, SH_IGNORED_PROPERTIES);
+        if (ignoredList) {
+            for (const item of this.readList(ignoredList)) {
+                if (item.termType === 'NamedNode') {
+                    ignoredProperties.push(item.value);
+                }
+            }
+        }
+
+        const shape: ShaclNodeShape = {
+            id: shapeTerm,
+            targetClasses: this.getTargetClasses(shapeTerm),
+            properties,
+            closed: this.object(shapeTerm, SH_CLOSED)?.value === 'true',
+            ignoredProperties,
+        };
+        this.allShapes.set(shapeTerm, shape);
+        return shape;
+    }
+
+    private getTargetClasses(shapeTerm: ShapeTerm): ElementTypeIri[] {
+        const targetClasses: ElementTypeIri[] = [];
+        for (const target of this.objects(shapeTerm, SH_TARGET_CLASS)) {
+            if (target.termType === 'NamedNode') {
+                targetClasses.push(target.value as ElementTypeIri);
+            }
+        }
+        if (
+            shapeTerm.termType === 'NamedNode' &&
+            (this.hasType(shapeTerm, RDFS_CLASS) || this.hasType(shapeTerm, OWL_CLASS))
+        ) {
+            // Implicit class target
+            targetClasses.push(shapeTerm.value as ElementTypeIri);
+        }
+        return targetClasses;
+    }
+
+    private parsePropertyShape(shapeTerm: ShapeTerm): ShaclPropertyShape | null {
+        if (this.isDeactivated(shapeTerm)) {
+            return null;
+        }
+
+        const pathTerm = this.object(shapeTerm, SH_PATH);
+        const path = pathTerm ? this.parsePath(pathTerm, new HashSet(Rdf.hashTerm, Rdf.equalTerms)) : null;
+        if (!path) {
+            return null;
+        }
+
+        const classConstraints: ElementTypeIri[] = [];
+        for (const valueClass of this.objects(shapeTerm, SH_CLASS)) {
+            if (valueClass.termType === 'NamedNode') {
+                classConstraints.push(valueClass.value as ElementTypeIri);
+            }
+        }
+        const nodeConstraints: ShapeTerm[] = [];
+        for (const nodeTerm of this.objects(shapeTerm, SH_NODE)) {
+            if (isShapeTerm(nodeTerm)) {
+                nodeConstraints.push(nodeTerm);
+                this.referencedShapes.push(nodeTerm);
+            }
+        }
+
+        const classes = new Set<ElementTypeIri>();
+        this.collectValueClasses(shapeTerm, classes);
+        for (const alternatives of this.objects(shapeTerm, SH_OR)) {
+            for (const alternative of this.readList(alternatives)) {
+                if (isShapeTerm(alternative)) {
+                    this.collectValueClasses(alternative, classes);
+                }
+            }
+        }
+
+        let allowedValues: Array<Rdf.NamedNode | Rdf.Literal> | undefined;
+        const inList = this.object(shapeTerm, SH_IN);
+        if (inList) {
+            allowedValues = [];
+            for (const item of this.readList(inList)) {
+                if (item.termType === 'NamedNode' || item.termType === 'Literal') {
+                    allowedValues.push(item);
+                }
+            }
+        }
+
+        const pattern = this.object(shapeTerm, SH_PATTERN);
+        const flags = this.object(shapeTerm, SH_FLAGS);
+        const datatype = this.object(shapeTerm, SH_DATATYPE);
+        const nodeKind = getShaclLocalName(this.object(shapeTerm, SH_NODE_KIND));
+        const severity = getShaclLocalName(this.object(shapeTerm, SH_SEVERITY));
+        const message = this.object(shapeTerm, SH_MESSAGE);
+        const defaultValue = this.object(shapeTerm, SH_DEFAULT_VALUE);
+
+        return {
+            id: shapeTerm,
+            path,
+            classes: Array.from(classes),
+            classConstraints,
+            nodeConstraints,
+            datatype: datatype?.termType === 'NamedNode' ? datatype.value : undefined,
+            nodeKind: nodeKind && NODE_KINDS.has(nodeKind) ? nodeKind as ShaclNodeKind : undefined,
+            minCount: this.parseCount(this.object(shapeTerm, SH_MIN_COUNT)),
+            maxCount: this.parseCount(this.object(shapeTerm, SH_MAX_COUNT)),
+            pattern: pattern?.termType === 'Literal'
+                ? {source: pattern.value, flags: flags?.termType === 'Literal' ? flags.value : ''}
+                : undefined,
+            in: allowedValues,
+            defaultValue: defaultValue?.termType === 'NamedNode' || defaultValue?.termType === 'Literal'
+                ? defaultValue : undefined,
+            severity: severity === 'Warning' || severity === 'Info' ? severity : 'Violation',
+            message: message?.termType === 'Literal' ? message : undefined,
+        };
+    }
+
+    private parsePath(pathTerm: Rdf.Term, visited: HashSet<Rdf.Term>): ShaclPath | null {
+        if (pathTerm.termType === 'NamedNode') {
+            return {type: 'predicate', predicate: pathTerm.value};
+        } else if (pathTerm.termType !== 'BlankNode' || visited.has(pathTerm)) {
+            return null;
+        }
+        visited.add(pathTerm);
+
+        if (this.object(pathTerm, RDF_FIRST)) {
+            const paths = this.parsePathList(pathTerm, visited);
+            return paths && paths.length >= 2 ? {type: 'sequence', paths} : null;
+        }
+        const alternatives = this.object(pathTerm, SH_ALTERNATIVE_PATH);
+        if (alternatives) {
+            const paths = this.parsePathList(alternatives, visited);
+            return paths && paths.length >= 2 ? {type: 'alternative', paths} : null;
+        }
+        const unaryPaths = [
+            ['inverse', SH_INVERSE_PATH],
+            ['zeroOrMore', SH_ZERO_OR_MORE_PATH],
+            ['oneOrMore', SH_ONE_OR_MORE_PATH],
+            ['zeroOrOne', SH_ZERO_OR_ONE_PATH],
+        ] as const;
+        for (const [type, predicate] of unaryPaths) {
+            const nested = this.object(pathTerm, predicate);
+            if (nested) {
+                const path = this.parsePath(nested, visited);
+                return path ? {type, path} : null;
+            }
+        }
+        return null;
+    }
+
+    private parsePathList(listTerm: Rdf.Term, visited: HashSet<Rdf.Term>): ShaclPath[] | null {
+        const paths: ShaclPath[] = [];
+        for (const item of this.readList(listTerm)) {
+            const path = this.parsePath(item, visited);
+            if (!path) {
+                return null;
+            }
+            paths.push(path);
+        }
+        return paths;
+    }
+
+    private collectValueClasses(shapeTerm: ShapeTerm, classes: Set<ElementTypeIri>): void {
+        for (const valueClass of this.objects(shapeTerm, SH_CLASS)) {
+            if (valueClass.termType === 'NamedNode') {
+                classes.add(valueClass.value as ElementTypeIri);
+            }
+        }
+        for (const nodeTerm of this.objects(shapeTerm, SH_NODE)) {
+            if (isShapeTerm(nodeTerm)) {
+                for (const targetClass of this.getTargetClasses(nodeTerm)) {
+                    classes.add(targetClass);
+                }
+            }
+        }
+    }
+
+    private isDeactivated(shapeTerm: ShapeTerm): boolean {
+        return this.object(shapeTerm, SH_DEACTIVATED)?.value === 'true';
+    }
+
+    private hasType(term: ShapeTerm, type: string): boolean {
+        const {factory} = this;
+        return this.dataset.hasMatches(term, factory.namedNode(RDF_TYPE), factory.namedNode(type));
+    }
+
+    private parseCount(term: Rdf.Term | undefined): number | undefined {
+        if (term?.termType !== 'Literal') {
+            return undefined;
+        }
+        const count = Number(term.value);
+        return Number.isInteger(count) && count >= 0 ? count : undefined;
+    }
+
+    private object(subject: Rdf.Term, predicate: string): Rdf.Quad['object'] | undefined {
+        for (const q of this.dataset.iterateMatches(subject, this.factory.namedNode(predicate), null)) {
+            return q.object;
+        }
+        return undefined;
+    }
+
+    private *objects(subject: ShapeTerm, predicate: string): Iterable<Rdf.Quad['object']> {
+        for (const q of this.dataset.iterateMatches(subject, this.factory.namedNode(predicate), null)) {
+            yield q.object;
+        }
+    }
+
+    private readList(head: Rdf.Term): Rdf.Quad['object'][] {
+        const items: Rdf.Quad['object'][] = [];
+        const visited = new HashSet<Rdf.Term>(Rdf.hashTerm, Rdf.equalTerms);
+        let current: Rdf.Term | undefined = head;
+        while (
+            current &&
+            isShapeTerm(current) &&
+            current.value !== RDF_NIL &&
+            !visited.has(current)
+        ) {
+            visited.add(current);
+            const first = this.object(current, RDF_FIRST);
+            if (first) {
+                items.push(first);
+            }
+            current = this.object(current, RDF_REST);
+        }
+        return items;
+    }
+}
+
+function isShapeTerm(term: Rdf.Term): term is ShapeTerm {
+    return term.termType === 'NamedNode' || term.termType === 'BlankNode';
+}
+
+function getShaclLocalName(term: Rdf.Term | undefined): string | undefined {
+    return term?.termType === 'NamedNode' && term.value.startsWith(SH_NAMESPACE)
+        ? term.value.substring(SH_NAMESPACE.length) : undefined;
+}
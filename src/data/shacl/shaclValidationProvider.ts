@@ -0,0 +1,419 @@
+import { multimapArrayAdd } from '../../coreUtils/collections';
+import { HashMap, HashSet } from '../../coreUtils/hashMap';
+
+import type { ElementIri, ElementModel, LinkModel, PropertyTypeIri } from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import type {
+    ValidationProvider, ValidationEvent, ValidationResult, ValidatedElement, ValidatedLink,
+    ValidationSeverity,
+} from '../validationProvider';
+
+import {
+    ShaclNodeShape, ShaclPath, ShaclPropertyShape, ShaclSeverity, ShaclShapes,
+    formatShaclPath, getShaclPredicatePath, isShaclLinkShape,
+} from './shaclShapes';
+
+/**
+ * Options for {@link ShaclValidationProvider}.
+ *
+ * @see {@link ShaclValidationProvider}
+ */
+export interface ShaclValidationProviderOptions {
+    /**
+     * SHACL shapes to validate the data against.
+     */
+    readonly shapes: ShaclShapes;
+}
+
+/**
+ * Validates entities and relations on the diagram (including the changes
+ * from the graph authoring) against [SHACL](https://www.w3.org/TR/shacl/) shapes.
+ *
+ * The validation is performed offline using only the data available on the diagram
+ * for the shapes targeting entity types (`sh:targetClass` or implicit class targets)
+ * with the following SHACL Core constraints for property shapes:
+ * `sh:minCount`, `sh:maxCount`, `sh:datatype`, `sh:nodeKind`, `sh:class`,
+ * `sh:pattern` (with `sh:flags`), `sh:in` and `sh:node`.
+ *
+ * Property values are taken both from entity properties and relations,
+ * where all property paths (predicate, inverse, sequence, alternative and
+ * zero-or-more / one-or-more / zero-or-one) are supported.
+ *
+ * Validation results are reported with severity from `sh:severity` and
+ * a message from `sh:message` if specified:
+ *   - `sh:Violation` is mapped to `error`;
+ *   - `sh:Warning` is mapped to `warning`;
+ *   - `sh:Info` is mapped to `info`.
+ *
+ * Because the diagram may contain only a part of the data, `sh:class` and `sh:node`
+ * constraints are checked only for values which are entities present on the diagram,
+ * and `sh:minCount` is checked only for entity properties (single predicate paths
+ * in shapes without `sh:class` or `sh:nodeKind` for entities) as relations
+ * may be missing from the diagram.
+ *
+ * @category Data
+ */
+export class ShaclValidationProvider implements ValidationProvider {
+    private readonly shapes: ShaclShapes;
+    private readonly patterns = new Map<ShaclPropertyShape, RegExp | null>();
+
+    constructor(options: ShaclValidationProviderOptions) {
+        this.shapes = options.shapes;
+    }
+
+    async validate(e: ValidationEvent): Promise<ValidationResult> {
+        const data = new ValidationDataGraph(e);
+        const items: Array<ValidatedElement | ValidatedLink> = [];
+        const focus = e.graph.factory.namedNode(e.target.id);
+        for (const shape of this.shapes.getShapesForTypes(e.target.types)) {
+            for (const result of this.validateShape(focus, shape, data, new Set())) {
+                const severity = mapSeverity(result.shape.severity);
+                const message = result.shape.message?.value ?? result.message;
+                if (result.link) {
+                    items.push({type: 'link', target: result.link, severity, message});
+                } else {
+                    const path = getShaclPredicatePath(result.shape.path);
+                    items.push({
+                        type: 'element',
+                        target: e.target.id,
+                        severity,
+                        message,
+                        propertyType: path && !path.inverse
+                            ? path.predicate as PropertyTypeIri : undefined,
+                    });
+                }
+            }
+        }
+        return {items};
+    }
+
+    private validateShape(
+        focus: Rdf.Term,
+        shape: ShaclNodeShape,
+        data: ValidationDataGraph,
+        inProgress: Set<string>
+    ): ShaclValidationResult[] {
+        const results: ShaclValidationResult[] = [];
+        for (const property of shape.properties) {
+            const values = evaluatePath(focus, property.path, data, false);
+            const pathLabel = formatShaclPath(property.path);
+
+            if (
+                property.minCount !== undefined &&
+                values.length < property.minCount &&
+                isEntityPropertyShape(property)
+            ) {
+                results.push({
+                    shape: property,
+                    message: `Expected at least ${property.minCount} value(s) for ${pathLabel}`,
+                });
+            }
+            if (property.maxCount !== undefined && values.length > property.maxCount) {
+                results.push({
+                    shape: property,
+                    message: `Expected at most ${property.maxCount} value(s) for ${pathLabel}`,
+                });
+            }
+
+            for (const value of values) {
+                const message = this.validateValue(value.term, property, data, inProgress);
+                if (message !== undefined) {
+                    results.push({
+                        shape: property,
+                        message: `Value ${formatValue(value.term)} for ${pathLabel} ${message}`,
+                        link: value.link,
+                    });
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Validates a single value node against value constraints of the property shape.
+     *
+     * @returns message for the first violated constraint or `undefined` if there is none
+     */
+    private validateValue(
+        value: Rdf.Term,
+        property: ShaclPropertyShape,
+        data: ValidationDataGraph,
+        inProgress: Set<string>
+    ): string | undefined {
+        const {shapes} = this;
+
+        if (property.datatype !== undefined) {
+            if (!(value.termType === 'Literal' && value.datatype.value === property.datatype)) {
+                return `does not have datatype <${property.datatype}>`;
+            }
+        }
+
+        if (property.nodeKind !== undefined && !matchesNodeKind(value, property.nodeKind)) {
+            return `is not a node of kind sh:${property.nodeKind}`;
+        }
+
+        if (property.pattern) {
+            const pattern = this.getPattern(property);
+            if (pattern && (value.termType === 'BlankNode' || !pattern.test(value.value))) {
+                return `does not match pattern "${property.pattern.source}"`;
+            }
+        }
+
+        if (property.in && !property.in.some(allowed => Rdf.equalTerms(allowed, value))) {
+            return 'is not one of the allowed values';
+        }
+
+        if (property.classConstraints.length > 0) {
+            if (value.termType === 'Literal') {
+                return 'is not an entity';
+            }
+            const entity = data.getEntity(value);
+            if (entity) {
+                for (const valueClass of property.classConstraints) {
+                    if (!shapes.isInstanceOfAny(entity.types, [valueClass])) {
+                        return `is not an instance of <${valueClass}>`;
+                    }
+                }
+            }
+        }
+
+        for (const nodeShapeId of property.nodeConstraints) {
+            const nodeShape = shapes.getNodeShape(nodeShapeId);
+            if (!nodeShape || (value.termType === 'NamedNode' && !data.getEntity(value))) {
+                continue;
+            }
+            // Assume conformance for recursive shape references
+            const key = `${Rdf.termToString(nodeShapeId)} ${Rdf.termToString(value)}`;
+            if (inProgress.has(key)) {
+                continue;
+            }
+            inProgress.add(key);
+            const nested = this.validateShape(value, nodeShape, data, inProgress);
+            inProgress.delete(key);
+            if (nested.length > 0) {
+                return `does not conform to shape ${Rdf.termToString(nodeShapeId)}`;
+            }
+        }
+
+        return undefined;
+    }
+
+    private getPattern(property: ShaclPropertyShape): RegExp | null {
+        let pattern = this.patterns.get(property);
+        if (pattern === undefined) {
+            try {
+                // Only keep XPath regular expression flags supported by JS
+                const flags = property.pattern!.flags.replace(/[^ims]/g, '');
+                pattern = new RegExp(property.pattern!.source, flags);
+            } catch (err) {
+                console.warn(`Invalid sh:pattern in SHACL shape ${Rdf.termToString(property.id)}`, err);
+                pattern = null;
+            }
+            this.patterns.set(property, pattern);
+        }
+        return pattern;
+    }
+}
+
+interface ShaclValidationResult {
+    readonly shape: ShaclPropertyShape;
+    readonly message: string;
+    /**
+     * Outbound relation from the validation target the value came from.
+     */
+    readonly link?: LinkModel;
+}
+
+interface PathValue {
+    readonly term: Rdf.Term;
+    readonly link?: LinkModel;
+}
+
+/**
+ * Data graph to validate against, composed from the diagram content
+ * with the deleted entities and relations excluded.
+ */
+class ValidationDataGraph {
+    private readonly factory: Rdf.DataFactory;
+    private readonly target: ElementModel;
+    private readonly entities: ReadonlyMap<ElementIri, ElementModel>;
+    private readonly outbound = new Map<ElementIri, LinkModel[]>();
+    private readonly inbound = new Map<ElementIri, LinkModel[]>();
+
+    constructor(e: ValidationEvent) {
+        const {target, entities, relations, graph} = e;
+        this.factory = graph.factory;
+        this.target = target;
+        this.entities = entities;
+        for (const relation of relations) {
+            multimapArrayAdd(this.outbound, relation.sourceId, relation);
+            multimapArrayAdd(this.inbound, relation.targetId, relation);
+        }
+    }
+
+    private findEntity(iri: ElementIri): ElementModel | undefined {
+        return iri === this.target.id ? this.target : this.entities.get(iri);
+    }
+
+    getEntity(term: Rdf.Term): ElementModel | undefined {
+        return term.termType === 'NamedNode'
+            ? this.findEntity(term.value as ElementIri)
+            : undefined;
+    }
+
+    getObjects(subject: Rdf.Term, predicate: string): PathValue[] {
+        const values: PathValue[] = [];
+        if (subject.termType !== 'NamedNode') {
+            return values;
+        }
+        const entity = this.findEntity(subject.value as ElementIri);
+        if (entity && Object.prototype.hasOwnProperty.call(entity.properties, predicate)) {
+            for (const term of entity.properties[predicate]) {
+                values.push({term});
+            }
+        }
+        for (const link of this.outbound.get(subject.value as ElementIri) ?? []) {
+            if (link.linkTypeId === predicate) {
+                values.push({term: this.factory.namedNode(link.targetId), link});
+            }
+        }
+        return values;
+    }
+
+    getSubjects(object: Rdf.Term, predicate: string): PathValue[] {
+        const values: PathValue[] = [];
+        if (object.termType !== 'NamedNode') {
+            return values;
+        }
+        for (const link of this.inbound.get(object.value as ElementIri) ?? []) {
+            if (link.linkTypeId === predicate) {
+                values.push({term: this.factory.namedNode(link.sourceId)});
+            }
+        }
+        return values;
+    }
+}
+
+/**
+ * Evaluates SHACL property path from the focus node, returning distinct value nodes.
+ *
+ * Only values from a single predicate step keep the relation they came from.
+ */
+function evaluatePath(
+    focus: Rdf.Term,
+    path: ShaclPath,
+    data: ValidationDataGraph,
+    inverse: boolean
+): PathValue[] {
+    switch (path.type) {
+        case 'predicate': {
+            const values = inverse
+                ? data.getSubjects(focus, path.predicate)
+                : data.getObjects(focus, path.predicate);
+            return distinctValues(values);
+        }
+        case 'inverse': {
+            return evaluatePath(focus, path.path, data, !inverse);
+        }
+        case 'sequence': {
+            const steps = inverse ? [...path.paths].reverse() : path.paths;
+            let current: PathValue[] = [{term: focus}];
+            for (const step of steps) {
+                const next: PathValue[] = [];
+                for (const value of current) {
+                    for (const stepValue of evaluatePath(value.term, step, data, inverse)) {
+                        next.push({term: stepValue.term});
+                    }
+                }
+                current = distinctValues(next);
+            }
+            return current;
+        }
+        case 'alternative': {
+            const values: PathValue[] = [];
+            for (const alternative of path.paths) {
+                values.push(...evaluatePath(focus, alternative, data, inverse));
+            }
+            return distinctValues(values);
+        }
+        case 'zeroOrOne': {
+            return distinctValues([
+                {term: focus},
+                ...evaluatePath(focus, path.path, data, inverse).map(value => ({term: value.term})),
+            ]);
+        }
+        case 'zeroOrMore':
+        case 'oneOrMore': {
+            const reached = new HashSet<Rdf.Term>(Rdf.hashTerm, Rdf.equalTerms);
+            const values: PathValue[] = [];
+            if (path.type === 'zeroOrMore') {
+                reached.add(focus);
+                values.push({term: focus});
+            }
+            const queue = [focus];
+            while (queue.length > 0) {
+                const current = queue.shift()!;
+                for (const value of evaluatePath(current, path.path, data, inverse)) {
+                    if (!reached.has(value.term)) {
+                        reached.add(value.term);
+                        values.push({term: value.term});
+                        queue.push(value.term);
+                    }
+                }
+            }
+            return values;
+        }
+    }
+}
+
+/**
+ * Returns `true` if the property shape describes an entity property
+ * i.e. its values are fully available from the entity itself.
+ */
+function isEntityPropertyShape(property: ShaclPropertyShape): boolean {
+    return property.path.type === 'predicate' && !isShaclLinkShape(property);
+}
+
+function distinctValues(values: ReadonlyArray<PathValue>): PathValue[] {
+    const distinct = new HashMap<Rdf.Term, PathValue>(Rdf.hashTerm, Rdf.equalTerms);
+    for (const value of values) {
+        if (!distinct.has(value.term)) {
+            distinct.set(value.term, value);
+        }
+    }
+    return Array.from(distinct.values());
+}
+
+function matchesNodeKind(value: Rdf.Term, nodeKind: ShaclPropertyShape['nodeKind']): boolean {
+    switch (nodeKind) {
+        case 'IRI':
+            return value.termType === 'NamedNode';
+        case 'BlankNode':
+            return value.termType === 'BlankNode';
+        case 'Literal':
+            return value.termType === 'Literal';
+        case 'BlankNodeOrIRI':
+            return value.termType === 'BlankNode' || value.termType === 'NamedNode';
+        case 'BlankNodeOrLiteral':
+            return value.termType === 'BlankNode' || value.termType === 'Literal';
+        case 'IRIOrLiteral':
+            return value.termType === 'NamedNode' || value.termType === 'Literal';
+        default:
+            return true;
+    }
+}
+
+function mapSeverity(severity: ShaclSeverity): ValidationSeverity {
+    switch (severity) {
+        case 'Info':
+            return 'info';
+        case 'Warning':
+            return 'warning';
+        default:
+            return 'error';
+    }
+}
+
+function formatValue(term: Rdf.Term): string {
+    return term.termType === 'Literal' ? JSON.stringify(term.value) : Rdf.termToString(term);
+}
@@ -3,9 +3,10 @@ import { HashMap, HashSet } from '../../coreUtils/hashMap';
 
 import * as Rdf from '../rdf/rdfModel';
 import {
-    LinkTypeModel, ElementTypeModel, ElementTypeGraph, ElementModel, LinkModel, PropertyTypeModel,
-    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
-    hashSubtypeEdge, equalSubtypeEdges, equalLinks, hashLink
+    LinkTypeModel, LinkTypeGraph, ElementTypeModel, ElementTypeGraph, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri, PropertyTypeCardinality,
+    SubtypeEdge, LinkSubtypeEdge,
+    hashSubtypeEdge, equalSubtypeEdges, equalLinks, hashLink, isWellKnownDatatype,
 } from '../model';
 import type { DataProviderLinkCount, DataProviderLookupItem } from '../provider';
 import { LinkConfiguration, PropertyConfiguration } from './sparqlDataProviderSettings';
@@ -29,7 +30,7 @@ export interface MutableClassModel {
 
 export function getClassTree(response: SparqlResponse<ClassBinding>): ElementTypeGraph {
     const nodes = new Map<ElementTypeIri, MutableClassModel>();
-    const edges = new HashSet(hashSubtypeEdge, equalSubtypeEdges);
+    const edges = new HashSet<SubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
 
     for (const binding of response.results.bindings) {
         if (!isRdfIri(binding.class)) { continue; }
@@ -106,6 +107,10 @@ export function collectClassInfo(
 export interface MutablePropertyModel {
     readonly id: PropertyTypeIri;
     label: Rdf.Literal[];
+    datatype?: string;
+    range?: ElementTypeIri[];
+    domain?: ElementTypeIri[];
+    cardinality?: PropertyTypeCardinality;
 }
 
 export function collectPropertyInfo(
@@ -114,16 +119,49 @@ export function collectPropertyInfo(
 ): void {
     for (const binding of response.results.bindings) {
         const propertyTypeId = binding.property.value as PropertyTypeIri;
-        const existing = result.get(propertyTypeId);
-        if (existing) {
-            appendLabel(existing.label, binding.label);
-        } else {
-            result.set(propertyTypeId, {
-                id: binding.property.value as PropertyTypeIri,
-                label: binding.label ? [binding.label] : [],
-            });
+        let model = result.get(propertyTypeId);
+        if (!model) {
+            model = {id: propertyTypeId, label: []};
+            result.set(propertyTypeId, model);
+        }
+        appendLabel(model.label, binding.label);
+
+        if (isRdfIri(binding.datatype)) {
+            model.datatype = binding.datatype.value;
         }
+        if (isRdfIri(binding.range)) {
+            if (isWellKnownDatatype(binding.range.value)) {
+                if (model.datatype === undefined) {
+                    model.datatype = binding.range.value;
+                }
+            } else {
+                model.range = appendTypeIri(model.range, binding.range.value as ElementTypeIri);
+            }
+        }
+        if (isRdfIri(binding.domain)) {
+            model.domain = appendTypeIri(model.domain, binding.domain.value as ElementTypeIri);
+        }
+        if (isRdfLiteral(binding.functional) && parseBoolean(binding.functional)) {
+            model.cardinality = {...model.cardinality, maxCount: 1};
+        }
+    }
+}
+
+function appendTypeIri(
+    container: ElementTypeIri[] | undefined,
+    typeIri: ElementTypeIri
+): ElementTypeIri[] {
+    if (!container) {
+        return [typeIri];
+    }
+    if (!container.includes(typeIri)) {
+        container.push(typeIri);
     }
+    return container;
+}
+
+function parseBoolean(literal: Rdf.Literal): boolean {
+    return literal.value === 'true' || literal.value === '1';
 }
 
 export interface MutableLinkType {
@@ -147,12 +185,27 @@ export function collectLinkTypes(
     }
 }
 
-export function getLinkTypes(
-    response: SparqlResponse<LinkTypeBinding>
-): Map<LinkTypeIri, LinkTypeModel> {
-    const result = new Map<LinkTypeIri, MutableLinkType>();
-    collectLinkTypes(response, result);
-    return result;
+export function getLinkTypeGraph(response: SparqlResponse<LinkTypeBinding>): LinkTypeGraph {
+    const nodes = new Map<LinkTypeIri, MutableLinkType>();
+    const edges = new HashSet<LinkSubtypeEdge>(hashSubtypeEdge, equalSubtypeEdges);
+    collectLinkTypes(response, nodes);
+
+    for (const binding of response.results.bindings) {
+        if (isRdfIri(binding.parent)) {
+            const linkTypeIri = binding.link.value as LinkTypeIri;
+            const parentIri = binding.parent.value as LinkTypeIri;
+            edges.add([linkTypeIri, parentIri]);
+            // ensuring parent will always be there
+            if (!nodes.has(parentIri)) {
+                nodes.set(parentIri, {id: parentIri, label: []});
+            }
+        }
+    }
+
+    return {
+        linkTypes: Array.from(nodes.values()),
+        subtypeOf: Array.from(edges.values()),
+    };
 }
 
 export function triplesToElementBinding(
@@ -419,6 +472,8 @@ export function getFilteredData(
     const resultTypes = new Map<ElementIri, Set<ElementTypeIri>>();
     const outPredicates = new Map<ElementIri, Set<string>>();
     const inPredicates = new Map<ElementIri, Set<string>>();
+    const scores = new Map<ElementIri, number>();
+    const degrees = new Map<ElementIri, number>();
 
     for (const binding of response.results.bindings) {
         if (!isRdfIri(binding.inst) && !isRdfBlank(binding.inst)) {
@@ -433,6 +488,16 @@ export function getFilteredData(
         }
         enrichElement(model, binding);
 
+        if (isRdfLiteral(binding.score)) {
+            const score = +binding.score.value;
+            if (Number.isFinite(score)) {
+                scores.set(iri, Math.max(scores.get(iri) ?? score, score));
+            }
+        }
+        if (isRdfLiteral(binding.degree)) {
+            degrees.set(iri, Math.max(degrees.get(iri) ?? 0, parseCount(binding.degree)));
+        }
+
         if (isRdfIri(binding.classAll)) {
             multimapAdd(resultTypes, iri, binding.classAll.value as ElementTypeIri);
         }
@@ -474,6 +539,8 @@ export function getFilteredData(
                 element: model,
                 outLinks,
                 inLinks,
+                score: scores.get(model.id),
+                degree: degrees.get(model.id),
             });
         }
     }
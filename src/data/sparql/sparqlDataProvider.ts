@@ -1,14 +1,18 @@
 import * as N3 from 'n3';
 
 import { multimapArrayAdd } from '../../coreUtils/collections';
+
+import type { AuthoringState, AuthoringEvent } from '../../editor/authoringState';
+
 import * as Rdf from '../rdf/rdfModel';
 import {
-    ElementTypeModel, ElementTypeGraph, LinkTypeModel, ElementModel, LinkModel, PropertyTypeModel,
-    ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
+    ElementTypeModel, ElementTypeGraph, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
 } from '../model';
 import {
     DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
 } from '../provider';
+import { fetchWithDefaults } from '../utils';
 import { chunkArray, chunkUndirectedCrossProduct } from './requestChunking';
 import {
     MutableClassModel,
@@ -21,7 +25,7 @@ import {
     enrichElementsWithImages,
     getClassTree,
     getElementsInfo,
-    getLinkTypes,
+    getLinkTypeGraph,
     getLinksInfo,
     getConnectedLinkTypes,
     getFilteredData,
@@ -38,6 +42,9 @@ import {
 import {
     SparqlDataProviderSettings, OwlStatsSettings, LinkConfiguration, PropertyConfiguration,
 } from './sparqlDataProviderSettings';
+import {
+    AuthoringUpdateContext, formatAuthoringUpdate, orderAuthoringEvents,
+} from './sparqlUpdate';
 
 /**
  * Options for {@link SparqlDataProvider}.
@@ -56,6 +63,15 @@ export interface SparqlDataProviderOptions {
      */
     endpointUrl: string;
 
+    /**
+     * SPARQL endpoint URL to send SPARQL 1.1 Update requests to.
+     *
+     * **Default** is the same as {@link SparqlDataProviderOptions.endpointUrl endpointUrl}.
+     *
+     * @see {@link SparqlDataProvider.commitAuthoringState}
+     */
+    updateEndpointUrl?: string;
+
     /**
      * Query method for SPARQL queries to use:
      *  - `GET` - more compatible, may have issues with large request URLs;
@@ -129,6 +145,42 @@ export type SparqlQueryFunction = (params: {
     signal?: AbortSignal;
 }) => Promise<Response>;
 
+/**
+ * Result of committing graph authoring state to a SPARQL endpoint.
+ *
+ * @see {@link SparqlDataProvider.commitAuthoringState}
+ */
+export interface SparqlCommitResult {
+    /**
+     * Remaining graph authoring state without successfully committed events.
+     */
+    readonly state: AuthoringState;
+    /**
+     * Successfully committed authoring events.
+     */
+    readonly committed: ReadonlyArray<AuthoringEvent>;
+    /**
+     * Authoring events which failed to be committed with the fail reason (error).
+     */
+    readonly failed: ReadonlyArray<SparqlCommitFailure>;
+}
+
+/**
+ * Describes an authoring event which failed to be committed to a SPARQL endpoint.
+ *
+ * @see {@link SparqlCommitResult}
+ */
+export interface SparqlCommitFailure {
+    /**
+     * Authoring event which failed to be committed.
+     */
+    readonly event: AuthoringEvent;
+    /**
+     * The reason why the commit failed (the thrown exception).
+     */
+    readonly error: unknown;
+}
+
 /**
  * Options for request chunking in {@link SparqlDataProvider}.
  *
@@ -152,6 +204,8 @@ export interface SparqlProviderChunkOptions {
     readonly unit: 'itemCount' | 'totalLength';
 }
 
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
 /**
  * Provides graph data by requesting it from a SPARQL endpoint.
  *
@@ -178,7 +232,7 @@ export class SparqlDataProvider implements DataProvider {
     ) {
         const {
             factory = Rdf.DefaultDataFactory,
-            queryFunction = queryInternal,
+            queryFunction = fetchWithDefaults,
         } = options;
         this.factory = factory;
         this.options = options;
@@ -360,13 +414,13 @@ export class SparqlDataProvider implements DataProvider {
 
     async knownLinkTypes(params: {
         signal?: AbortSignal;
-    }): Promise<LinkTypeModel[]> {
+    }): Promise<LinkTypeGraph> {
         const {signal} = params;
         const {
             defaultPrefix, schemaLabelProperty, filterOnlyLanguages, linkTypesQuery, linkTypesPattern,
         } = this.settings;
         if (!linkTypesQuery) {
-            return [];
+            return {linkTypes: [], subtypeOf: []};
         }
 
         const query = defaultPrefix + resolveTemplate(linkTypesQuery, {
@@ -375,13 +429,13 @@ export class SparqlDataProvider implements DataProvider {
             labelLanguageFilter: formatLanguageFilter('?label', filterOnlyLanguages),
         });
         const result = await this.executeSparqlSelect<LinkTypeBinding>(query, {signal});
-        const linkTypes = getLinkTypes(result);
+        const linkTypeGraph = getLinkTypeGraph(result);
 
         if (this.options.prepareLabels) {
-            await attachLabels(linkTypes.values(), this.options.prepareLabels, signal);
+            await attachLabels(linkTypeGraph.linkTypes, this.options.prepareLabels, signal);
         }
 
-        return Array.from(linkTypes.values());
+        return linkTypeGraph;
     }
 
     async elements(params: {
@@ -761,6 +815,42 @@ export class SparqlDataProvider implements DataProvider {
         if (typeof params.limit === 'number') {
             limitPart = `LIMIT ${params.limit}`;
         }
+        if (typeof params.offset === 'number' && params.offset > 0) {
+            limitPart += ` OFFSET ${Math.floor(params.offset)}`;
+        }
+
+        if (textSearchPart) {
+            outerProjection += ' ?score';
+        }
+
+        const sortBy = params.sortBy ?? (textSearchPart ? 'relevance' : undefined);
+        let innerSelect = `SELECT DISTINCT ${innerProjection}`;
+        let sortPart = '';
+        let groupPart = '';
+        let orderPart = '';
+        if (sortBy === 'label') {
+            outerProjection += ' ?sortLabel';
+            innerSelect = `SELECT ${innerProjection} (MIN(STR(?instLabel)) AS ?sortLabel)`;
+            sortPart = `OPTIONAL { ?inst ${dataLabelProperty} ?instLabel }`;
+            groupPart = `GROUP BY ${innerProjection}`;
+            orderPart = 'ORDER BY ?sortLabel ?inst';
+        } else if (sortBy === 'degree') {
+            outerProjection += ' ?degree';
+            // Count distinct connected entities to avoid counting the same one
+            // multiple times due to the solution multiplicity from other patterns
+            innerSelect = `SELECT ${innerProjection} (COUNT(DISTINCT ?degreeTarget) AS ?degree)`;
+            sortPart = `OPTIONAL {
+                { ?inst ?degreeLink ?degreeTarget } UNION { ?degreeTarget ?degreeLink ?inst }
+                FILTER(isIRI(?degreeTarget))
+            }`;
+            groupPart = `GROUP BY ${innerProjection}`;
+            orderPart = 'ORDER BY DESC(?degree) ?inst';
+        } else if (sortBy === 'relevance' && textSearchPart) {
+            orderPart = 'ORDER BY DESC(?score) ?inst';
+        } else if (typeof params.offset === 'number') {
+            // Paged lookup requires stable ordering between requests
+            orderPart = 'ORDER BY ?inst';
+        }
 
         return `${defaultPrefix}
             ${fullTextSearch.prefix}
@@ -768,18 +858,20 @@ export class SparqlDataProvider implements DataProvider {
         SELECT ${outerProjection}
         WHERE {
             {
-                SELECT DISTINCT ${innerProjection} WHERE {
+                ${innerSelect} WHERE {
                     ${elementTypePart}
                     ${refQueryPart}
                     ${textSearchPart}
                     ${this.settings.filterAdditionalRestriction}
+                    ${sortPart}
                 }
-                ${textSearchPart ? 'ORDER BY DESC(?score)' : ''}
+                ${groupPart}
+                ${orderPart}
                 ${limitPart}
             }
             ${refQueryTypes}
             ${elementInfoPart}
-        } ${textSearchPart ? 'ORDER BY DESC(?score)' : ''}
+        } ${orderPart}
         `;
     }
 
@@ -820,6 +912,149 @@ export class SparqlDataProvider implements DataProvider {
         );
     }
 
+    /**
+     * Executes arbitrary SPARQL 1.1 Update request.
+     *
+     * The request is sent to {@link SparqlDataProviderOptions.updateEndpointUrl updateEndpointUrl}
+     * if specified, otherwise to the {@link SparqlDataProviderOptions.endpointUrl endpointUrl}.
+     */
+    executeSparqlUpdate(
+        update: string,
+        options?: { signal?: AbortSignal }
+    ): Promise<void> {
+        const {signal} = options ?? {};
+        return executeSparqlUpdate(
+            this.options.updateEndpointUrl ?? this.options.endpointUrl,
+            update,
+            this.queryFunction,
+            signal
+        );
+    }
+
+    /**
+     * Writes changes from the graph authoring state to the SPARQL endpoint
+     * using SPARQL 1.1 Update `INSERT DATA` / `DELETE DATA` operations.
+     *
+     * Each authoring event is translated into a separate update request
+     * with respect to the provider settings: entity labels are written with
+     * {@link SparqlDataProviderSettings.dataLabelProperty dataLabelProperty}
+     * and relations or properties with path configurations consisting of a single
+     * predicate are written with the configured predicate.
+     *
+     * Events which cannot be translated or failed to be sent are reported
+     * in the result and kept in the returned authoring state. The following
+     * events cannot be translated and always fail:
+     *   - relations or properties with pattern-based or property path
+     *     configurations (e.g. `^ex:p` or `ex:p/ex:q`);
+     *   - relation changes with modified properties, as relation properties
+     *     cannot be represented as triples in the endpoint.
+     *
+     * **Example**:
+     * ```ts
+     * const result = await dataProvider.commitAuthoringState({
+     *     state: editor.authoringState,
+     * });
+     * editor.setAuthoringState(result.state);
+     * ```
+     */
+    async commitAuthoringState(params: {
+        /**
+         * Graph authoring state to commit.
+         */
+        state: AuthoringState;
+        /**
+         * Predicate IRI to write entity types with.
+         *
+         * @default "http://www.w3.org/1999/02/22-rdf-syntax-ns#type"
+         */
+        typePredicate?: string;
+        /**
+         * Named graph IRI to write changes into.
+         *
+         * If not specified, changes are written into the default graph.
+         */
+        targetGraph?: string;
+        /**
+         * Cancellation signal.
+         */
+        signal?: AbortSignal;
+    }): Promise<SparqlCommitResult> {
+        const {state, typePredicate = RDF_TYPE, targetGraph, signal} = params;
+        const {defaultPrefix, dataLabelProperty} = this.settings;
+        const context: AuthoringUpdateContext = {
+            typePredicate: escapeIri(typePredicate),
+            labelPredicate: isSimplePredicate(dataLabelProperty) ? dataLabelProperty : undefined,
+            targetGraph,
+            resolveLinkPredicate: linkTypeId => {
+                const link = this.linkById.get(linkTypeId);
+                if (link) {
+                    if (!isSimplePredicate(link.path)) {
+                        throw new Error(
+                            `Cannot write relation with link path which is not a single predicate: ${linkTypeId}`
+                        );
+                    }
+                    return link.path;
+                } else if (!this.openWorldLinks) {
+                    throw new Error(`Cannot write relation with unknown link type: ${linkTypeId}`);
+                }
+                return escapeIri(linkTypeId);
+            },
+            resolvePropertyPredicate: propertyId => {
+                const property = this.settings.propertyConfigurations.find(p => p.id === propertyId);
+                if (property) {
+                    if (!isSimplePredicate(property.path)) {
+                        throw new Error(
+                            `Cannot write property with path which is not a single predicate: ${propertyId}`
+                        );
+                    }
+                    return property.path;
+                } else if (!this.openWorldProperties) {
+                    throw new Error(`Cannot write unknown property: ${propertyId}`);
+                }
+                return escapeIri(propertyId);
+            },
+        };
+
+        const remainingElements = new Map(state.elements);
+        const remainingLinks = state.links.clone();
+        const committed: AuthoringEvent[] = [];
+        const failed: SparqlCommitFailure[] = [];
+        for (const event of orderAuthoringEvents(state)) {
+            signal?.throwIfAborted();
+            try {
+                const update = formatAuthoringUpdate(event, context);
+                if (update) {
+                    await this.executeSparqlUpdate(defaultPrefix + update, {signal});
+                }
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw error;
+                }
+                failed.push({event, error});
+                continue;
+            }
+            committed.push(event);
+            switch (event.type) {
+                case 'entityAdd':
+                case 'entityChange':
+                case 'entityDelete': {
+                    remainingElements.delete(event.data.id);
+                    break;
+                }
+                default: {
+                    remainingLinks.delete(event.data);
+                    break;
+                }
+            }
+        }
+
+        const remaining: AuthoringState = {
+            elements: remainingElements,
+            links: remainingLinks,
+        };
+        return {state: remaining, committed, failed};
+    }
+
     protected createRefQueryPart(params: { elementId: ElementIri; linkId?: LinkTypeIri; direction?: 'in' | 'out' }) {
         const {elementId, linkId, direction} = params;
 
@@ -1137,6 +1372,28 @@ async function executeSparqlConstruct(
     }
 }
 
+async function executeSparqlUpdate(
+    endpoint: string,
+    update: string,
+    queryFunction: SparqlQueryFunction,
+    signal: AbortSignal | undefined
+): Promise<void> {
+    const response = await queryFunction({
+        url: endpoint,
+        body: update,
+        headers: {
+            'Content-Type': 'application/sparql-update; charset=UTF-8',
+        },
+        method: 'POST',
+        signal,
+    });
+    if (!response.ok) {
+        const error = new Error(response.statusText);
+        (error as any).response = response;
+        throw error;
+    }
+}
+
 function appendQueryParams(endpoint: string, queryParams: { [key: string]: string } = {}) {
     const initialSeparator = endpoint.indexOf('?') < 0 ? '?' : '&';
     const additionalParams = initialSeparator + Object.keys(queryParams)
@@ -1145,24 +1402,6 @@ function appendQueryParams(endpoint: string, queryParams: { [key: string]: strin
     return endpoint + additionalParams;
 }
 
-function queryInternal(params: {
-    url: string;
-    body?: string;
-    headers: any;
-    method: string;
-    signal?: AbortSignal;
-}) {
-    return fetch(params.url, {
-        method: params.method,
-        body: params.body,
-        credentials: 'same-origin',
-        mode: 'cors',
-        cache: 'default',
-        headers: params.headers,
-        signal: params.signal,
-    });
-}
-
 function formatLanguageFilter(
     variable: string,
     languages: ReadonlyArray<string> | undefined
@@ -1195,6 +1434,14 @@ function formatValueClauseContent(iris: Iterable<string>): string {
     return Array.from(iris, iri => `(${escapeIri(iri)})`).join(' ');
 }
 
+/**
+ * Checks whether the property path is a single predicate
+ * (either a full or prefixed IRI) which can be used to write data.
+ */
+function isSimplePredicate(path: string): boolean {
+    return /^\s*(<[^<>\s]*>|[A-Za-z][\w.-]*:[\w.-]*|[\w-]*:[\w.-]+|a)\s*$/.test(path);
+}
+
 function escapeIri(iri: string) {
     if (typeof iri !== 'string') {
         throw new Error(`Cannot escape IRI of type "${typeof iri}"`);
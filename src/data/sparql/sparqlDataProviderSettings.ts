@@ -64,6 +64,7 @@ export interface SparqlDataProviderSettings {
      * Expected output bindings:
      *   - `?link`
      *   - `?label` (optional)
+     *   - `?parent` (optional)
      *   - `?instcount` (optional)
      */
     linkTypesQuery?: string;
@@ -101,6 +102,15 @@ export interface SparqlDataProviderSettings {
      * Expected output bindings:
      *   - `?property`
      *   - `?label` (optional)
+     *   - `?range` (optional): property range (`rdfs:range`) which is treated
+     *     as a datatype for well-known literal datatypes (from XSD or RDF vocabulary),
+     *     otherwise as an element type (class) for IRI values;
+     *   - `?datatype` (optional): explicit datatype for literal values;
+     *   - `?domain` (optional): element type (class) which has the property;
+     *   - `?functional` (optional): `true` if property has at most one value
+     *     (e.g. it is an `owl:FunctionalProperty`).
+     *
+     * @see {@link PropertyTypeModel}
      */
     propertyInfoQuery?: string;
 
@@ -276,6 +286,7 @@ export interface FullTextSearchSettings {
      * Expected bindings:
      *   - `?inst` link type
      *   - `?score` numerical score for ordering search results by relevance
+     *     (also returned as {@link DataProviderLookupItem.score})
      *   - `?extractedLabel` (optional; if `extractLabel` is enabled)
      */
     queryPattern: string;
@@ -428,11 +439,19 @@ export const RdfSettings: SparqlDataProviderSettings = {
 }`,
 
     propertyInfoQuery:
-`SELECT ?property ?label WHERE {
+`SELECT ?property ?label ?range ?domain ?functional WHERE {
     VALUES(?property) {\${ids}}
     OPTIONAL {
-        ?property \${schemaLabelProperty} ?label
-        \${labelLanguageFilter}
+        {
+            ?property \${schemaLabelProperty} ?label
+            \${labelLanguageFilter}
+        }
+        UNION { ?property <http://www.w3.org/2000/01/rdf-schema#range> ?range FILTER ISIRI(?range) }
+        UNION { ?property <http://www.w3.org/2000/01/rdf-schema#domain> ?domain FILTER ISIRI(?domain) }
+        UNION {
+            ?property a <http://www.w3.org/2002/07/owl#FunctionalProperty>
+            BIND(true AS ?functional)
+        }
     }
 }`,
 
@@ -627,6 +646,30 @@ const OwlRdfsSettingsOverride: Partial<SparqlDataProviderSettings> = {
         }
     `,
 
+    propertyInfoQuery:
+`SELECT ?property ?label ?range ?domain ?functional WHERE {
+    VALUES(?property) {\${ids}}
+    OPTIONAL {
+        {
+            ?property \${schemaLabelProperty} ?label
+            \${labelLanguageFilter}
+        }
+        UNION { ?property rdfs:range ?range FILTER ISIRI(?range) }
+        UNION { ?property rdfs:domain ?domain FILTER ISIRI(?domain) }
+        UNION { ?property a owl:FunctionalProperty BIND(true AS ?functional) }
+    }
+}`,
+
+    linkTypesQuery:
+`SELECT DISTINCT ?link ?instcount ?label ?parent WHERE {
+    \${linkTypesPattern}
+    OPTIONAL {
+        ?link \${schemaLabelProperty} ?label
+        \${labelLanguageFilter}
+    }
+    OPTIONAL { ?link rdfs:subPropertyOf ?parent FILTER ISIRI(?parent) }
+}`,
+
     // todo: think more, maybe add a limit here?
     linkTypesPattern: `
         { ?link a rdf:Property }
@@ -104,6 +104,10 @@ export interface ClassBinding {
 export interface PropertyBinding {
     property: Rdf.NamedNode;
     label?: Rdf.Literal;
+    datatype?: Rdf.NamedNode;
+    range?: Rdf.NamedNode;
+    domain?: Rdf.NamedNode;
+    functional?: Rdf.Literal;
 }
 
 export interface LinkBinding {
@@ -129,6 +133,7 @@ export interface LinkTypeBinding {
     link: Rdf.NamedNode;
     label?: Rdf.Literal;
     instcount?: Rdf.Literal;
+    parent?: Rdf.NamedNode;
 }
 
 export interface ElementImageBinding {
@@ -146,4 +151,6 @@ export interface FilterBinding {
     classAll?: Rdf.NamedNode;
     link?: Rdf.NamedNode;
     direction?: Rdf.Literal;
+    score?: Rdf.Literal;
+    degree?: Rdf.Literal;
 }
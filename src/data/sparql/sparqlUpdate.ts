@@ -0,0 +1,234 @@
+import type {
+    AuthoringState, AuthoringEvent, AuthoredEntityChange,
+} from '../../editor/authoringState';
+
+import {
+    ElementModel, ElementIri, LinkModel, LinkTypeIri, PropertyTypeIri,
+    equalProperties, isEncodedBlank,
+} from '../model';
+import * as Rdf from '../rdf/rdfModel';
+import { escapeRdfValue } from '../rdf/rdfEscape';
+
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+
+/**
+ * Resolved settings to translate graph authoring events into SPARQL Update operations.
+ */
+export interface AuthoringUpdateContext {
+    /**
+     * Predicate (IRI or prefixed name) to write entity types with.
+     */
+    readonly typePredicate: string;
+    /**
+     * Predicate (IRI or prefixed name) to write entity labels with,
+     * or `undefined` if labels cannot be written.
+     */
+    readonly labelPredicate: string | undefined;
+    /**
+     * Named graph IRI to write changes into, if any.
+     */
+    readonly targetGraph: string | undefined;
+    /**
+     * Resolves predicate (IRI or prefixed name) to write a relation with.
+     *
+     * Throws an error if relations of the specified type cannot be written.
+     */
+    readonly resolveLinkPredicate: (linkTypeId: LinkTypeIri) => string;
+    /**
+     * Resolves predicate (IRI or prefixed name) to write a property value with.
+     *
+     * Throws an error if property values of the specified type cannot be written.
+     */
+    readonly resolvePropertyPredicate: (propertyId: PropertyTypeIri) => string;
+}
+
+/**
+ * Returns events from the graph authoring state in the order to commit them:
+ * added and changed entities first, then relations and deleted entities last.
+ */
+export function orderAuthoringEvents(state: AuthoringState): AuthoringEvent[] {
+    const ordered: AuthoringEvent[] = [];
+    for (const event of state.elements.values()) {
+        if (event.type !== 'entityDelete') {
+            ordered.push(event);
+        }
+    }
+    for (const event of state.links.values()) {
+        ordered.push(event);
+    }
+    for (const event of state.elements.values()) {
+        if (event.type === 'entityDelete') {
+            ordered.push(event);
+        }
+    }
+    return ordered;
+}
+
+/**
+ * Translates a single graph authoring event into SPARQL Update operations
+ * (without prefixes).
+ *
+ * Returns an empty string if there is nothing to update for the event,
+ * e.g. relation change without modified properties.
+ *
+ * Throws an error if the event cannot be translated with the specified settings
+ * or if it is a relation change with modified properties (relations are written
+ * as plain triples so their properties cannot be stored).
+ */
+export function formatAuthoringUpdate(
+    event: AuthoringEvent,
+    context: AuthoringUpdateContext
+): string {
+    switch (event.type) {
+        case 'entityAdd': {
+            const triples = formatEntityTriples(event.data.id, event.data, context);
+            return formatDataOperation('INSERT', triples, context);
+        }
+        case 'entityChange': {
+            return formatEntityChange(event, context);
+        }
+        case 'entityDelete': {
+            const entity = formatIri(event.data.id);
+            return [
+                formatDeleteWhere(`${entity} ?p ?o`, context),
+                formatDeleteWhere(`?s ?p ${entity}`, context),
+            ].join(' ;\n');
+        }
+        case 'relationAdd': {
+            return formatDataOperation('INSERT', [formatRelationTriple(event.data, context)], context);
+        }
+        case 'relationChange': {
+            if (equalProperties(event.before.properties, event.data.properties)) {
+                return '';
+            }
+            throw new Error('Cannot write relation properties: relations are written as plain triples');
+        }
+        case 'relationDelete': {
+            return formatDataOperation('DELETE', [formatRelationTriple(event.data, context)], context);
+        }
+    }
+}
+
+function formatEntityChange(
+    event: AuthoredEntityChange,
+    context: AuthoringUpdateContext
+): string {
+    const {before, data, newIri} = event;
+    const operations: string[] = [];
+    const target = newIri ?? data.id;
+    if (newIri && newIri !== before.id) {
+        const source = formatIri(before.id);
+        const renamed = formatIri(newIri);
+        operations.push(formatRenameOperation(
+            `${source} ?p ?o`, `${renamed} ?p ?o`, context
+        ));
+        operations.push(formatRenameOperation(
+            `?s ?p ${source}`, `?s ?p ${renamed}`, context
+        ));
+    }
+
+    const beforeTriples = new Set(formatEntityTriples(target, before, context));
+    const afterTriples = new Set(formatEntityTriples(target, data, context));
+    const deleted = Array.from(beforeTriples).filter(triple => !afterTriples.has(triple));
+    const inserted = Array.from(afterTriples).filter(triple => !beforeTriples.has(triple));
+    if (deleted.length > 0) {
+        operations.push(formatDataOperation('DELETE', deleted, context));
+    }
+    if (inserted.length > 0) {
+        operations.push(formatDataOperation('INSERT', inserted, context));
+    }
+    return operations.join(' ;\n');
+}
+
+function formatEntityTriples(
+    target: ElementIri,
+    data: ElementModel,
+    context: AuthoringUpdateContext
+): string[] {
+    const subject = formatIri(target);
+    const triples: string[] = [];
+    for (const type of data.types) {
+        triples.push(`${subject} ${context.typePredicate} ${formatIri(type)} .`);
+    }
+    if (data.label.length > 0) {
+        if (!context.labelPredicate) {
+            throw new Error('Cannot write entity labels: label property is not a simple predicate');
+        }
+        for (const label of data.label) {
+            triples.push(`${subject} ${context.labelPredicate} ${formatTerm(label)} .`);
+        }
+    }
+    for (const propertyId of Object.keys(data.properties) as PropertyTypeIri[]) {
+        const values = data.properties[propertyId];
+        if (values.length === 0) {
+            continue;
+        }
+        const predicate = context.resolvePropertyPredicate(propertyId);
+        for (const value of values) {
+            triples.push(`${subject} ${predicate} ${formatTerm(value)} .`);
+        }
+    }
+    return triples;
+}
+
+function formatRelationTriple(data: LinkModel, context: AuthoringUpdateContext): string {
+    const predicate = context.resolveLinkPredicate(data.linkTypeId);
+    return `${formatIri(data.sourceId)} ${predicate} ${formatIri(data.targetId)} .`;
+}
+
+function formatDataOperation(
+    operation: 'INSERT' | 'DELETE',
+    triples: ReadonlyArray<string>,
+    context: AuthoringUpdateContext
+): string {
+    const content = triples.join('\n');
+    return context.targetGraph
+        ? `${operation} DATA { GRAPH ${formatIri(context.targetGraph)} {\n${content}\n} }`
+        : `${operation} DATA {\n${content}\n}`;
+}
+
+function formatDeleteWhere(pattern: string, context: AuthoringUpdateContext): string {
+    return context.targetGraph
+        ? `DELETE WHERE { GRAPH ${formatIri(context.targetGraph)} { ${pattern} } }`
+        : `DELETE WHERE { ${pattern} }`;
+}
+
+function formatRenameOperation(
+    from: string,
+    to: string,
+    context: AuthoringUpdateContext
+): string {
+    const withGraph = context.targetGraph ? `WITH ${formatIri(context.targetGraph)}\n` : '';
+    return `${withGraph}DELETE { ${from} } INSERT { ${to} } WHERE { ${from} }`;
+}
+
+/**
+ * Formats an IRI to use in SPARQL query or update.
+ */
+export function formatIri(iri: string): string {
+    if (isEncodedBlank(iri)) {
+        throw new Error(`Cannot write blank node to SPARQL endpoint: ${iri}`);
+    }
+    if (/[<>"{}|^`\\\s]/.test(iri)) {
+        throw new Error(`Invalid IRI to write to SPARQL endpoint: ${iri}`);
+    }
+    return `<${iri}>`;
+}
+
+function formatTerm(term: Rdf.NamedNode | Rdf.Literal): string {
+    if (term.termType === 'NamedNode') {
+        return formatIri(term.value);
+    }
+    const value = `"${escapeRdfValue(term.value)}"`;
+    if (term.language) {
+        return `${value}@${term.language}`;
+    } else if (
+        term.datatype.value === XSD_STRING ||
+        term.datatype.value === RDF_LANG_STRING
+    ) {
+        return value;
+    } else {
+        return `${value}^^${formatIri(term.datatype.value)}`;
+    }
+}
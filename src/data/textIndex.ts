@@ -0,0 +1,265 @@
+/**
+ * Options for {@link TextIndex}.
+ */
+export interface TextIndexOptions {
+    /**
+     * Whether to match query tokens as prefixes of indexed tokens
+     * in addition to exact token matches.
+     *
+     * @default true
+     */
+    readonly prefixMatch?: boolean;
+}
+
+/**
+ * Document matched by a text query with its relevance score.
+ *
+ * @see {@link TextIndex.search}
+ */
+export interface TextIndexMatch<K extends string> {
+    readonly key: K;
+    readonly score: number;
+}
+
+/**
+ * Options for {@link TextIndex.search}.
+ */
+export interface TextIndexSearchOptions {
+    /**
+     * Scopes to match indexed texts from.
+     *
+     * If not specified, texts from all scopes are matched.
+     */
+    readonly scopes?: ReadonlySet<string>;
+}
+
+/**
+ * Incrementally-maintained inverted index for full-text search
+ * over short texts (e.g. labels) associated with string keys.
+ *
+ * Texts are split into tokens with respect to the text language,
+ * lower-cased and folded to remove diacritics before indexing.
+ *
+ * Each indexed text may be assigned to a scope (e.g. a graph it came from)
+ * to restrict search to texts from specific scopes while keeping
+ * relevance scores comparable between them.
+ */
+export class TextIndex<K extends string> {
+    private readonly prefixMatch: boolean;
+
+    /**
+     * Token occurrence counts for each document in each scope.
+     */
+    private readonly postings = new Map<string, Map<K, Map<string, number>>>();
+    private readonly documentTokens = new Map<K, number>();
+    private sortedTokens: string[] | undefined;
+
+    constructor(options: TextIndexOptions = {}) {
+        this.prefixMatch = options.prefixMatch ?? true;
+    }
+
+    get documentCount(): number {
+        return this.documentTokens.size;
+    }
+
+    add(key: K, text: string, language?: string, scope = ''): void {
+        for (const token of tokenizeText(text, language)) {
+            let posting = this.postings.get(token);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(token, posting);
+                this.sortedTokens = undefined;
+            }
+            let scopeCounts = posting.get(key);
+            if (!scopeCounts) {
+                scopeCounts = new Map();
+                posting.set(key, scopeCounts);
+            }
+            scopeCounts.set(scope, (scopeCounts.get(scope) ?? 0) + 1);
+            this.documentTokens.set(key, (this.documentTokens.get(key) ?? 0) + 1);
+        }
+    }
+
+    delete(key: K, text: string, language?: string, scope = ''): void {
+        for (const token of tokenizeText(text, language)) {
+            const posting = this.postings.get(token);
+            const scopeCounts = posting?.get(key);
+            const count = scopeCounts?.get(scope);
+            if (!(posting && scopeCounts && count)) {
+                continue;
+            }
+            if (count > 1) {
+                scopeCounts.set(scope, count - 1);
+            } else {
+                scopeCounts.delete(scope);
+                if (scopeCounts.size === 0) {
+                    posting.delete(key);
+                }
+                if (posting.size === 0) {
+                    this.postings.delete(token);
+                    this.sortedTokens = undefined;
+                }
+            }
+            const documentCount = this.documentTokens.get(key) ?? 0;
+            if (documentCount > 1) {
+                this.documentTokens.set(key, documentCount - 1);
+            } else {
+                this.documentTokens.delete(key);
+            }
+        }
+    }
+
+    clear(): void {
+        this.postings.clear();
+        this.documentTokens.clear();
+        this.sortedTokens = undefined;
+    }
+
+    /**
+     * Searches for documents which match every token from the query text.
+     *
+     * @returns matched documents ordered by descending relevance score
+     */
+    search(text: string, options: TextIndexSearchOptions = {}): TextIndexMatch<K>[] {
+        const {scopes} = options;
+        const queryTokens = Array.from(new Set(tokenizeText(text)));
+        if (queryTokens.length === 0) {
+            return [];
+        }
+
+        let scores: Map<K, number> | undefined;
+        for (const queryToken of queryTokens) {
+            const tokenScores = new Map<K, number>();
+            for (const token of this.findMatchingTokens(queryToken)) {
+                const posting = this.postings.get(token)!;
+                const idf = Math.log(1 + this.documentTokens.size / posting.size);
+                const weight = (token === queryToken ? 1 : 0.5 * queryToken.length / token.length) * idf;
+                for (const [key, scopeCounts] of posting) {
+                    if (scores && !scores.has(key)) {
+                        continue;
+                    }
+                    const count = countInScopes(scopeCounts, scopes);
+                    if (count === 0) {
+                        continue;
+                    }
+                    const score = weight * (1 + Math.log(count));
+                    tokenScores.set(key, Math.max(tokenScores.get(key) ?? 0, score));
+                }
+            }
+            if (scores) {
+                for (const [key, score] of tokenScores) {
+                    tokenScores.set(key, score + scores.get(key)!);
+                }
+            }
+            scores = tokenScores;
+            if (scores.size === 0) {
+                break;
+            }
+        }
+
+        const matches: TextIndexMatch<K>[] = [];
+        for (const [key, score] of scores!) {
+            matches.push({key, score});
+        }
+        matches.sort((a, b) => (
+            b.score - a.score ||
+            (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+        ));
+        return matches;
+    }
+
+    private *findMatchingTokens(queryToken: string): Iterable<string> {
+        if (!this.prefixMatch) {
+            if (this.postings.has(queryToken)) {
+                yield queryToken;
+            }
+            return;
+        }
+        if (!this.sortedTokens) {
+            this.sortedTokens = Array.from(this.postings.keys()).sort();
+        }
+        const tokens = this.sortedTokens;
+        let low = 0;
+        let high = tokens.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (tokens[middle] < queryToken) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        for (let i = low; i < tokens.length && tokens[i].startsWith(queryToken); i++) {
+            yield tokens[i];
+        }
+    }
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const DIACRITIC_MARKS = /\p{M}+/gu;
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+/**
+ * Splits text into normalized (lower-cased, with diacritics removed) word tokens
+ * using language-specific word segmentation if available.
+ */
+export function tokenizeText(text: string, language?: string): string[] {
+    const tokens: string[] = [];
+    const segmenter = getWordSegmenter(language ?? '');
+    if (segmenter) {
+        for (const segment of segmenter.segment(text)) {
+            if (segment.isWordLike) {
+                for (const match of segment.segment.matchAll(WORD_PATTERN)) {
+                    tokens.push(normalizeToken(match[0], language));
+                }
+            }
+        }
+    } else {
+        for (const match of text.matchAll(WORD_PATTERN)) {
+            tokens.push(normalizeToken(match[0], language));
+        }
+    }
+    return tokens;
+}
+
+function getWordSegmenter(language: string): Intl.Segmenter | null {
+    let segmenter = segmenters.get(language);
+    if (segmenter === undefined) {
+        try {
+            segmenter = typeof Intl.Segmenter === 'function'
+                ? new Intl.Segmenter(language ? language : undefined, {granularity: 'word'})
+                : null;
+        } catch (err) {
+            // Invalid or unsupported language tag
+            segmenter = null;
+        }
+        segmenters.set(language, segmenter);
+    }
+    return segmenter;
+}
+
+function normalizeToken(token: string, language: string | undefined): string {
+    const folded = token.normalize('NFKD').replace(DIACRITIC_MARKS, '');
+    if (language) {
+        try {
+            return folded.toLocaleLowerCase(language);
+        } catch (err) {
+            // Invalid language tag, fallback to default lower-case mapping
+        }
+    }
+    return folded.toLowerCase();
+}
+
+function countInScopes(
+    scopeCounts: ReadonlyMap<string, number>,
+    scopes: ReadonlySet<string> | undefined
+): number {
+    let total = 0;
+    for (const [scope, count] of scopeCounts) {
+        if (!scopes || scopes.has(scope)) {
+            total += count;
+        }
+    }
+    return total;
+}
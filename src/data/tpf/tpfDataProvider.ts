@@ -0,0 +1,649 @@
+import { raceAbortSignal } from '../../coreUtils/async';
+import { multimapAdd } from '../../coreUtils/collections';
+
+import {
+    ElementTypeGraph, ElementTypeModel, LinkTypeGraph, LinkTypeModel, ElementModel, LinkModel,
+    PropertyTypeModel, ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
+} from '../model';
+import {
+    DataProvider, DataProviderLinkCount, DataProviderLookupParams, DataProviderLookupItem,
+} from '../provider';
+import * as Rdf from '../rdf/rdfModel';
+import { chunkArray, chunkUndirectedCrossProduct } from '../sparql/requestChunking';
+import type { SparqlQueryFunction } from '../sparql/sparqlDataProvider';
+import { fetchWithDefaults } from '../utils';
+
+import {
+    FragmentControls, FragmentPage, TriplePattern, expandFragmentTemplate, fetchFragmentPage,
+} from './tpfFragments';
+
+/**
+ * Options for {@link TpfDataProvider}.
+ *
+ * @see {@link TpfDataProvider}
+ */
+export interface TpfDataProviderOptions {
+    /**
+     * URL of the Triple Pattern Fragments interface entry point
+     * (usually the dataset fragment without any pattern),
+     * e.g. `https://fragments.dbpedia.org/2016-04/en`.
+     *
+     * The entry point response is used to discover hypermedia controls
+     * (`hydra:search` URI template) to request other fragments.
+     */
+    readonly fragmentsUrl: string;
+    /**
+     * RDF/JS-compatible term factory to create RDF terms.
+     */
+    readonly factory?: Rdf.DataFactory;
+    /**
+     * Function to perform HTTP requests for fragment pages.
+     *
+     * By default, a `fetch()` request is made with the `Accept` header
+     * for supported RDF formats.
+     */
+    readonly queryFunction?: SparqlQueryFunction;
+    /**
+     * @default "http://www.w3.org/1999/02/22-rdf-syntax-ns#type"
+     */
+    readonly typePredicate?: string;
+    /**
+     * @default "http://www.w3.org/2000/01/rdf-schema#label"
+     */
+    readonly labelPredicate?: string | null;
+    /**
+     * @default "https://schema.org/thumbnailUrl"
+     */
+    readonly imagePredicate?: string | null;
+    /**
+     * Maximum number of pages to request when paging through a single fragment.
+     *
+     * Data from the remaining pages of the fragment is ignored.
+     *
+     * @default 10
+     */
+    readonly maxPages?: number;
+    /**
+     * Maximum number of fragments to request in parallel.
+     *
+     * @default 8
+     */
+    readonly maxParallelRequests?: number;
+    /**
+     * Maximum number of elements (sources and targets) in each chunk
+     * to request links between at once.
+     *
+     * Fragments for the source elements of each chunk are requested
+     * before moving to the next one.
+     *
+     * @default 100
+     */
+    readonly linksChunkSize?: number;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const SCHEMA_THUMBNAIL_URL = 'https://schema.org/thumbnailUrl';
+
+const DEFAULT_LOOKUP_LIMIT = 100;
+
+/**
+ * Triples from the requested pages of a fragment.
+ */
+interface FragmentResult {
+    readonly triples: ReadonlyArray<Rdf.Quad>;
+    /**
+     * `true` if there are more pages in the fragment which were not requested.
+     */
+    readonly incomplete: boolean;
+}
+
+/**
+ * Provides graph data from a [Triple Pattern Fragments](https://linkeddatafragments.org/specification/triple-pattern-fragments/)
+ * (Linked Data Fragments) interface by requesting and paging through fragments
+ * for simple triple patterns.
+ *
+ * Because the interface supports only triple pattern requests, the following
+ * limitations apply:
+ *   - {@link DataProvider.knownElementTypes} and {@link DataProvider.knownLinkTypes}
+ *     always return empty results;
+ *   - {@link DataProvider.lookup} by text only is not supported and returns an empty
+ *     result, but text can be used to filter results by label for lookups by an element
+ *     type or a connected element;
+ *   - only first {@link TpfDataProviderOptions.maxPages pages} of each fragment are
+ *     requested.
+ *
+ * **Example**:
+ * ```ts
+ * const provider = new TpfDataProvider({
+ *     fragmentsUrl: 'https://fragments.dbpedia.org/2016-04/en',
+ *     labelPredicate: 'http://www.w3.org/2000/01/rdf-schema#label',
+ * });
+ * ```
+ *
+ * @category Data
+ */
+export class TpfDataProvider implements DataProvider {
+    readonly factory: Rdf.DataFactory;
+
+    private readonly fragmentsUrl: string;
+    private readonly queryFunction: SparqlQueryFunction;
+    private readonly typePredicate: Rdf.NamedNode;
+    private readonly labelPredicate: Rdf.NamedNode | null;
+    private readonly imagePredicate: Rdf.NamedNode | null;
+    private readonly maxPages: number;
+    private readonly maxParallelRequests: number;
+    private readonly linksChunkSize: number;
+
+    private controls: ControlsDiscovery | undefined;
+
+    constructor(options: TpfDataProviderOptions) {
+        const {
+            fragmentsUrl,
+            factory = Rdf.DefaultDataFactory,
+            queryFunction = fetchWithDefaults,
+            maxPages = 10,
+            maxParallelRequests = 8,
+            linksChunkSize = 100,
+        } = options;
+        if (!(Number.isSafeInteger(maxPages) && maxPages > 0)) {
+            throw new Error('TpfDataProviderOptions.maxPages should be a positive integer');
+        }
+        if (!(Number.isSafeInteger(maxParallelRequests) && maxParallelRequests > 0)) {
+            throw new Error('TpfDataProviderOptions.maxParallelRequests should be a positive integer');
+        }
+        if (!(Number.isSafeInteger(linksChunkSize) && linksChunkSize > 0)) {
+            throw new Error('TpfDataProviderOptions.linksChunkSize should be a positive integer');
+        }
+        this.factory = factory;
+        this.fragmentsUrl = fragmentsUrl;
+        this.queryFunction = queryFunction;
+        this.typePredicate = factory.namedNode(options.typePredicate ?? RDF_TYPE);
+        this.labelPredicate = options.labelPredicate === null
+            ? null : factory.namedNode(options.labelPredicate ?? RDFS_LABEL);
+        this.imagePredicate = options.imagePredicate === null
+            ? null : factory.namedNode(options.imagePredicate ?? SCHEMA_THUMBNAIL_URL);
+        this.maxPages = maxPages;
+        this.maxParallelRequests = maxParallelRequests;
+        this.linksChunkSize = linksChunkSize;
+    }
+
+    knownElementTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<ElementTypeGraph> {
+        return Promise.resolve({elementTypes: [], subtypeOf: []});
+    }
+
+    knownLinkTypes(params: {
+        signal?: AbortSignal;
+    }): Promise<LinkTypeGraph> {
+        return Promise.resolve({linkTypes: [], subtypeOf: []});
+    }
+
+    async elementTypes(params: {
+        classIds: ReadonlyArray<ElementTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementTypeIri, ElementTypeModel>> {
+        const {classIds, signal} = params;
+        const labels = await this.fetchLabels(classIds, signal);
+        const result = new Map<ElementTypeIri, ElementTypeModel>();
+        for (const classId of classIds) {
+            result.set(classId, {id: classId, label: labels.get(classId) ?? []});
+        }
+        return result;
+    }
+
+    async propertyTypes(params: {
+        propertyIds: ReadonlyArray<PropertyTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<PropertyTypeIri, PropertyTypeModel>> {
+        const {propertyIds, signal} = params;
+        const labels = await this.fetchLabels(propertyIds, signal);
+        const result = new Map<PropertyTypeIri, PropertyTypeModel>();
+        for (const propertyId of propertyIds) {
+            result.set(propertyId, {id: propertyId, label: labels.get(propertyId) ?? []});
+        }
+        return result;
+    }
+
+    async linkTypes(params: {
+        linkTypeIds: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<LinkTypeIri, LinkTypeModel>> {
+        const {linkTypeIds, signal} = params;
+        const labels = await this.fetchLabels(linkTypeIds, signal);
+        const result = new Map<LinkTypeIri, LinkTypeModel>();
+        for (const linkTypeId of linkTypeIds) {
+            result.set(linkTypeId, {id: linkTypeId, label: labels.get(linkTypeId) ?? []});
+        }
+        return result;
+    }
+
+    async elements(params: {
+        elementIds: ReadonlyArray<ElementIri>;
+        signal?: AbortSignal;
+    }): Promise<Map<ElementIri, ElementModel>> {
+        const {elementIds, signal} = params;
+        const fragments = await this.fetchForEach(
+            elementIds,
+            elementId => ({subject: this.factory.namedNode(elementId), predicate: null, object: null}),
+            signal
+        );
+        const result = new Map<ElementIri, ElementModel>();
+        for (const [elementId, {triples}] of fragments) {
+            if (triples.length > 0) {
+                result.set(elementId, this.makeElement(elementId, triples));
+            }
+        }
+        return result;
+    }
+
+    async links(params: {
+        primary: ReadonlyArray<ElementIri>;
+        secondary: ReadonlyArray<ElementIri>;
+        linkTypeIds?: ReadonlyArray<LinkTypeIri>;
+        signal?: AbortSignal;
+    }): Promise<LinkModel[]> {
+        const {primary, secondary, linkTypeIds, signal} = params;
+        const linkTypeSet = linkTypeIds ? new Set<string>(linkTypeIds) : undefined;
+
+        const fetched = new Map<ElementIri, FragmentResult>();
+        const links: LinkModel[] = [];
+        const seen = new Set<string>();
+        for (const {sources, targets} of chunkUndirectedCrossProduct(
+            primary, secondary, () => 1, this.linksChunkSize
+        )) {
+            const fragments = await this.fetchForEach(
+                sources.filter(sourceId => !fetched.has(sourceId)),
+                elementId => ({subject: this.factory.namedNode(elementId), predicate: null, object: null}),
+                signal
+            );
+            for (const [sourceId, fragment] of fragments) {
+                fetched.set(sourceId, fragment);
+            }
+
+            const targetSet = new Set<string>(targets);
+            for (const sourceId of sources) {
+                for (const t of fetched.get(sourceId)!.triples) {
+                    if (
+                        t.object.termType === 'NamedNode' &&
+                        targetSet.has(t.object.value) &&
+                        (!linkTypeSet || linkTypeSet.has(t.predicate.value))
+                    ) {
+                        const key = `${sourceId} ${t.predicate.value} ${t.object.value}`;
+                        if (!seen.has(key)) {
+                            seen.add(key);
+                            links.push({
+                                sourceId,
+                                targetId: t.object.value as ElementIri,
+                                linkTypeId: t.predicate.value as LinkTypeIri,
+                                properties: {},
+                            });
+                        }
+                    }
+                }
+            }
+        }
+        return links;
+    }
+
+    async connectedLinkStats(params: {
+        elementId: ElementIri;
+        inexactCount?: boolean;
+        signal?: AbortSignal;
+    }): Promise<DataProviderLinkCount[]> {
+        const {elementId, inexactCount, signal} = params;
+        const element = this.factory.namedNode(elementId);
+        const maxPages = inexactCount ? 1 : undefined;
+        const [outFragment, inFragment] = await Promise.all([
+            this.fetchFragment({subject: element, predicate: null, object: null}, {maxPages, signal}),
+            this.fetchFragment({subject: null, predicate: null, object: element}, {maxPages, signal}),
+        ]);
+
+        const outTargets = new Map<LinkTypeIri, Set<string>>();
+        for (const t of outFragment.triples) {
+            if (t.object.termType === 'NamedNode') {
+                multimapAdd(outTargets, t.predicate.value as LinkTypeIri, t.object.value);
+            }
+        }
+        const inSources = new Map<LinkTypeIri, Set<string>>();
+        for (const t of inFragment.triples) {
+            if (t.subject.termType === 'NamedNode') {
+                multimapAdd(inSources, t.predicate.value as LinkTypeIri, t.subject.value);
+            }
+        }
+
+        const inexact = outFragment.incomplete || inFragment.incomplete;
+        const counts: DataProviderLinkCount[] = [];
+        for (const [linkTypeId, targets] of outTargets) {
+            counts.push({
+                id: linkTypeId,
+                inCount: inSources.get(linkTypeId)?.size ?? 0,
+                outCount: targets.size,
+                inexact: inexact ? true : undefined,
+            });
+        }
+        for (const [linkTypeId, sources] of inSources) {
+            if (!outTargets.has(linkTypeId)) {
+                counts.push({
+                    id: linkTypeId,
+                    inCount: sources.size,
+                    outCount: 0,
+                    inexact: inexact ? true : undefined,
+                });
+            }
+        }
+        return counts;
+    }
+
+    async lookup(params: DataProviderLookupParams): Promise<DataProviderLookupItem[]> {
+        const {signal} = params;
+        let items: Map<ElementIri, LookupResultItem> | undefined;
+
+        if (params.refElementId) {
+            items = new Map();
+            const {refElementId, refElementLinkId, linkDirection} = params;
+            const refElement = this.factory.namedNode(refElementId);
+            const linkType = refElementLinkId ? this.factory.namedNode(refElementLinkId) : null;
+            const [outFragment, inFragment] = await Promise.all([
+                !linkDirection || linkDirection === 'out'
+                    ? this.fetchFragment({subject: refElement, predicate: linkType, object: null}, {signal})
+                    : undefined,
+                !linkDirection || linkDirection === 'in'
+                    ? this.fetchFragment({subject: null, predicate: linkType, object: refElement}, {signal})
+                    : undefined,
+            ]);
+            for (const t of outFragment?.triples ?? []) {
+                if (t.object.termType === 'NamedNode') {
+                    const item = getOrAddItem(items, t.object.value as ElementIri);
+                    if (!item.outLinks) {
+                        item.outLinks = new Set();
+                    }
+                    item.outLinks.add(t.predicate.value as LinkTypeIri);
+                }
+            }
+            for (const t of inFragment?.triples ?? []) {
+                if (t.subject.termType === 'NamedNode') {
+                    const item = getOrAddItem(items, t.subject.value as ElementIri);
+                    if (!item.inLinks) {
+                        item.inLinks = new Set();
+                    }
+                    item.inLinks.add(t.predicate.value as LinkTypeIri);
+                }
+            }
+        }
+
+        if (params.elementTypeId) {
+            const {triples} = await this.fetchFragment(
+                {
+                    subject: null,
+                    predicate: this.typePredicate,
+                    object: this.factory.namedNode(params.elementTypeId),
+                },
+                {signal}
+            );
+            const typeInstances = new Set<ElementIri>();
+            for (const t of triples) {
+                if (t.subject.termType === 'NamedNode') {
+                    typeInstances.add(t.subject.value as ElementIri);
+                }
+            }
+            if (items) {
+                for (const elementId of Array.from(items.keys())) {
+                    if (!typeInstances.has(elementId)) {
+                        items.delete(elementId);
+                    }
+                }
+            } else {
+                items = new Map();
+                for (const elementId of typeInstances) {
+                    items.set(elementId, {elementId});
+                }
+            }
+        }
+
+        if (!items) {
+            // Text-only lookup is not supported by the triple pattern fragments
+            return [];
+        }
+
+        const limit = params.limit === null ? Number.POSITIVE_INFINITY
+            : typeof params.limit === 'number' ? params.limit : DEFAULT_LOOKUP_LIMIT;
+        const offset = typeof params.offset === 'number' ? params.offset : 0;
+        const text = params.text ? params.text.toLowerCase() : undefined;
+
+        let candidates = Array.from(items.values());
+        if (!text) {
+            candidates = candidates.slice(offset, offset + limit);
+        }
+
+        const result: DataProviderLookupItem[] = [];
+        let skipCount = text ? offset : 0;
+        // Fetch candidate elements in batches to stop as soon as
+        // enough elements with matching labels are found
+        for (const batch of chunkArray(candidates, () => 1, this.maxParallelRequests)) {
+            if (result.length >= limit) {
+                break;
+            }
+            const elements = await this.elements({
+                elementIds: batch.map(item => item.elementId),
+                signal,
+            });
+            for (const item of batch) {
+                if (result.length >= limit) {
+                    break;
+                }
+                const element = elements.get(item.elementId) ?? {
+                    id: item.elementId,
+                    types: [],
+                    label: [],
+                    properties: {},
+                };
+                if (text && !element.label.some(label => label.value.toLowerCase().includes(text))) {
+                    continue;
+                }
+                if (skipCount > 0) {
+                    skipCount--;
+                    continue;
+                }
+                result.push({
+                    element,
+                    inLinks: item.inLinks ?? EMPTY_LINKS,
+                    outLinks: item.outLinks ?? EMPTY_LINKS,
+                });
+            }
+        }
+        return result;
+    }
+
+    private makeElement(elementId: ElementIri, triples: ReadonlyArray<Rdf.Quad>): ElementModel {
+        const types: ElementTypeIri[] = [];
+        const label: Rdf.Literal[] = [];
+        let image: string | undefined;
+        const properties: { [id: string]: Array<Rdf.NamedNode | Rdf.Literal> } = {};
+        for (const t of triples) {
+            if (t.predicate.equals(this.typePredicate)) {
+                if (t.object.termType === 'NamedNode') {
+                    types.push(t.object.value as ElementTypeIri);
+                }
+            } else if (this.labelPredicate && t.predicate.equals(this.labelPredicate)) {
+                if (t.object.termType === 'Literal') {
+                    label.push(t.object);
+                }
+            } else if (this.imagePredicate && t.predicate.equals(this.imagePredicate)) {
+                if (image === undefined && (t.object.termType === 'NamedNode' || t.object.termType === 'Literal')) {
+                    image = t.object.value;
+                }
+            } else if (t.object.termType === 'Literal') {
+                let values = properties[t.predicate.value];
+                if (!values) {
+                    values = [];
+                    properties[t.predicate.value] = values;
+                }
+                values.push(t.object);
+            }
+        }
+        return {id: elementId, types, label, image, properties};
+    }
+
+    private async fetchLabels<K extends string>(
+        iris: ReadonlyArray<K>,
+        signal: AbortSignal | undefined
+    ): Promise<Map<K, Rdf.Literal[]>> {
+        const result = new Map<K, Rdf.Literal[]>();
+        const {labelPredicate} = this;
+        if (!labelPredicate) {
+            return result;
+        }
+        const fragments = await this.fetchForEach(
+            iris,
+            iri => ({subject: this.factory.namedNode(iri), predicate: labelPredicate, object: null}),
+            signal
+        );
+        for (const [iri, {triples}] of fragments) {
+            const labels: Rdf.Literal[] = [];
+            for (const t of triples) {
+                if (t.object.termType === 'Literal') {
+                    labels.push(t.object);
+                }
+            }
+            result.set(iri, labels);
+        }
+        return result;
+    }
+
+    /**
+     * Requests a fragment for each key with at most
+     * {@link TpfDataProviderOptions.maxParallelRequests} requests at the same time.
+     */
+    private async fetchForEach<K>(
+        keys: ReadonlyArray<K>,
+        makePattern: (key: K) => TriplePattern,
+        signal: AbortSignal | undefined
+    ): Promise<Map<K, FragmentResult>> {
+        const result = new Map<K, FragmentResult>();
+        for (const chunk of chunkArray(Array.from(new Set(keys)), () => 1, this.maxParallelRequests)) {
+            const fragments = await Promise.all(
+                chunk.map(key => this.fetchFragment(makePattern(key), {signal}))
+            );
+            chunk.forEach((key, index) => result.set(key, fragments[index]));
+        }
+        return result;
+    }
+
+    /**
+     * Requests all data triples matching the pattern by following
+     * next page links up to the specified number of pages.
+     */
+    private async fetchFragment(
+        pattern: TriplePattern,
+        options: {
+            maxPages?: number;
+            signal?: AbortSignal;
+        }
+    ): Promise<FragmentResult> {
+        const {maxPages = this.maxPages, signal} = options;
+        const controls = await this.getControls(signal);
+        let pageUrl: string | undefined = expandFragmentTemplate(controls, pattern);
+        const triples: Rdf.Quad[] = [];
+        let pageCount = 0;
+        while (pageUrl !== undefined && pageCount < maxPages) {
+            const page: FragmentPage = await fetchFragmentPage(
+                pageUrl, this.queryFunction, this.factory, signal
+            );
+            for (const t of page.triples) {
+                if (matchesPattern(t, pattern)) {
+                    triples.push(t);
+                }
+            }
+            pageCount++;
+            pageUrl = page.nextPage;
+        }
+        return {triples, incomplete: pageUrl !== undefined};
+    }
+
+    /**
+     * Discovers hypermedia controls from the entry point once for all requests.
+     *
+     * The discovery request is aborted only when all requests waiting
+     * for it have been aborted.
+     */
+    private getControls(signal: AbortSignal | undefined): Promise<FragmentControls> {
+        let discovery = this.controls;
+        if (!discovery) {
+            const cancellation = new AbortController();
+            const promise = fetchFragmentPage(
+                this.fragmentsUrl, this.queryFunction, this.factory, cancellation.signal
+            ).then(page => {
+                if (!page.controls) {
+                    throw new Error(
+                        'Failed to find triple pattern fragments hypermedia controls ' +
+                        `at ${this.fragmentsUrl}`
+                    );
+                }
+                return page.controls;
+            });
+            const created: ControlsDiscovery = {promise, cancellation, waiting: 0};
+            // Allow to retry hypermedia controls discovery on failure
+            promise.catch(() => {
+                if (this.controls === created) {
+                    this.controls = undefined;
+                }
+            });
+            this.controls = created;
+            discovery = created;
+        }
+
+        const current = discovery;
+        current.waiting++;
+        let released = false;
+        const release = () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            signal?.removeEventListener('abort', release);
+            current.waiting--;
+            if (current.waiting === 0) {
+                current.cancellation.abort();
+            }
+        };
+        signal?.addEventListener('abort', release);
+        current.promise.then(release, release);
+        return raceAbortSignal(current.promise, signal);
+    }
+}
+
+const EMPTY_LINKS: ReadonlySet<LinkTypeIri> = new Set();
+
+interface ControlsDiscovery {
+    readonly promise: Promise<FragmentControls>;
+    readonly cancellation: AbortController;
+    waiting: number;
+}
+
+interface LookupResultItem {
+    readonly elementId: ElementIri;
+    inLinks?: Set<LinkTypeIri>;
+    outLinks?: Set<LinkTypeIri>;
+}
+
+function getOrAddItem(
+    items: Map<ElementIri, LookupResultItem>,
+    elementId: ElementIri
+): LookupResultItem {
+    let item = items.get(elementId);
+    if (!item) {
+        item = {elementId};
+        items.set(elementId, item);
+    }
+    return item;
+}
+
+function matchesPattern(t: Rdf.Quad, pattern: TriplePattern): boolean {
+    return (
+        (!pattern.subject || t.subject.equals(pattern.subject)) &&
+        (!pattern.predicate || t.predicate.equals(pattern.predicate)) &&
+        (!pattern.object || t.object.equals(pattern.object))
+    );
+}
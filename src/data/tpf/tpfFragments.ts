@@ -0,0 +1,259 @@
+import * as Rdf from '../rdf/rdfModel';
+import { RdfTextFormat, parseRdfText } from '../rdf/rdfParser';
+import type { SparqlQueryFunction } from '../sparql/sparqlDataProvider';
+
+const HYDRA_NAMESPACE = 'http://www.w3.org/ns/hydra/core#';
+const HYDRA_SEARCH = HYDRA_NAMESPACE + 'search';
+const HYDRA_TEMPLATE = HYDRA_NAMESPACE + 'template';
+const HYDRA_MAPPING = HYDRA_NAMESPACE + 'mapping';
+const HYDRA_VARIABLE = HYDRA_NAMESPACE + 'variable';
+const HYDRA_PROPERTY = HYDRA_NAMESPACE + 'property';
+const HYDRA_NEXT = HYDRA_NAMESPACE + 'next';
+const HYDRA_NEXT_PAGE = HYDRA_NAMESPACE + 'nextPage';
+const HYDRA_TOTAL_ITEMS = HYDRA_NAMESPACE + 'totalItems';
+const VOID_TRIPLES = 'http://rdfs.org/ns/void#triples';
+
+const RDF_SUBJECT = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#subject';
+const RDF_PREDICATE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#predicate';
+const RDF_OBJECT = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#object';
+
+const METADATA_PREDICATES: ReadonlySet<string> = new Set([
+    HYDRA_SEARCH,
+    HYDRA_TEMPLATE,
+    HYDRA_MAPPING,
+    HYDRA_VARIABLE,
+    HYDRA_PROPERTY,
+    HYDRA_NEXT,
+    HYDRA_NEXT_PAGE,
+    HYDRA_TOTAL_ITEMS,
+    VOID_TRIPLES,
+]);
+
+const ACCEPT_FORMATS = [
+    'application/trig;q=1.0',
+    'application/n-quads;q=0.9',
+    'text/turtle;q=0.8',
+    'application/n-triples;q=0.7',
+].join(',');
+
+/**
+ * Triple pattern to request a fragment for; `null` matches any term.
+ */
+export interface TriplePattern {
+    readonly subject: Rdf.NamedNode | null;
+    readonly predicate: Rdf.NamedNode | null;
+    readonly object: Rdf.NamedNode | null;
+}
+
+/**
+ * Hypermedia controls to request fragments by a triple pattern.
+ */
+export interface FragmentControls {
+    /**
+     * [RFC 6570](https://www.rfc-editor.org/rfc/rfc6570) URI template for the fragments.
+     */
+    readonly template: string;
+    /**
+     * Template variable name for each triple pattern position.
+     */
+    readonly variables: {
+        readonly subject: string;
+        readonly predicate: string;
+        readonly object: string;
+    };
+}
+
+/**
+ * Single page of a triple pattern fragment.
+ */
+export interface FragmentPage {
+    /**
+     * Data triples (without hypermedia controls and metadata).
+     */
+    readonly triples: ReadonlyArray<Rdf.Quad>;
+    /**
+     * Estimated total number of triples in the fragment, if available.
+     */
+    readonly totalCount: number | undefined;
+    /**
+     * URL of the next fragment page, if available.
+     */
+    readonly nextPage: string | undefined;
+    /**
+     * Hypermedia controls to request other fragments, if available.
+     */
+    readonly controls: FragmentControls | undefined;
+}
+
+/**
+ * Fetches and parses a single page of a triple pattern fragment.
+ */
+export async function fetchFragmentPage(
+    url: string,
+    queryFunction: SparqlQueryFunction,
+    factory: Rdf.DataFactory,
+    signal: AbortSignal | undefined
+): Promise<FragmentPage> {
+    const response = await queryFunction({
+        url,
+        headers: {
+            'Accept': ACCEPT_FORMATS,
+        },
+        method: 'GET',
+        signal,
+    });
+    if (!response.ok) {
+        const error = new Error(response.statusText);
+        (error as any).response = response;
+        throw error;
+    }
+
+    const text = await response.text();
+    const quads: Rdf.Quad[] = [];
+    await parseRdfText(
+        text,
+        {
+            format: getResponseFormat(response),
+            baseIri: response.url || url,
+            factory,
+            signal,
+        },
+        q => quads.push(q)
+    );
+    return extractFragmentPage(quads, url);
+}
+
+function getResponseFormat(response: Response): RdfTextFormat {
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    switch (mediaType) {
+        case 'application/trig':
+        case 'application/n-quads':
+        case 'application/n-triples':
+            return mediaType;
+        default:
+            return 'text/turtle';
+    }
+}
+
+/**
+ * Splits parsed fragment page quads into data triples and hypermedia controls.
+ */
+export function extractFragmentPage(quads: ReadonlyArray<Rdf.Quad>, pageUrl: string): FragmentPage {
+    const metadataSubjects = new Set<string>();
+    for (const q of quads) {
+        if (METADATA_PREDICATES.has(q.predicate.value)) {
+            metadataSubjects.add(q.subject.value);
+        }
+    }
+
+    const triples: Rdf.Quad[] = [];
+    let totalCount: number | undefined;
+    let nextPage: string | undefined;
+    let template: string | undefined;
+    const mappingVariables = new Map<string, string>();
+    const mappingProperties = new Map<string, string>();
+    for (const q of quads) {
+        switch (q.predicate.value) {
+            case HYDRA_TOTAL_ITEMS:
+            case VOID_TRIPLES: {
+                // Prefer count for the requested page itself if there are multiple ones
+                if (q.object.termType === 'Literal' && (totalCount === undefined || q.subject.value === pageUrl)) {
+                    const count = Number(q.object.value);
+                    if (Number.isFinite(count)) {
+                        totalCount = count;
+                    }
+                }
+                break;
+            }
+            case HYDRA_NEXT:
+            case HYDRA_NEXT_PAGE: {
+                if (q.object.termType === 'NamedNode') {
+                    nextPage = q.object.value;
+                }
+                break;
+            }
+            case HYDRA_TEMPLATE: {
+                template = q.object.value;
+                break;
+            }
+            case HYDRA_VARIABLE: {
+                mappingVariables.set(q.subject.value, q.object.value);
+                break;
+            }
+            case HYDRA_PROPERTY: {
+                mappingProperties.set(q.subject.value, q.object.value);
+                break;
+            }
+            default: {
+                if (!metadataSubjects.has(q.subject.value)) {
+                    triples.push(q);
+                }
+            }
+        }
+    }
+
+    let controls: FragmentControls | undefined;
+    if (template) {
+        let subject: string | undefined;
+        let predicate: string | undefined;
+        let object: string | undefined;
+        for (const [mapping, variable] of mappingVariables) {
+            switch (mappingProperties.get(mapping)) {
+                case RDF_SUBJECT:
+                    subject = variable;
+                    break;
+                case RDF_PREDICATE:
+                    predicate = variable;
+                    break;
+                case RDF_OBJECT:
+                    object = variable;
+                    break;
+            }
+        }
+        if (subject && predicate && object) {
+            controls = {template, variables: {subject, predicate, object}};
+        }
+    }
+
+    return {triples, totalCount, nextPage, controls};
+}
+
+/**
+ * Makes a fragment URL for the triple pattern from the hypermedia controls.
+ *
+ * Only form-style query expansion (`{?var1,var2}`) is supported in the template.
+ */
+export function expandFragmentTemplate(controls: FragmentControls, pattern: TriplePattern): string {
+    const {template, variables} = controls;
+    const values = new Map<string, string>();
+    if (pattern.subject) {
+        values.set(variables.subject, pattern.subject.value);
+    }
+    if (pattern.predicate) {
+        values.set(variables.predicate, pattern.predicate.value);
+    }
+    if (pattern.object) {
+        values.set(variables.object, pattern.object.value);
+    }
+
+    let expanded = false;
+    const url = template.replace(/\{([?&])([^}]*)\}/g, (match, operator: string, names: string) => {
+        expanded = true;
+        const parts: string[] = [];
+        for (const name of names.split(',')) {
+            const value = values.get(name.trim());
+            if (value !== undefined) {
+                parts.push(`${encodeURIComponent(name.trim())}=${encodeURIComponent(value)}`);
+            }
+        }
+        if (parts.length === 0) {
+            return '';
+        }
+        return (operator === '?' ? '?' : '&') + parts.join('&');
+    });
+    if (!expanded) {
+        throw new Error(`Unsupported triple pattern fragments URI template: ${template}`);
+    }
+    return url;
+}
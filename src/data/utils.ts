@@ -26,3 +26,55 @@ export function hashFnv32a(str: string, seed = 0x811c9dc5): number {
     }
     return hval >>> 0;
 }
+
+/**
+ * Returns a key to sort elements by label in lookup results:
+ * the lexicographically smallest label value or the IRI if there are no labels.
+ */
+export function getLabelSortKey(labels: ReadonlyArray<{ readonly value: string }>, iri: string): string {
+    let key: string | undefined;
+    for (const label of labels) {
+        if (key === undefined || label.value.localeCompare(key) < 0) {
+            key = label.value;
+        }
+    }
+    return key ?? iri;
+}
+
+/**
+ * Returns HTTP response attached to an error as `response` property
+ * (as in errors thrown by `SparqlDataProvider` on failed requests) if any.
+ */
+export function getErrorResponse(error: unknown): Response | undefined {
+    if (typeof error === 'object' && error && 'response' in error) {
+        const {response} = error as { response?: Response };
+        if (response && typeof response.status === 'number') {
+            return response;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Sends an HTTP request with a global [fetch()](https://developer.mozilla.org/en-US/docs/Web/API/fetch)
+ * using CORS mode, same-origin credentials and default cache mode.
+ *
+ * Used as a default query function for `SparqlDataProvider` and `TpfDataProvider`.
+ */
+export function fetchWithDefaults(params: {
+    url: string;
+    body?: string;
+    headers: HeadersInit;
+    method: string;
+    signal?: AbortSignal;
+}): Promise<Response> {
+    return fetch(params.url, {
+        method: params.method,
+        body: params.body,
+        credentials: 'same-origin',
+        mode: 'cors',
+        cache: 'default',
+        headers: params.headers,
+        signal: params.signal,
+    });
+}
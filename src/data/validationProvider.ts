@@ -6,6 +6,14 @@ import type { ElementModel, ElementIri, LinkKey, LinkModel, PropertyTypeIri } fr
 export interface ValidationEvent {
     readonly target: ElementModel;
     readonly outboundLinks: ReadonlyArray<LinkModel>;
+    /**
+     * All entities on the diagram except the ones deleted in the authoring state.
+     */
+    readonly entities: ReadonlyMap<ElementIri, ElementModel>;
+    /**
+     * All relations on the diagram except the ones deleted in the authoring state.
+     */
+    readonly relations: ReadonlyArray<LinkModel>;
     readonly graph: DataGraphStructure;
     readonly state: AuthoringState;
     readonly signal: AbortSignal | undefined;
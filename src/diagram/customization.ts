@@ -1,6 +1,6 @@
 import type * as React from 'react';
 
-import type { LinkTypeIri, PropertyTypeIri } from '../data/model';
+import type { LinkTypeIri, PropertyTypeIri, PropertyTypeModel } from '../data/model';
 import type * as Rdf from '../data/rdf/rdfModel';
 
 import type { Element, ElementTemplateState, Link } from './elements';
@@ -36,6 +36,10 @@ export interface FormattedProperty {
      * Property values.
      */
     readonly values: ReadonlyArray<Rdf.NamedNode | Rdf.Literal>;
+    /**
+     * Property type data (including datatype, range and cardinality) if loaded.
+     */
+    readonly data?: PropertyTypeModel;
 }
 
 /**
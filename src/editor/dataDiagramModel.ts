@@ -1,12 +1,13 @@
 import { AbortScope } from '../coreUtils/async';
 import { AnyEvent, EventSource, Events } from '../coreUtils/events';
+import { HashSet } from '../coreUtils/hashMap';
 
 import {
-    ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeModel,
-    LinkTypeIri, PropertyTypeIri, equalLinks,
+    ElementIri, ElementModel, ElementTypeIri, LinkKey, LinkModel, LinkTypeModel,
+    LinkTypeIri, PropertyTypeIri, equalLinks, hashLink,
 } from '../data/model';
 import { EmptyDataProvider } from '../data/decorated/emptyDataProvider';
-import { DataProvider } from '../data/provider';
+import { DataProvider, DataProviderChangeEvent } from '../data/provider';
 import * as Rdf from '../data/rdf/rdfModel';
 
 import { setLinkState } from '../diagram/commands';
@@ -155,6 +156,7 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
     private loadingScope: AbortScope | undefined;
     private _dataProvider: DataProvider;
     private fetcher: DataFetcher;
+    private unsubscribeFromProvider: (() => void) | undefined;
 
     /** @hidden */
     constructor(options: DataDiagramModelOptions) {
@@ -214,6 +216,8 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
         super.resetGraph();
         this.loadingScope?.abort();
         this.fetcher.dispose();
+        this.unsubscribeFromProvider?.();
+        this.unsubscribeFromProvider = undefined;
     }
 
     protected override subscribeGraph() {
@@ -236,8 +240,70 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
         this.graphListener.listen(this.fetcher.events, 'changeOperations', e => {
             this.extendedSource.trigger('changeOperations', e);
         });
+        this.unsubscribeFromProvider?.();
+        this.unsubscribeFromProvider = dataProvider.subscribeChanges?.(
+            this.onDataProviderChange
+        );
     }
 
+    /**
+     * Re-fetches entities, links and types on the diagram
+     * which are affected by the data provider changes.
+     */
+    private onDataProviderChange = (e: DataProviderChangeEvent): void => {
+        const diagramIris = new Set<ElementIri>();
+        for (const element of this.graph.getElements()) {
+            for (const entity of iterateEntitiesOf(element)) {
+                diagramIris.add(entity.id);
+            }
+        }
+
+        const changedElements = e.invalidateAll
+            ? Array.from(diagramIris)
+            : Array.from(e.elementIds ?? []).filter(iri => diagramIris.has(iri));
+        this.requestElementData(changedElements).catch(ignoreReportedFetchError);
+
+        for (const elementType of this.dataGraph.getElementTypes()) {
+            if (e.invalidateAll || e.elementTypeIds?.has(elementType.id)) {
+                this.fetcher.fetchElementType(elementType);
+            }
+        }
+        for (const linkType of this.dataGraph.getLinkTypes()) {
+            if (e.invalidateAll || e.linkTypeIds?.has(linkType.id)) {
+                this.fetcher.fetchLinkType(linkType);
+            }
+        }
+        for (const propertyType of this.dataGraph.getPropertyTypes()) {
+            if (e.invalidateAll || e.propertyTypeIds?.has(propertyType.id)) {
+                this.fetcher.fetchPropertyType(propertyType);
+            }
+        }
+
+        if (e.invalidateAll) {
+            this.requestLinks().catch(ignoreReportedFetchError);
+        } else if (e.links) {
+            const changedLinks = new HashSet<LinkKey>(hashLink, equalLinks);
+            const endpoints = new Set<ElementIri>();
+            for (const link of e.links) {
+                if (diagramIris.has(link.sourceId) && diagramIris.has(link.targetId)) {
+                    changedLinks.add(link);
+                    endpoints.add(link.sourceId);
+                    endpoints.add(link.targetId);
+                }
+            }
+            if (endpoints.size > 0) {
+                const endpointIris = Array.from(endpoints);
+                this.fetcher.fetchLinks(endpointIris, endpointIris).then(
+                    links => {
+                        this.onLinkInfoLoaded(links.filter(link => changedLinks.has(link)));
+                        this.removeStaleLinks(changedLinks, links);
+                    },
+                    ignoreReportedFetchError
+                );
+            }
+        }
+    };
+
     /**
      * Clears up the diagram and associates a new data provider for it.
      *
@@ -340,7 +406,7 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
             });
 
             if (hideUnusedLinkTypes) {
-                const linkTypes = await this.dataProvider.knownLinkTypes({signal});
+                const {linkTypes} = await this.dataProvider.knownLinkTypes({signal});
                 signal.throwIfAborted();
                 const knownLinkTypes = this.initLinkTypes(linkTypes);
                 this.hideUnusedLinkTypes(knownLinkTypes);
@@ -408,7 +474,7 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
         });
     }
 
-    private initLinkTypes(linkTypes: LinkTypeModel[]): LinkType[] {
+    private initLinkTypes(linkTypes: ReadonlyArray<LinkTypeModel>): LinkType[] {
         const types: LinkType[] = [];
         for (const data of linkTypes) {
             const linkType = new LinkType({id: data.id, data});
@@ -573,6 +639,34 @@ export class DataDiagramModel extends DiagramModel implements DataGraphStructure
         batch.discard();
     }
 
+    private removeStaleLinks(
+        changedLinks: HashSet<LinkKey>,
+        loadedLinks: ReadonlyArray<LinkModel>
+    ): void {
+        const loaded = new HashSet<LinkKey>(hashLink, equalLinks);
+        for (const link of loadedLinks) {
+            loaded.add(link);
+        }
+        const isStale = (data: LinkKey) => changedLinks.has(data) && !loaded.has(data);
+
+        const batch = this.history.startBatch('Remove stale links');
+        for (const link of [...this.graph.getLinks()]) {
+            if (link instanceof RelationLink) {
+                if (isStale(link.data)) {
+                    this.removeLink(link.id);
+                }
+            } else if (link instanceof RelationGroup) {
+                const items = link.items.filter(item => !isStale(item.data));
+                if (items.length === 0) {
+                    this.removeLink(link.id);
+                } else if (items.length !== link.items.length) {
+                    this.history.execute(setRelationGroupItems(link, items));
+                }
+            }
+        }
+        batch.discard();
+    }
+
     /**
      * Creates or gets an existing links for the specified link model.
      *
@@ -1008,6 +1102,7 @@ class ExtendedLocaleFormatter extends DiagramLocaleFormatter implements DataGrap
                 propertyId: key,
                 label,
                 values: localizedValues.length === 0 ? allValues : localizedValues,
+                data: property?.data,
             };
         });
         propertyList.sort((a, b) => a.label.localeCompare(b.label));
@@ -1043,3 +1138,12 @@ export function restoreLinksBetweenElements(
         model.requestLinks(options);
     });
 }
+
+/**
+ * Ignores an error from a fetch operation started in the background
+ * as it is already reported as an operation failure in
+ * {@link DataDiagramModelEvents.changeOperations} event.
+ */
+function ignoreReportedFetchError(error: unknown): void {
+    /* nothing */
+}
@@ -5,6 +5,7 @@ import {
     ElementModel, ElementTypeModel, LinkModel, LinkTypeModel, PropertyTypeModel,
     ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri,
 } from '../data/model';
+import { getCompositePartialFailure } from '../data/composite/composite';
 import { DataProvider } from '../data/provider';
 
 import { Graph } from '../diagram/graph';
@@ -159,30 +160,24 @@ export class DataFetcher {
             type: 'elementType',
             targets: new Set(classIds),
         };
-        const task = this.dataProvider
-            .elementTypes({classIds, signal: this.signal})
-            .then(this.onElementTypesLoaded);
-        this.addOperation(operation, task);
+        const request = this.dataProvider.elementTypes({classIds, signal: this.signal});
+        this.addOperation(operation, request, this.onElementTypesLoaded);
     });
     private linkTypeQueue = new BufferingQueue<LinkTypeIri>(linkTypeIds => {
         const operation: FetchOperationLinkType = {
             type: 'linkType',
             targets: new Set(linkTypeIds),
         };
-        const task = this.dataProvider
-            .linkTypes({linkTypeIds, signal: this.signal})
-            .then(this.onLinkTypesLoaded);
-        this.addOperation(operation, task);
+        const request = this.dataProvider.linkTypes({linkTypeIds, signal: this.signal});
+        this.addOperation(operation, request, this.onLinkTypesLoaded);
     });
     private propertyTypeQueue = new BufferingQueue<PropertyTypeIri>(propertyIds => {
         const operation: FetchOperationPropertyType = {
             type: 'propertyType',
             targets: new Set(propertyIds),
         };
-        const task = this.dataProvider
-            .propertyTypes({propertyIds, signal: this.signal})
-            .then(this.onPropertyTypesLoaded);
-        this.addOperation(operation, task);
+        const request = this.dataProvider.propertyTypes({propertyIds, signal: this.signal});
+        this.addOperation(operation, request, this.onPropertyTypesLoaded);
     });
 
     constructor(
@@ -211,21 +206,33 @@ export class DataFetcher {
         return reasons?.get(target);
     }
 
-    private addOperation(
+    private addOperation<R>(
         operation: FetchOperation,
-        task: Promise<unknown>
-    ): void {
+        request: Promise<R>,
+        onLoaded?: (result: R) => void
+    ): Promise<R> {
         const previous = this._operations;
         const next = [...previous, operation];
+        const task = onLoaded
+            ? request.then(result => {
+                onLoaded(result);
+                return result;
+            })
+            : request;
         task.then(
-            () => this.onOperationComplete(operation),
+            result => this.onOperationComplete(operation, undefined, result),
             error => this.onOperationComplete(operation, error)
         );
         this._operations = next;
         this.source.trigger('changeOperations', {previous});
+        return task;
     }
 
-    private onOperationComplete(operation: FetchOperation, error?: unknown): void {
+    private onOperationComplete(
+        operation: FetchOperation,
+        error?: unknown,
+        result?: unknown
+    ): void {
         const previous = this._operations;
         const index = previous.indexOf(operation);
         if (index >= 0) {
@@ -234,24 +241,46 @@ export class DataFetcher {
             this._operations = next;
         }
 
+        let fail: FetchOperationFail | undefined = error ? {operation, error} : undefined;
+        const partialFailure = error ? undefined : getCompositePartialFailure(result);
+
         switch (operation.type) {
             case 'element':
             case 'elementType':
             case 'linkType':
             case 'propertyType': {
                 const reasons = this.ensureFailReasons(operation.type);
+                const failedTargets = new Set<FetchOperationTypeToTarget[typeof operation.type]>();
                 for (const target of operation.targets) {
-                    // Set or clear the error for the target
-                    reasons.set(target, error);
+                    // Set or clear the error for the target, considering targets
+                    // missing from a partial result as failed
+                    const targetError = error ?? (
+                        partialFailure && result instanceof Map && !result.has(target)
+                            ? partialFailure : undefined
+                    );
+                    reasons.set(target, targetError);
+                    if (targetError) {
+                        failedTargets.add(target);
+                    }
                 }
+                if (partialFailure) {
+                    fail = {
+                        operation: {...operation, targets: failedTargets} as typeof operation,
+                        error: partialFailure,
+                    };
+                }
+                break;
+            }
+            case 'link': {
+                if (partialFailure) {
+                    fail = {operation, error: partialFailure};
+                }
+                break;
             }
         }
 
-        if (this._operations !== previous || error) {
-            this.source.trigger('changeOperations', {
-                previous,
-                fail: error ? {operation, error} : undefined,
-            });
+        if (this._operations !== previous || fail) {
+            this.source.trigger('changeOperations', {previous, fail});
         }
     }
 
@@ -272,11 +301,8 @@ export class DataFetcher {
             type: 'element',
             targets: new Set(elementIris),
         };
-        const task = this.dataProvider
-            .elements({elementIds: [...elementIris], signal: this.signal})
-            .then(this.onElementInfoLoaded);
-        this.addOperation(operation, task);
-        return task;
+        const request = this.dataProvider.elements({elementIds: [...elementIris], signal: this.signal});
+        return this.addOperation(operation, request, this.onElementInfoLoaded).then(() => {});
     }
 
     private onElementInfoLoaded = (elements: Map<ElementIri, ElementModel>) => {
@@ -312,13 +338,12 @@ export class DataFetcher {
         const operation: FetchOperationLink = {
             type: 'link',
         };
-        const task = this.dataProvider.links({
+        const request = this.dataProvider.links({
             primary: primaryIris,
             secondary: secondaryIris,
             linkTypeIds: linkTypeIris,
         });
-        this.addOperation(operation, task);
-        return task;
+        return this.addOperation(operation, request);
     }
 
     fetchElementType(model: ElementType): void {
@@ -26,6 +26,10 @@ export class DataGraph {
         return this.linkTypes.get(linkTypeId);
     }
 
+    getLinkTypes(): LinkType[] {
+        return Array.from(this.linkTypes.values());
+    }
+
     addLinkType(linkType: LinkType): void {
         if (this.getLinkType(linkType.id)) {
             throw new Error(`Link type already exists: ${linkType.id}`);
@@ -42,6 +46,10 @@ export class DataGraph {
         return this.propertiesById.get(propertyId);
     }
 
+    getPropertyTypes(): PropertyType[] {
+        return Array.from(this.propertiesById.values());
+    }
+
     addPropertyType(propertyType: PropertyType): void {
         if (this.getPropertyType(propertyType.id)) {
             throw new Error(`Property type already exists: ${propertyType.id}`);
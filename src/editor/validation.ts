@@ -1,7 +1,7 @@
 import { mapAbortedToNull } from '../coreUtils/async';
 import { HashMap, ReadonlyHashMap } from '../coreUtils/hashMap';
 
-import { ElementIri, LinkKey, LinkModel, hashLink, equalLinks } from '../data/model';
+import { ElementIri, ElementModel, LinkKey, LinkModel, hashLink, equalLinks } from '../data/model';
 import {
     ValidationProvider, ValidationEvent, ValidationResult, ValidatedElement, ValidatedLink,
     ValidationSeverity,
@@ -153,6 +153,7 @@ export function validateElements(
 ): void {
     const previousState = editor.validationState;
     const newState = ValidationState.createMutable();
+    let data: ValidationData | undefined;
 
     for (const element of graph.elements) {
         for (const entity of iterateEntitiesOf(element)) {
@@ -170,9 +171,14 @@ export function validateElements(
             }
 
             if (targets.has(entity.id)) {
+                if (!data) {
+                    data = collectValidationData(graph, editor.authoringState);
+                }
                 const event: ValidationEvent = {
                     target: entity,
                     outboundLinks,
+                    entities: data.entities,
+                    relations: data.relations,
                     state: editor.authoringState,
                     graph,
                     signal,
@@ -198,6 +204,31 @@ export function validateElements(
     editor.setValidationState(newState);
 }
 
+interface ValidationData {
+    readonly entities: ReadonlyMap<ElementIri, ElementModel>;
+    readonly relations: ReadonlyArray<LinkModel>;
+}
+
+function collectValidationData(graph: DataGraphStructure, state: AuthoringState): ValidationData {
+    const entities = new Map<ElementIri, ElementModel>();
+    for (const element of graph.elements) {
+        for (const entity of iterateEntitiesOf(element)) {
+            if (!AuthoringState.isDeletedEntity(state, entity.id)) {
+                entities.set(entity.id, entity);
+            }
+        }
+    }
+    const relations: LinkModel[] = [];
+    for (const link of graph.links) {
+        for (const relation of iterateRelationsOf(link)) {
+            if (!AuthoringState.isDeletedRelation(state, relation)) {
+                relations.push(relation);
+            }
+        }
+    }
+    return {entities, relations};
+}
+
 async function processValidationResult(
     resultTask: Promise<ValidationResult | null>,
     previousElement: ElementValidation,
@@ -1,12 +1,19 @@
 import * as React from 'react';
 
-import { ElementModel, ElementIri, PropertyTypeIri } from '../data/model';
+import { ElementModel, ElementIri, PropertyTypeIri, PropertyTypeModel } from '../data/model';
 import * as Rdf from '../data/rdf/rdfModel';
 
 import { WorkspaceContext } from '../workspace/workspaceContext';
 
 const FORM_CLASS = 'reactodia-form';
 
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema#';
+const NUMERIC_DATATYPES: ReadonlySet<string> = new Set([
+    'decimal', 'integer', 'double', 'float', 'long', 'int', 'short', 'byte',
+    'nonNegativeInteger', 'nonPositiveInteger', 'positiveInteger', 'negativeInteger',
+    'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte',
+].map(name => XSD_NAMESPACE + name));
+
 export interface EditEntityFormProps {
     entity: ElementModel;
     onApply: (entity: ElementModel) => void;
@@ -39,15 +46,18 @@ export class EditEntityForm extends React.Component<EditEntityFormProps, State>
         const {model} = this.context;
         const propertyType = model.getPropertyType(key);
         const label = model.locale.formatLabel(propertyType?.data?.label, key);
+        const hint = propertyType?.data ? this.formatPropertyHint(propertyType.data) : undefined;
         return (
             <div key={key} className={`${FORM_CLASS}__row`}>
-                <label>
+                <label title={hint}>
                     {label}
                     {
                         values.map((term, index) => (
                             <input key={index}
                                 name='reactodia-edit-entity-property'
                                 className='reactodia-form-control'
+                                type={getPropertyInputType(propertyType?.data?.datatype, term)}
+                                placeholder={hint}
                                 defaultValue={term.value}
                             />
                         ))
@@ -57,6 +67,20 @@ export class EditEntityForm extends React.Component<EditEntityFormProps, State>
         );
     }
 
+    private formatPropertyHint(data: PropertyTypeModel): string | undefined {
+        const {model} = this.context;
+        const parts: string[] = [];
+        if (data.datatype) {
+            parts.push(Rdf.getLocalName(data.datatype) ?? data.datatype);
+        } else if (data.range && data.range.length > 0) {
+            parts.push(model.locale.formatElementTypes(data.range).join(', '));
+        }
+        if (data.cardinality?.maxCount === 1) {
+            parts.push('single value');
+        }
+        return parts.length > 0 ? parts.join(', ') : undefined;
+    }
+
     private renderProperties() {
         const {properties} = this.props.entity;
         const propertyIris = Object.keys(properties) as PropertyTypeIri[];
@@ -169,3 +193,19 @@ export class EditEntityForm extends React.Component<EditEntityFormProps, State>
         );
     }
 }
+
+function getPropertyInputType(
+    datatype: string | undefined,
+    term: Rdf.NamedNode | Rdf.Literal
+): string | undefined {
+    // Only use a specialized input when the value is valid for it,
+    // otherwise the browser would display an empty field
+    if (datatype === undefined || term.termType !== 'Literal') {
+        return undefined;
+    } else if (NUMERIC_DATATYPES.has(datatype) && Number.isFinite(Number(term.value))) {
+        return 'number';
+    } else if (datatype === XSD_NAMESPACE + 'date' && /^\d{4}-\d{2}-\d{2}$/.test(term.value)) {
+        return 'date';
+    }
+    return undefined;
+}
@@ -3,7 +3,7 @@ import classnames from 'classnames';
 
 import { useKeyedSyncStore } from '../coreUtils/keyedObserver';
 
-import { PropertyTypeIri } from '../data/model';
+import { PropertyTypeIri, getValueSources } from '../data/model';
 import { TemplateProperties } from '../data/schema';
 
 import { LinkTemplate, LinkTemplateProps } from '../diagram/customization';
@@ -127,6 +127,7 @@ export function DefaultLinkPathTemplate(props: DefaultLinkPathTemplateProps) {
         const properties = link instanceof RelationLink
             ? model.locale.formatPropertyList(link.data.properties)
             : [];
+        const provenance = link instanceof RelationLink ? link.data.provenance : undefined;
 
         labelContent = <>
             <LinkLabel {...primaryLabelProps}
@@ -137,7 +138,8 @@ export function DefaultLinkPathTemplate(props: DefaultLinkPathTemplateProps) {
                 textClass={classnames(textClass, primaryLabelProps?.textClass)}
                 rectClass={classnames(backgroundClass, primaryLabelProps?.rectClass)}
                 title={primaryLabelProps?.title
-                    ?? `${label} ${model.locale.formatIri(link.typeId)}`
+                    ?? `${label} ${model.locale.formatIri(link.typeId)}` +
+                        formatSources(provenance?.sources)
                 }
                 content={renamedLabel ? label : (
                     <WithFetchStatus type='linkType' target={link.typeId}>
@@ -156,7 +158,12 @@ export function DefaultLinkPathTemplate(props: DefaultLinkPathTemplateProps) {
                     textClass={classnames(textClass, propertyLabelProps?.textClass)}
                     rectClass={classnames(backgroundClass, propertyLabelProps?.rectClass)}
                     title={propertyLabelProps?.title
-                        ?? `${property.label} ${model.locale.formatIri(property.propertyId)}`
+                        ?? `${property.label} ${model.locale.formatIri(property.propertyId)}` +
+                            formatSources(collectValueSources(
+                                property.values.map(value =>
+                                    getValueSources(provenance, property.propertyId, value)
+                                )
+                            ))
                     }
                     content={<>
                         <WithFetchStatus type='propertyType' target={property.propertyId}>
@@ -218,3 +225,21 @@ export function DefaultLinkPathTemplate(props: DefaultLinkPathTemplateProps) {
         </g>
     );
 }
+
+function collectValueSources(
+    valueSources: ReadonlyArray<ReadonlyArray<string> | undefined>
+): ReadonlyArray<string> {
+    const sources = new Set<string>();
+    for (const items of valueSources) {
+        if (items) {
+            for (const source of items) {
+                sources.add(source);
+            }
+        }
+    }
+    return Array.from(sources);
+}
+
+function formatSources(sources: ReadonlyArray<string> | undefined): string {
+    return sources && sources.length > 0 ? `\nSources: ${sources.join(', ')}` : '';
+}
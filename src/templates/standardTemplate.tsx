@@ -4,7 +4,9 @@ import classnames from 'classnames';
 import { useKeyedSyncStore } from '../coreUtils/keyedObserver';
 
 import type * as Rdf from '../data/rdf/rdfModel';
-import { ElementModel, PropertyTypeIri, isEncodedBlank } from '../data/model';
+import {
+    DataProvenance, ElementModel, PropertyTypeIri, getValueSources, isEncodedBlank,
+} from '../data/model';
 import { PinnedProperties, TemplateProperties } from '../data/schema';
 
 import { CanvasApi, useCanvas } from '../diagram/canvasApi';
@@ -210,7 +212,9 @@ function StandardTemplateStandalone(props: StandardTemplateBodyProps) {
                     </div>
                     {pinnedProperties.length > 0 ? (
                         <div className={`${CLASS_NAME}__pinned-props`}>
-                            <PropertyList properties={pinnedProperties} />
+                            <PropertyList properties={pinnedProperties}
+                                provenance={data.provenance}
+                            />
                         </div>
                     ) : null}
                 </div>
@@ -224,7 +228,9 @@ function StandardTemplateStandalone(props: StandardTemplateBodyProps) {
                     ) : null}
                     <div className={`${CLASS_NAME}__dropdown-content`}>
                         {renderIri()}
-                        <PropertyList properties={propertyList} />
+                        <PropertyList properties={propertyList}
+                            provenance={data.provenance}
+                        />
                         {editor.inAuthoringMode ? <>
                             <hr className={`${CLASS_NAME}__hr`}
                                 data-reactodia-no-export='true'
@@ -402,8 +408,9 @@ function getEntityAuthoredStatusClass(data: ElementModel, state: AuthoringState)
 
 function PropertyList(props: {
     properties: ReadonlyArray<FormattedProperty>;
+    provenance: DataProvenance | undefined;
 }) {
-    const {properties} = props;
+    const {properties, provenance} = props;
 
     if (properties.length === 0) {
         return <div>no properties</div>;
@@ -424,17 +431,30 @@ function PropertyList(props: {
                             </div>
                         </WithFetchStatus>
                         <div className={`${CLASS_NAME}__properties-values`}>
-                            {values.map((term, index) => (
-                                <div key={index}
-                                    className={`${CLASS_NAME}__properties-value`}
-                                    title={term.value}
-                                    lang={
-                                        term.termType === 'Literal' && term.language
-                                            ? term.language : undefined
-                                    }>
-                                    {term.value}
-                                </div>
-                            ))}
+                            {values.map((term, index) => {
+                                const sources = getValueSources(provenance, propertyId, term);
+                                return (
+                                    <div key={index}
+                                        className={`${CLASS_NAME}__properties-value`}
+                                        title={term.value}
+                                        lang={
+                                            term.termType === 'Literal' && term.language
+                                                ? term.language : undefined
+                                        }>
+                                        {term.value}
+                                        {sources ? sources.map(source => (
+                                            <span key={source}
+                                                className={classnames(
+                                                    `${CLASS_NAME}__properties-source`,
+                                                    'reactodia-badge'
+                                                )}
+                                                title={`Source: ${source}`}>
+                                                {source}
+                                            </span>
+                                        )) : null}
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
                 );
@@ -5,6 +5,7 @@ import { Events, EventObserver, EventTrigger } from '../coreUtils/events';
 import { Debouncer } from '../coreUtils/scheduler';
 
 import { ElementModel, ElementIri, LinkTypeIri, LinkTypeModel } from '../data/model';
+import type { DataProvider } from '../data/provider';
 import { generate128BitID } from '../data/utils';
 
 import { CanvasApi, useCanvas } from '../diagram/canvasApi';
@@ -303,6 +304,8 @@ interface ConnectionCount {
 interface ObjectsData {
     readonly chunk: LinkDataChunk;
     readonly elements: ReadonlyArray<ElementOnDiagram>;
+    readonly moreAvailable?: boolean;
+    readonly loadingMore?: boolean;
 }
 
 interface LinkDataChunk {
@@ -322,8 +325,17 @@ interface ElementOnDiagram {
     readonly presentOnDiagram: boolean;
 }
 
+interface LoadedObjectsPage {
+    readonly elements: ReadonlyArray<ElementOnDiagram>;
+    readonly moreAvailable: boolean;
+}
+
 const CLASS_NAME = 'reactodia-connections-menu';
 const LINK_COUNT_PER_PAGE = 100;
+/**
+ * Distance in pixels from the bottom of the list to start loading the next page.
+ */
+const LOAD_MORE_SCROLL_THRESHOLD = 100;
 
 class ConnectionsMenuInner extends React.Component<ConnectionsMenuInnerProps, MenuState> {
     private readonly ALL_RELATED_ELEMENTS_LINK: LinkTypeModel;
@@ -333,6 +345,10 @@ class ConnectionsMenuInner extends React.Component<ConnectionsMenuInnerProps, Me
 
     private readonly delayedUpdateAll = new Debouncer();
     private suggestionCancellation = new AbortController();
+    /**
+     * Data providers which were detected to ignore lookup `offset`.
+     */
+    private readonly providersWithoutOffset = new WeakSet<DataProvider>();
 
     private linksScrolledListRef = React.createRef<HTMLUListElement>();
     private linksScrollPosition: number | undefined;
@@ -489,52 +505,143 @@ class ConnectionsMenuInner extends React.Component<ConnectionsMenuInnerProps, Me
     }
 
     private async loadObjects(chunk: LinkDataChunk) {
-        const {targetIris, workspace: {model, triggerWorkspaceEvent}} = this.props;
-        const {linkType, direction, pageCount} = chunk;
+        const {workspace: {triggerWorkspaceEvent}} = this.props;
 
         this.setState({
             loadingState: 'loading',
             objects: {chunk, elements: []},
         });
 
-        const loadedElements = new Map<ElementIri, ElementModel>();
+        let page: LoadedObjectsPage;
         try {
-            await Promise.all(targetIris.map(iri =>
-                model.dataProvider.lookup({
-                    refElementId: iri,
-                    refElementLinkId: linkType.id === this.ALL_RELATED_ELEMENTS_LINK.id
-                        ? undefined : linkType.id,
-                    linkDirection: direction,
-                    limit: pageCount * LINK_COUNT_PER_PAGE,
-                }).then(linkedElements => {
-                    for (const {element} of linkedElements) {
-                        loadedElements.set(element.id, element);
-                    }
-                })
-            ));
+            page = await this.loadObjectsPage(chunk, 0, LINK_COUNT_PER_PAGE);
         } catch (err) {
             console.error(err);
             this.setState({loadingState: 'error'});
             return;
         }
 
+        this.setState({
+            loadingState: 'completed',
+            objects: {
+                chunk: {...chunk, pageCount: 1},
+                elements: page.elements,
+                moreAvailable: page.moreAvailable,
+            },
+        }, () => {
+            triggerWorkspaceEvent(WorkspaceEventKey.connectionsLoadElements);
+        });
+    }
+
+    private onLoadMoreObjects = async () => {
+        const {workspace: {triggerWorkspaceEvent}} = this.props;
+        const {objects} = this.state;
+        if (!(objects && objects.moreAvailable && !objects.loadingMore)) {
+            return;
+        }
+        const {chunk} = objects;
+        const loaded = new Set<ElementIri>();
+        for (const element of objects.elements) {
+            loaded.add(element.model.id);
+        }
+
+        this.setState({objects: {...objects, loadingMore: true}});
+
+        let page: LoadedObjectsPage;
+        try {
+            page = await this.loadNextObjectsPage(chunk, loaded);
+        } catch (err) {
+            console.error(err);
+            this.setState(state => state.objects?.chunk.chunkId === chunk.chunkId
+                ? {objects: {...state.objects, loadingMore: false, moreAvailable: false}}
+                : null
+            );
+            return;
+        }
+
+        this.setState(state => {
+            if (state.objects?.chunk.chunkId !== chunk.chunkId) {
+                return null;
+            }
+            const existing = new Set<ElementIri>();
+            for (const element of state.objects.elements) {
+                existing.add(element.model.id);
+            }
+            const addedElements = page.elements.filter(element => !existing.has(element.model.id));
+            return {
+                objects: {
+                    chunk: {...chunk, pageCount: chunk.pageCount + 1},
+                    elements: [...state.objects.elements, ...addedElements],
+                    // Stop paging if the data provider returns the same elements again
+                    moreAvailable: page.moreAvailable && addedElements.length > 0,
+                    loadingMore: false,
+                },
+            };
+        }, () => {
+            triggerWorkspaceEvent(WorkspaceEventKey.connectionsLoadElements);
+        });
+    };
+
+    private async loadNextObjectsPage(
+        chunk: LinkDataChunk,
+        loaded: ReadonlySet<ElementIri>
+    ): Promise<LoadedObjectsPage> {
+        const {workspace: {model: {dataProvider}}} = this.props;
+        const loadedCount = chunk.pageCount * LINK_COUNT_PER_PAGE;
+        if (!this.providersWithoutOffset.has(dataProvider)) {
+            const page = await this.loadObjectsPage(chunk, loadedCount, LINK_COUNT_PER_PAGE);
+            if (!(
+                page.elements.length > 0 &&
+                page.elements.every(element => loaded.has(element.model.id))
+            )) {
+                return page;
+            }
+            // Data provider ignores lookup offset and returns the first page again
+            this.providersWithoutOffset.add(dataProvider);
+        }
+        // Fallback to request all loaded elements again with a larger limit
+        return this.loadObjectsPage(chunk, 0, loadedCount + LINK_COUNT_PER_PAGE);
+    }
+
+    private async loadObjectsPage(
+        chunk: LinkDataChunk,
+        offset: number,
+        limit: number
+    ): Promise<LoadedObjectsPage> {
+        const {targetIris, workspace: {model}} = this.props;
+        const {linkType, direction} = chunk;
+
+        const loadedElements = new Map<ElementIri, ElementModel>();
+        let moreAvailable = false;
+        await Promise.all(targetIris.map(iri =>
+            model.dataProvider.lookup({
+                refElementId: iri,
+                refElementLinkId: linkType.id === this.ALL_RELATED_ELEMENTS_LINK.id
+                    ? undefined : linkType.id,
+                linkDirection: direction,
+                offset,
+                limit,
+            }).then(linkedElements => {
+                for (const {element} of linkedElements) {
+                    loadedElements.set(element.id, element);
+                }
+                if (linkedElements.length >= limit) {
+                    moreAvailable = true;
+                }
+            })
+        ));
+
         const displayedEntities = new Set<ElementIri>();
         for (const element of model.elements) {
             if (element instanceof EntityElement) {
                 displayedEntities.add(element.iri);
             }
         }
-        const elements = Array.from(loadedElements.values(), element => ({
+        const elements = Array.from(loadedElements.values(), (element): ElementOnDiagram => ({
             model: element,
             presentOnDiagram: displayedEntities.has(element.id),
         }));
-
-        this.setState({
-            loadingState: 'completed',
-            objects: {chunk, elements},
-        }, () => {
-            triggerWorkspaceEvent(WorkspaceEventKey.connectionsLoadElements);
-        });
+        return {elements, moreAvailable};
     }
 
     private async loadSuggestions(filterKey: string) {
@@ -659,6 +766,7 @@ class ConnectionsMenuInner extends React.Component<ConnectionsMenuInnerProps, Me
                     model={model}
                     filterKey={objectSearch.value}
                     loading={loadingState === 'loading'}
+                    onLoadMore={this.onLoadMoreObjects}
                     onPressAddSelected={this.onAddSelectedElements}
                 />
             );
@@ -1088,6 +1196,7 @@ interface ObjectsPanelProps {
     loading?: boolean;
     model: DiagramModel;
     filterKey?: string;
+    onLoadMore: () => void;
     onPressAddSelected: (
         selectedObjects: ElementOnDiagram[],
         mode: ObjectPlacingMode
@@ -1159,6 +1268,18 @@ class ObjectsPanel extends React.Component<ObjectsPanelProps, ObjectsPanelState>
         return result;
     }
 
+    private onListScroll = (e: React.UIEvent<HTMLElement>) => {
+        const {data, onLoadMore} = this.props;
+        const {scrollTop, scrollHeight, clientHeight} = e.currentTarget;
+        if (
+            data.moreAvailable &&
+            !data.loadingMore &&
+            scrollHeight - (scrollTop + clientHeight) <= LOAD_MORE_SCROLL_THRESHOLD
+        ) {
+            onLoadMore();
+        }
+    };
+
     private updateSelection = (newSelection: ReadonlySet<ElementIri>) => {
         this.setState({selection: newSelection});
     };
@@ -1170,7 +1291,7 @@ class ObjectsPanel extends React.Component<ObjectsPanelProps, ObjectsPanelState>
         let extraCountInfo: JSX.Element | null = null;
         if (chunk.expectedCount !== 'some') {
             const wrongNodes =
-                Math.min(LINK_COUNT_PER_PAGE, chunk.expectedCount) - elements.length;
+                Math.min(chunk.pageCount * LINK_COUNT_PER_PAGE, chunk.expectedCount) - elements.length;
             const wrongNodesString = Math.abs(wrongNodes) > LINK_COUNT_PER_PAGE ?
                 `${LINK_COUNT_PER_PAGE}+` : Math.abs(wrongNodes).toString();
             extraCountInfo = (
@@ -1224,14 +1345,20 @@ class ObjectsPanel extends React.Component<ObjectsPanelProps, ObjectsPanelState>
             ) : objects.length === 0 ? (
                 <div className={`${CLASS_NAME}__objects-no-results`}>No results</div>
             ) : (
-                <div className={`${CLASS_NAME}__objects-list`}>
+                <div className={`${CLASS_NAME}__objects-list`}
+                    onScroll={this.onListScroll}>
                     <SearchResults
                         items={this.getItems(objects)}
                         selection={this.state.selection}
                         onSelectionChanged={this.updateSelection}
                         highlightText={filterKey}
                     />
-                    {data.chunk.expectedCount !== 'some' && data.chunk.expectedCount > LINK_COUNT_PER_PAGE ? (
+                    {data.loadingMore ? (
+                        <div className={`${CLASS_NAME}__objects-loading-more`}>
+                            <LoadingSpinner />
+                        </div>
+                    ) : null}
+                    {data.moreAvailable && !data.loadingMore ? (
                         onMoveToFilter ? (
                             <div className={`${CLASS_NAME}__move-to-filter`}
                                 onClick={() => onMoveToFilter(data.chunk)}>
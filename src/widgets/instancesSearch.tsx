@@ -6,7 +6,9 @@ import { useObservedProperty } from '../coreUtils/hooks';
 import { Debouncer } from '../coreUtils/scheduler';
 
 import { ElementModel, ElementIri, ElementTypeIri, LinkTypeIri } from '../data/model';
-import { DataProviderLookupParams, DataProviderLookupItem } from '../data/provider';
+import {
+    DataProvider, DataProviderLookupParams, DataProviderLookupItem, DataProviderLookupSort,
+} from '../data/provider';
 
 import type { CanvasApi } from '../diagram/canvasApi';
 import { placeElementsAroundTarget } from '../diagram/commands';
@@ -123,6 +125,12 @@ export interface SearchCriteria {
      * Only when {@link refElementLink} is set.
      */
     readonly linkDirection?: 'in' | 'out';
+    /**
+     * Sort order for the search results.
+     *
+     * @see {@link DataProviderLookupParams.sortBy}
+     */
+    readonly sortBy?: DataProviderLookupSort;
 }
 
 /**
@@ -181,6 +189,10 @@ interface State {
 const CLASS_NAME = 'reactodia-instances-search';
 
 const ITEMS_PER_PAGE = 100;
+/**
+ * Distance in pixels from the bottom of the results to start loading the next page.
+ */
+const LOAD_MORE_SCROLL_THRESHOLD = 100;
 
 class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, State> {
     private readonly listener = new EventObserver();
@@ -190,6 +202,10 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
 
     private requestCancellation = new AbortController();
     private currentRequest: DataProviderLookupParams | undefined;
+    /**
+     * Data providers which were detected to ignore lookup `offset`.
+     */
+    private readonly providersWithoutOffset = new WeakSet<DataProvider>();
 
     constructor(props: InstancesSearchInnerProps) {
         super(props);
@@ -326,12 +342,15 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
                         }}
                     />
                 )}
+                {this.renderSortBy()}
             </div>
             <ProgressBar state={progressState}
                 title='Querying for elements'
             />
             {/* specify resultId as key to reset scroll position when loaded new search results */}
-            <div className={`${CLASS_NAME}__rest reactodia-scrollable`} key={this.state.resultId}>
+            <div className={`${CLASS_NAME}__rest reactodia-scrollable`}
+                key={this.state.resultId}
+                onScroll={this.onResultsScroll}>
                 <SearchResults
                     items={resultItems}
                     highlightText={this.state.criteria.text}
@@ -378,6 +397,17 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
         </div>;
     }
 
+    private onResultsScroll = (e: React.UIEvent<HTMLElement>) => {
+        const {scrollTop, scrollHeight, clientHeight} = e.currentTarget;
+        if (
+            this.state.moreItemsAvailable &&
+            !this.state.querying &&
+            scrollHeight - (scrollTop + clientHeight) <= LOAD_MORE_SCROLL_THRESHOLD
+        ) {
+            this.queryItems(true);
+        }
+    };
+
     private onSelectionChanged = (newSelection: ReadonlySet<ElementIri>) => {
         this.setState({selection: newSelection});
     };
@@ -440,6 +470,30 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
         return <div className={`${CLASS_NAME}__criterions`}>{criterions}</div>;
     }
 
+    private renderSortBy() {
+        const {criteria} = this.state;
+        return (
+            <div className={`${CLASS_NAME}__sort`}>
+                <label htmlFor='reactodia-instances-search-sort'>Sort by</label>
+                <select id='reactodia-instances-search-sort'
+                    className={`${CLASS_NAME}__sort-select`}
+                    value={criteria.sortBy ?? ''}
+                    onChange={e => {
+                        const sortBy = e.currentTarget.value as DataProviderLookupSort | '';
+                        this.setState(
+                            {criteria: {...criteria, sortBy: sortBy === '' ? undefined : sortBy}},
+                            () => this.props.onChangeCriteria?.(this.state.criteria)
+                        );
+                    }}>
+                    <option value=''>Default</option>
+                    <option value='relevance'>Relevance</option>
+                    <option value='label'>Label</option>
+                    <option value='degree'>Number of connections</option>
+                </select>
+            </div>
+        );
+    }
+
     private renderRemoveCriterionButtons(onClick: () => void) {
         return <div className={`${CLASS_NAME}__criterion-remove reactodia-btn-group reactodia-btn-group-xs`}>
             <button type='button' title='Remove criteria'
@@ -477,13 +531,23 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
             if (!this.currentRequest) {
                 throw new Error('Cannot request more items without initial request.');
             }
-            const {limit} = this.currentRequest;
-            request = {
-                ...this.currentRequest,
-                limit: typeof limit === 'number' ? (limit + ITEMS_PER_PAGE) : limit,
-            };
+            const {offset = 0, limit} = this.currentRequest;
+            if (this.providersWithoutOffset.has(model.dataProvider)) {
+                // Fallback to request all loaded items again with a larger limit
+                request = {
+                    ...this.currentRequest,
+                    offset: 0,
+                    limit: typeof limit === 'number'
+                        ? ((this.state.items?.length ?? 0) + ITEMS_PER_PAGE) : limit,
+                };
+            } else {
+                request = {
+                    ...this.currentRequest,
+                    offset: offset + (typeof limit === 'number' ? limit : ITEMS_PER_PAGE),
+                };
+            }
         } else {
-            request = createRequest(this.state.criteria);
+            request = {...createRequest(this.state.criteria), offset: 0};
         }
 
         if (!(request.text || request.elementTypeId || request.refElementId || request.refElementLinkId)) {
@@ -508,9 +572,16 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
             moreItemsAvailable: false,
         });
 
-        model.dataProvider.lookup(request).then(elements => {
+        const {dataProvider} = model;
+        dataProvider.lookup(request).then(elements => {
             if (signal.aborted) { return; }
-            this.processFilterData(elements);
+            if (loadMoreItems && request.offset && this.isSameAsLoadedItems(elements)) {
+                // Data provider ignores lookup offset and returns the first page again
+                this.providersWithoutOffset.add(dataProvider);
+                this.queryItems(true);
+                return;
+            }
+            this.processFilterData(elements, loadMoreItems);
             triggerWorkspaceEvent(WorkspaceEventKey.searchQueryItem);
         }).catch(error => {
             if (signal.aborted) { return; }
@@ -519,11 +590,18 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
         });
     }
 
-    private processFilterData(elements: readonly DataProviderLookupItem[]) {
-        const requestedAdditionalItems =
-            typeof this.currentRequest!.limit === 'number' &&
-            this.currentRequest!.limit > ITEMS_PER_PAGE;
+    private isSameAsLoadedItems(elements: readonly DataProviderLookupItem[]): boolean {
+        const loadedIris = new Set<ElementIri>();
+        for (const item of this.state.items ?? []) {
+            loadedIris.add(item.id);
+        }
+        return elements.length > 0 && elements.every(({element}) => loadedIris.has(element.id));
+    }
 
+    private processFilterData(
+        elements: readonly DataProviderLookupItem[],
+        requestedAdditionalItems: boolean
+    ) {
         const existingIris = new Set<ElementIri>();
 
         if (requestedAdditionalItems) {
@@ -533,14 +611,18 @@ class InstancesSearchInner extends React.Component<InstancesSearchInnerProps, St
         }
 
         const items = requestedAdditionalItems ? [...this.state.items!] : [];
+        let addedCount = 0;
         for (const {element} of elements) {
             if (existingIris.has(element.id)) { continue; }
             items.push(element);
+            addedCount++;
         }
 
         const moreItemsAvailable =
             typeof this.currentRequest!.limit === 'number' &&
-            elements.length >= this.currentRequest!.limit;
+            elements.length >= this.currentRequest!.limit &&
+            // Stop paging if the data provider returns the same items again
+            (!requestedAdditionalItems || addedCount > 0);
 
         if (requestedAdditionalItems) {
             this.setState({querying: false, items, error: undefined, moreItemsAvailable});
@@ -625,13 +707,14 @@ function findEntityData(graph: DataGraphStructure, iri: ElementIri): ElementMode
 }
 
 export function createRequest(criteria: SearchCriteria): DataProviderLookupParams {
-    const {text, elementType, refElement, refElementLink, linkDirection} = criteria;
+    const {text, elementType, refElement, refElementLink, linkDirection, sortBy} = criteria;
     return {
         text,
         elementTypeId: elementType,
         refElementId: refElement,
         refElementLinkId: refElementLink,
         linkDirection,
+        sortBy,
         limit: ITEMS_PER_PAGE,
     };
 }
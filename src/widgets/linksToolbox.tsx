@@ -1,11 +1,16 @@
 import * as React from 'react';
 import classnames from 'classnames';
 
+import { mapAbortedToNull } from '../coreUtils/async';
+import { multimapAdd } from '../coreUtils/collections';
 import { EventObserver, EventTrigger } from '../coreUtils/events';
 import { useObservedProperty } from '../coreUtils/hooks';
 import { Debouncer } from '../coreUtils/scheduler';
 
-import type { ElementIri, ElementModel, LinkTypeIri } from '../data/model';
+import type {
+    ElementIri, ElementModel, LinkTypeGraph, LinkTypeIri, LinkTypeModel,
+} from '../data/model';
+import type { DataProvider } from '../data/provider';
 import { changeLinkTypeVisibility } from '../diagram/commands';
 import { Element, LinkTypeVisibility } from '../diagram/elements';
 import type { DiagramModel } from '../diagram/model';
@@ -57,6 +62,17 @@ export interface LinkTypesToolboxProps {
      * @default 1
      */
     minSearchTermLength?: number;
+    /**
+     * Whether to display link types as a tree based on the "subtype of" relations
+     * from {@link DataProvider.knownLinkTypes}, which allows to toggle visibility
+     * for a whole sub-hierarchy of link types at once.
+     *
+     * Enabling the hierarchy requires to request all known link types
+     * from the data provider, which could be expensive for large datasets.
+     *
+     * @default false
+     */
+    showHierarchy?: boolean;
     /**
      * Event bus to send commands to {@link InstancesSearch} component.
      */
@@ -67,6 +83,9 @@ export interface LinkTypesToolboxProps {
  * Component to display incoming and outgoing link types from selected elements,
  * toggle their visibility and initiate the lookup for connected entities.
  *
+ * Link types are grouped under their base types if the data provider
+ * returns link type hierarchy (e.g. from `rdfs:subPropertyOf`).
+ *
  * @category Components
  */
 export function LinkTypesToolbox(props: LinkTypesToolboxProps) {
@@ -100,6 +119,7 @@ export function LinkTypesToolbox(props: LinkTypesToolboxProps) {
 
 const CLASS_NAME = 'reactodia-links-toolbox';
 const DEFAULT_TRACK_SELECTED = true;
+const DEFAULT_SHOW_HIERARCHY = false;
 
 interface LinkTypesToolboxInnerProps extends LinkTypesToolboxProps {
     isControlled: boolean;
@@ -111,6 +131,7 @@ interface LinkTypesToolboxInnerProps extends LinkTypesToolboxProps {
 
 interface State {
     readonly filteredLinks: FilteredLinkTypes;
+    readonly fetchedGraph?: FetchedLinkTypeGraph;
 }
 
 interface FilteredLinkTypes {
@@ -119,6 +140,8 @@ interface FilteredLinkTypes {
     readonly selection: ReadonlyArray<ElementModel>;
     readonly selectionLinks: ReadonlySet<LinkTypeIri>;
     readonly links: ReadonlyArray<LabelledLinkType>;
+    readonly connectedTree: ReadonlyArray<LinkTypeTreeNode>;
+    readonly otherTree: ReadonlyArray<LinkTypeTreeNode>;
 }
 
 interface LabelledLinkType {
@@ -127,6 +150,23 @@ interface LabelledLinkType {
     readonly label: string;
 }
 
+interface FetchedLinkTypeGraph {
+    readonly dataProvider: DataProvider;
+    readonly linkTypes: ReadonlyMap<LinkTypeIri, LinkTypeModel>;
+    readonly baseTypes: ReadonlyMap<LinkTypeIri, ReadonlySet<LinkTypeIri>>;
+}
+
+interface LinkTypeTreeNode {
+    readonly iri: LinkTypeIri;
+    readonly label: string;
+    /**
+     * Link type with links on the diagram or `undefined` if
+     * the node only groups its derived link types.
+     */
+    readonly link: LabelledLinkType | undefined;
+    readonly derived: ReadonlyArray<LinkTypeTreeNode>;
+}
+
 class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps, State> {
     private readonly listener = new EventObserver();
     private readonly selectionListener = new EventObserver();
@@ -136,6 +176,8 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
     private readonly debounceSelection = new Debouncer(50 /* ms */);
     private readonly delayedUpdateAll = new Debouncer();
 
+    private loadGraphOperation = new AbortController();
+
     constructor(props: LinkTypesToolboxInnerProps) {
         super(props);
         this.state = {
@@ -145,18 +187,22 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
                 selection: [],
                 selectionLinks: new Set(),
                 links: [],
+                connectedTree: [],
+                otherTree: [],
             },
         };
     }
 
     componentDidMount() {
         const {workspace: {model}} = this.props;
+        this.listener.listen(model.events, 'loadingStart', () => this.fetchLinkTypeGraph());
         this.listener.listen(model.events, 'loadingSuccess', this.updateOnCurrentSelection);
         this.listener.listen(model.events, 'changeLanguage', this.updateOnCurrentSelection);
 
         this.subscribeToSelectionChanges();
         this.listenSearch();
         this.updateOnCurrentSelection();
+        this.fetchLinkTypeGraph();
     }
 
     componentDidUpdate(
@@ -172,6 +218,10 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
         if (searchStore.events !== prevProps.searchStore.events) {
             this.listenSearch();
         }
+
+        if (this.props.showHierarchy !== prevProps.showHierarchy) {
+            this.fetchLinkTypeGraph();
+        }
         
         if (this.state.filteredLinks !== prevState.filteredLinks) {
             this.subscribeOnFilteredLinksEvents();
@@ -196,6 +246,49 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
         this.linkListener.stopListening();
         this.debounceSelection.dispose();
         this.delayedUpdateAll.dispose();
+        this.loadGraphOperation.abort();
+    }
+
+    private async fetchLinkTypeGraph(): Promise<void> {
+        const {showHierarchy = DEFAULT_SHOW_HIERARCHY, workspace: {model}} = this.props;
+        const {fetchedGraph} = this.state;
+        const {dataProvider} = model;
+
+        if (!showHierarchy) {
+            this.loadGraphOperation.abort();
+            if (fetchedGraph) {
+                this.setState((state, props) => applyFilter(
+                    {...state, fetchedGraph: undefined}, props.searchStore.value, props
+                ));
+            }
+            return;
+        } else if (fetchedGraph && fetchedGraph.dataProvider === dataProvider) {
+            return;
+        }
+
+        const cancellation = new AbortController();
+        this.loadGraphOperation.abort();
+        this.loadGraphOperation = cancellation;
+
+        let linkTypeGraph: LinkTypeGraph | null = null;
+        try {
+            linkTypeGraph = await mapAbortedToNull(
+                dataProvider.knownLinkTypes({signal: cancellation.signal}),
+                cancellation.signal
+            );
+        } catch (error) {
+            console.error(error);
+            return;
+        }
+
+        if (linkTypeGraph === null) {
+            return;
+        }
+
+        const nextGraph = indexLinkTypeGraph(dataProvider, linkTypeGraph);
+        this.setState((state, props) => applyFilter(
+            {...state, fetchedGraph: nextGraph}, props.searchStore.value, props
+        ));
     }
 
     subscribeToSelectionChanges() {
@@ -223,6 +316,9 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
             linkTypeIris.add(linkType.iri);
             this.linkListener.listen(linkType.type.events, 'changeData', this.onLinkChanged);
         }
+        for (const node of iterateTree([...filteredLinks.connectedTree, ...filteredLinks.otherTree])) {
+            linkTypeIris.add(node.iri);
+        }
 
         this.linkListener.listen(model.events, 'changeLinkVisibility', e => {
             if (linkTypeIris.has(e.source)) {
@@ -241,13 +337,7 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
             workspace: {model},
         } = this.props;
         const {filteredLinks} = this.state;
-
-        const connectedLinks = filteredLinks.links.filter(link =>
-            filteredLinks.selectionLinks.has(link.iri)
-        );
-        const otherLinks = filteredLinks.links.filter(link =>
-            !filteredLinks.selectionLinks.has(link.iri)
-        );
+        const {connectedTree, otherTree} = filteredLinks;
 
         return (
             <div
@@ -267,7 +357,9 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
                     )}
                     <div className={`${CLASS_NAME}__switch-all`}>
                         <VisibilityControl
-                            onSetVisibility={mode => changeLinkTypeState(model, mode, filteredLinks.links)}
+                            onSetVisibility={mode => changeLinkTypeState(
+                                model, mode, filteredLinks.links.map(link => link.iri)
+                            )}
                             disabled={filteredLinks.links.length === 0}
                         />
                         <span>&nbsp;Switch all</span>
@@ -275,7 +367,7 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
                 </div>
                 <div className={`${CLASS_NAME}__rest`}>
                     <div className='reactodia-scrollable'>
-                        {connectedLinks.length > 0 ? (
+                        {connectedTree.length > 0 ? (
                             <>
                                 <div role='heading'
                                     className={`${CLASS_NAME}__links-heading`}>
@@ -284,16 +376,16 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
                                         ? <InlineEntity target={filteredLinks.selection[0]} />
                                         : 'selected entities'}
                                 </div>
-                                {this.renderLinks(connectedLinks)}
+                                {this.renderLinks(connectedTree)}
                             </>
                         ) : null}
-                        {connectedLinks.length > 0 && otherLinks.length > 0 ? (
+                        {connectedTree.length > 0 && otherTree.length > 0 ? (
                             <div role='heading'
                                 className={`${CLASS_NAME}__links-heading`}>
                                 <b>Other links</b>
                             </div>
                         ) : null}
-                        {this.renderLinks(otherLinks)}
+                        {this.renderLinks(otherTree)}
                         {filteredLinks.links.length === 0 ? (
                             <NoSearchResults className={`${CLASS_NAME}__no-results`}
                                 hasQuery={filteredLinks.term.length > 0}
@@ -310,19 +402,17 @@ class LinkTypesToolboxInner extends React.Component<LinkTypesToolboxInnerProps,
         );
     }
 
-    private renderLinks(links: ReadonlyArray<LabelledLinkType>) {
+    private renderLinks(nodes: ReadonlyArray<LinkTypeTreeNode>) {
         const {instancesSearchCommands, workspace: {model}} = this.props;
         const {filteredLinks} = this.state;
         return (
             <ul className={`${CLASS_NAME}__links`}>
-                {links.map(link => (
-                    <LinkInToolBox key={link.iri}
+                {nodes.map(node => (
+                    <LinkInToolBox key={node.iri}
                         model={model}
-                        link={link}
-                        onAddToFilter={
-                            instancesSearchCommands && filteredLinks.selectionLinks.has(link.iri)
-                                ? this.onAddToFilter : undefined
-                        }
+                        node={node}
+                        filterableLinks={filteredLinks.selectionLinks}
+                        onAddToFilter={instancesSearchCommands ? this.onAddToFilter : undefined}
                         filterKey={filteredLinks.term}  
                     />
                 ))}
@@ -387,38 +477,187 @@ function applyFilter(state: State, term: string, props: LinkTypesToolboxInnerPro
         selection: Array.from(entities.values()),
         selectionLinks,
         links: allLinkTypes,
+        connectedTree: buildLinkTypeTree(
+            allLinkTypes.filter(link => selectionLinks.has(link.iri)),
+            state.fetchedGraph,
+            props
+        ),
+        otherTree: buildLinkTypeTree(
+            allLinkTypes.filter(link => !selectionLinks.has(link.iri)),
+            state.fetchedGraph,
+            props
+        ),
     };
     return {...state, filteredLinks};
 }
 
+function indexLinkTypeGraph(
+    dataProvider: DataProvider,
+    graph: LinkTypeGraph
+): FetchedLinkTypeGraph {
+    const linkTypes = new Map<LinkTypeIri, LinkTypeModel>();
+    for (const linkType of graph.linkTypes) {
+        linkTypes.set(linkType.id, linkType);
+    }
+    const baseTypes = new Map<LinkTypeIri, Set<LinkTypeIri>>();
+    for (const [derived, base] of graph.subtypeOf) {
+        if (derived !== base) {
+            multimapAdd(baseTypes, derived, base);
+        }
+    }
+    return {dataProvider, linkTypes, baseTypes};
+}
+
+function buildLinkTypeTree(
+    links: ReadonlyArray<LabelledLinkType>,
+    fetchedGraph: FetchedLinkTypeGraph | undefined,
+    props: LinkTypesToolboxInnerProps
+): LinkTypeTreeNode[] {
+    const {workspace: {model}} = props;
+    if (!fetchedGraph || fetchedGraph.baseTypes.size === 0) {
+        return links.map((link): LinkTypeTreeNode => ({
+            iri: link.iri,
+            label: link.label,
+            link,
+            derived: [],
+        }));
+    }
+
+    const presentLinks = new Map<LinkTypeIri, LabelledLinkType>();
+    for (const link of links) {
+        presentLinks.set(link.iri, link);
+    }
+
+    // Collect displayed link types together with all their base types
+    const included = new Set<LinkTypeIri>();
+    const queue = links.map(link => link.iri);
+    while (queue.length > 0) {
+        const iri = queue.pop()!;
+        if (!included.has(iri)) {
+            included.add(iri);
+            const bases = fetchedGraph.baseTypes.get(iri);
+            if (bases) {
+                queue.push(...bases);
+            }
+        }
+    }
+
+    const derivedTypes = new Map<LinkTypeIri, Set<LinkTypeIri>>();
+    const roots: LinkTypeIri[] = [];
+    for (const iri of included) {
+        const bases = fetchedGraph.baseTypes.get(iri);
+        if (bases && bases.size > 0) {
+            for (const base of bases) {
+                multimapAdd(derivedTypes, base, iri);
+            }
+        } else {
+            roots.push(iri);
+        }
+    }
+
+    const visited = new Set<LinkTypeIri>();
+    const path = new Set<LinkTypeIri>();
+    const makeNode = (iri: LinkTypeIri): LinkTypeTreeNode => {
+        visited.add(iri);
+        path.add(iri);
+        const derived: LinkTypeTreeNode[] = [];
+        for (const derivedIri of derivedTypes.get(iri) ?? []) {
+            // Break cycles in the hierarchy
+            if (!path.has(derivedIri)) {
+                derived.push(makeNode(derivedIri));
+            }
+        }
+        path.delete(iri);
+        derived.sort(compareByLabel);
+
+        const link = presentLinks.get(iri);
+        const label = link ? link.label : model.locale.formatLabel(
+            model.getLinkType(iri)?.data?.label ?? fetchedGraph.linkTypes.get(iri)?.label,
+            iri
+        );
+        return {iri, label, link, derived};
+    };
+
+    const tree = roots.map(makeNode);
+    // Link types in a cycle without a root become roots themselves
+    for (const iri of included) {
+        if (!visited.has(iri)) {
+            tree.push(makeNode(iri));
+        }
+    }
+    tree.sort(compareByLabel);
+    return tree;
+}
+
+function compareByLabel(a: LinkTypeTreeNode, b: LinkTypeTreeNode): number {
+    return a.label.localeCompare(b.label);
+}
+
+function* iterateTree(nodes: ReadonlyArray<LinkTypeTreeNode>): Iterable<LinkTypeTreeNode> {
+    for (const node of nodes) {
+        yield node;
+        yield* iterateTree(node.derived);
+    }
+}
+
 function LinkInToolBox(props: {
     model: DiagramModel;
-    link: LabelledLinkType;
+    node: LinkTypeTreeNode;
+    filterableLinks: ReadonlySet<LinkTypeIri>;
     onAddToFilter?: (type: LinkTypeIri) => void;
     filterKey?: string;
 }) {
-    const {model, link, filterKey, onAddToFilter} = props;
+    const {model, node, filterableLinks, filterKey, onAddToFilter} = props;
+    const subtree = node.derived.length > 0
+        ? Array.from(iterateTree([node]), item => item.iri)
+        : [node.iri];
     return (
-        <li data-linktypeid={link.iri}
-            className={`${CLASS_NAME}__link-item`}>
+        <li data-linktypeid={node.iri}
+            className={classnames(
+                `${CLASS_NAME}__link-item`,
+                node.link ? undefined : `${CLASS_NAME}__link-item--base`
+            )}>
             <VisibilityControl className={`${CLASS_NAME}__link-buttons`}
-                visibility={model.getLinkVisibility(link.iri)}
-                onSetVisibility={mode => changeLinkTypeState(model, mode, [link])}
+                visibility={getCommonVisibility(model, subtree)}
+                onSetVisibility={mode => changeLinkTypeState(model, mode, subtree)}
             />
-            <WithFetchStatus type='linkType' target={link.iri}>
+            <WithFetchStatus type='linkType' target={node.iri}>
                 <div className={`${CLASS_NAME}__link-title`}>
-                    {highlightSubstring(link.label, filterKey)}
+                    {highlightSubstring(node.label, filterKey)}
                 </div>
             </WithFetchStatus>
-            {onAddToFilter ? (
+            {onAddToFilter && node.link && filterableLinks.has(node.iri) ? (
                 <div className={`${CLASS_NAME}__filter-button`}
-                    onClick={() => onAddToFilter(link.iri)}
+                    onClick={() => onAddToFilter(node.iri)}
                 />
             ) : null}
+            {node.derived.length > 0 ? (
+                <ul className={classnames(`${CLASS_NAME}__links`, `${CLASS_NAME}__links--derived`)}>
+                    {node.derived.map(child => (
+                        <LinkInToolBox {...props} key={child.iri} node={child} />
+                    ))}
+                </ul>
+            ) : null}
         </li>
     );
 }
 
+function getCommonVisibility(
+    model: DiagramModel,
+    linkTypes: ReadonlyArray<LinkTypeIri>
+): LinkTypeVisibility | undefined {
+    let common: LinkTypeVisibility | undefined;
+    for (const linkType of linkTypes) {
+        const visibility = model.getLinkVisibility(linkType);
+        if (common === undefined) {
+            common = visibility;
+        } else if (common !== visibility) {
+            return undefined;
+        }
+    }
+    return common;
+}
+
 function VisibilityControl(props: {
     className?: string;
     visibility?: LinkTypeVisibility | undefined;
@@ -462,11 +701,11 @@ function VisibilityControl(props: {
 function changeLinkTypeState(
     model: DiagramModel,
     state: LinkTypeVisibility,
-    linkTypes: ReadonlyArray<LabelledLinkType>
+    linkTypes: ReadonlyArray<LinkTypeIri>
 ): void {
     const batch = model.history.startBatch('Change link types visibility');
     for (const linkType of linkTypes) {
-        model.history.execute(changeLinkTypeVisibility(model, linkType.iri, state));
+        model.history.execute(changeLinkTypeVisibility(model, linkType, state));
     }
     batch.store();
 }
@@ -132,12 +132,20 @@ export function SearchSectionLinkTypes(props: {
      * @default 1
      */
     minSearchTermLength?: number;
+    /**
+     * Whether to display link types as a tree based on the "subtype of" relations.
+     *
+     * @default false
+     */
+    showHierarchy?: boolean;
     /**
      * Event bus to send commands to {@link InstancesSearch} component.
      */
     instancesSearchCommands?: EventTrigger<InstancesSearchCommands>;
 }) {
-    const {searchTimeout = 200, minSearchTermLength = 1, instancesSearchCommands} = props;
+    const {
+        searchTimeout = 200, minSearchTermLength = 1, showHierarchy, instancesSearchCommands,
+    } = props;
     const {shouldRender, isSectionActive, searchStore} = useUnifiedSearchSection({
         searchTimeout,
         allowSubmit: term => term.length >= minSearchTermLength,
@@ -147,6 +155,7 @@ export function SearchSectionLinkTypes(props: {
         <LinkTypesToolbox className={SECTION_LINK_TYPES_CLASS}
             trackSelected={isSectionActive}
             searchStore={searchStore}
+            showHierarchy={showHierarchy}
             instancesSearchCommands={instancesSearchCommands}
         />
     ) : null;
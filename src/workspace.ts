@@ -30,23 +30,56 @@ export {
     DIAGRAM_CONTEXT_URL_V1, PLACEHOLDER_ELEMENT_TYPE, PLACEHOLDER_LINK_TYPE,
 } from './data/schema';
 export * from './data/composite/composite';
+export * from './data/csv/csvDataProvider';
+export { CsvParseError } from './data/csv/csvParser';
 export {
     DecoratedDataProvider, DecoratedDataProviderOptions, DecoratedMethodName, delayProviderDecorator,
 } from './data/decorated/decoratedDataProvider';
 export { EmptyDataProvider } from './data/decorated/emptyDataProvider';
 export {
-    IndexedDbCachedProvider, IndexedDbCachedProviderOptions,
+    IndexedDbCachedProvider, IndexedDbCachedProviderOptions, IndexedDbCachedProviderEvents,
+    IndexedDbConnectivity, IndexedDbConnectivityEvent, IndexedDbCacheInvalidation,
+    IndexedDbCacheStats, IndexedDbCacheStoreStats, IndexedDbPrefetchResult,
 } from './data/indexedDb/indexedDbCachedProvider';
+export {
+    MemoryCachedProvider, MemoryCachedProviderOptions, MemoryCacheInvalidation,
+} from './data/decorated/memoryCachedProvider';
+export {
+    retryProviderDecorator, RetryProviderDecoratorOptions,
+} from './data/decorated/retryProviderDecorator';
+export * from './data/owl/owlMetadataProvider';
+export {
+    OwlSchema, OwlPropertyAxioms, OwlPropertyKind, OwlRestriction,
+} from './data/owl/owlSchema';
+export * from './data/propertyGraph/propertyGraphDataProvider';
+export {
+    PropertyGraphData, PropertyGraphNode, PropertyGraphEdge, PropertyGraphProperties,
+    PropertyGraphValue, PropertyGraphTypedValue, PropertyGraphFormatError, parsePropertyGraph,
+} from './data/propertyGraph/propertyGraphFormat';
 export { MemoryDataset, IndexQuadBy, indexedDataset } from './data/rdf/memoryDataset';
 export * from './data/rdf/rdfDataProvider';
+export {
+    RdfTextFormat, RdfParseOptions, RdfParseError, parseRdfText,
+} from './data/rdf/rdfParser';
+export {
+    RdfPatch, AuthoringPatchOptions, authoringStateToRdfPatch, serializeRdfPatch,
+    serializeRdfPatchAsTurtle, parseRdfPatch,
+} from './data/rdf/rdfPatch';
 /**
  * Utility namespace to work with [RDF.js model](https://rdf.js.org/data-model-spec/).
  *
  * @category Core
  */
 export * as Rdf from './data/rdf/rdfModel';
+export * from './data/shacl/shaclMetadataProvider';
+export {
+    ShaclShapes, ShaclNodeShape, ShaclPropertyShape, ShaclNodeKind, ShaclSeverity, ShaclPath,
+    formatShaclPath, getShaclPredicatePath,
+} from './data/shacl/shaclShapes';
+export * from './data/shacl/shaclValidationProvider';
 export * from './data/sparql/sparqlDataProvider';
 export * from './data/sparql/sparqlDataProviderSettings';
+export * from './data/tpf/tpfDataProvider';
 
 export * from './diagram/canvasApi';
 export { defineCanvasWidget } from './diagram/canvasWidget';
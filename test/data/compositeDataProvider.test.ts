@@ -0,0 +1,279 @@
+import { expect, describe, it, vi } from 'vitest';
+
+import { delay } from '../../src/coreUtils/async';
+import {
+    CompositeDataProvider, CompositeRequestError, DataProviderDefinition, getCompositePartialFailure,
+} from '../../src/data/composite/composite';
+import { DecoratedDataProvider } from '../../src/data/decorated/decoratedDataProvider';
+import { MemoryCachedProvider } from '../../src/data/decorated/memoryCachedProvider';
+import {
+    ElementIri, ElementModel, ElementTypeIri, LinkTypeIri, getValueSources,
+} from '../../src/data/model';
+import type { DataProviderLookupItem } from '../../src/data/provider';
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { MockDataProvider, element } from '../mock/mockDataProvider';
+
+function failingProvider(name: string): DataProviderDefinition {
+    return {
+        name,
+        provider: new DecoratedDataProvider({
+            baseProvider: new MockDataProvider(),
+            decorator: () => Promise.reject(new Error(`${name} failed`)),
+        }),
+    };
+}
+
+function slowProvider(name: string, timeout: number): DataProviderDefinition {
+    return {
+        name,
+        timeout,
+        provider: new DecoratedDataProvider({
+            baseProvider: new MockDataProvider(),
+            decorator: (method, params, body) => delay(1000, {signal: params.signal})
+                .then(() => body(params)),
+        }),
+    };
+}
+
+function providerWithElement(name: string, element: ElementModel): DataProviderDefinition {
+    class Provider extends MockDataProvider {
+        override elements(): Promise<Map<ElementIri, ElementModel>> {
+            return Promise.resolve(new Map([[element.id, element]]));
+        }
+    }
+    return {name, provider: new Provider()};
+}
+
+function providerWithLookup(name: string, items: DataProviderLookupItem[]): DataProviderDefinition {
+    class Provider extends MockDataProvider {
+        override lookup(): Promise<DataProviderLookupItem[]> {
+            return Promise.resolve(items);
+        }
+    }
+    return {name, provider: new Provider()};
+}
+
+function scoredItem(id: string, score: number): DataProviderLookupItem {
+    return {
+        element: {id: element(id), types: [], label: [], properties: {}},
+        inLinks: new Set(),
+        outLinks: new Set(),
+        score,
+    };
+}
+
+describe('CompositeDataProvider', () => {
+    it('fails the request with a report of failed providers', async () => {
+        const provider = new CompositeDataProvider({
+            providers: [
+                {name: 'ok', provider: new MockDataProvider()},
+                failingProvider('failing'),
+            ],
+        });
+        const error = await provider.elements({elementIds: [element('a')]}).then(
+            () => undefined,
+            (err: unknown) => err
+        );
+        expect(error).toBeInstanceOf(CompositeRequestError);
+        const {method, failures} = error as CompositeRequestError;
+        expect(method).toEqual('elements');
+        expect(failures.map(failure => [failure.provider.name, failure.timeout])).toEqual([
+            ['failing', false],
+        ]);
+    });
+
+    it('exposes HTTP response from a failed provider', async () => {
+        const response = new Response(null, {status: 503});
+        const provider = new CompositeDataProvider({
+            providers: [{
+                name: 'unavailable',
+                provider: new DecoratedDataProvider({
+                    baseProvider: new MockDataProvider(),
+                    decorator: () => Promise.reject(Object.assign(new Error('Unavailable'), {response})),
+                }),
+            }],
+        });
+        const error = await provider.elements({elementIds: [element('a')]}).then(
+            () => undefined,
+            (err: unknown) => err
+        );
+        expect((error as CompositeRequestError).response).toBe(response);
+    });
+
+    it('merges partial results in best effort mode', async () => {
+        const partialFailures: CompositeRequestError[] = [];
+        const provider = new CompositeDataProvider({
+            providers: [
+                {name: 'ok', provider: new MockDataProvider()},
+                failingProvider('failing'),
+                slowProvider('slow', 10),
+            ],
+            bestEffort: true,
+            onPartialFailure: error => partialFailures.push(error),
+        });
+        const result = await provider.elements({elementIds: [element('a')]});
+        expect(Array.from(result.keys())).toEqual([element('a')] satisfies ElementIri[]);
+        expect(partialFailures.flatMap(error => error.failures).map(
+            failure => [failure.provider.name, failure.timeout]
+        )).toEqual([
+            ['failing', false],
+            ['slow', true],
+        ]);
+        expect(getCompositePartialFailure(result)).toBe(partialFailures[0]);
+
+        const allFailing = new CompositeDataProvider({
+            providers: [failingProvider('first'), failingProvider('second')],
+            bestEffort: true,
+        });
+        await expect(allFailing.elements({elementIds: [element('a')]}))
+            .rejects.toBeInstanceOf(CompositeRequestError);
+    });
+
+    it('does not cache partial results in best effort mode', async () => {
+        let failing = true;
+        const second = new MockDataProvider();
+        const secondSpy = vi.spyOn(second, 'knownElementTypes');
+        const provider = new MemoryCachedProvider({
+            baseProvider: new CompositeDataProvider({
+                providers: [
+                    {name: 'first', provider: new MockDataProvider()},
+                    {
+                        name: 'second',
+                        provider: new DecoratedDataProvider({
+                            baseProvider: second,
+                            decorator: (method, params, body) => failing
+                                ? Promise.reject(new Error('second failed'))
+                                : body(params),
+                        }),
+                    },
+                ],
+                bestEffort: true,
+            }),
+        });
+
+        const partial = await provider.knownElementTypes({});
+        expect(getCompositePartialFailure(partial)).toBeInstanceOf(CompositeRequestError);
+
+        const partialElements = await provider.elements({elementIds: [element('a')]});
+        expect(getCompositePartialFailure(partialElements)).toBeInstanceOf(CompositeRequestError);
+
+        failing = false;
+        const complete = await provider.knownElementTypes({});
+        expect(getCompositePartialFailure(complete)).toBe(undefined);
+        expect(secondSpy.mock.calls.length).toEqual(1);
+
+        const completeElements = await provider.elements({elementIds: [element('a')]});
+        expect(getCompositePartialFailure(completeElements)).toBe(undefined);
+    });
+
+    it('routes element requests by IRI', async () => {
+        const first = new MockDataProvider();
+        const second = new MockDataProvider();
+        const firstSpy = vi.spyOn(first, 'elements');
+        const secondSpy = vi.spyOn(second, 'elements');
+        const firstStatsSpy = vi.spyOn(first, 'connectedLinkStats');
+        const secondStatsSpy = vi.spyOn(second, 'connectedLinkStats');
+        const provider = new CompositeDataProvider({
+            providers: [
+                {name: 'first', provider: first, routing: [element('a'), /^element:b/]},
+                {name: 'second', provider: second, routing: iri => iri.startsWith(element('c'))},
+            ],
+        });
+
+        const result = await provider.elements({
+            elementIds: [element('a1'), element('b1'), element('d1')],
+        });
+        expect(Array.from(result.keys()).sort()).toEqual(
+            [element('a1'), element('b1')] satisfies ElementIri[]
+        );
+        expect(firstSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+            [element('a1'), element('b1')],
+        ] satisfies Array<ElementIri[]>);
+        expect(secondSpy.mock.calls.length).toEqual(0);
+
+        await provider.connectedLinkStats({elementId: element('c1')});
+        expect(firstStatsSpy.mock.calls.length).toEqual(0);
+        expect(secondStatsSpy.mock.calls.length).toEqual(1);
+    });
+
+    it('routes lookup by reference element, link type and element type', async () => {
+        const first = new MockDataProvider();
+        const second = new MockDataProvider();
+        const firstSpy = vi.spyOn(first, 'lookup');
+        const secondSpy = vi.spyOn(second, 'lookup');
+        const provider = new CompositeDataProvider({
+            providers: [
+                {name: 'first', provider: first, routing: ['urn:first:']},
+                {name: 'second', provider: second, routing: ['urn:second:']},
+            ],
+        });
+
+        await provider.lookup({elementTypeId: 'urn:first:Type' as ElementTypeIri});
+        await provider.lookup({
+            refElementId: 'urn:second:a' as ElementIri,
+            refElementLinkId: 'urn:second:link' as LinkTypeIri,
+        });
+        await provider.lookup({
+            refElementId: 'urn:second:a' as ElementIri,
+            refElementLinkId: 'urn:first:link' as LinkTypeIri,
+        });
+        await provider.lookup({text: 'any'});
+        expect(firstSpy.mock.calls.map(call => call[0].text ?? call[0].elementTypeId)).toEqual([
+            'urn:first:Type',
+            'any',
+        ]);
+        expect(secondSpy.mock.calls.map(call => call[0].text ?? call[0].refElementLinkId)).toEqual([
+            'urn:second:link',
+            'any',
+        ]);
+    });
+
+    it('records provenance of merged element values', async () => {
+        const factory = Rdf.DefaultDataFactory;
+        const name = 'urn:name';
+        const provider = new CompositeDataProvider({
+            providers: [
+                providerWithElement('local', {
+                    id: element('a'),
+                    types: [],
+                    label: [factory.literal('A')],
+                    properties: {
+                        [name]: [factory.literal('first'), factory.literal('shared')],
+                    },
+                }),
+                providerWithElement('remote', {
+                    id: element('a'),
+                    types: [],
+                    label: [factory.literal('A')],
+                    properties: {
+                        [name]: [factory.literal('shared'), factory.literal('second')],
+                    },
+                }),
+            ],
+        });
+        const result = await provider.elements({elementIds: [element('a')]});
+        const {provenance} = result.get(element('a'))!;
+        expect(provenance?.sources).toEqual(['local', 'remote']);
+        expect(provenance?.label?.map(item => item.sources)).toEqual([['local', 'remote']]);
+        expect(
+            ['first', 'shared', 'second'].map(value =>
+                getValueSources(provenance, name, factory.literal(value))
+            )
+        ).toEqual([['local'], ['local', 'remote'], ['remote']]);
+    });
+
+    it('merges lookup results by normalized relevance score', async () => {
+        const provider = new CompositeDataProvider({
+            providers: [
+                providerWithLookup('first', [scoredItem('a', 10), scoredItem('b', 2)]),
+                providerWithLookup('second', [scoredItem('c', 0.9), scoredItem('b', 0.1)]),
+            ],
+        });
+        const result = await provider.lookup({text: 'query'});
+        expect(result.map(item => [item.element.id, item.score])).toEqual([
+            [element('a'), 1],
+            [element('c'), 1],
+            [element('b'), 0.2],
+        ]);
+    });
+});
@@ -0,0 +1,94 @@
+import { expect, describe, it } from 'vitest';
+
+import { CsvDataProvider } from '../../src/data/csv/csvDataProvider';
+import { CsvParseError, parseCsv } from '../../src/data/csv/csvParser';
+import type { ElementIri } from '../../src/data/model';
+
+describe('parseCsv', () => {
+    it('parses quoted fields with delimiters and line breaks', () => {
+        const table = parseCsv('id,name\r\n1,"Smith, ""John"""\n\n2,"multi\nline"\n');
+        expect(table.columns).toEqual(['id', 'name']);
+        expect(table.rows).toEqual([
+            {line: 2, values: ['1', 'Smith, "John"']},
+            {line: 4, values: ['2', 'multi\nline']},
+        ]);
+        expect(() => parseCsv('id\n"1')).toThrow(CsvParseError);
+    });
+});
+
+describe('CsvDataProvider', () => {
+    it('maps nodes and edges with column mapping', async () => {
+        const provider = new CsvDataProvider({
+            baseIri: 'urn:test:',
+            keepAbsoluteIris: true,
+            nodes: {idColumn: 'id', labelColumn: 'name', typeColumn: 'kind', columnTypes: {code: 'string'}},
+            edges: {sourceColumn: 'from', targetColumn: 'to', typeColumn: 'relation'},
+        });
+        provider.addCsv({
+            nodes: [
+                'id,name,kind,age,active,code',
+                'http://example.com/alice,Alice,Person,42,true,007',
+                'bob,Bob,Person,,false,12',
+            ].join('\n'),
+            edges: [
+                'from,to,relation,weight',
+                'http://example.com/alice,bob,knows,0.5',
+            ].join('\n'),
+        });
+
+        const alice = 'http://example.com/alice' as ElementIri;
+        const bob = 'urn:test:node/bob' as ElementIri;
+        const elements = await provider.elements({elementIds: [alice, bob]});
+        const aliceModel = elements.get(alice)!;
+        expect(aliceModel.label.map(label => label.value)).toEqual(['Alice']);
+        expect(aliceModel.types).toEqual([provider.labelIri('Person')]);
+        expect(aliceModel.properties[provider.propertyIri('age')]).toEqual([
+            provider.factory.literal('42', provider.factory.namedNode('http://www.w3.org/2001/XMLSchema#integer')),
+        ]);
+        expect(aliceModel.properties[provider.propertyIri('code')]).toEqual([
+            provider.factory.literal('007'),
+        ]);
+        expect(elements.get(bob)!.properties[provider.propertyIri('age')]).toBeUndefined();
+
+        const links = await provider.links({primary: [alice], secondary: [bob]});
+        expect(links.map(link => [link.sourceId, link.targetId, link.linkTypeId])).toEqual([
+            [alice, bob, provider.edgeTypeIri('knows')],
+        ]);
+    });
+
+    it('keeps lexical form of numbers with inferred datatype', async () => {
+        const provider = new CsvDataProvider({
+            nodes: {idColumn: 'id', columnTypes: {score: 'number'}},
+        });
+        provider.addCsv({
+            nodes: [
+                'id,price,count,ratio,big,score',
+                'a,1.50,1,1.0e3,12345678901234567890,+.5',
+            ].join('\n'),
+        });
+
+        const xsd = 'http://www.w3.org/2001/XMLSchema#';
+        const id = provider.nodeIri('a');
+        const elements = await provider.elements({elementIds: [id]});
+        const {properties} = elements.get(id)!;
+        expect(
+            ['price', 'count', 'ratio', 'big', 'score'].map(key => {
+                const [value] = properties[provider.propertyIri(key)];
+                return [value.value, value.termType === 'Literal' ? value.datatype.value : undefined];
+            })
+        ).toEqual([
+            ['1.50', `${xsd}decimal`],
+            ['1', `${xsd}integer`],
+            ['1.0e3', `${xsd}double`],
+            ['12345678901234567890', `${xsd}integer`],
+            ['+.5', `${xsd}decimal`],
+        ]);
+
+        expect(() => provider.addCsv({nodes: 'id,score\nb,0x10'})).toThrow(CsvParseError);
+    });
+
+    it('reports missing columns', () => {
+        const provider = new CsvDataProvider({nodes: {idColumn: 'id'}});
+        expect(() => provider.addCsv({nodes: 'name\nAlice'})).toThrow(CsvParseError);
+    });
+});
@@ -1,6 +1,8 @@
 import { expect, describe, it, vi } from 'vitest';
 
+import { delay } from '../../src/coreUtils/async';
 import { IndexedDbCachedProvider } from '../../src/data/indexedDb/indexedDbCachedProvider';
+import { emptyDiagram } from '../../src/editor/serializedDiagram';
 import type {
     ElementIri, ElementTypeIri, LinkModel, LinkTypeIri, PropertyTypeIri,
 } from '../../src/data/model';
@@ -497,6 +499,150 @@ describe('IndexedDbCachedProvider', () => {
             controller.abort();
         }
     });
+
+    it('expires and invalidates cached elements', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+
+        const controller = new AbortController();
+        try {
+            const provider = new IndexedDbCachedProvider({
+                baseProvider,
+                dbName: 'test',
+                timeToLive: {elements: 50},
+                closeSignal: controller.signal,
+            });
+
+            await provider.clearCache();
+
+            await provider.elements({elementIds: [element('a'), element('b')]});
+            await provider.elements({elementIds: [element('a'), element('b')]});
+            await provider.invalidate({elementIds: [element('a')]});
+            await provider.elements({elementIds: [element('a'), element('b')]});
+            await delay(100);
+            await provider.elements({elementIds: [element('a'), element('b')]});
+
+            expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+                [element('a'), element('b')],
+                [element('a')],
+                [element('a'), element('b')],
+            ] satisfies Array<ElementIri[]>);
+
+            const stats = await provider.getCacheStats();
+            expect(stats.methods.elements.entries).toEqual(2);
+            expect(stats.methods.elements.hits).toEqual(3);
+            expect(stats.methods.elements.misses).toEqual(5);
+        } finally {
+            controller.abort();
+        }
+    });
+
+    it('falls back to cached data when offline', async () => {
+        const baseProvider = new MockDataProvider();
+        let online = true;
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        elementsSpy.mockImplementation(function (this: MockDataProvider, params) {
+            return online
+                ? MockDataProvider.prototype.elements.call(this, params)
+                : Promise.reject(new TypeError('Failed to fetch'));
+        });
+
+        const controller = new AbortController();
+        try {
+            const provider = new IndexedDbCachedProvider({
+                baseProvider,
+                dbName: 'test',
+                offlineFallback: true,
+                reconnectInterval: 0,
+                closeSignal: controller.signal,
+            });
+            const connectivity: string[] = [];
+            provider.events.on('changeConnectivity', () => connectivity.push(provider.connectivity));
+            const changes: Array<ReadonlySet<ElementIri> | undefined> = [];
+            provider.subscribeChanges(e => changes.push(e.elementIds));
+
+            await provider.clearCache();
+
+            await provider.elements({elementIds: [element('a')]});
+            online = false;
+            const offline = await provider.elements({elementIds: [element('a'), element('b')]});
+            expect(Array.from(offline.keys())).toEqual([element('a')]);
+            expect(provider.isStale(offline)).toBe(true);
+            expect(provider.connectivity).toEqual('offline');
+
+            online = true;
+            const revalidated = await provider.elements({elementIds: [element('c')]});
+            expect(provider.isStale(revalidated)).toBe(false);
+            await delay(50);
+
+            expect(connectivity).toEqual(['offline', 'online']);
+            expect(changes.map(ids => Array.from(ids ?? []))).toEqual([[element('b')]]);
+        } finally {
+            controller.abort();
+        }
+    });
+
+    it('does not switch to offline mode on errors other than network failures', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        elementsSpy.mockImplementation(() => Promise.reject(new TypeError('Cannot read properties of undefined')));
+
+        const controller = new AbortController();
+        try {
+            const provider = new IndexedDbCachedProvider({
+                baseProvider,
+                dbName: 'test',
+                offlineFallback: true,
+                closeSignal: controller.signal,
+            });
+            await provider.clearCache();
+
+            await expect(provider.elements({elementIds: [element('a')]}))
+                .rejects.toBeInstanceOf(TypeError);
+            expect(provider.connectivity).toEqual('online');
+        } finally {
+            controller.abort();
+        }
+    });
+
+    it('prefetches diagram data and transfers it via export', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+
+        const controller = new AbortController();
+        try {
+            const provider = new IndexedDbCachedProvider({
+                baseProvider,
+                dbName: 'test',
+                closeSignal: controller.signal,
+            });
+            await provider.clearCache();
+
+            const diagram = emptyDiagram();
+            const result = await provider.prefetchDiagram({
+                ...diagram,
+                layoutData: {
+                    ...diagram.layoutData,
+                    elements: [
+                        {'@type': 'Element', '@id': 'e1', iri: element('a'), position: {x: 0, y: 0}},
+                        {'@type': 'Element', '@id': 'e2', iri: element('b'), position: {x: 0, y: 0}},
+                    ],
+                },
+            });
+            expect(result.elements).toEqual(2);
+
+            const file = await provider.exportCache();
+            await provider.clearCache();
+            await provider.importCache(file);
+
+            await provider.elements({elementIds: [element('a'), element('b')]});
+            expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+                [element('a'), element('b')],
+            ] satisfies Array<ElementIri[]>);
+        } finally {
+            controller.abort();
+        }
+    });
 });
 
 function compareLinks(a: LinkModel, b: LinkModel): number {
@@ -0,0 +1,119 @@
+import { expect, describe, it, vi } from 'vitest';
+
+import { MemoryCachedProvider } from '../../src/data/decorated/memoryCachedProvider';
+import type { ElementIri, ElementTypeIri } from '../../src/data/model';
+import { MockDataProvider, element, missing } from '../mock/mockDataProvider';
+
+describe('MemoryCachedProvider', () => {
+    it('caches data for elements', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        const provider = new MemoryCachedProvider({baseProvider});
+
+        const first = await provider.elements({
+            elementIds: [element('a'), element('b'), missing(element('c'))],
+        });
+        expect(Array.from(first.keys())).toEqual([element('a'), element('b')]);
+
+        const second = await provider.elements({
+            elementIds: [element('d'), element('b'), missing(element('c')), element('e')],
+        });
+        expect(Array.from(second.keys()).sort()).toEqual([element('b'), element('d'), element('e')]);
+
+        expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+            [element('a'), element('b'), missing(element('c'))],
+            [element('d'), element('e')],
+        ] satisfies Array<ElementIri[]>);
+    });
+
+    it('de-duplicates concurrent requests for overlapping elements', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        const provider = new MemoryCachedProvider({baseProvider});
+
+        const [first, second] = await Promise.all([
+            provider.elements({elementIds: [element('a'), element('b')]}),
+            provider.elements({elementIds: [element('b'), element('c')]}),
+        ]);
+        expect(Array.from(first.keys())).toEqual([element('a'), element('b')]);
+        expect(Array.from(second.keys()).sort()).toEqual([element('b'), element('c')]);
+
+        expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+            [element('a'), element('b')],
+            [element('c')],
+        ] satisfies Array<ElementIri[]>);
+
+
+        const knownElementTypesSpy = vi.spyOn(baseProvider, 'knownElementTypes');
+        await Promise.all([
+            provider.knownElementTypes({}),
+            provider.knownElementTypes({}),
+        ]);
+        await provider.knownElementTypes({});
+        expect(knownElementTypesSpy.mock.calls.length).toEqual(1);
+    });
+
+    it('evicts least recently used entries', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        const provider = new MemoryCachedProvider({
+            baseProvider,
+            cacheSize: {elements: 2},
+        });
+
+        await provider.elements({elementIds: [element('a'), element('b')]});
+        await provider.elements({elementIds: [element('a')]});
+        await provider.elements({elementIds: [element('c')]});
+        await provider.elements({elementIds: [element('a'), element('b')]});
+
+        expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+            [element('a'), element('b')],
+            [element('c')],
+            [element('b')],
+        ] satisfies Array<ElementIri[]>);
+    });
+
+    it('invalidates cached data by IRI', async () => {
+        const baseProvider = new MockDataProvider();
+        const elementsSpy = vi.spyOn(baseProvider, 'elements');
+        const linkStatsSpy = vi.spyOn(baseProvider, 'connectedLinkStats');
+        const provider = new MemoryCachedProvider({baseProvider});
+
+        await provider.elements({elementIds: [element('a'), element('b')]});
+        await provider.connectedLinkStats({elementId: element('a')});
+        await provider.connectedLinkStats({elementId: element('b')});
+
+        provider.invalidate({elementIds: [element('a')]});
+
+        await provider.elements({elementIds: [element('a'), element('b')]});
+        await provider.connectedLinkStats({elementId: element('a')});
+        await provider.connectedLinkStats({elementId: element('b')});
+
+        expect(elementsSpy.mock.calls.map(call => call[0].elementIds)).toEqual([
+            [element('a'), element('b')],
+            [element('a')],
+        ] satisfies Array<ElementIri[]>);
+        expect(linkStatsSpy.mock.calls.map(call => call[0].elementId)).toEqual([
+            element('a'),
+            element('b'),
+            element('a'),
+        ] satisfies ElementIri[]);
+
+        provider.clearCache();
+        await provider.elements({elementIds: [element('b')]});
+        expect(elementsSpy.mock.calls.length).toEqual(3);
+    });
+
+    it('caches lookup results separately for each sort order', async () => {
+        const baseProvider = new MockDataProvider();
+        const lookupSpy = vi.spyOn(baseProvider, 'lookup');
+        const provider = new MemoryCachedProvider({baseProvider});
+
+        const elementTypeId = 'urn:type' as ElementTypeIri;
+        await provider.lookup({elementTypeId, sortBy: 'label'});
+        await provider.lookup({elementTypeId, sortBy: 'degree'});
+        await provider.lookup({elementTypeId, sortBy: 'label'});
+
+        expect(lookupSpy.mock.calls.map(call => call[0].sortBy)).toEqual(['label', 'degree']);
+    });
+});
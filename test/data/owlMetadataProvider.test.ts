@@ -0,0 +1,103 @@
+import { expect, describe, it } from 'vitest';
+
+import type { ElementTypeIri, LinkTypeIri, PropertyTypeIri } from '../../src/data/model';
+import { OwlMetadataProvider } from '../../src/data/owl/owlMetadataProvider';
+import { OwlSchema } from '../../src/data/owl/owlSchema';
+
+import { loadRdfData, makeEntity } from '../mock/mockSchema';
+
+const ONTOLOGY_DATA = `
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix ex: <http://example.com/> .
+ex:Agent a owl:Class .
+ex:Person a owl:Class ; rdfs:subClassOf ex:Agent .
+ex:Organization a owl:Class ; rdfs:subClassOf ex:Agent .
+ex:Company a owl:Class ; rdfs:subClassOf ex:Organization .
+ex:Document a owl:Class ;
+    rdfs:subClassOf [
+        a owl:Restriction ;
+        owl:onProperty ex:author ;
+        owl:someValuesFrom ex:Person
+    ] , [
+        a owl:Restriction ;
+        owl:onProperty ex:title ;
+        owl:allValuesFrom xsd:string
+    ] .
+ex:worksFor a owl:ObjectProperty ;
+    rdfs:domain ex:Person ;
+    rdfs:range ex:Organization .
+ex:employs owl:inverseOf ex:worksFor .
+ex:name a owl:DatatypeProperty ;
+    rdfs:domain ex:Agent ;
+    rdfs:range xsd:string .
+ex:legalName rdfs:subPropertyOf ex:name ;
+    rdfs:domain ex:Organization .
+`;
+
+const person = 'http://example.com/Person' as ElementTypeIri;
+const organization = 'http://example.com/Organization' as ElementTypeIri;
+const company = 'http://example.com/Company' as ElementTypeIri;
+const document = 'http://example.com/Document' as ElementTypeIri;
+const worksFor = 'http://example.com/worksFor' as LinkTypeIri;
+const employs = 'http://example.com/employs' as LinkTypeIri;
+const author = 'http://example.com/author' as LinkTypeIri;
+
+async function loadMetadata(): Promise<OwlMetadataProvider> {
+    const provider = await loadRdfData(ONTOLOGY_DATA);
+    return new OwlMetadataProvider({schema: OwlSchema.fromDataProvider(provider)});
+}
+
+describe('OwlMetadataProvider', () => {
+    it('suggests links from domains, ranges and restrictions', async () => {
+        const metadata = await loadMetadata();
+        const alice = makeEntity('http://example.com/alice', [person]);
+        const acme = makeEntity('http://example.com/acme', [company]);
+        const report = makeEntity('http://example.com/report', [document]);
+
+        const fromPerson = await metadata.canConnect(alice, undefined, undefined, {});
+        expect(fromPerson.map(c => ({
+            targetTypes: Array.from(c.targetTypes).sort(),
+            inLinks: c.inLinks,
+            outLinks: c.outLinks,
+        }))).toEqual([
+            {targetTypes: [company, organization], inLinks: [], outLinks: [worksFor]},
+            {targetTypes: [company, organization], inLinks: [employs], outLinks: []},
+            {targetTypes: [document], inLinks: [author], outLinks: []},
+        ]);
+
+        const personToCompany = await metadata.canConnect(alice, acme, undefined, {});
+        expect(personToCompany.flatMap(c => c.outLinks)).toEqual([worksFor]);
+        expect(personToCompany.flatMap(c => c.inLinks)).toEqual([employs]);
+
+        const documentToPerson = await metadata.canConnect(report, alice, undefined, {});
+        expect(documentToPerson.flatMap(c => c.outLinks)).toEqual([author]);
+        expect(await metadata.canConnect(report, acme, undefined, {})).toEqual([]);
+
+        expect(await metadata.canModifyRelation(
+            {sourceId: alice.id, targetId: acme.id, linkTypeId: worksFor, properties: {}},
+            alice, acme, {}
+        )).toEqual({canChangeType: true, canDelete: true});
+    });
+
+    it('provides entity properties from domains and restrictions', async () => {
+        const metadata = await loadMetadata();
+        expect(await metadata.getEntityTypeShape(company, {})).toEqual({
+            properties: [
+                'http://example.com/name' as PropertyTypeIri,
+                'http://example.com/legalName' as PropertyTypeIri,
+            ],
+        });
+        expect(await metadata.getEntityTypeShape(person, {})).toEqual({
+            properties: ['http://example.com/name' as PropertyTypeIri],
+        });
+        expect(await metadata.getEntityTypeShape(document, {})).toEqual({
+            properties: ['http://example.com/title' as PropertyTypeIri],
+        });
+
+        const unknown = 'http://example.com/Unknown' as ElementTypeIri;
+        expect(await metadata.filterConstructibleTypes(new Set([person, unknown]), {}))
+            .toEqual(new Set([person]));
+    });
+});
@@ -0,0 +1,115 @@
+import { expect, describe, it } from 'vitest';
+
+import { PropertyGraphDataProvider } from '../../src/data/propertyGraph/propertyGraphDataProvider';
+import { PropertyGraphFormatError, parsePropertyGraph } from '../../src/data/propertyGraph/propertyGraphFormat';
+
+const GRAPH = JSON.stringify({
+    nodes: [
+        {id: '1', labels: ['Person'], properties: {name: 'Alice', age: 42}},
+        {id: '2', labels: ['Person'], properties: {name: 'Bob'}},
+        {id: '3', labels: ['Company'], properties: {name: 'Acme'}},
+    ],
+    edges: [
+        {id: 'e1', type: 'KNOWS', source: '1', target: '2', properties: {since: 2010}},
+        {id: 'e2', type: 'WORKS_AT', source: '1', target: '3', properties: {}},
+        {id: 'e3', type: 'WORKS_AT', source: '2', target: '3', properties: {}},
+    ],
+});
+
+describe('PropertyGraphDataProvider', () => {
+    it('maps nodes, edges and their properties', async () => {
+        const provider = new PropertyGraphDataProvider();
+        provider.addSerializedGraph(GRAPH);
+
+        const elements = await provider.elements({elementIds: [provider.nodeIri('1')]});
+        const alice = elements.get(provider.nodeIri('1'))!;
+        expect(alice.types).toEqual([provider.labelIri('Person')]);
+        expect(alice.label.map(label => label.value)).toEqual(['Alice']);
+        expect(alice.properties[provider.propertyIri('age')].map(value => value.value)).toEqual(['42']);
+
+        const links = await provider.links({
+            primary: [provider.nodeIri('1')],
+            secondary: [provider.nodeIri('2'), provider.nodeIri('3')],
+        });
+        expect(links.map(link => link.linkTypeId).sort()).toEqual([
+            provider.edgeTypeIri('KNOWS'),
+            provider.edgeTypeIri('WORKS_AT'),
+        ]);
+        const knows = links.find(link => link.linkTypeId === provider.edgeTypeIri('KNOWS'))!;
+        expect(knows.properties[provider.propertyIri('since')].map(value => value.value)).toEqual(['2010']);
+
+        const {elementTypes} = await provider.knownElementTypes({});
+        expect(elementTypes.map(type => [type.label[0].value, type.count])).toEqual([
+            ['Person', 2],
+            ['Company', 1],
+        ]);
+    });
+
+    it('looks up elements by type, text and connected element', async () => {
+        const provider = new PropertyGraphDataProvider();
+        provider.addSerializedGraph(GRAPH);
+
+        const byType = await provider.lookup({elementTypeId: provider.labelIri('Person')});
+        expect(byType.map(item => item.element.id)).toEqual([provider.nodeIri('1'), provider.nodeIri('2')]);
+
+        const byText = await provider.lookup({text: 'ali'});
+        expect(byText.map(item => item.element.id)).toEqual([provider.nodeIri('1')]);
+
+        const connected = await provider.lookup({
+            refElementId: provider.nodeIri('3'),
+            linkDirection: 'in',
+        });
+        expect(connected.map(item => [item.element.id, Array.from(item.inLinks)])).toEqual([
+            [provider.nodeIri('1'), [provider.edgeTypeIri('WORKS_AT')]],
+            [provider.nodeIri('2'), [provider.edgeTypeIri('WORKS_AT')]],
+        ]);
+
+        const stats = await provider.connectedLinkStats({elementId: provider.nodeIri('3')});
+        expect(stats).toEqual([{id: provider.edgeTypeIri('WORKS_AT'), inCount: 2, outCount: 0}]);
+    });
+
+    it('removes types without nodes or edges when replacing them', async () => {
+        const provider = new PropertyGraphDataProvider();
+        provider.addSerializedGraph(GRAPH);
+        provider.addGraph({
+            nodes: [{id: '3', labels: ['Organization'], properties: {name: ['Acme']}}],
+            edges: [
+                {id: 'e1', type: 'LIKES', source: '1', target: '2', properties: {}},
+                {id: 'e3', type: 'LIKES', source: '2', target: '1', properties: {}},
+            ],
+        });
+
+        const {elementTypes} = await provider.knownElementTypes({});
+        expect(elementTypes.map(type => [type.label[0].value, type.count])).toEqual([
+            ['Person', 2],
+            ['Organization', 1],
+        ]);
+        const {linkTypes} = await provider.knownLinkTypes({});
+        expect(linkTypes.map(type => [type.label[0].value, type.count])).toEqual([
+            ['WORKS_AT', 1],
+            ['LIKES', 2],
+        ]);
+
+        const stats = await provider.connectedLinkStats({elementId: provider.nodeIri('2')});
+        expect(stats).toEqual([{id: provider.edgeTypeIri('LIKES'), inCount: 1, outCount: 1}]);
+    });
+
+    it('parses GraphSON-like variant', () => {
+        const graph = parsePropertyGraph({
+            vertices: [
+                {id: {'@type': 'g:Int64', '@value': 1}, label: 'person', properties: {
+                    name: [{id: 0, value: 'marko'}],
+                }},
+            ],
+            edges: [
+                {id: 7, label: 'knows', outV: 1, inV: 2, properties: {weight: {'@type': 'g:Double', '@value': 0.5}}},
+            ],
+        });
+        expect(graph).toEqual({
+            nodes: [{id: '1', labels: ['person'], properties: {name: ['marko']}}],
+            edges: [{id: '7', type: 'knows', source: '1', target: '2', properties: {weight: [0.5]}}],
+        });
+
+        expect(() => parsePropertyGraph({nodes: [{labels: []}]})).toThrow(PropertyGraphFormatError);
+    });
+});
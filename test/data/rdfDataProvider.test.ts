@@ -0,0 +1,310 @@
+import { expect, describe, it } from 'vitest';
+
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { RdfDataProvider } from '../../src/data/rdf/rdfDataProvider';
+import type { ElementIri, ElementTypeIri, PropertyTypeIri } from '../../src/data/model';
+import type { DataProviderChangeEvent } from '../../src/data/provider';
+
+const TRIG_DATA = `
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix ex: <http://example.com/> .
+ex:a rdfs:label "A" .
+ex:g1 {
+    ex:a ex:knows ex:b .
+    ex:b rdfs:label "B (g1)" .
+}
+ex:g2 {
+    ex:a ex:knows ex:b .
+    ex:b rdfs:label "B (g2)" .
+}
+`;
+
+const a = 'http://example.com/a' as ElementIri;
+const b = 'http://example.com/b' as ElementIri;
+
+describe('RdfDataProvider with named graphs', () => {
+    it('merges data from all graphs by default', async () => {
+        const provider = new RdfDataProvider({sourceGraphProperty: true});
+        await provider.addSerializedGraph(TRIG_DATA, {format: 'application/trig'});
+
+        expect(provider.getGraphs().map(Rdf.termToString).sort()).toEqual([
+            '<http://example.com/g1>',
+            '<http://example.com/g2>',
+            '(default graph)',
+        ].sort());
+
+        const links = await provider.links({primary: [a], secondary: [b]});
+        expect(links.length).toEqual(1);
+        expect(links[0].properties['urn:reactodia:sourceGraph'].map(g => g.value).sort())
+            .toEqual(['http://example.com/g1', 'http://example.com/g2']);
+
+        const stats = await provider.connectedLinkStats({elementId: a});
+        expect(stats).toEqual([{id: 'http://example.com/knows', inCount: 0, outCount: 1}]);
+    });
+
+    it('does not add source graph property by default', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(TRIG_DATA, {format: 'application/trig'});
+
+        const links = await provider.links({primary: [a], secondary: [b]});
+        expect(links[0].properties).toEqual({});
+    });
+
+    it('restricts data to active graphs', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(TRIG_DATA, {format: 'application/trig'});
+        const factory = provider.factory;
+
+        provider.setActiveGraphs([factory.namedNode('http://example.com/g2')]);
+        let elements = await provider.elements({elementIds: [a, b]});
+        expect(elements.has(a)).toBe(true);
+        expect(elements.get(b)?.label.map(l => l.value)).toEqual(['B (g2)']);
+
+        provider.setActiveGraphs([factory.defaultGraph()]);
+        elements = await provider.elements({elementIds: [a, b]});
+        expect(Array.from(elements.keys())).toEqual([a]);
+        expect(elements.get(a)?.properties['urn:reactodia:sourceGraph']).toBeUndefined();
+        expect(await provider.links({primary: [a], secondary: [b]})).toEqual([]);
+
+        provider.setActiveGraphs(undefined);
+        expect(provider.activeGraphs).toBeUndefined();
+        elements = await provider.elements({elementIds: [b]});
+        expect(elements.get(b)?.label.map(l => l.value).sort()).toEqual(['B (g1)', 'B (g2)']);
+    });
+
+    it('matches indexed text only from active graphs', async () => {
+        const provider = new RdfDataProvider({textIndex: true});
+        await provider.addSerializedGraph(TRIG_DATA, {format: 'application/trig'});
+        const factory = provider.factory;
+
+        let items = await provider.lookup({text: 'g1'});
+        expect(items.map(item => item.element.id)).toEqual([b]);
+
+        provider.setActiveGraphs([factory.namedNode('http://example.com/g2')]);
+        items = await provider.lookup({text: 'g1'});
+        expect(items).toEqual([]);
+        items = await provider.lookup({text: 'g2'});
+        expect(items.map(item => item.element.id)).toEqual([b]);
+
+        provider.setActiveGraphs(undefined);
+        items = await provider.lookup({text: 'g1 g2'});
+        expect(items.map(item => item.element.id)).toEqual([b]);
+    });
+});
+
+describe('RdfDataProvider with RDFS entailment', () => {
+    const SCHEMA = `
+        @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+        @prefix ex: <http://example.com/> .
+        ex:Employee rdfs:subClassOf ex:Person .
+        ex:Person rdfs:subClassOf ex:Agent .
+        ex:worksFor rdfs:subPropertyOf ex:memberOf .
+        ex:memberOf rdfs:domain ex:Person ; rdfs:range ex:Organization .
+    `;
+    const DATA = `
+        @prefix ex: <http://example.com/> .
+        ex:alice a ex:Employee .
+        ex:bob ex:worksFor ex:acme .
+    `;
+
+    it('infers types from class and property hierarchy regardless of load order', async () => {
+        for (const order of [[SCHEMA, DATA], [DATA, SCHEMA]]) {
+            const provider = new RdfDataProvider({entailment: 'rdfs'});
+            for (const text of order) {
+                await provider.addSerializedGraph(text);
+            }
+
+            const agents = await provider.lookup({
+                elementTypeId: 'http://example.com/Agent' as ElementTypeIri,
+            });
+            expect(agents.map(item => item.element.id).sort()).toEqual([
+                'http://example.com/alice',
+                'http://example.com/bob',
+            ]);
+
+            const types = await provider.elementTypes({
+                classIds: [
+                    'http://example.com/Person' as ElementTypeIri,
+                    'http://example.com/Organization' as ElementTypeIri,
+                ],
+            });
+            expect(types.get('http://example.com/Person' as ElementTypeIri)?.count).toEqual(2);
+            expect(types.get('http://example.com/Organization' as ElementTypeIri)?.count).toEqual(1);
+
+            const links = await provider.links({
+                primary: ['http://example.com/bob' as ElementIri],
+                secondary: ['http://example.com/acme' as ElementIri],
+            });
+            expect(links.map(link => link.linkTypeId).sort()).toEqual([
+                'http://example.com/memberOf',
+                'http://example.com/worksFor',
+            ]);
+        }
+    });
+
+    it('does not infer anything by default', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(SCHEMA + DATA);
+        const agents = await provider.lookup({
+            elementTypeId: 'http://example.com/Agent' as ElementTypeIri,
+        });
+        expect(agents).toEqual([]);
+    });
+});
+
+describe('RdfDataProvider change notifications', () => {
+    it('notifies about changed entities once per added graph', async () => {
+        const provider = new RdfDataProvider();
+        const events: DataProviderChangeEvent[] = [];
+        const unsubscribe = provider.subscribeChanges(e => events.push(e));
+
+        await provider.addSerializedGraph(`
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            @prefix ex: <http://example.com/> .
+            ex:a a ex:Person ; rdfs:label "A" ; ex:knows ex:b .
+        `);
+        expect(events.length).toEqual(1);
+        const [e] = events;
+        expect(Array.from(e.elementIds ?? [])).toEqual(['http://example.com/a']);
+        expect(Array.from(e.elementTypeIds ?? []).sort()).toEqual([
+            'http://example.com/Person',
+            'http://example.com/a',
+        ]);
+        expect(e.links).toEqual([
+            {
+                sourceId: 'http://example.com/a',
+                targetId: 'http://example.com/Person',
+                linkTypeId: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type',
+            },
+            {
+                sourceId: 'http://example.com/a',
+                targetId: 'http://example.com/b',
+                linkTypeId: 'http://example.com/knows',
+            },
+        ]);
+
+        provider.setActiveGraphs([provider.factory.defaultGraph()]);
+        expect(events[1]).toEqual({invalidateAll: true});
+
+        unsubscribe();
+        provider.addGraph([provider.factory.quad(
+            provider.factory.namedNode('http://example.com/c'),
+            provider.factory.namedNode('http://example.com/knows'),
+            provider.factory.namedNode('http://example.com/a')
+        )]);
+        expect(events.length).toEqual(2);
+    });
+});
+
+describe('RdfDataProvider paged lookup', () => {
+    it('returns consecutive pages with offset', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(`
+            @prefix ex: <http://example.com/> .
+            ex:p1 a ex:Person . ex:p2 a ex:Person . ex:p3 a ex:Person .
+            ex:p4 a ex:Person . ex:p5 a ex:Person .
+        `);
+        const elementTypeId = 'http://example.com/Person' as ElementTypeIri;
+        const all = await provider.lookup({elementTypeId, offset: 0});
+        const pages = [
+            ...await provider.lookup({elementTypeId, offset: 0, limit: 2}),
+            ...await provider.lookup({elementTypeId, offset: 2, limit: 2}),
+            ...await provider.lookup({elementTypeId, offset: 4, limit: 2}),
+        ];
+        expect(all.length).toEqual(5);
+        expect(pages.map(item => item.element.id)).toEqual(all.map(item => item.element.id));
+    });
+});
+
+describe('RdfDataProvider sorted lookup', () => {
+    const data = `
+        @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+        @prefix ex: <http://example.com/> .
+        ex:p1 a ex:Person ; rdfs:label "Alice" .
+        ex:p2 a ex:Person ; rdfs:label "Carol" ; ex:knows ex:p1, ex:p3, ex:p4 .
+        ex:p3 a ex:Person ; rdfs:label "Bob" ; ex:knows ex:p4 .
+    `;
+    const elementTypeId = 'http://example.com/Person' as ElementTypeIri;
+
+    it('sorts results by label and by degree', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(data);
+
+        const byLabel = await provider.lookup({elementTypeId, sortBy: 'label'});
+        expect(byLabel.map(item => item.element.label[0].value)).toEqual(['Alice', 'Bob', 'Carol']);
+
+        const byDegree = await provider.lookup({elementTypeId, sortBy: 'degree'});
+        // rdf:type links are counted as well
+        expect(byDegree.map(item => [item.element.label[0].value, item.degree])).toEqual([
+            ['Carol', 4],
+            ['Bob', 3],
+            ['Alice', 2],
+        ]);
+    });
+
+    it('returns relevance scores for text lookup with an index', async () => {
+        const provider = new RdfDataProvider({textIndex: true});
+        await provider.addSerializedGraph(data);
+
+        const result = await provider.lookup({text: 'bob'});
+        expect(result.map(item => item.element.id)).toEqual(['http://example.com/p3']);
+        expect(result[0].score).toBeGreaterThan(0);
+    });
+});
+
+describe('RdfDataProvider property types', () => {
+    it('provides datatype, range, domain and cardinality', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(`
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            @prefix owl: <http://www.w3.org/2002/07/owl#> .
+            @prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+            @prefix ex: <http://example.com/> .
+            ex:age rdfs:label "age" ; rdfs:domain ex:Person ; rdfs:range xsd:integer .
+            ex:age a owl:FunctionalProperty .
+            ex:pet rdfs:domain ex:Person ; rdfs:range ex:Animal .
+        `);
+
+        const age = 'http://example.com/age' as PropertyTypeIri;
+        const pet = 'http://example.com/pet' as PropertyTypeIri;
+        const types = await provider.propertyTypes({propertyIds: [age, pet]});
+        expect(types.get(age)).toEqual({
+            id: age,
+            label: [Rdf.DefaultDataFactory.literal('age')],
+            datatype: 'http://www.w3.org/2001/XMLSchema#integer',
+            domain: ['http://example.com/Person'],
+            cardinality: {maxCount: 1},
+        });
+        expect(types.get(pet)).toEqual({
+            id: pet,
+            label: [],
+            range: ['http://example.com/Animal'],
+            domain: ['http://example.com/Person'],
+        });
+    });
+});
+
+describe('RdfDataProvider link type hierarchy', () => {
+    it('provides link type graph from rdfs:subPropertyOf', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(`
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            @prefix ex: <http://example.com/> .
+            ex:hasParent rdfs:subPropertyOf ex:relatedTo .
+            ex:hasMother rdfs:subPropertyOf ex:hasParent .
+            ex:alice ex:hasMother ex:carol .
+        `);
+
+        const {linkTypes, subtypeOf} = await provider.knownLinkTypes({});
+        expect(linkTypes.map(linkType => [linkType.id, linkType.count]).sort()).toEqual([
+            ['http://example.com/hasMother', 1],
+            ['http://example.com/hasParent', 0],
+            ['http://example.com/relatedTo', 0],
+            ['http://www.w3.org/2000/01/rdf-schema#subPropertyOf', 2],
+        ]);
+        expect([...subtypeOf].sort()).toEqual([
+            ['http://example.com/hasMother', 'http://example.com/hasParent'],
+            ['http://example.com/hasParent', 'http://example.com/relatedTo'],
+        ]);
+    });
+});
@@ -0,0 +1,74 @@
+import { expect, describe, it } from 'vitest';
+
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { RdfParseError, parseRdfText } from '../../src/data/rdf/rdfParser';
+import { RdfDataProvider } from '../../src/data/rdf/rdfDataProvider';
+import type { ElementIri } from '../../src/data/model';
+
+describe('parseRdfText()', () => {
+    it('parses Turtle with relative IRIs against base IRI', async () => {
+        const quads = await parseAll(
+            '@prefix ex: <http://example.com/> .\n' +
+            '<a> ex:p "value"@en .\n',
+            {format: 'text/turtle', baseIri: 'http://example.com/base/'}
+        );
+        expect(quads.map(Rdf.termToString)).toEqual([
+            '<< <http://example.com/base/a> <http://example.com/p> "value"@en >>',
+        ]);
+    });
+
+    it('parses named graphs from N-Quads and TriG', async () => {
+        const nquads = await parseAll(
+            '<http://example.com/s> <http://example.com/p> <http://example.com/o> <http://example.com/g> .\n',
+            {format: 'application/n-quads'}
+        );
+        expect(nquads.map(q => q.graph.value)).toEqual(['http://example.com/g']);
+
+        const trig = await parseAll(
+            '@prefix ex: <http://example.com/> .\n' +
+            'ex:g1 { ex:s ex:p ex:o1 }\n' +
+            'ex:g2 { ex:s ex:p ex:o2 }\n',
+            {format: 'application/trig'}
+        );
+        expect(trig.map(q => q.graph.value)).toEqual([
+            'http://example.com/g1',
+            'http://example.com/g2',
+        ]);
+    });
+
+    it('reports line and column on malformed input', async () => {
+        const text = (
+            '<http://example.com/s> <http://example.com/p> <http://example.com/o> .\n' +
+            '<http://example.com/s> <http://example.com/p> .\n'
+        );
+        const error = await parseAll(text, {format: 'application/n-triples'})
+            .then(() => undefined, err => err);
+        expect(error).toBeInstanceOf(RdfParseError);
+        expect((error as RdfParseError).line).toEqual(2);
+        expect((error as RdfParseError).column).toEqual(47);
+    });
+});
+
+describe('RdfDataProvider.addSerializedGraph()', () => {
+    it('adds parsed quads to the provider', async () => {
+        const provider = new RdfDataProvider();
+        await provider.addSerializedGraph(
+            '@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .\n' +
+            '<http://example.com/a> rdfs:label "A" .\n'
+        );
+        const elements = await provider.elements({
+            elementIds: ['http://example.com/a' as ElementIri],
+        });
+        expect(elements.get('http://example.com/a' as ElementIri)?.label.map(l => l.value))
+            .toEqual(['A']);
+    });
+});
+
+async function parseAll(
+    text: string,
+    options: Parameters<typeof parseRdfText>[1]
+): Promise<Rdf.Quad[]> {
+    const quads: Rdf.Quad[] = [];
+    await parseRdfText(text, options, q => quads.push(q));
+    return quads;
+}
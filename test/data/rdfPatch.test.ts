@@ -0,0 +1,132 @@
+import { expect, describe, it } from 'vitest';
+
+import { AuthoringState } from '../../src/editor/authoringState';
+import { ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri } from '../../src/data/model';
+import { RdfDataProvider } from '../../src/data/rdf/rdfDataProvider';
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import {
+    authoringStateToRdfPatch, serializeRdfPatch, serializeRdfPatchAsTurtle, parseRdfPatch,
+} from '../../src/data/rdf/rdfPatch';
+
+const factory = Rdf.DefaultDataFactory;
+
+const EX = 'http://example.com/';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+
+const alice: ElementModel = {
+    id: `${EX}alice` as ElementIri,
+    types: [`${EX}Person` as ElementTypeIri],
+    label: [factory.literal('Alice')],
+    properties: {},
+};
+
+const knows: LinkModel = {
+    sourceId: alice.id,
+    linkTypeId: `${EX}knows` as LinkTypeIri,
+    targetId: `${EX}bob` as ElementIri,
+    properties: {},
+};
+
+describe('authoringStateToRdfPatch()', () => {
+    it('writes property diff and IRI change for changed entity', () => {
+        const changed: ElementModel = {
+            ...alice,
+            label: [factory.literal('Alice Smith')],
+        };
+        let state = AuthoringState.changeEntity(AuthoringState.empty, alice, {
+            ...changed,
+            id: `${EX}alice-smith` as ElementIri,
+        });
+        state = AuthoringState.addRelation(state, knows);
+
+        const patch = authoringStateToRdfPatch(state);
+        expect(serializeRdfPatch(patch)).toEqual(
+            'TX .\n' +
+            `D <${EX}alice> <${RDF_TYPE}> <${EX}Person> .\n` +
+            `D <${EX}alice> <${RDFS_LABEL}> "Alice" .\n` +
+            `A <${EX}alice-smith> <${RDF_TYPE}> <${EX}Person> .\n` +
+            `A <${EX}alice-smith> <${RDFS_LABEL}> "Alice Smith" .\n` +
+            `A <${EX}alice-smith> <${EX}knows> <${EX}bob> .\n` +
+            'TC .\n'
+        );
+    });
+
+    it('serializes patch as Turtle additions and deletions', () => {
+        const state = AuthoringState.deleteRelation(AuthoringState.empty, {
+            ...knows,
+            properties: {[`${EX}since`]: [factory.literal('2020')]},
+        });
+        const {deletions, additions} = serializeRdfPatchAsTurtle(
+            authoringStateToRdfPatch(state),
+            {prefixes: {ex: EX}}
+        );
+        expect(additions).toEqual('@prefix ex: <http://example.com/>.\n\n');
+        expect(deletions).toEqual(
+            '@prefix ex: <http://example.com/>.\n\n' +
+            'ex:alice ex:knows ex:bob.\n' +
+            '<<ex:alice ex:knows ex:bob>> ex:since "2020".\n'
+        );
+    });
+});
+
+describe('parseRdfPatch()', () => {
+    it('parses rows with prefixes and skips aborted transactions', () => {
+        const patch = parseRdfPatch(`
+            H id <urn:uuid:0001> .
+            TX .
+            PA ex: <${EX}> .
+            D ex:alice ex:knows ex:bob .
+            A _:b1 ex:knows ex:bob ex:graph .
+            TC .
+            TX .
+            A ex:carol ex:knows ex:bob .
+            TA .
+        `);
+        expect(patch.deletions).toEqual([
+            factory.quad(
+                factory.namedNode(`${EX}alice`),
+                factory.namedNode(`${EX}knows`),
+                factory.namedNode(`${EX}bob`)
+            ),
+        ]);
+        expect(patch.additions).toEqual([
+            factory.quad(
+                factory.blankNode('b1'),
+                factory.namedNode(`${EX}knows`),
+                factory.namedNode(`${EX}bob`),
+                factory.namedNode(`${EX}graph`)
+            ),
+        ]);
+    });
+
+    it('reports unknown row codes with the position', () => {
+        expect(() => parseRdfPatch('TX .\nX <a> <b> <c> .')).toThrow('at line 2, column 1');
+    });
+});
+
+describe('RdfDataProvider.applyPatch()', () => {
+    it('replays authoring changes on the dataset', async () => {
+        const provider = new RdfDataProvider({textIndex: true});
+        await provider.addSerializedGraph(`
+            @prefix ex: <${EX}> .
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            ex:alice a ex:Person ; rdfs:label "Alice" .
+        `);
+        const events: unknown[] = [];
+        provider.subscribeChanges(e => events.push(e));
+
+        const state = AuthoringState.changeEntity(AuthoringState.empty, alice, {
+            ...alice,
+            label: [factory.literal('Alicia')],
+        });
+        const patch = parseRdfPatch(serializeRdfPatch(authoringStateToRdfPatch(state)));
+        provider.applyPatch(patch);
+
+        const elements = await provider.elements({elementIds: [alice.id]});
+        expect(elements.get(alice.id)!.label).toEqual([factory.literal('Alicia')]);
+        expect(await provider.lookup({text: 'alice'})).toEqual([]);
+        expect((await provider.lookup({text: 'alicia'})).length).toEqual(1);
+        expect(events.length).toEqual(1);
+    });
+});
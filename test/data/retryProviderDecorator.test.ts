@@ -0,0 +1,73 @@
+import { expect, describe, it } from 'vitest';
+
+import { delay } from '../../src/coreUtils/async';
+import { retryProviderDecorator } from '../../src/data/decorated/retryProviderDecorator';
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+    const error = new Error(`HTTP ${status}`);
+    (error as any).response = new Response(null, {status, headers});
+    return error;
+}
+
+describe('retryProviderDecorator', () => {
+    it('retries requests failed with retryable HTTP status', async () => {
+        const decorator = retryProviderDecorator({initialBackoff: 1, jitter: false});
+        let attempts = 0;
+        const result = await decorator('elements', {}, () => {
+            attempts++;
+            return attempts < 3
+                ? Promise.reject(httpError(attempts === 1 ? 429 : 503, {'Retry-After': '0'}))
+                : Promise.resolve('ok');
+        });
+        expect(result).toEqual('ok');
+        expect(attempts).toEqual(3);
+    });
+
+    it('does not retry non-retryable errors or after max retries', async () => {
+        const decorator = retryProviderDecorator({maxRetries: 2, initialBackoff: 1});
+
+        let badRequestAttempts = 0;
+        await expect(decorator('lookup', {}, () => {
+            badRequestAttempts++;
+            return Promise.reject(httpError(400));
+        })).rejects.toThrow('HTTP 400');
+        expect(badRequestAttempts).toEqual(1);
+
+        let unavailableAttempts = 0;
+        await expect(decorator('lookup', {}, () => {
+            unavailableAttempts++;
+            return Promise.reject(httpError(503));
+        })).rejects.toThrow('HTTP 503');
+        expect(unavailableAttempts).toEqual(3);
+    });
+
+    it('limits concurrent requests', async () => {
+        const decorator = retryProviderDecorator({maxConcurrency: 2});
+        let active = 0;
+        let maxActive = 0;
+        const body = async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await delay(5);
+            active--;
+        };
+        await Promise.all(Array.from({length: 6}, () => decorator('elements', {}, body)));
+        expect(maxActive).toEqual(2);
+    });
+
+    it('cancels queued requests on abort', async () => {
+        const decorator = retryProviderDecorator({maxConcurrency: 1});
+        const controller = new AbortController();
+        let started = 0;
+        const body = async () => {
+            started++;
+            await delay(5);
+        };
+        const first = decorator('elements', {}, body);
+        const second = decorator('elements', {signal: controller.signal}, body);
+        controller.abort();
+        await expect(second).rejects.toThrow();
+        await first;
+        expect(started).toEqual(1);
+    });
+});
@@ -0,0 +1,116 @@
+import { expect, describe, it } from 'vitest';
+
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { ShaclMetadataProvider } from '../../src/data/shacl/shaclMetadataProvider';
+import { ShaclShapes } from '../../src/data/shacl/shaclShapes';
+import type { ElementIri, ElementTypeIri, LinkTypeIri, PropertyTypeIri } from '../../src/data/model';
+
+import { loadRdfData, makeEntity } from '../mock/mockSchema';
+
+const SHAPES_DATA = `
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+@prefix sh: <http://www.w3.org/ns/shacl#> .
+@prefix ex: <http://example.com/> .
+ex:shapes {
+    ex:PersonShape a sh:NodeShape ;
+        sh:targetClass ex:Person ;
+        sh:property [
+            sh:path ex:name ;
+            sh:datatype xsd:string ;
+            sh:maxCount 1 ;
+        ] , [
+            sh:path ex:status ;
+            sh:datatype xsd:string ;
+            sh:defaultValue "active" ;
+        ] , [
+            sh:path ex:worksFor ;
+            sh:class ex:Organization ;
+        ] , [
+            sh:path [ sh:inversePath ex:member ] ;
+            sh:node ex:TeamShape ;
+        ] .
+    ex:TeamShape a sh:NodeShape ;
+        sh:targetClass ex:Team .
+    ex:OrganizationShape a sh:NodeShape ;
+        sh:targetClass ex:Organization ;
+        sh:property [
+            sh:path ex:name ;
+            sh:datatype xsd:string ;
+        ] .
+    ex:Company rdfs:subClassOf ex:Organization .
+}
+ex:data {
+    ex:alice a ex:Person .
+}
+`;
+
+const person = 'http://example.com/Person' as ElementTypeIri;
+const organization = 'http://example.com/Organization' as ElementTypeIri;
+const company = 'http://example.com/Company' as ElementTypeIri;
+const team = 'http://example.com/Team' as ElementTypeIri;
+const worksFor = 'http://example.com/worksFor' as LinkTypeIri;
+const member = 'http://example.com/member' as LinkTypeIri;
+
+async function loadShapes(): Promise<ShaclShapes> {
+    const provider = await loadRdfData(SHAPES_DATA, 'application/trig');
+    return ShaclShapes.fromDataProvider(provider, {
+        graphs: [Rdf.DefaultDataFactory.namedNode('http://example.com/shapes')],
+    });
+}
+
+describe('ShaclMetadataProvider', () => {
+    it('allows links and properties from the shapes', async () => {
+        const metadata = new ShaclMetadataProvider({shapes: await loadShapes()});
+        const alice = makeEntity('http://example.com/alice', [person]);
+        const acme = makeEntity('http://example.com/acme', [company]);
+        const teamA = makeEntity('http://example.com/teamA', [team]);
+
+        const connections = await metadata.canConnect(alice, undefined, undefined, {});
+        expect(connections.map(c => ({
+            targetTypes: Array.from(c.targetTypes).sort(),
+            inLinks: c.inLinks,
+            outLinks: c.outLinks,
+        }))).toEqual([
+            {targetTypes: [company, organization], inLinks: [], outLinks: [worksFor]},
+            {targetTypes: [team], inLinks: [member], outLinks: []},
+        ]);
+
+        expect(await metadata.canConnect(alice, acme, worksFor, {})).toHaveLength(1);
+        expect(await metadata.canConnect(alice, teamA, worksFor, {})).toEqual([]);
+        const fromOrganization = await metadata.canConnect(acme, alice, undefined, {});
+        expect(fromOrganization.map(c => [c.inLinks, c.outLinks])).toEqual([[[worksFor], []]]);
+
+        expect(await metadata.getEntityTypeShape(person, {})).toEqual({
+            properties: [
+                'http://example.com/name' as PropertyTypeIri,
+                'http://example.com/status' as PropertyTypeIri,
+            ],
+        });
+        const thing = 'http://example.com/Thing' as ElementTypeIri;
+        expect(await metadata.filterConstructibleTypes(new Set([person, company, thing]), {}))
+            .toEqual(new Set([person, company]));
+    });
+
+    it('creates entities with default values', async () => {
+        const metadata = new ShaclMetadataProvider({
+            shapes: await loadShapes(),
+            mintIri: type => `${type}/new` as ElementIri,
+        });
+        const created = await metadata.createEntity(person, {});
+        expect(created.id).toBe('http://example.com/Person/new');
+        expect(created.label.map(label => label.value)).toEqual(['New Person']);
+        expect(created.properties['http://example.com/status'].map(v => v.value)).toEqual(['active']);
+
+        expect(await metadata.canModifyEntity(created, {})).toEqual({
+            canChangeIri: true,
+            canEdit: true,
+            canDelete: true,
+        });
+        expect(await metadata.canModifyEntity(makeEntity('urn:x', []), {})).toEqual({
+            canChangeIri: false,
+            canEdit: false,
+            canDelete: false,
+        });
+    });
+});
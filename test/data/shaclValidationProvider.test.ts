@@ -0,0 +1,127 @@
+import { expect, describe, it } from 'vitest';
+
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { ShaclShapes } from '../../src/data/shacl/shaclShapes';
+import { ShaclValidationProvider } from '../../src/data/shacl/shaclValidationProvider';
+import type { ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri } from '../../src/data/model';
+import type { ValidationEvent } from '../../src/data/validationProvider';
+import { AuthoringState } from '../../src/editor/authoringState';
+import type { DataGraphStructure } from '../../src/editor/dataDiagramModel';
+
+import { loadRdfData, makeEntity } from '../mock/mockSchema';
+
+const SHAPES_DATA = `
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+@prefix sh: <http://www.w3.org/ns/shacl#> .
+@prefix ex: <http://example.com/> .
+ex:PersonShape a sh:NodeShape ;
+    sh:targetClass ex:Person ;
+    sh:property [
+        sh:path ex:name ;
+        sh:datatype xsd:string ;
+        sh:minCount 1 ;
+        sh:maxCount 1 ;
+    ] , [
+        sh:path ex:email ;
+        sh:pattern "^[^@]+@[^@]+$" ;
+        sh:severity sh:Warning ;
+    ] , [
+        sh:path ex:status ;
+        sh:in ("active" "retired") ;
+        sh:message "Unknown status" ;
+    ] , [
+        sh:path ex:worksFor ;
+        sh:class ex:Organization ;
+        sh:minCount 1 ;
+    ] , [
+        sh:path ( ex:worksFor ex:locatedIn ) ;
+        sh:maxCount 1 ;
+        sh:severity sh:Info ;
+    ] .
+`;
+
+const person = 'http://example.com/Person' as ElementTypeIri;
+const organization = 'http://example.com/Organization' as ElementTypeIri;
+const worksFor = 'http://example.com/worksFor' as LinkTypeIri;
+const locatedIn = 'http://example.com/locatedIn' as LinkTypeIri;
+
+function makeEvent(
+    target: ElementModel,
+    entities: ReadonlyArray<ElementModel>,
+    relations: ReadonlyArray<LinkModel>
+): ValidationEvent {
+    return {
+        target,
+        outboundLinks: relations.filter(relation => relation.sourceId === target.id),
+        entities: new Map(entities.map(entity => [entity.id, entity])),
+        relations,
+        graph: {factory: Rdf.DefaultDataFactory} as Partial<DataGraphStructure> as DataGraphStructure,
+        state: AuthoringState.empty,
+        signal: undefined,
+    };
+}
+
+describe('ShaclValidationProvider', () => {
+    it('validates entity properties and relations against shapes', async () => {
+        const provider = await loadRdfData(SHAPES_DATA);
+        const validation = new ShaclValidationProvider({
+            shapes: ShaclShapes.fromDataProvider(provider),
+        });
+
+        const factory = Rdf.DefaultDataFactory;
+        const alice = makeEntity('http://example.com/alice', [person], {
+            'http://example.com/email': [factory.literal('alice.example.com')],
+            'http://example.com/status': [factory.literal('unknown')],
+        });
+        const acme = makeEntity('http://example.com/acme', [organization]);
+        const bob = makeEntity('http://example.com/bob', [person]);
+        const toAcme: LinkModel = {sourceId: alice.id, targetId: acme.id, linkTypeId: worksFor, properties: {}};
+        const toBob: LinkModel = {sourceId: alice.id, targetId: bob.id, linkTypeId: worksFor, properties: {}};
+        const relations: LinkModel[] = [
+            toAcme,
+            toBob,
+            {sourceId: acme.id, targetId: 'http://example.com/x' as ElementIri, linkTypeId: locatedIn, properties: {}},
+            {sourceId: bob.id, targetId: 'http://example.com/y' as ElementIri, linkTypeId: locatedIn, properties: {}},
+        ];
+
+        const result = await validation.validate(makeEvent(alice, [alice, acme, bob], relations));
+        expect(result.items.map(item => [item.type, item.severity, item.message])).toEqual([
+            ['element', 'error', 'Expected at least 1 value(s) for <http://example.com/name>'],
+            [
+                'element', 'warning',
+                'Value "alice.example.com" for <http://example.com/email> does not match pattern "^[^@]+@[^@]+$"',
+            ],
+            ['element', 'error', 'Unknown status'],
+            [
+                'link', 'error',
+                'Value <http://example.com/bob> for <http://example.com/worksFor> ' +
+                'is not an instance of <http://example.com/Organization>',
+            ],
+            [
+                'element', 'info',
+                'Expected at most 1 value(s) for <http://example.com/worksFor>/<http://example.com/locatedIn>',
+            ],
+        ]);
+        expect(result.items[3].target).toBe(toBob);
+
+        const fixed = await validation.validate(makeEvent(
+            {...alice, properties: {'http://example.com/name': [factory.literal('Alice')]}},
+            [alice, acme, bob],
+            relations.filter(relation => relation !== toBob)
+        ));
+        expect(fixed.items).toEqual([]);
+    });
+
+    it('does not check minimum count for relations which may be missing on the diagram', async () => {
+        const provider = await loadRdfData(SHAPES_DATA);
+        const validation = new ShaclValidationProvider({
+            shapes: ShaclShapes.fromDataProvider(provider),
+        });
+
+        const bob = makeEntity('http://example.com/bob', [person], {
+            'http://example.com/name': [Rdf.DefaultDataFactory.literal('Bob')],
+        });
+        const result = await validation.validate(makeEvent(bob, [bob], []));
+        expect(result.items).toEqual([]);
+    });
+});
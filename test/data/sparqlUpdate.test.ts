@@ -0,0 +1,103 @@
+import { expect, describe, it } from 'vitest';
+
+import { AuthoringState } from '../../src/editor/authoringState';
+import { ElementIri, ElementModel, ElementTypeIri, LinkModel, LinkTypeIri } from '../../src/data/model';
+import * as Rdf from '../../src/data/rdf/rdfModel';
+import { SparqlDataProvider, SparqlQueryFunction } from '../../src/data/sparql/sparqlDataProvider';
+import { RdfSettings } from '../../src/data/sparql/sparqlDataProviderSettings';
+
+const factory = Rdf.DefaultDataFactory;
+
+const alice: ElementModel = {
+    id: 'http://example.com/alice' as ElementIri,
+    types: ['http://example.com/Person' as ElementTypeIri],
+    label: [factory.literal('Alice', 'en')],
+    properties: {},
+};
+
+const knows: LinkModel = {
+    sourceId: alice.id,
+    linkTypeId: 'http://example.com/knows' as LinkTypeIri,
+    targetId: 'http://example.com/bob' as ElementIri,
+    properties: {},
+};
+
+function createProvider(failOn?: string, settings = RdfSettings) {
+    const updates: string[] = [];
+    const queryFunction: SparqlQueryFunction = async ({body}) => {
+        updates.push(body!);
+        return failOn && body!.includes(failOn)
+            ? new Response(null, {status: 500, statusText: 'Server Error'})
+            : new Response(null, {status: 204});
+    };
+    const provider = new SparqlDataProvider(
+        {endpointUrl: '/sparql', queryFunction},
+        settings
+    );
+    return {provider, updates};
+}
+
+describe('SparqlDataProvider.commitAuthoringState()', () => {
+    it('writes added entities and relations with SPARQL Update', async () => {
+        const {provider, updates} = createProvider();
+        let state = AuthoringState.addEntity(AuthoringState.empty, alice);
+        state = AuthoringState.addRelation(state, knows);
+
+        const result = await provider.commitAuthoringState({state});
+        expect(result.failed).toEqual([]);
+        expect(result.committed.length).toEqual(2);
+        expect(AuthoringState.isEmpty(result.state)).toBe(true);
+        expect(updates).toEqual([
+            'INSERT DATA {\n' +
+            '<http://example.com/alice> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> ' +
+            '<http://example.com/Person> .\n' +
+            '<http://example.com/alice> rdfs:label "Alice"@en .\n' +
+            '}',
+            'INSERT DATA {\n' +
+            '<http://example.com/alice> <http://example.com/knows> <http://example.com/bob> .\n' +
+            '}',
+        ]);
+    });
+
+    it('keeps failed events in the remaining authoring state', async () => {
+        const {provider} = createProvider('knows');
+        let state = AuthoringState.addEntity(AuthoringState.empty, alice);
+        state = AuthoringState.addRelation(state, knows);
+
+        const result = await provider.commitAuthoringState({
+            state,
+            targetGraph: 'http://example.com/graph',
+        });
+        expect(result.committed.map(e => e.type)).toEqual(['entityAdd']);
+        expect(result.failed.map(f => f.event.type)).toEqual(['relationAdd']);
+        expect(result.state.elements.size).toEqual(0);
+        expect(AuthoringState.isAddedRelation(result.state, knows)).toBe(true);
+    });
+
+    it('fails to write relations with property path link configuration', async () => {
+        const {provider, updates} = createProvider(undefined, {
+            ...RdfSettings,
+            linkConfigurations: [{id: knows.linkTypeId, path: '^<http://example.com/knownBy>'}],
+        });
+        const state = AuthoringState.addRelation(AuthoringState.empty, knows);
+
+        const result = await provider.commitAuthoringState({state});
+        expect(result.committed).toEqual([]);
+        expect(result.failed.map(f => f.event.type)).toEqual(['relationAdd']);
+        expect(updates).toEqual([]);
+    });
+
+    it('fails to write relation property changes', async () => {
+        const {provider, updates} = createProvider();
+        const changed: LinkModel = {
+            ...knows,
+            properties: {'http://example.com/since': [factory.literal('2020')]},
+        };
+        const state = AuthoringState.changeRelation(AuthoringState.empty, knows, changed);
+
+        const result = await provider.commitAuthoringState({state});
+        expect(result.failed.map(f => f.event.type)).toEqual(['relationChange']);
+        expect(AuthoringState.isEmpty(result.state)).toBe(false);
+        expect(updates).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import { expect, describe, it } from 'vitest';
+
+import { TextIndex, tokenizeText } from '../../src/data/textIndex';
+import { RdfDataProvider } from '../../src/data/rdf/rdfDataProvider';
+
+describe('tokenizeText()', () => {
+    it('splits text into lower-cased words without diacritics', () => {
+        expect(tokenizeText('Crème Brûlée, (2nd) édition')).toEqual(
+            ['creme', 'brulee', '2nd', 'edition']
+        );
+    });
+});
+
+describe('TextIndex', () => {
+    it('matches all query tokens by prefix', () => {
+        const index = new TextIndex<string>();
+        index.add('a', 'Linked Data Science');
+        index.add('b', 'Data structures');
+        index.add('c', 'Science fiction');
+
+        expect(index.search('dat sci').map(m => m.key)).toEqual(['a']);
+        expect(index.search('scien').map(m => m.key).sort()).toEqual(['a', 'c']);
+        expect(index.search('missing')).toEqual([]);
+    });
+
+    it('ranks exact token matches higher than prefix matches', () => {
+        const index = new TextIndex<string>();
+        index.add('prefix', 'Organizations');
+        index.add('exact', 'Organ');
+
+        expect(index.search('organ').map(m => m.key)).toEqual(['exact', 'prefix']);
+    });
+
+    it('disables prefix matching via option', () => {
+        const index = new TextIndex<string>({prefixMatch: false});
+        index.add('a', 'Organization');
+
+        expect(index.search('organ')).toEqual([]);
+        expect(index.search('ORGANIZATION').map(m => m.key)).toEqual(['a']);
+    });
+
+    it('removes documents from the index', () => {
+        const index = new TextIndex<string>();
+        index.add('a', 'First label');
+        index.add('a', 'Second label');
+        index.delete('a', 'First label');
+
+        expect(index.search('first')).toEqual([]);
+        expect(index.search('label').map(m => m.key)).toEqual(['a']);
+        expect(index.documentCount).toEqual(1);
+    });
+
+    it('matches texts only from the specified scopes', () => {
+        const index = new TextIndex<string>();
+        index.add('a', 'Linked Data', undefined, 'g1');
+        index.add('a', 'Science', undefined, 'g2');
+        index.add('b', 'Data Science', undefined, 'g2');
+
+        expect(index.search('data science').map(m => m.key).sort()).toEqual(['a', 'b']);
+        expect(index.search('data science', {scopes: new Set(['g2'])}).map(m => m.key)).toEqual(['b']);
+        expect(index.search('linked', {scopes: new Set(['g2'])})).toEqual([]);
+
+        index.delete('a', 'Linked Data', undefined, 'g1');
+        expect(index.search('linked')).toEqual([]);
+        expect(index.documentCount).toEqual(2);
+    });
+});
+
+describe('RdfDataProvider with text index', () => {
+    it('returns lookup results ordered by relevance', async () => {
+        const provider = new RdfDataProvider({textIndex: true});
+        await provider.addSerializedGraph(`
+            @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+            @prefix ex: <http://example.com/> .
+            ex:a rdfs:label "Étude in Organization"@en .
+            ex:b rdfs:label "Organ"@en .
+            ex:c rdfs:label "Unrelated"@en .
+        `);
+
+        const items = await provider.lookup({text: 'organ'});
+        expect(items.map(item => item.element.id)).toEqual([
+            'http://example.com/b',
+            'http://example.com/a',
+        ]);
+
+        const folded = await provider.lookup({text: 'etude'});
+        expect(folded.map(item => item.element.id)).toEqual(['http://example.com/a']);
+    });
+});
@@ -0,0 +1,188 @@
+import { expect, describe, it } from 'vitest';
+
+import type { ElementIri, ElementTypeIri, LinkTypeIri } from '../../src/data/model';
+import type { SparqlQueryFunction } from '../../src/data/sparql/sparqlDataProvider';
+import { TpfDataProvider } from '../../src/data/tpf/tpfDataProvider';
+
+const FRAGMENTS_URL = 'http://example.com/fragments';
+
+const DATA: ReadonlyArray<readonly [string, string, string]> = [
+    ['<http://example.com/alice>', '<http://www.w3.org/1999/02/22-rdf-syntax-ns#type>', '<http://example.com/Person>'],
+    ['<http://example.com/alice>', '<http://www.w3.org/2000/01/rdf-schema#label>', '"Alice"'],
+    ['<http://example.com/alice>', '<http://example.com/age>', '42'],
+    ['<http://example.com/alice>', '<http://example.com/knows>', '<http://example.com/bob>'],
+    ['<http://example.com/alice>', '<http://example.com/knows>', '<http://example.com/carol>'],
+    ['<http://example.com/bob>', '<http://www.w3.org/1999/02/22-rdf-syntax-ns#type>', '<http://example.com/Person>'],
+    ['<http://example.com/bob>', '<http://www.w3.org/2000/01/rdf-schema#label>', '"Bob"'],
+    ['<http://example.com/carol>', '<http://www.w3.org/1999/02/22-rdf-syntax-ns#type>', '<http://example.com/Person>'],
+    ['<http://example.com/carol>', '<http://www.w3.org/2000/01/rdf-schema#label>', '"Carol"'],
+    ['<http://example.com/carol>', '<http://example.com/knows>', '<http://example.com/alice>'],
+];
+
+/**
+ * Stand-in Triple Pattern Fragments server with a page size of 2 triples.
+ */
+function makeFragmentsServer(requests: string[]): SparqlQueryFunction {
+    const pageSize = 2;
+    return async ({url}) => {
+        requests.push(url);
+        const parsed = new URL(url);
+        const {searchParams} = parsed;
+        const page = Number(searchParams.get('page') ?? '1');
+        const matched = DATA.filter(([s, p, o]) =>
+            matchTerm(s, searchParams.get('subject')) &&
+            matchTerm(p, searchParams.get('predicate')) &&
+            matchTerm(o, searchParams.get('object'))
+        );
+        const pageTriples = matched.slice((page - 1) * pageSize, page * pageSize);
+
+        const lines = [
+            '@prefix hydra: <http://www.w3.org/ns/hydra/core#> .',
+            '@prefix void: <http://rdfs.org/ns/void#> .',
+            '@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .',
+            `<${FRAGMENTS_URL}#dataset> hydra:search [`,
+            `  hydra:template "${FRAGMENTS_URL}{?subject,predicate,object}" ;`,
+            '  hydra:mapping [ hydra:variable "subject" ; hydra:property rdf:subject ],',
+            '    [ hydra:variable "predicate" ; hydra:property rdf:predicate ],',
+            '    [ hydra:variable "object" ; hydra:property rdf:object ]',
+            '] .',
+            `<${url}> void:triples ${matched.length} .`,
+        ];
+        if (page * pageSize < matched.length) {
+            parsed.searchParams.set('page', String(page + 1));
+            lines.push(`<${url}> hydra:next <${parsed.toString()}> .`);
+        }
+        for (const [s, p, o] of pageTriples) {
+            lines.push(`${s} ${p} ${o} .`);
+        }
+        return new Response(lines.join('\n'), {
+            headers: {'Content-Type': 'text/turtle'},
+        });
+    };
+}
+
+function matchTerm(term: string, value: string | null): boolean {
+    return value === null || term === `<${value}>`;
+}
+
+describe('TpfDataProvider', () => {
+    it('provides elements and links by paging through fragments', async () => {
+        const requests: string[] = [];
+        const provider = new TpfDataProvider({
+            fragmentsUrl: FRAGMENTS_URL,
+            queryFunction: makeFragmentsServer(requests),
+        });
+
+        const alice = 'http://example.com/alice' as ElementIri;
+        const bob = 'http://example.com/bob' as ElementIri;
+        const carol = 'http://example.com/carol' as ElementIri;
+        const knows = 'http://example.com/knows' as LinkTypeIri;
+
+        const elements = await provider.elements({elementIds: [alice]});
+        const aliceModel = elements.get(alice)!;
+        expect(aliceModel.types).toEqual(['http://example.com/Person']);
+        expect(aliceModel.label.map(label => label.value)).toEqual(['Alice']);
+        expect(aliceModel.properties['http://example.com/age'].map(v => v.value)).toEqual(['42']);
+        // Fragment for alice has 5 triples requested as 3 pages after the entry point
+        expect(requests.length).toBe(4);
+
+        const links = await provider.links({primary: [alice], secondary: [bob, carol]});
+        expect(links.map(link => [link.sourceId, link.targetId]).sort()).toEqual([
+            [alice, bob],
+            [alice, carol],
+            [carol, alice],
+        ]);
+
+        const stats = await provider.connectedLinkStats({elementId: alice});
+        expect(stats.find(stat => stat.id === knows)).toEqual({
+            id: knows,
+            inCount: 1,
+            outCount: 2,
+            inexact: undefined,
+        });
+    });
+
+    it('requests links in chunks of elements', async () => {
+        const requests: string[] = [];
+        const provider = new TpfDataProvider({
+            fragmentsUrl: FRAGMENTS_URL,
+            queryFunction: makeFragmentsServer(requests),
+            linksChunkSize: 2,
+        });
+
+        const alice = 'http://example.com/alice' as ElementIri;
+        const bob = 'http://example.com/bob' as ElementIri;
+        const carol = 'http://example.com/carol' as ElementIri;
+
+        const links = await provider.links({primary: [alice, bob, carol], secondary: [alice, bob, carol]});
+        expect(links.map(link => [link.sourceId, link.targetId]).sort()).toEqual([
+            [alice, bob],
+            [alice, carol],
+            [carol, alice],
+        ]);
+        // Fragments for each element are requested only once
+        // (entry point + 3 pages for alice + 1 page for bob + 2 pages for carol)
+        expect(requests.length).toBe(7);
+
+        expect(() => new TpfDataProvider({fragmentsUrl: FRAGMENTS_URL, linksChunkSize: 0}))
+            .toThrow(/linksChunkSize/);
+    });
+
+    it('looks up elements by type with a text filter', async () => {
+        const provider = new TpfDataProvider({
+            fragmentsUrl: FRAGMENTS_URL,
+            queryFunction: makeFragmentsServer([]),
+        });
+        const elementTypeId = 'http://example.com/Person' as ElementTypeIri;
+
+        const all = await provider.lookup({elementTypeId});
+        expect(all.map(item => item.element.id)).toEqual([
+            'http://example.com/alice',
+            'http://example.com/bob',
+            'http://example.com/carol',
+        ]);
+
+        const filtered = await provider.lookup({elementTypeId, text: 'car'});
+        expect(filtered.map(item => item.element.id)).toEqual(['http://example.com/carol']);
+
+        const page = await provider.lookup({elementTypeId, limit: 1, offset: 1});
+        expect(page.map(item => item.element.id)).toEqual(['http://example.com/bob']);
+
+        expect(await provider.lookup({text: 'alice'})).toEqual([]);
+    });
+
+    it('stops text lookup when enough matching elements are found', async () => {
+        const requests: string[] = [];
+        const provider = new TpfDataProvider({
+            fragmentsUrl: FRAGMENTS_URL,
+            queryFunction: makeFragmentsServer(requests),
+            maxParallelRequests: 1,
+        });
+        const elementTypeId = 'http://example.com/Person' as ElementTypeIri;
+
+        const found = await provider.lookup({elementTypeId, text: 'a', limit: 1});
+        expect(found.map(item => item.element.id)).toEqual(['http://example.com/alice']);
+        const requestedSubjects = requests
+            .map(url => new URL(url).searchParams.get('subject'))
+            .filter(subject => subject);
+        expect(requestedSubjects).not.toContain('http://example.com/carol');
+    });
+
+    it('does not fail concurrent requests when one of them is aborted', async () => {
+        const provider = new TpfDataProvider({
+            fragmentsUrl: FRAGMENTS_URL,
+            queryFunction: makeFragmentsServer([]),
+        });
+        const alice = 'http://example.com/alice' as ElementIri;
+        const bob = 'http://example.com/bob' as ElementIri;
+
+        const cancellation = new AbortController();
+        const aborted = provider.elements({elementIds: [alice], signal: cancellation.signal});
+        const other = provider.elements({elementIds: [bob]});
+        cancellation.abort();
+
+        await expect(aborted).rejects.toThrow();
+        const elements = await other;
+        expect(Array.from(elements.keys())).toEqual([bob]);
+    });
+});
@@ -3,6 +3,7 @@ import { EmptyDataProvider } from '../../src/data/decorated/emptyDataProvider';
 import {
     ElementIri, ElementModel,
     ElementTypeGraph,
+    LinkTypeGraph,
     ElementTypeIri, ElementTypeModel,
     LinkModel,
     LinkTypeIri, LinkTypeModel,
@@ -44,7 +45,7 @@ export class MockDataProvider extends EmptyDataProvider {
 
     knownLinkTypes(params: {
         signal?: AbortSignal | undefined;
-    }): Promise<LinkTypeModel[]> {
+    }): Promise<LinkTypeGraph> {
         const linkTypes: LinkTypeModel[] = [
             {
                 id: linkType('aa'),
@@ -59,7 +60,13 @@ export class MockDataProvider extends EmptyDataProvider {
                 label: [],
             },
         ];
-        return Promise.resolve(linkTypes);
+        const linkTypeGraph: LinkTypeGraph = {
+            linkTypes,
+            subtypeOf: [
+                [linkType('bb'), linkType('aa')],
+            ],
+        };
+        return Promise.resolve(linkTypeGraph);
     }
 
     elements(params: {
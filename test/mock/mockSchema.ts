@@ -0,0 +1,21 @@
+import type { ElementIri, ElementModel, ElementTypeIri } from '../../src/data/model';
+import type * as Rdf from '../../src/data/rdf/rdfModel';
+import { RdfDataProvider } from '../../src/data/rdf/rdfDataProvider';
+import type { RdfTextFormat } from '../../src/data/rdf/rdfParser';
+
+export function makeEntity(
+    id: string,
+    types: ElementTypeIri[],
+    properties: { [id: string]: Array<Rdf.NamedNode | Rdf.Literal> } = {}
+): ElementModel {
+    return {id: id as ElementIri, types, label: [], properties};
+}
+
+export async function loadRdfData(
+    data: string,
+    format: RdfTextFormat = 'text/turtle'
+): Promise<RdfDataProvider> {
+    const provider = new RdfDataProvider();
+    await provider.addSerializedGraph(data, {format});
+    return provider;
+}